@@ -4,89 +4,59 @@ import { useEffect, useState } from 'react'
 import { useRouter } from 'next/navigation'
 import { Shield, Users, Clock, TrendingUp, LogOut, Search, ChevronRight } from 'lucide-react'
 import EchoLoader from '@/components/EchoLoader'
+import RequireAuth from '@/components/RequireAuth'
+import AccessDenied from '@/components/AccessDenied'
+import { useAuth } from '@/hooks/useAuth'
+import { ApiError } from '@/lib/httpClient'
+import { getAdminStats, getAdminUsers, type AdminStats, type AdminUser } from '@/lib/adminApi'
 
-interface User {
-  user_id: string
-  email: string
-  full_name: string
-  healthcare_domain: string
-  session_count: number
-  total_time_seconds: number
-  latest_session_date: string | null
-  created_at: string
-}
-
-interface Stats {
-  total_users: number
-  total_sessions: number
-  completed_sessions: number
-  total_training_time_hours: number
-  average_session_duration_seconds: number
-  sessions_by_category: Record<string, number>
-  sessions_with_audio: number
-  sessions_with_evaluation: number
-}
-
-export default function AdminDashboard() {
+function AdminDashboardContent() {
   const router = useRouter()
-  const [users, setUsers] = useState<User[]>([])
-  const [stats, setStats] = useState<Stats | null>(null)
+  const { signOut } = useAuth()
+  const [users, setUsers] = useState<AdminUser[]>([])
+  const [stats, setStats] = useState<AdminStats | null>(null)
   const [loading, setLoading] = useState(true)
+  const [forbidden, setForbidden] = useState(false)
+  const [loadError, setLoadError] = useState<string | null>(null)
   const [searchTerm, setSearchTerm] = useState('')
 
   useEffect(() => {
-    // Check if admin is authenticated
-    const credentials = sessionStorage.getItem('admin_credentials')
-    if (!credentials) {
-      router.push('/admin/login')
-      return
-    }
-
-    fetchData(credentials)
+    fetchData()
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [])
 
-  const fetchData = async (credentials: string) => {
+  const fetchData = async () => {
     try {
       setLoading(true)
+      setLoadError(null)
 
-      // Fetch users
-      const usersResponse = await fetch('http://localhost:8000/api/v1/admin/users', {
-        headers: {
-          'Authorization': `Basic ${credentials}`
-        }
-      })
-
-      if (!usersResponse.ok) {
-        throw new Error('Unauthorized')
-      }
+      const [usersData, statsData] = await Promise.all([
+        getAdminUsers(),
+        // Stats are optional - the user list is still useful without them
+        getAdminStats().catch((error) => {
+          console.warn('[Admin] Could not load stats:', error)
+          return null
+        }),
+      ])
 
-      const usersData = await usersResponse.json()
       setUsers(usersData.users)
-
-      // Fetch stats
-      const statsResponse = await fetch('http://localhost:8000/api/v1/admin/stats', {
-        headers: {
-          'Authorization': `Basic ${credentials}`
-        }
-      })
-
-      if (statsResponse.ok) {
-        const statsData = await statsResponse.json()
-        setStats(statsData)
-      }
+      setStats(statsData)
     } catch (error) {
       console.error('Error fetching admin data:', error)
-      sessionStorage.removeItem('admin_credentials')
-      router.push('/admin/login')
+      // An expired session is handled by useAuth (redirect to login); a 403
+      // means the account lost its admin role since the page was opened.
+      if (error instanceof ApiError && error.status === 403) {
+        setForbidden(true)
+      } else {
+        setLoadError(error instanceof Error ? error.message : 'Failed to load admin data')
+      }
     } finally {
       setLoading(false)
     }
   }
 
   const handleLogout = () => {
-    sessionStorage.removeItem('admin_credentials')
-    router.push('/admin/login')
+    signOut()
   }
 
   const handleUserClick = (userId: string) => {
@@ -128,6 +98,14 @@ export default function AdminDashboard() {
     )
   }
 
+  if (forbidden) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <AccessDenied description="Your account no longer has admin access. Contact another administrator if you think this is a mistake." />
+      </div>
+    )
+  }
+
   return (
     <div className="min-h-screen bg-gray-50">
       {/* Header */}
@@ -153,6 +131,15 @@ export default function AdminDashboard() {
       </div>
 
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {loadError && (
+          <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm mb-8 flex items-center justify-between">
+            <span>{loadError}</span>
+            <button onClick={fetchData} className="font-medium underline hover:no-underline">
+              Retry
+            </button>
+          </div>
+        )}
+
         {/* Stats Cards */}
         {stats && (
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6 mb-8">
@@ -263,3 +250,17 @@ export default function AdminDashboard() {
   )
 }
 
+export default function AdminDashboard() {
+  return (
+    <RequireAuth
+      requiredRole="admin"
+      fallback={
+        <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+          <EchoLoader context="admin" />
+        </div>
+      }
+    >
+      <AdminDashboardContent />
+    </RequireAuth>
+  )
+}
@@ -2,141 +2,76 @@
 
 import { useEffect, useState } from 'react'
 import { useRouter, useParams } from 'next/navigation'
-import { ArrowLeft, Calendar, Clock, MessageCircle, Award, Volume2, Play, Pause, User, Bot } from 'lucide-react'
+import { ArrowLeft, Calendar, Clock, MessageCircle, Award, Volume2, Play, Pause, User, Bot, MessageSquarePlus } from 'lucide-react'
 import { formatScenarioTitle } from '@/lib/utils'
+import RequireAuth from '@/components/RequireAuth'
+import AccessDenied from '@/components/AccessDenied'
+import EvaluationReviewPanel from '@/components/EvaluationReviewPanel'
+import { ApiError } from '@/lib/httpClient'
+import {
+  getAdminSessionDetails,
+  getAdminUserSessions,
+  type AdminSessionDetails,
+  type AdminSessionSummary,
+  type AdminUserProfile,
+} from '@/lib/adminApi'
+import type { OSCEEvaluation } from '@/lib/osceEvaluation'
 
-interface Session {
-  session_id: string
-  scenario_title: string
-  scenario_type: string
-  category: string
-  patient_mood: string
-  started_at: string
-  ended_at: string
-  duration_seconds: number
-  total_turns: number
-  has_audio: boolean
-  student_audio_count: number
-  patient_audio_count: number
-  evaluation_score: number | null
-  evaluation_feedback: boolean
-}
-
-interface SessionDetails {
-  session_id: string
-  user: {
-    user_id: string
-    email: string
-    full_name: string
-    healthcare_domain: string
-  }
-  scenario: {
-    title: string
-    type: string
-    category: string
-    patient_mood: string
-    system_prompt: string
-  }
-  timing: {
-    started_at: string
-    ended_at: string
-    duration_seconds: number
-  }
-  conversation: {
-    total_turns: number
-    transcript: Array<{
-      speaker: string
-      text: string
-      timestamp: number
-    }>
-  }
-  audio: {
-    has_audio: boolean
-    student_audio: Array<{
-      timestamp: number
-      audio_base64: string
-      size_bytes: number
-      duration: number | null
-    }>
-    patient_audio: Array<{
-      timestamp: number
-      audio_base64: string
-      size_bytes: number
-      duration: number | null
-    }>
-  }
-  evaluation: {
-    score: number | null
-    feedback: any
-  }
-}
-
-export default function UserSessionsPage() {
+function UserSessionsContent() {
   const router = useRouter()
   const params = useParams()
   const userId = params?.userId as string
 
-  const [user, setUser] = useState<any>(null)
-  const [sessions, setSessions] = useState<Session[]>([])
-  const [selectedSession, setSelectedSession] = useState<SessionDetails | null>(null)
+  const [user, setUser] = useState<AdminUserProfile | null>(null)
+  const [sessions, setSessions] = useState<AdminSessionSummary[]>([])
+  const [selectedSession, setSelectedSession] = useState<AdminSessionDetails | null>(null)
   const [loading, setLoading] = useState(true)
+  const [forbidden, setForbidden] = useState(false)
+  const [loadError, setLoadError] = useState<string | null>(null)
   const [detailsLoading, setDetailsLoading] = useState(false)
   const [playingAudio, setPlayingAudio] = useState<{ type: 'student' | 'patient', index: number } | null>(null)
   const [audioElement, setAudioElement] = useState<HTMLAudioElement | null>(null)
+  const [commentTurn, setCommentTurn] = useState<number | null>(null)
 
   useEffect(() => {
-    const credentials = sessionStorage.getItem('admin_credentials')
-    if (!credentials) {
-      router.push('/admin/login')
-      return
-    }
-
-    fetchUserSessions(credentials)
+    fetchUserSessions()
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [userId])
 
-  const fetchUserSessions = async (credentials: string) => {
+  // Expired sessions are handled by useAuth; a 403 means admin access was revoked
+  const handleLoadError = (error: unknown, fallback: string) => {
+    if (error instanceof ApiError && error.status === 403) {
+      setForbidden(true)
+    } else {
+      setLoadError(error instanceof Error ? error.message : fallback)
+    }
+  }
+
+  const fetchUserSessions = async () => {
     try {
       setLoading(true)
-      const response = await fetch(`http://localhost:8000/api/v1/admin/users/${userId}/sessions`, {
-        headers: {
-          'Authorization': `Basic ${credentials}`
-        }
-      })
-
-      if (!response.ok) {
-        throw new Error('Unauthorized')
-      }
-
-      const data = await response.json()
+      setLoadError(null)
+      const data = await getAdminUserSessions(userId)
       setUser(data.user)
       setSessions(data.sessions)
     } catch (error) {
       console.error('Error fetching user sessions:', error)
-      router.push('/admin/login')
+      handleLoadError(error, 'Failed to load user sessions')
     } finally {
       setLoading(false)
     }
   }
 
   const fetchSessionDetails = async (sessionId: string) => {
-    const credentials = sessionStorage.getItem('admin_credentials')
-    if (!credentials) return
-
     try {
       setDetailsLoading(true)
-      const response = await fetch(`http://localhost:8000/api/v1/admin/sessions/${sessionId}`, {
-        headers: {
-          'Authorization': `Basic ${credentials}`
-        }
-      })
-
-      if (response.ok) {
-        const data = await response.json()
-        setSelectedSession(data)
-      }
+      setLoadError(null)
+      setCommentTurn(null)
+      const data = await getAdminSessionDetails(sessionId)
+      setSelectedSession(data)
     } catch (error) {
       console.error('Error fetching session details:', error)
+      handleLoadError(error, 'Failed to load session details')
     } finally {
       setDetailsLoading(false)
     }
@@ -169,6 +104,18 @@ export default function UserSessionsPage() {
     setPlayingAudio({ type, index })
   }
 
+  // Keep the list and detail scores in step with a saved review
+  const handleReviewSaved = (evaluation: OSCEEvaluation) => {
+    if (!selectedSession) return
+    const score = Math.round(evaluation.percentage)
+    setSelectedSession({ ...selectedSession, evaluation: { ...selectedSession.evaluation, score } })
+    setSessions((current) =>
+      current.map((session) =>
+        session.session_id === selectedSession.session_id ? { ...session, evaluation_score: score } : session
+      )
+    )
+  }
+
   const formatTimestamp = (seconds: number) => {
     const mins = Math.floor(seconds / 60)
     const secs = Math.floor(seconds % 60)
@@ -200,6 +147,14 @@ export default function UserSessionsPage() {
     )
   }
 
+  if (forbidden) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <AccessDenied description="Your account no longer has admin access. Contact another administrator if you think this is a mistake." />
+      </div>
+    )
+  }
+
   return (
     <div className="min-h-screen bg-gray-50">
       {/* Header */}
@@ -229,6 +184,12 @@ export default function UserSessionsPage() {
       </div>
 
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {loadError && (
+          <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm mb-6">
+            {loadError}
+          </div>
+        )}
+
         <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
           {/* Sessions List */}
           <div>
@@ -337,12 +298,19 @@ export default function UserSessionsPage() {
                                   {isPlaying ? <Pause className="h-3 w-3" /> : <Play className="h-3 w-3" />}
                                 </button>
                               )}
+                              <button
+                                onClick={() => setCommentTurn(index)}
+                                className={`p-1 rounded hover:bg-gray-100 transition-colors ${commentTurn === index ? 'text-indigo-600' : 'text-gray-400'}`}
+                                title="Comment on this turn"
+                              >
+                                <MessageSquarePlus className="h-3 w-3" />
+                              </button>
                             </div>
                             <div className={`p-3 rounded-lg ${
                               isStudent
                                 ? 'bg-indigo-100 text-indigo-900'
                                 : 'bg-gray-100 text-gray-900'
-                            }`}>
+                            } ${commentTurn === index ? 'ring-2 ring-indigo-400' : ''}`}>
                               {turn.text}
                             </div>
                           </div>
@@ -366,6 +334,17 @@ export default function UserSessionsPage() {
                     </div>
                   )}
                 </div>
+
+                {/* Faculty review */}
+                <div className="p-6 border-t">
+                  <EvaluationReviewPanel
+                    sessionId={selectedSession.session_id}
+                    transcript={selectedSession.conversation.transcript}
+                    commentTurn={commentTurn}
+                    onCommentTurnChange={setCommentTurn}
+                    onSaved={handleReviewSaved}
+                  />
+                </div>
               </div>
             ) : (
               <div className="bg-white rounded-lg shadow p-8 text-center text-gray-500">
@@ -379,3 +358,17 @@ export default function UserSessionsPage() {
   )
 }
 
+export default function UserSessionsPage() {
+  return (
+    <RequireAuth
+      requiredRole="admin"
+      fallback={
+        <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-indigo-600"></div>
+        </div>
+      }
+    >
+      <UserSessionsContent />
+    </RequireAuth>
+  )
+}
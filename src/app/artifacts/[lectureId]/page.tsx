@@ -4,8 +4,11 @@ import { useEffect, useState, useMemo, useCallback, lazy, Suspense } from 'react
 import { useRouter, useParams } from 'next/navigation'
 import { useAuth } from '@/hooks/useAuth'
 import { apiClient } from '@/lib/api'
+import { ApiError, http } from '@/lib/httpClient'
 import { useToast } from '@/hooks/use-toast'
 import DashboardNav from '@/components/DashboardNav'
+import RequireAuth from '@/components/RequireAuth'
+import EchoLoader from '@/components/EchoLoader'
 import {
     BookOpen, CreditCard, HelpCircle, Stethoscope, MessageSquare,
     Loader2, CheckCircle, XCircle, ChevronLeft, ChevronRight,
@@ -137,11 +140,11 @@ interface Artifact {
     error_message?: string
 }
 
-export default function ArtifactsPage() {
+function ArtifactsContent() {
     const router = useRouter()
     const params = useParams()
     const lectureId = params.lectureId as string
-    const { user, loading: authLoading } = useAuth()
+    const { user } = useAuth()
     const { toast } = useToast()
 
     const [lectureTitle, setLectureTitle] = useState('')
@@ -200,15 +203,8 @@ export default function ArtifactsPage() {
     // Fetch quiz history from API
     const fetchQuizHistory = async () => {
         try {
-            const token = apiClient.getToken()
-            const apiUrl = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:8000'
-            const res = await fetch(`${apiUrl}/api/v1/artifacts/lecture/${lectureId}/quiz/history`, {
-                headers: { 'Authorization': `Bearer ${token}` },
-            })
-            if (res.ok) {
-                const data = await res.json()
-                setQuizHistory(data.entries || [])
-            }
+            const data = await http.get<{ entries?: unknown[] }>(`/artifacts/lecture/${lectureId}/quiz/history`)
+            setQuizHistory(data.entries || [])
         } catch (e) {
             console.error('Failed to fetch quiz history:', e)
         }
@@ -232,35 +228,28 @@ export default function ArtifactsPage() {
 	    const fetchArtifacts = useCallback(async () => {
 	        try {
 	            setFetchError(null)
-            const token = apiClient.getToken()
-            if (!token) {
+            if (!apiClient.getToken()) {
                 router.push('/auth/login')
                 return
             }
-            const apiUrl = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:8000'
-            const response = await fetch(`${apiUrl}/api/v1/artifacts/lecture/${lectureId}`, {
-                headers: { 'Authorization': `Bearer ${token}` },
-            })
-            if (response.status === 401 || response.status === 403) {
+            const data = await http.get<{ lecture_title: string; artifacts: Artifact[] }>(
+                `/artifacts/lecture/${lectureId}`
+            )
+            setLectureTitle(data.lecture_title)
+            setArtifacts(data.artifacts)
+        } catch (e) {
+            if (e instanceof ApiError && e.isUnauthorized) {
                 router.push('/auth/login')
                 return
             }
-            if (!response.ok) {
-                const detail = await response.text().catch(() => '')
-                console.error('Failed to fetch artifacts:', response.status, detail)
-                if (response.status === 404) {
-                    setFetchError('Lecture not found. It may have been deleted or you may not have access.')
-                } else {
-                    setFetchError(`Failed to load this lecture (HTTP ${response.status}).`)
-                }
-                return
+            console.error('Failed to fetch artifacts:', e)
+            if (e instanceof ApiError && e.status === 404) {
+                setFetchError('Lecture not found. It may have been deleted or you may not have access.')
+            } else if (e instanceof ApiError && !e.isNetworkError) {
+                setFetchError(`Failed to load this lecture (HTTP ${e.status}).`)
+            } else {
+                setFetchError('Network error while loading this lecture.')
             }
-            const data = await response.json()
-            setLectureTitle(data.lecture_title)
-            setArtifacts(data.artifacts)
-        } catch (e) {
-            console.error(e)
-            setFetchError('Network error while loading this lecture.')
         } finally {
             setLoading(false)
         }
@@ -268,14 +257,9 @@ export default function ArtifactsPage() {
 
     // Poll for artifact generation status
     const pollStatus = useCallback(() => {
-        const token = apiClient.getToken()
-        const apiUrl = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:8000'
         let attempts = 0
         const check = async () => {
-            const res = await fetch(`${apiUrl}/api/v1/artifacts/lecture/${lectureId}/status`, {
-                headers: { 'Authorization': `Bearer ${token}` },
-            })
-            const data = await res.json()
+            const data = await http.get<{ in_progress: number }>(`/artifacts/lecture/${lectureId}/status`)
             if (data.in_progress === 0 || attempts++ > 60) { setGenerating(false); fetchArtifacts(); return }
             setTimeout(check, 3000)
         }
@@ -287,21 +271,14 @@ export default function ArtifactsPage() {
 	        if (generating) return // Prevent double-trigger
 	        setGenerating(true)
 	        try {
-            const token = apiClient.getToken()
-            const apiUrl = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:8000'
-            await fetch(`${apiUrl}/api/v1/artifacts/generate`, {
-                method: 'POST',
-                headers: { 'Authorization': `Bearer ${token}`, 'Content-Type': 'application/json' },
-                body: JSON.stringify({ lecture_id: lectureId }),
-            })
+            await http.post('/artifacts/generate', { lecture_id: lectureId })
             pollStatus()
 	        } catch (e) { setGenerating(false) }
 	    }, [lectureId, generating, pollStatus])
 
 	    useEffect(() => {
-	        if (!authLoading && !user) { router.push('/auth/login'); return }
 	        if (lectureId && user) fetchArtifacts()
-	    }, [lectureId, user, authLoading, router, fetchArtifacts])
+	    }, [lectureId, user, fetchArtifacts])
 	    
 	    // Auto-generate if no artifacts exist
 	    useEffect(() => {
@@ -319,14 +296,7 @@ export default function ArtifactsPage() {
         }
 
         setSubmittingQuiz(true)
-        const token = apiClient.getToken()
-        const apiUrl = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:8000'
-        const res = await fetch(`${apiUrl}/api/v1/artifacts/lecture/${lectureId}/quiz/submit`, {
-            method: 'POST',
-            headers: { 'Authorization': `Bearer ${token}`, 'Content-Type': 'application/json' },
-            body: JSON.stringify({ answers: quizAnswers }),
-        })
-        const result = await res.json()
+        const result = await http.post(`/artifacts/lecture/${lectureId}/quiz/submit`, { answers: quizAnswers })
         setQuizResult(result)
 
         // Refresh quiz history from API (backend already saved the result)
@@ -338,27 +308,10 @@ export default function ArtifactsPage() {
     const regenerateQuiz = async () => {
         setRegeneratingQuiz(true)
         try {
-            const token = apiClient.getToken()
-            const apiUrl = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:8000'
-
             // Call regenerate endpoint to get fresh questions
-            const res = await fetch(`${apiUrl}/api/v1/artifacts/lecture/${lectureId}/quiz/regenerate`, {
-                method: 'POST',
-                headers: { 'Authorization': `Bearer ${token}`, 'Content-Type': 'application/json' },
-            })
-
-            if (!res.ok) {
-                const errorData = await res.json().catch(() => ({ detail: 'Unknown error' }))
-                console.error('Failed to regenerate quiz:', errorData)
-                toast({
-                    title: 'Failed to regenerate quiz',
-                    description: errorData.detail || 'Please try again later.',
-                    variant: 'destructive',
-                })
-                return
-            }
-
-            const result = await res.json()
+            const result = await http.post<{ message?: string; questions_generated?: number }>(
+                `/artifacts/lecture/${lectureId}/quiz/regenerate`
+            )
             console.log('Quiz regenerated:', result)
 
             // Reset quiz state
@@ -378,6 +331,14 @@ export default function ArtifactsPage() {
 
         } catch (e) {
             console.error('Error regenerating quiz:', e)
+            if (e instanceof ApiError && !e.isNetworkError) {
+                toast({
+                    title: 'Failed to regenerate quiz',
+                    description: e.message || 'Please try again later.',
+                    variant: 'destructive',
+                })
+                return
+            }
             toast({
                 title: 'Connection Error',
                 description: 'Unable to connect to server. Please check your connection.',
@@ -407,46 +368,36 @@ export default function ArtifactsPage() {
         })
         
         try {
-            const token = apiClient.getToken()
-            const apiUrl = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:8000'
-            const response = await fetch(
-                `${apiUrl}/api/v1/artifacts/lecture/${lectureId}/retry-failed?artifact_type=${artifactType}`,
-                {
-                    method: 'POST',
-                    headers: { 'Authorization': `Bearer ${token}` },
-                }
-            )
-            
-            if (response.ok) {
-                // Poll for completion
-                const pollRetry = async () => {
-                    await new Promise(resolve => setTimeout(resolve, 2000))
-                    await fetchArtifacts()
-                    
-                    // Check if still generating
-                    const updatedArtifacts = artifacts.find(a => a.artifact_type === artifactType)
-                    if (updatedArtifacts?.status === 'generating') {
-                        pollRetry()
-                    } else if (updatedArtifacts?.status === 'completed') {
-                        toast({
-                            title: `✅ ${displayName} ready!`,
-                            description: 'Successfully generated.',
-                            variant: 'success',
-                        })
-                        setRetryingArtifact(null)
-                    } else {
-                        toast({
-                            title: `❌ ${displayName} failed again`,
-                            description: 'Try uploading the lecture again or contact support.',
-                            variant: 'destructive',
-                        })
-                        setRetryingArtifact(null)
-                    }
+            await http.post(`/artifacts/lecture/${lectureId}/retry-failed`, undefined, {
+                query: { artifact_type: artifactType },
+            })
+
+            // Poll for completion
+            const pollRetry = async () => {
+                await new Promise(resolve => setTimeout(resolve, 2000))
+                await fetchArtifacts()
+                
+                // Check if still generating
+                const updatedArtifacts = artifacts.find(a => a.artifact_type === artifactType)
+                if (updatedArtifacts?.status === 'generating') {
+                    pollRetry()
+                } else if (updatedArtifacts?.status === 'completed') {
+                    toast({
+                        title: `✅ ${displayName} ready!`,
+                        description: 'Successfully generated.',
+                        variant: 'success',
+                    })
+                    setRetryingArtifact(null)
+                } else {
+                    toast({
+                        title: `❌ ${displayName} failed again`,
+                        description: 'Try uploading the lecture again or contact support.',
+                        variant: 'destructive',
+                    })
+                    setRetryingArtifact(null)
                 }
-                pollRetry()
-            } else {
-                throw new Error('Retry request failed')
             }
+            pollRetry()
         } catch (e) {
             console.error('Retry error:', e)
             toast({
@@ -476,51 +427,38 @@ export default function ArtifactsPage() {
         })
         
         try {
-            const token = apiClient.getToken()
-            const apiUrl = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:8000'
-            const response = await fetch(
-                `${apiUrl}/api/v1/artifacts/lecture/${lectureId}/generate-more?artifact_type=${artifactType}&count=${count}`,
-                {
-                    method: 'POST',
-                    headers: { 'Authorization': `Bearer ${token}` },
-                }
-            )
-            if (response.ok) {
-                // Refresh artifacts to get updated content
-                await fetchArtifacts()
-                
-                // Show success toast
-                const successLabel = artifactType === 'flashcards' 
-                    ? `${count} new flashcard${count > 1 ? 's' : ''}`
+            await http.post(`/artifacts/lecture/${lectureId}/generate-more`, undefined, {
+                query: { artifact_type: artifactType, count },
+            })
+            // Refresh artifacts to get updated content
+            await fetchArtifacts()
+            
+            // Show success toast
+            const successLabel = artifactType === 'flashcards' 
+                ? `${count} new flashcard${count > 1 ? 's' : ''}`
+                : artifactType === 'clinical_case'
+                    ? 'New clinical case'
+                    : artifactType === 'simulation'
+                        ? `${count} new scenario${count > 1 ? 's' : ''}`
+                        : `${count} new ${artifactType}`
+            
+            toast({
+                title: `🎉 ${successLabel} ready!`,
+                description: artifactType === 'flashcards' 
+                    ? 'Swipe through to study the new cards.'
                     : artifactType === 'clinical_case'
-                        ? 'New clinical case'
+                        ? 'Your new case study is ready to explore.'
                         : artifactType === 'simulation'
-                            ? `${count} new scenario${count > 1 ? 's' : ''}`
-                            : `${count} new ${artifactType}`
-                
-                toast({
-                    title: `🎉 ${successLabel} ready!`,
-                    description: artifactType === 'flashcards' 
-                        ? 'Swipe through to study the new cards.'
-                        : artifactType === 'clinical_case'
-                            ? 'Your new case study is ready to explore.'
-                            : artifactType === 'simulation'
-                                ? 'New patient scenarios are ready to practice.'
-                                : 'New content has been added.',
-                })
-            } else {
-                console.error('Failed to generate more:', await response.text())
-                toast({
-                    title: 'Generation failed',
-                    description: 'Something went wrong. Please try again.',
-                    variant: 'destructive',
-                })
-            }
+                            ? 'New patient scenarios are ready to practice.'
+                            : 'New content has been added.',
+            })
         } catch (e) {
             console.error('Generate more error:', e)
             toast({
                 title: 'Generation failed',
-                description: 'Network error. Please check your connection.',
+                description: e instanceof ApiError && !e.isNetworkError
+                    ? 'Something went wrong. Please try again.'
+                    : 'Network error. Please check your connection.',
                 variant: 'destructive',
             })
         } finally {
@@ -1633,3 +1571,18 @@ export default function ArtifactsPage() {
         </div>
     )
 }
+
+export default function ArtifactsPage() {
+    return (
+        <RequireAuth
+            fallback={
+                <div className="dashboard-page-container">
+                    <DashboardNav />
+                    <EchoLoader context="general" />
+                </div>
+            }
+        >
+            <ArtifactsContent />
+        </RequireAuth>
+    )
+}
@@ -1,8 +1,9 @@
 'use client'
 
-import { useState } from 'react'
+import { useEffect, useState } from 'react'
 import { useRouter } from 'next/navigation'
 import { apiClient } from '@/lib/api'
+import { getSafeReturnUrl, RETURN_URL_PARAM, setSessionCookie } from '@/lib/authGuard'
 import { useToast } from '@/hooks/use-toast'
 import Link from 'next/link'
 import { Input } from '@/components/ui/input'
@@ -22,6 +23,18 @@ export default function LoginPage() {
   const [loading, setLoading] = useState(false)
   const [showPassword, setShowPassword] = useState(false)
 
+  const getReturnUrl = () =>
+    getSafeReturnUrl(new URLSearchParams(window.location.search).get(RETURN_URL_PARAM))
+
+  // Already signed in (e.g. session predates the route cookie) - restore the cookie and continue
+  useEffect(() => {
+    const storedUser = apiClient.getUser()
+    if (storedUser && apiClient.getToken()) {
+      setSessionCookie(storedUser)
+      router.replace(getSafeReturnUrl(new URLSearchParams(window.location.search).get(RETURN_URL_PARAM)))
+    }
+  }, [router])
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
     const timestamp = new Date().toISOString()
@@ -38,14 +51,15 @@ export default function LoginPage() {
       
       console.log(`[${timestamp}] [LOGIN] ✅ Login successful!`)
       console.log(`[${timestamp}] [LOGIN] User:`, result.user.email)
-      console.log(`[${timestamp}] [LOGIN] Redirecting to dashboard...`)
+      const returnUrl = getReturnUrl()
+      console.log(`[${timestamp}] [LOGIN] Redirecting to:`, returnUrl)
       
       toast({
         title: 'Success',
         description: 'Signed in successfully!',
       })
       
-      router.push('/dashboard')
+      router.push(returnUrl)
     } catch (error: any) {
       console.error(`[${timestamp}] [LOGIN] ❌ Login failed:`, error)
       console.error(`[${timestamp}] [LOGIN] Error name:`, error.name)
@@ -0,0 +1,45 @@
+'use client'
+
+import { useEffect } from 'react'
+import { useRouter } from 'next/navigation'
+import { useAuth } from '@/hooks/useAuth'
+import DashboardNav from '@/components/DashboardNav'
+import EchoLoader from '@/components/EchoLoader'
+import VerifyEmailNotice from '@/components/VerifyEmailNotice'
+import { buildLoginUrl, getSafeReturnUrl, RETURN_URL_PARAM } from '@/lib/authGuard'
+
+/**
+ * Where the middleware sends unverified accounts that open a route needing a
+ * verified email. Continues to the original destination once the refreshed
+ * user record shows the email as verified.
+ */
+export default function VerifyEmailPage() {
+  const router = useRouter()
+  const { user, loading, signOut } = useAuth()
+
+  useEffect(() => {
+    if (loading) return
+    const next = new URLSearchParams(window.location.search).get(RETURN_URL_PARAM)
+    if (!user) {
+      router.replace(buildLoginUrl(next))
+    } else if (user.is_verified) {
+      router.replace(getSafeReturnUrl(next))
+    }
+  }, [user, loading, router])
+
+  if (loading || !user || user.is_verified) {
+    return (
+      <div className="dashboard-page-container">
+        <DashboardNav />
+        <EchoLoader context="general" />
+      </div>
+    )
+  }
+
+  return (
+    <div className="dashboard-page-container">
+      <DashboardNav />
+      <VerifyEmailNotice email={user.email} onSignOut={signOut} />
+    </div>
+  )
+}
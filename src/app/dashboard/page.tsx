@@ -4,11 +4,34 @@ import { useEffect, useState, useMemo } from 'react'
 import { useRouter } from 'next/navigation'
 import { useAuth } from '@/hooks/useAuth'
 import { apiClient } from '@/lib/api'
+import { ApiError, http } from '@/lib/httpClient'
 import DashboardNav from '@/components/DashboardNav'
+import RequireAuth from '@/components/RequireAuth'
 import EchoLoader from '@/components/EchoLoader'
 import Image from 'next/image'
 import { TrendingUp, TrendingDown, Minus, X, Trophy, Zap, Target, CheckCircle, Lock, Flame } from 'lucide-react'
 
+// Statistics endpoint response shapes (only the fields this page reads)
+interface DashboardStatsResponse {
+  empathy_score?: { value: number }
+  total_sessions?: { value: number }
+  total_time?: { value: number }
+}
+
+interface QuizSummaryResponse {
+  has_history: boolean
+  stats?: { average_score: number; total_attempts: number }
+}
+
+interface LearningInsightsResponse {
+  weak_topics?: unknown[]
+}
+
+interface StreakResponse {
+  current_streak: number
+  longest_streak: number
+}
+
 // Calculate level from XP (every 500 XP = 1 level)
 const calculateLevel = (xp: number) => Math.floor(xp / 500) + 1
 const xpForNextLevel = (level: number) => level * 500
@@ -31,7 +54,7 @@ const ACHIEVEMENTS = [
   { id: 'lectures_10', name: 'Scholar', desc: 'Study 10 lectures', icon: '🎓', xp: 200 },
 ]
 
-export default function DashboardPage() {
+function DashboardContent() {
   const router = useRouter()
   const { user, loading: authLoading } = useAuth()
   const [isLoading, setIsLoading] = useState(true)
@@ -90,47 +113,48 @@ export default function DashboardPage() {
     return total
   }
 
-  // Redirect if not authenticated
-  useEffect(() => {
-    if (!authLoading && !user) {
-      router.push('/auth/login')
-    }
-  }, [user, authLoading, router])
-
   // Fetch data
   useEffect(() => {
     const fetchData = async () => {
       if (!user?.id || authLoading) return
 
-      const API_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:8000'
-      const token = apiClient.getToken()
-      if (!token) {
+      if (!apiClient.getToken()) {
         router.push('/auth/login')
         return
       }
 
-      const headers = { Authorization: `Bearer ${token}` }
-
       try {
-        const [statsRes, quizRes, insightsRes, lecturesRes, streakRes, feedbackRes] = await Promise.all([
-          fetch(`${API_URL}/api/v1/statistics/dashboard`, { headers }).catch(() => null),
-          fetch(`${API_URL}/api/v1/statistics/quiz-summary`, { headers }).catch(() => null),
-          fetch(`${API_URL}/api/v1/statistics/learning-insights`, { headers }).catch(() => null),
-          fetch(`${API_URL}/api/v1/lectures`, { headers }).catch(() => null),
-          fetch(`${API_URL}/api/v1/statistics/streak`, { headers }).catch(() => null),
-          fetch(`${API_URL}/api/v1/statistics/recent-feedback`, { headers }).catch(() => null)
+        const settle = <T,>(promise: Promise<T>) =>
+          promise.then(
+            (value) => ({ value, error: null }),
+            (error: unknown) => ({ value: null, error })
+          )
+
+        const [stats, quiz, insights, lectures, streak, feedback] = await Promise.all([
+          settle(http.get<DashboardStatsResponse>('/statistics/dashboard')),
+          settle(http.get<QuizSummaryResponse>('/statistics/quiz-summary')),
+          settle(http.get<LearningInsightsResponse>('/statistics/learning-insights')),
+          settle(http.get<unknown[]>('/lectures')),
+          settle(http.get<StreakResponse>('/statistics/streak')),
+          settle(http.get<unknown>('/statistics/recent-feedback'))
         ])
 
-        const unauthorized =
-          [statsRes, quizRes, insightsRes, lecturesRes, streakRes, feedbackRes].some(
-            (r) => r && (r.status === 401 || r.status === 403)
-          )
+        const unauthorized = [stats, quiz, insights, lectures, streak, feedback].some(
+          (r) => r.error instanceof ApiError && r.error.isUnauthorized
+        )
         if (unauthorized) {
           apiClient.clearTokens()
           router.push('/auth/login')
           return
         }
 
+        const statsData = stats.value
+        const quizData = quiz.value
+        const insightsData = insights.value
+        const lecturesData = lectures.value
+        const streakData = streak.value
+        const feedbackData = feedback.value
+
         let newStats = {
           quizAverage: 0,
           quizzesCompleted: 0,
@@ -140,39 +164,39 @@ export default function DashboardPage() {
           practiceHours: 0,
         }
 
-        if (statsRes?.ok) {
-          const data = await statsRes.json()
+        if (statsData) {
+          const data = statsData
           newStats.empathyScore = data.empathy_score?.value || 0
           newStats.voiceSessions = data.total_sessions?.value || 0
           newStats.practiceHours = data.total_time?.value || 0
         }
 
-        if (quizRes?.ok) {
-          const data = await quizRes.json()
+        if (quizData) {
+          const data = quizData
           if (data.has_history) {
             newStats.quizAverage = data.stats?.average_score || 0
             newStats.quizzesCompleted = data.stats?.total_attempts || 0
           }
         }
 
-        if (lecturesRes?.ok) {
-          const data = await lecturesRes.json()
+        if (lecturesData) {
+          const data = lecturesData
           newStats.lecturesCount = data.length || 0
         }
 
         let newStreak = { current: 0, longest: 0 }
-        if (streakRes?.ok) {
-          const data = await streakRes.json()
+        if (streakData) {
+          const data = streakData
           newStreak = { current: data.current_streak || 0, longest: data.longest_streak || 0 }
         }
 
-        if (feedbackRes?.ok) {
-          setRecentFeedback(await feedbackRes.json())
+        if (feedbackData) {
+          setRecentFeedback(feedbackData)
         }
 
         // Fetch weak topics from learning insights
-        if (insightsRes?.ok) {
-          const data = await insightsRes.json()
+        if (insightsData) {
+          const data = insightsData
           if (data.weak_topics && data.weak_topics.length > 0) {
             setWeakTopics(data.weak_topics.slice(0, 3))
           }
@@ -636,3 +660,18 @@ export default function DashboardPage() {
     </div>
   )
 }
+
+export default function DashboardPage() {
+  return (
+    <RequireAuth
+      fallback={
+        <div className="dashboard-page-container">
+          <DashboardNav />
+          <EchoLoader context="dashboard" />
+        </div>
+      }
+    >
+      <DashboardContent />
+    </RequireAuth>
+  )
+}
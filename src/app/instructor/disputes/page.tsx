@@ -0,0 +1,279 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import DashboardNav from '@/components/DashboardNav'
+import RequireAuth from '@/components/RequireAuth'
+import AccessDenied from '@/components/AccessDenied'
+import EchoLoader from '@/components/EchoLoader'
+import Link from 'next/link'
+import { Check, ClipboardCheck, RefreshCw, X } from 'lucide-react'
+import { ApiError } from '@/lib/httpClient'
+import { listEvaluationDisputes, resolveEvaluationDispute } from '@/lib/instructorApi'
+import {
+  DISPUTE_STATUS_LABELS,
+  DISPUTE_STATUS_STYLES,
+  type EvaluationDispute,
+  type ResolveDisputeRequest,
+} from '@/lib/evaluationDisputes'
+import { humanizeKey } from '@/lib/transcriptAnnotations'
+import { formatScenarioTitle } from '@/lib/utils'
+
+type QueueTab = 'open' | 'resolved'
+
+const formatDate = (value: string) =>
+  new Date(value).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })
+
+function DisputeCard({
+  dispute,
+  onResolved,
+}: {
+  dispute: EvaluationDispute
+  onResolved: (dispute: EvaluationDispute) => void
+}) {
+  const [response, setResponse] = useState('')
+  const [adjustedScore, setAdjustedScore] = useState(String(dispute.original_score))
+  const [resolving, setResolving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const resolve = async (status: ResolveDisputeRequest['status']) => {
+    try {
+      setResolving(true)
+      setError(null)
+      const resolved = await resolveEvaluationDispute(dispute.id, {
+        status,
+        response: response.trim(),
+        adjusted_score: status === 'upheld' ? Number(adjustedScore) : null,
+      })
+      onResolved(resolved)
+    } catch (err) {
+      console.error('❌ Failed to resolve dispute:', err)
+      setError(err instanceof Error ? err.message : 'Failed to resolve dispute')
+    } finally {
+      setResolving(false)
+    }
+  }
+
+  const scoreInputId = `adjusted-score-${dispute.id}`
+
+  return (
+    <div className="bg-white border border-gray-200 rounded-xl p-5 space-y-3">
+      <div className="flex flex-wrap items-start justify-between gap-2">
+        <div>
+          <h2 className="font-semibold text-gray-900">
+            {humanizeKey(dispute.criterion)} <span className="font-normal text-gray-500">· {humanizeKey(dispute.category)}</span>
+          </h2>
+          <p className="text-sm text-gray-500">
+            {dispute.student_name} · {formatScenarioTitle(dispute.scenario_title)} · Raised {formatDate(dispute.created_at)}
+          </p>
+        </div>
+        <div className="flex items-center gap-3">
+          <Link
+            href={`/instructor/sessions/${dispute.session_id}`}
+            className="inline-flex items-center gap-1 text-sm text-[#344895] hover:text-[#1A1F71]"
+          >
+            <ClipboardCheck className="w-4 h-4" />
+            Review session
+          </Link>
+          <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${DISPUTE_STATUS_STYLES[dispute.status]}`}>
+            {DISPUTE_STATUS_LABELS[dispute.status]}
+          </span>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3 text-sm">
+        <div className="bg-gray-50 rounded-lg p-3">
+          <p className="text-xs font-semibold uppercase tracking-wide text-gray-500 mb-1">AI score: {dispute.original_score}</p>
+          <p className="text-gray-700">{dispute.original_evidence || 'No evidence given.'}</p>
+        </div>
+        <div className="bg-amber-50 rounded-lg p-3">
+          <p className="text-xs font-semibold uppercase tracking-wide text-amber-700 mb-1">Student&apos;s reason</p>
+          <p className="text-gray-800">{dispute.reason}</p>
+          {dispute.turn_excerpt && (
+            <p className="mt-2 text-xs text-gray-600 italic">
+              Turn {(dispute.turn_index ?? 0) + 1}: &ldquo;{dispute.turn_excerpt}&rdquo;
+            </p>
+          )}
+        </div>
+      </div>
+
+      {dispute.status === 'open' ? (
+        <div className="space-y-2">
+          <textarea
+            aria-label="Response to the student"
+            value={response}
+            onChange={(e) => setResponse(e.target.value)}
+            rows={2}
+            placeholder="Explain your decision to the student"
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-[#344895]"
+          />
+          {error && <p className="text-sm text-red-700">{error}</p>}
+          <div className="flex flex-wrap items-center justify-end gap-2">
+            <label htmlFor={scoreInputId} className="text-sm text-gray-600">
+              Score if upheld
+            </label>
+            <input
+              id={scoreInputId}
+              type="number"
+              min={0}
+              step={0.5}
+              value={adjustedScore}
+              onChange={(e) => setAdjustedScore(e.target.value)}
+              className="w-20 px-2 py-1.5 border border-gray-300 rounded-lg text-sm text-right"
+            />
+            <button
+              onClick={() => resolve('rejected')}
+              disabled={resolving || !response.trim()}
+              className="inline-flex items-center gap-1 px-3 py-1.5 border border-gray-300 rounded-lg text-sm text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+            >
+              <X className="w-4 h-4" />
+              Reject
+            </button>
+            <button
+              onClick={() => resolve('upheld')}
+              disabled={resolving || !response.trim() || adjustedScore === '' || Number(adjustedScore) < 0}
+              className="inline-flex items-center gap-1 px-3 py-1.5 bg-[#344895] text-white rounded-lg text-sm font-semibold hover:bg-[#1A1F71] disabled:opacity-50"
+            >
+              <Check className="w-4 h-4" />
+              Uphold
+            </button>
+          </div>
+        </div>
+      ) : (
+        <div className="text-sm border-t pt-3">
+          <p className="text-gray-800">{dispute.response}</p>
+          <p className="text-xs text-gray-500 mt-1">
+            {dispute.resolved_by && `${dispute.resolved_by} · `}
+            {dispute.resolved_at && formatDate(dispute.resolved_at)}
+            {dispute.status === 'upheld' && dispute.adjusted_score !== null && ` · score changed to ${dispute.adjusted_score}`}
+          </p>
+        </div>
+      )}
+    </div>
+  )
+}
+
+function InstructorDisputesContent() {
+  const [disputes, setDisputes] = useState<EvaluationDispute[]>([])
+  const [tab, setTab] = useState<QueueTab>('open')
+  const [loading, setLoading] = useState(true)
+  const [forbidden, setForbidden] = useState(false)
+  const [loadError, setLoadError] = useState<string | null>(null)
+
+  const loadDisputes = useCallback(async () => {
+    try {
+      setLoading(true)
+      setLoadError(null)
+      setDisputes(await listEvaluationDisputes())
+    } catch (error) {
+      console.error('❌ Failed to load disputes:', error)
+      if (error instanceof ApiError && error.status === 403) {
+        setForbidden(true)
+      } else {
+        setLoadError(error instanceof Error ? error.message : 'Failed to load disputes')
+      }
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    loadDisputes()
+  }, [loadDisputes])
+
+  if (loading) {
+    return (
+      <div className="dashboard-page-container">
+        <DashboardNav />
+        <EchoLoader context="training" />
+      </div>
+    )
+  }
+
+  if (forbidden) {
+    return (
+      <div className="dashboard-page-container">
+        <DashboardNav />
+        <AccessDenied description="Evaluation disputes are handled by instructors. Ask an administrator if you need access." />
+      </div>
+    )
+  }
+
+  const openCount = disputes.filter((dispute) => dispute.status === 'open').length
+  const shown = disputes.filter((dispute) => (tab === 'open' ? dispute.status === 'open' : dispute.status !== 'open'))
+
+  return (
+    <div className="dashboard-page-container">
+      <DashboardNav />
+
+      <div className="max-w-[1512px] mx-auto px-2 sm:px-4 lg:px-16 pb-6 sm:pb-8">
+        <div className="mb-6 pt-2">
+          <h1 className="text-2xl sm:text-3xl lg:text-4xl font-montserrat font-bold text-black mb-2">Disputes</h1>
+          <p className="text-base sm:text-lg font-lato text-gray-600">
+            Students&apos; challenges to individual AI evaluation scores. Your decision and reply are sent to the student.
+          </p>
+        </div>
+
+        <div className="flex gap-2 mb-4" role="tablist">
+          {(['open', 'resolved'] as QueueTab[]).map((value) => (
+            <button
+              key={value}
+              role="tab"
+              aria-selected={tab === value}
+              onClick={() => setTab(value)}
+              className={`px-4 py-2 rounded-lg text-sm font-medium transition-colors ${
+                tab === value ? 'bg-[#344895] text-white' : 'bg-white border border-gray-300 text-gray-700 hover:bg-gray-50'
+              }`}
+            >
+              {value === 'open' ? `Open (${openCount})` : `Resolved (${disputes.length - openCount})`}
+            </button>
+          ))}
+        </div>
+
+        {loadError ? (
+          <div className="bg-red-50 border border-red-200 rounded-xl p-6 text-center">
+            <p className="text-red-700 mb-3">{loadError}</p>
+            <button
+              onClick={loadDisputes}
+              className="inline-flex items-center gap-2 px-4 py-2 bg-[#344895] text-white rounded-lg hover:bg-[#1A1F71] transition-colors"
+            >
+              <RefreshCw className="w-4 h-4" />
+              Try again
+            </button>
+          </div>
+        ) : shown.length === 0 ? (
+          <p className="text-center text-gray-500 py-12">
+            {tab === 'open' ? 'No open disputes.' : 'No resolved disputes yet.'}
+          </p>
+        ) : (
+          <div className="space-y-4">
+            {shown.map((dispute) => (
+              <DisputeCard
+                key={dispute.id}
+                dispute={dispute}
+                onResolved={(resolved) =>
+                  setDisputes((current) => current.map((item) => (item.id === resolved.id ? resolved : item)))
+                }
+              />
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
+
+export default function InstructorDisputesPage() {
+  return (
+    <RequireAuth
+      requiredRole="instructor"
+      fallback={
+        <div className="dashboard-page-container">
+          <DashboardNav />
+          <EchoLoader context="training" />
+        </div>
+      }
+    >
+      <InstructorDisputesContent />
+    </RequireAuth>
+  )
+}
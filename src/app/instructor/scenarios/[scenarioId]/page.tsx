@@ -0,0 +1,306 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { useParams, useRouter } from 'next/navigation'
+import DashboardNav from '@/components/DashboardNav'
+import RequireAuth from '@/components/RequireAuth'
+import AccessDenied from '@/components/AccessDenied'
+import EchoLoader from '@/components/EchoLoader'
+import ScenarioEditor from '@/components/ScenarioEditor'
+import ScenarioPreview from '@/components/ScenarioPreview'
+import { AlertCircle, ArrowLeft, Download, Eye, EyeOff, Globe, Play, RefreshCw, Save, Undo2 } from 'lucide-react'
+import { ApiError } from '@/lib/httpClient'
+import {
+  createAuthoredScenario,
+  getAuthoredScenario,
+  publishAuthoredScenario,
+  unpublishAuthoredScenario,
+  updateAuthoredScenario,
+} from '@/lib/instructorApi'
+import {
+  createEmptyScenarioDraft,
+  downloadScenarioFile,
+  getPublishProblems,
+  toScenarioDraft,
+  type AuthoredScenario,
+  type ScenarioDraft,
+} from '@/lib/scenarioAuthoring'
+
+const NEW_SCENARIO_ID = 'new'
+
+function ScenarioEditorContent() {
+  const router = useRouter()
+  const params = useParams()
+  const scenarioId = params?.scenarioId as string
+  const isNew = scenarioId === NEW_SCENARIO_ID
+
+  const [scenario, setScenario] = useState<AuthoredScenario | null>(null)
+  const [draft, setDraft] = useState<ScenarioDraft>(createEmptyScenarioDraft)
+  const [dirty, setDirty] = useState(false)
+  const [loading, setLoading] = useState(!isNew)
+  const [forbidden, setForbidden] = useState(false)
+  const [loadError, setLoadError] = useState<string | null>(null)
+  const [actionError, setActionError] = useState<string | null>(null)
+  const [busy, setBusy] = useState<'save' | 'publish' | 'test' | null>(null)
+  const [showPreview, setShowPreview] = useState(false)
+
+  const publishProblems = getPublishProblems(draft)
+
+  const loadScenario = useCallback(async () => {
+    if (isNew) return
+    try {
+      setLoading(true)
+      setLoadError(null)
+      const data = await getAuthoredScenario(scenarioId)
+      setScenario(data)
+      setDraft(toScenarioDraft(data))
+      setDirty(false)
+    } catch (error) {
+      console.error('❌ Failed to load scenario:', error)
+      if (error instanceof ApiError && error.status === 403) {
+        setForbidden(true)
+      } else {
+        setLoadError(error instanceof Error ? error.message : 'Failed to load scenario')
+      }
+    } finally {
+      setLoading(false)
+    }
+  }, [isNew, scenarioId])
+
+  useEffect(() => {
+    loadScenario()
+  }, [loadScenario])
+
+  // Warn before leaving with unsaved edits
+  useEffect(() => {
+    if (!dirty) return
+    const handleBeforeUnload = (event: BeforeUnloadEvent) => {
+      event.preventDefault()
+    }
+    window.addEventListener('beforeunload', handleBeforeUnload)
+    return () => window.removeEventListener('beforeunload', handleBeforeUnload)
+  }, [dirty])
+
+  const handleChange = (next: ScenarioDraft) => {
+    setDraft(next)
+    setDirty(true)
+  }
+
+  /** Persist the current draft, creating the scenario on first save */
+  const saveDraft = async (): Promise<AuthoredScenario> => {
+    if (!dirty && scenario) return scenario
+    // Saving a published scenario updates what students see, so it has to pass the publish checklist
+    if (scenario?.status === 'published' && publishProblems.length > 0) {
+      throw new Error('Students are using this scenario. Fix the checklist below before saving, or unpublish it first.')
+    }
+    const saved = scenario ? await updateAuthoredScenario(scenario.id, draft) : await createAuthoredScenario(draft)
+    setScenario(saved)
+    setDirty(false)
+    if (!scenario) {
+      router.replace(`/instructor/scenarios/${encodeURIComponent(saved.id)}`)
+    }
+    return saved
+  }
+
+  const runAction = async (kind: 'save' | 'publish' | 'test', action: () => Promise<void>) => {
+    try {
+      setBusy(kind)
+      setActionError(null)
+      await action()
+    } catch (error) {
+      console.error(`❌ Scenario ${kind} failed:`, error)
+      setActionError(error instanceof Error ? error.message : 'Something went wrong. Please try again.')
+    } finally {
+      setBusy(null)
+    }
+  }
+
+  const handleSave = () =>
+    runAction('save', async () => {
+      if (!draft.title.trim()) throw new Error('Give the scenario a title before saving.')
+      await saveDraft()
+    })
+
+  const handleTogglePublish = () =>
+    runAction('publish', async () => {
+      // Unpublish before saving so unfinished edits never go live
+      if (scenario?.status === 'published') {
+        const unpublished = await unpublishAuthoredScenario(scenario.id)
+        setScenario(dirty ? await updateAuthoredScenario(scenario.id, draft) : unpublished)
+        setDirty(false)
+        return
+      }
+      const saved = await saveDraft()
+      setScenario(await publishAuthoredScenario(saved.id))
+    })
+
+  // The training page picks the case up from localStorage, like lecture simulations
+  const handleTestRun = () =>
+    runAction('test', async () => {
+      if (!draft.title.trim()) throw new Error('Give the scenario a title before test-running it.')
+      const saved = await saveDraft()
+      localStorage.setItem('scenario_test_run', JSON.stringify(saved))
+      router.push('/training?mode=scenario_test_run')
+    })
+
+  if (loading) {
+    return (
+      <div className="dashboard-page-container">
+        <DashboardNav />
+        <EchoLoader context="training" />
+      </div>
+    )
+  }
+
+  if (forbidden) {
+    return (
+      <div className="dashboard-page-container">
+        <DashboardNav />
+        <AccessDenied description="Scenario authoring is only available to instructors. Ask an administrator if you need access." />
+      </div>
+    )
+  }
+
+  const isPublished = scenario?.status === 'published'
+
+  return (
+    <div className="dashboard-page-container">
+      <DashboardNav />
+
+      <div className="max-w-[1512px] mx-auto px-2 sm:px-4 lg:px-16 pb-6 sm:pb-8">
+        <button
+          onClick={() => router.push('/instructor/scenarios')}
+          className="flex items-center gap-2 text-gray-600 hover:text-gray-900 mb-4 pt-2"
+        >
+          <ArrowLeft className="w-5 h-5" />
+          <span>Back to Scenarios</span>
+        </button>
+
+        {loadError ? (
+          <div className="bg-red-50 border border-red-200 rounded-xl p-6 text-center">
+            <p className="text-red-700 mb-3">{loadError}</p>
+            <button
+              onClick={loadScenario}
+              className="inline-flex items-center gap-2 px-4 py-2 bg-[#344895] text-white rounded-lg hover:bg-[#1A1F71] transition-colors"
+            >
+              <RefreshCw className="w-4 h-4" />
+              Try again
+            </button>
+          </div>
+        ) : (
+          <>
+            <div className="flex flex-wrap items-start justify-between gap-4 mb-6">
+              <div>
+                <div className="flex items-center gap-2 mb-1">
+                  <h1 className="text-2xl sm:text-3xl font-montserrat font-bold text-black">
+                    {draft.title || (isNew ? 'New scenario' : 'Untitled scenario')}
+                  </h1>
+                  <span
+                    className={`px-2 py-0.5 rounded-full text-xs font-medium ${
+                      isPublished ? 'bg-green-100 text-green-700' : 'bg-gray-100 text-gray-700'
+                    }`}
+                  >
+                    {isPublished ? 'Published' : 'Draft'}
+                  </span>
+                </div>
+                <p className="text-sm text-gray-500">
+                  {dirty
+                    ? 'Unsaved changes'
+                    : scenario
+                      ? `Saved ${new Date(scenario.updated_at).toLocaleString('en-US', { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' })}`
+                      : 'Not saved yet'}
+                  {isPublished && dirty && ' - saving updates the scenario students see'}
+                </p>
+              </div>
+              <div className="flex flex-wrap gap-2">
+                <button
+                  onClick={() => setShowPreview((prev) => !prev)}
+                  className="inline-flex items-center gap-2 px-3 py-2 border border-gray-300 rounded-lg text-sm text-gray-700 bg-white hover:bg-gray-50"
+                >
+                  {showPreview ? <EyeOff className="w-4 h-4" /> : <Eye className="w-4 h-4" />}
+                  {showPreview ? 'Hide preview' : 'Preview'}
+                </button>
+                <button
+                  onClick={() => downloadScenarioFile(draft)}
+                  className="inline-flex items-center gap-2 px-3 py-2 border border-gray-300 rounded-lg text-sm text-gray-700 bg-white hover:bg-gray-50"
+                >
+                  <Download className="w-4 h-4" />
+                  Export JSON
+                </button>
+                <button
+                  onClick={handleTestRun}
+                  disabled={busy !== null}
+                  className="inline-flex items-center gap-2 px-3 py-2 border border-[#344895] rounded-lg text-sm font-semibold text-[#344895] bg-white hover:bg-indigo-50 disabled:opacity-50"
+                >
+                  <Play className="w-4 h-4" />
+                  {busy === 'test' ? 'Starting...' : 'Test run'}
+                </button>
+                <button
+                  onClick={handleSave}
+                  disabled={busy !== null || (!dirty && !isNew) || (isPublished && publishProblems.length > 0)}
+                  title={isPublished && publishProblems.length > 0 ? 'Fix the checklist below before saving a published scenario' : undefined}
+                  className="inline-flex items-center gap-2 px-3 py-2 border border-gray-300 rounded-lg text-sm font-semibold text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+                >
+                  <Save className="w-4 h-4" />
+                  {busy === 'save' ? 'Saving...' : isPublished ? 'Save changes' : 'Save draft'}
+                </button>
+                <button
+                  onClick={handleTogglePublish}
+                  disabled={busy !== null || (!isPublished && publishProblems.length > 0)}
+                  title={!isPublished && publishProblems.length > 0 ? 'Fix the checklist below before publishing' : undefined}
+                  className="inline-flex items-center gap-2 px-4 py-2 bg-[#344895] text-white rounded-lg text-sm font-semibold hover:bg-[#1A1F71] transition-colors disabled:opacity-50"
+                >
+                  {isPublished ? <Undo2 className="w-4 h-4" /> : <Globe className="w-4 h-4" />}
+                  {busy === 'publish' ? 'Updating...' : isPublished ? 'Unpublish' : 'Publish'}
+                </button>
+              </div>
+            </div>
+
+            {actionError && (
+              <div className="bg-red-50 border border-red-200 rounded-lg px-4 py-3 mb-4 text-sm text-red-700">{actionError}</div>
+            )}
+
+            {publishProblems.length > 0 && (
+              <div className="bg-amber-50 border border-amber-200 rounded-lg px-4 py-3 mb-4 text-sm text-amber-800">
+                <p className="flex items-center gap-2 font-semibold mb-1">
+                  <AlertCircle className="w-4 h-4" />
+                  {isPublished ? 'Before saving changes to a published scenario' : 'Before publishing'}
+                </p>
+                <ul className="list-disc pl-6 space-y-0.5">
+                  {publishProblems.map((problem) => (
+                    <li key={problem}>{problem}</li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            <div className={showPreview ? 'grid grid-cols-1 xl:grid-cols-[3fr_2fr] gap-6 items-start' : ''}>
+              <ScenarioEditor value={draft} onChange={handleChange} disabled={busy !== null} />
+              {showPreview && (
+                <div className="xl:sticky xl:top-4">
+                  <ScenarioPreview draft={draft} />
+                </div>
+              )}
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  )
+}
+
+export default function ScenarioEditorPage() {
+  return (
+    <RequireAuth
+      requiredRole="instructor"
+      fallback={
+        <div className="dashboard-page-container">
+          <DashboardNav />
+          <EchoLoader context="training" />
+        </div>
+      }
+    >
+      <ScenarioEditorContent />
+    </RequireAuth>
+  )
+}
@@ -0,0 +1,221 @@
+'use client'
+
+import { useCallback, useEffect, useRef, useState } from 'react'
+import { useRouter } from 'next/navigation'
+import DashboardNav from '@/components/DashboardNav'
+import RequireAuth from '@/components/RequireAuth'
+import AccessDenied from '@/components/AccessDenied'
+import EchoLoader from '@/components/EchoLoader'
+import { Download, Pencil, Plus, RefreshCw, Trash2, Upload } from 'lucide-react'
+import { ApiError } from '@/lib/httpClient'
+import { createAuthoredScenario, deleteAuthoredScenario, listAuthoredScenarios } from '@/lib/instructorApi'
+import { downloadScenarioFile, parseScenarioImport, toScenarioDraft, type AuthoredScenario } from '@/lib/scenarioAuthoring'
+import { getCategoryLabel } from '@/lib/scenarioCatalog'
+
+const STATUS_STYLES: Record<AuthoredScenario['status'], string> = {
+  draft: 'bg-gray-100 text-gray-700',
+  published: 'bg-green-100 text-green-700',
+}
+
+function InstructorScenariosContent() {
+  const router = useRouter()
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  const [scenarios, setScenarios] = useState<AuthoredScenario[]>([])
+  const [loading, setLoading] = useState(true)
+  const [forbidden, setForbidden] = useState(false)
+  const [loadError, setLoadError] = useState<string | null>(null)
+  const [actionError, setActionError] = useState<string | null>(null)
+  const [importing, setImporting] = useState(false)
+
+  const loadScenarios = useCallback(async () => {
+    try {
+      setLoading(true)
+      setLoadError(null)
+      setScenarios(await listAuthoredScenarios())
+    } catch (error) {
+      console.error('❌ Failed to load authored scenarios:', error)
+      if (error instanceof ApiError && error.status === 403) {
+        setForbidden(true)
+      } else {
+        setLoadError(error instanceof Error ? error.message : 'Failed to load scenarios')
+      }
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    loadScenarios()
+  }, [loadScenarios])
+
+  const handleImport = async (file: File) => {
+    try {
+      setImporting(true)
+      setActionError(null)
+      const draft = parseScenarioImport(await file.text())
+      const created = await createAuthoredScenario(draft)
+      router.push(`/instructor/scenarios/${encodeURIComponent(created.id)}`)
+    } catch (error) {
+      console.error('❌ Failed to import scenario:', error)
+      setActionError(error instanceof Error ? error.message : 'Failed to import scenario')
+    } finally {
+      setImporting(false)
+      if (fileInputRef.current) fileInputRef.current.value = ''
+    }
+  }
+
+  const handleDelete = async (scenario: AuthoredScenario) => {
+    const warning = scenario.status === 'published' ? ' It will be removed from the student library.' : ''
+    if (!window.confirm(`Delete "${scenario.title || 'Untitled scenario'}"?${warning}`)) return
+    try {
+      setActionError(null)
+      await deleteAuthoredScenario(scenario.id)
+      setScenarios((prev) => prev.filter((item) => item.id !== scenario.id))
+    } catch (error) {
+      console.error('❌ Failed to delete scenario:', error)
+      setActionError(error instanceof Error ? error.message : 'Failed to delete scenario')
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="dashboard-page-container">
+        <DashboardNav />
+        <EchoLoader context="training" />
+      </div>
+    )
+  }
+
+  if (forbidden) {
+    return (
+      <div className="dashboard-page-container">
+        <DashboardNav />
+        <AccessDenied description="Scenario authoring is only available to instructors. Ask an administrator if you need access." />
+      </div>
+    )
+  }
+
+  return (
+    <div className="dashboard-page-container">
+      <DashboardNav />
+
+      <div className="max-w-[1512px] mx-auto px-2 sm:px-4 lg:px-16 pb-6 sm:pb-8">
+        <div className="flex flex-wrap items-end justify-between gap-4 mb-6 pt-2">
+          <div>
+            <h1 className="text-2xl sm:text-3xl lg:text-4xl font-montserrat font-bold text-black mb-2">Scenarios</h1>
+            <p className="text-base sm:text-lg font-lato text-gray-600">
+              Write structured patient cases, test them, and publish them to your students.
+            </p>
+          </div>
+          <div className="flex gap-2">
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept="application/json,.json"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0]
+                if (file) handleImport(file)
+              }}
+            />
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              disabled={importing}
+              className="inline-flex items-center gap-2 px-4 py-2 border border-gray-300 rounded-lg text-sm font-semibold text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+            >
+              <Upload className="w-4 h-4" />
+              {importing ? 'Importing...' : 'Import JSON'}
+            </button>
+            <button
+              onClick={() => router.push('/instructor/scenarios/new')}
+              className="inline-flex items-center gap-2 px-4 py-2 bg-[#344895] text-white rounded-lg text-sm font-semibold hover:bg-[#1A1F71] transition-colors"
+            >
+              <Plus className="w-4 h-4" />
+              New scenario
+            </button>
+          </div>
+        </div>
+
+        {actionError && (
+          <div className="bg-red-50 border border-red-200 rounded-lg px-4 py-3 mb-4 text-sm text-red-700">{actionError}</div>
+        )}
+
+        {loadError ? (
+          <div className="bg-red-50 border border-red-200 rounded-xl p-6 text-center">
+            <p className="text-red-700 mb-3">{loadError}</p>
+            <button
+              onClick={loadScenarios}
+              className="inline-flex items-center gap-2 px-4 py-2 bg-[#344895] text-white rounded-lg hover:bg-[#1A1F71] transition-colors"
+            >
+              <RefreshCw className="w-4 h-4" />
+              Try again
+            </button>
+          </div>
+        ) : scenarios.length === 0 ? (
+          <p className="text-center text-gray-500 py-12">
+            No scenarios yet. Create one, or import a file shared by another instructor.
+          </p>
+        ) : (
+          <div className="bg-white border border-gray-200 rounded-xl divide-y divide-gray-100">
+            {scenarios.map((scenario) => (
+              <div key={scenario.id} className="flex flex-wrap items-center gap-4 px-5 py-4">
+                <div className="flex-1 min-w-[16rem]">
+                  <div className="flex items-center gap-2">
+                    <h2 className="font-semibold text-gray-900">{scenario.title || 'Untitled scenario'}</h2>
+                    <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${STATUS_STYLES[scenario.status]}`}>
+                      {scenario.status === 'published' ? 'Published' : 'Draft'}
+                    </span>
+                  </div>
+                  <p className="text-sm text-gray-500">
+                    {getCategoryLabel(scenario.category)} · {scenario.patient.demographics.name || 'Unnamed patient'} · Updated{' '}
+                    {new Date(scenario.updated_at).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })}
+                    {scenario.author_name && ` by ${scenario.author_name}`}
+                  </p>
+                </div>
+                <div className="flex items-center gap-1">
+                  <button
+                    onClick={() => router.push(`/instructor/scenarios/${encodeURIComponent(scenario.id)}`)}
+                    className="inline-flex items-center gap-1 px-3 py-1.5 text-sm text-[#344895] hover:bg-indigo-50 rounded-lg"
+                  >
+                    <Pencil className="w-4 h-4" />
+                    Edit
+                  </button>
+                  <button
+                    onClick={() => downloadScenarioFile(toScenarioDraft(scenario))}
+                    className="inline-flex items-center gap-1 px-3 py-1.5 text-sm text-gray-700 hover:bg-gray-100 rounded-lg"
+                  >
+                    <Download className="w-4 h-4" />
+                    Export
+                  </button>
+                  <button
+                    onClick={() => handleDelete(scenario)}
+                    className="p-1.5 text-gray-400 hover:text-red-600 rounded-lg"
+                    aria-label={`Delete ${scenario.title || 'scenario'}`}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
+
+export default function InstructorScenariosPage() {
+  return (
+    <RequireAuth
+      requiredRole="instructor"
+      fallback={
+        <div className="dashboard-page-container">
+          <DashboardNav />
+          <EchoLoader context="training" />
+        </div>
+      }
+    >
+      <InstructorScenariosContent />
+    </RequireAuth>
+  )
+}
@@ -0,0 +1,176 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { useParams, useRouter } from 'next/navigation'
+import DashboardNav from '@/components/DashboardNav'
+import RequireAuth from '@/components/RequireAuth'
+import AccessDenied from '@/components/AccessDenied'
+import EchoLoader from '@/components/EchoLoader'
+import EvaluationReviewPanel from '@/components/EvaluationReviewPanel'
+import { ArrowLeft, Bot, MessageSquarePlus, RefreshCw, User } from 'lucide-react'
+import { ApiError } from '@/lib/httpClient'
+import { getAdminSessionDetails, type AdminSessionDetails } from '@/lib/adminApi'
+import { formatScenarioTitle } from '@/lib/utils'
+
+const formatTimestamp = (seconds: number) =>
+  `${Math.floor(seconds / 60)}:${Math.floor(seconds % 60).toString().padStart(2, '0')}`
+
+const formatDate = (value: string) =>
+  new Date(value).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })
+
+function InstructorSessionReviewContent() {
+  const router = useRouter()
+  const params = useParams()
+  const sessionId = params?.sessionId as string
+
+  const [session, setSession] = useState<AdminSessionDetails | null>(null)
+  const [commentTurn, setCommentTurn] = useState<number | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [forbidden, setForbidden] = useState(false)
+  const [loadError, setLoadError] = useState<string | null>(null)
+
+  const loadSession = useCallback(async () => {
+    try {
+      setLoading(true)
+      setLoadError(null)
+      setSession(await getAdminSessionDetails(sessionId))
+    } catch (error) {
+      console.error('❌ Failed to load session for review:', error)
+      if (error instanceof ApiError && error.status === 403) {
+        setForbidden(true)
+      } else {
+        setLoadError(error instanceof Error ? error.message : 'Failed to load session')
+      }
+    } finally {
+      setLoading(false)
+    }
+  }, [sessionId])
+
+  useEffect(() => {
+    loadSession()
+  }, [loadSession])
+
+  if (loading) {
+    return (
+      <div className="dashboard-page-container">
+        <DashboardNav />
+        <EchoLoader context="training" />
+      </div>
+    )
+  }
+
+  if (forbidden) {
+    return (
+      <div className="dashboard-page-container">
+        <DashboardNav />
+        <AccessDenied description="Evaluations are reviewed by instructors. Ask an administrator if you need access." />
+      </div>
+    )
+  }
+
+  return (
+    <div className="dashboard-page-container">
+      <DashboardNav />
+
+      <div className="max-w-[1512px] mx-auto px-2 sm:px-4 lg:px-16 pb-6 sm:pb-8">
+        <button
+          onClick={() => router.push('/instructor/disputes')}
+          className="flex items-center gap-2 text-gray-600 hover:text-gray-900 mb-4 pt-2"
+        >
+          <ArrowLeft className="w-5 h-5" />
+          <span>Back to Disputes</span>
+        </button>
+
+        {loadError || !session ? (
+          <div className="bg-red-50 border border-red-200 rounded-xl p-6 text-center">
+            <p className="text-red-700 mb-3">{loadError ?? 'Failed to load session'}</p>
+            <button
+              onClick={loadSession}
+              className="inline-flex items-center gap-2 px-4 py-2 bg-[#344895] text-white rounded-lg hover:bg-[#1A1F71] transition-colors"
+            >
+              <RefreshCw className="w-4 h-4" />
+              Try again
+            </button>
+          </div>
+        ) : (
+          <>
+            <div className="mb-6">
+              <h1 className="text-2xl sm:text-3xl font-montserrat font-bold text-black mb-2">
+                {formatScenarioTitle(session.scenario.title)}
+              </h1>
+              <p className="text-base font-lato text-gray-600">
+                {session.user.full_name} · {formatDate(session.timing.started_at)} · {session.conversation.total_turns} turns
+              </p>
+            </div>
+
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+              {/* Transcript */}
+              <div className="bg-white border border-gray-200 rounded-xl p-6 max-h-[800px] overflow-y-auto">
+                <h2 className="font-semibold text-gray-900 mb-4">Conversation Transcript</h2>
+                <div className="space-y-4">
+                  {session.conversation.transcript.map((turn, index) => {
+                    const isStudent = turn.speaker === 'Student'
+                    return (
+                      <div key={index} className={`flex gap-3 ${isStudent ? 'justify-end' : 'justify-start'}`}>
+                        {!isStudent && <Bot className="h-6 w-6 text-purple-600 flex-shrink-0 mt-1" />}
+                        <div className={`max-w-[80%] ${isStudent ? 'order-first' : ''}`}>
+                          <div className="flex items-center gap-2 mb-1">
+                            <span className={`text-xs font-medium ${isStudent ? 'text-indigo-600' : 'text-purple-600'}`}>
+                              {turn.speaker}
+                            </span>
+                            <span className="text-xs text-gray-500">{formatTimestamp(turn.timestamp)}</span>
+                            <button
+                              onClick={() => setCommentTurn(index)}
+                              className={`p-1 rounded hover:bg-gray-100 transition-colors ${commentTurn === index ? 'text-indigo-600' : 'text-gray-400'}`}
+                              title="Comment on this turn"
+                            >
+                              <MessageSquarePlus className="h-3 w-3" />
+                            </button>
+                          </div>
+                          <div
+                            className={`p-3 rounded-lg ${isStudent ? 'bg-indigo-100 text-indigo-900' : 'bg-gray-100 text-gray-900'} ${
+                              commentTurn === index ? 'ring-2 ring-indigo-400' : ''
+                            }`}
+                          >
+                            {turn.text}
+                          </div>
+                        </div>
+                        {isStudent && <User className="h-6 w-6 text-indigo-600 flex-shrink-0 mt-1" />}
+                      </div>
+                    )
+                  })}
+                </div>
+              </div>
+
+              {/* Faculty review */}
+              <div className="bg-white border border-gray-200 rounded-xl p-6">
+                <EvaluationReviewPanel
+                  sessionId={session.session_id}
+                  transcript={session.conversation.transcript}
+                  commentTurn={commentTurn}
+                  onCommentTurnChange={setCommentTurn}
+                />
+              </div>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  )
+}
+
+export default function InstructorSessionReviewPage() {
+  return (
+    <RequireAuth
+      requiredRole="instructor"
+      fallback={
+        <div className="dashboard-page-container">
+          <DashboardNav />
+          <EchoLoader context="training" />
+        </div>
+      }
+    >
+      <InstructorSessionReviewContent />
+    </RequireAuth>
+  )
+}
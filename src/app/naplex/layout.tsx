@@ -1,35 +1,15 @@
 'use client'
 
-import { useEffect } from 'react'
-import { useRouter } from 'next/navigation'
-
 import DashboardNav from '@/components/DashboardNav'
 import EchoLoader from '@/components/EchoLoader'
 import NaplexSubNav from '@/components/NaplexSubNav'
-import { useAuth } from '@/hooks/useAuth'
+import RequireAuth from '@/components/RequireAuth'
 import { isFeatureEnabled } from '@/lib/featureFlags'
 import ComingSoon from '@/components/ComingSoon'
 
-export default function NaplexLayout({ children }: { children: React.ReactNode }) {
-  const router = useRouter()
-  const { user, loading: authLoading } = useAuth()
+function NaplexContent({ children }: { children: React.ReactNode }) {
   const isComingSoon = isFeatureEnabled('naplexComingSoon')
 
-  useEffect(() => {
-    if (!authLoading && !user) {
-      router.push('/auth/login')
-    }
-  }, [user, authLoading, router])
-
-  if (authLoading || !user) {
-    return (
-      <div className="dashboard-page-container">
-        <DashboardNav />
-        <EchoLoader message="Loading NAPLEX Prep..." context="general" />
-      </div>
-    )
-  }
-
   // Show "coming soon" if the toggle is active
   if (isComingSoon) {
     return (
@@ -55,3 +35,18 @@ export default function NaplexLayout({ children }: { children: React.ReactNode }
     </div>
   )
 }
+
+export default function NaplexLayout({ children }: { children: React.ReactNode }) {
+  return (
+    <RequireAuth
+      fallback={
+        <div className="dashboard-page-container">
+          <DashboardNav />
+          <EchoLoader message="Loading NAPLEX Prep..." context="general" />
+        </div>
+      }
+    >
+      <NaplexContent>{children}</NaplexContent>
+    </RequireAuth>
+  )
+}
@@ -1,9 +1,10 @@
 'use client'
 
-import { useEffect, useState } from 'react'
+import { useState } from 'react'
 import { useRouter } from 'next/navigation'
 import { useAuth } from '@/hooks/useAuth'
 import DashboardNav from '@/components/DashboardNav'
+import RequireAuth from '@/components/RequireAuth'
 import EchoLoader from '@/components/EchoLoader'
 import { 
   ArrowLeft, 
@@ -17,7 +18,7 @@ import {
   Check
 } from 'lucide-react'
 
-export default function ProfilePage() {
+function ProfileContent() {
   const router = useRouter()
   const { user, loading: authLoading, signOut } = useAuth()
   const [isEditing, setIsEditing] = useState(false)
@@ -25,12 +26,6 @@ export default function ProfilePage() {
   const [editedLastName, setEditedLastName] = useState('')
   const [isSaving, setIsSaving] = useState(false)
 
-  useEffect(() => {
-    if (!authLoading && !user) {
-      router.push('/auth/login')
-    }
-  }, [user, authLoading, router])
-
   const handleBackToDashboard = () => {
     router.push('/dashboard')
   }
@@ -273,3 +268,18 @@ export default function ProfilePage() {
     </div>
   )
 }
+
+export default function ProfilePage() {
+  return (
+    <RequireAuth
+      fallback={
+        <div className="dashboard-page-container">
+          <DashboardNav />
+          <EchoLoader context="profile" />
+        </div>
+      }
+    >
+      <ProfileContent />
+    </RequireAuth>
+  )
+}
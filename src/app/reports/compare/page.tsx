@@ -0,0 +1,427 @@
+'use client'
+
+import { useEffect, useMemo, useState } from 'react'
+import { useRouter } from 'next/navigation'
+import DashboardNav from '@/components/DashboardNav'
+import RequireAuth from '@/components/RequireAuth'
+import EchoLoader from '@/components/EchoLoader'
+import { AlertCircle, ArrowLeft, CheckCircle2, Heart, Minus, Sparkles, TrendingDown, TrendingUp } from 'lucide-react'
+import { apiClient } from '@/lib/api'
+import {
+  compareCategories,
+  compareFeedback,
+  diffWords,
+  matchKeyMoments,
+  type OSCEEvaluation,
+} from '@/lib/osceEvaluation'
+import { fetchAllMatchingSessions } from '@/lib/sessionSearch'
+import { formatScenarioTitle } from '@/lib/utils'
+
+interface AttemptSession {
+  id: string
+  scenario_id?: string | null
+  scenario_title: string
+  started_at: string
+  has_evaluation: boolean
+  evaluation_score: number | null
+}
+
+const MAX_COMPARED_ATTEMPTS = 4
+
+const formatDate = (dateString: string) =>
+  new Date(dateString).toLocaleDateString('en-US', { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' })
+
+function Delta({ value, suffix = '' }: { value: number | null; suffix?: string }) {
+  if (value === null) return <span className="text-gray-400">—</span>
+  if (value === 0) {
+    return (
+      <span className="inline-flex items-center gap-0.5 text-gray-500">
+        <Minus className="w-3 h-3" />0{suffix}
+      </span>
+    )
+  }
+  const up = value > 0
+  return (
+    <span className={`inline-flex items-center gap-0.5 font-semibold ${up ? 'text-green-600' : 'text-red-600'}`}>
+      {up ? <TrendingUp className="w-3 h-3" /> : <TrendingDown className="w-3 h-3" />}
+      {up ? '+' : ''}
+      {value}
+      {suffix}
+    </span>
+  )
+}
+
+function CompareAttemptsContent() {
+  const router = useRouter()
+  const [scenarioId, setScenarioId] = useState<string | null>(null)
+  const [attempts, setAttempts] = useState<AttemptSession[]>([])
+  const [selectedIds, setSelectedIds] = useState<string[]>([])
+  const [evaluations, setEvaluations] = useState<Map<string, OSCEEvaluation>>(new Map())
+  const [loading, setLoading] = useState(true)
+  const [loadError, setLoadError] = useState<string | null>(null)
+
+  // Attempts at the requested scenario, oldest first; the latest two are compared by default
+  useEffect(() => {
+    const requested = new URLSearchParams(window.location.search).get('scenario')
+    setScenarioId(requested)
+    if (!requested) {
+      setLoading(false)
+      return
+    }
+
+    const loadAttempts = async () => {
+      try {
+        setLoading(true)
+        // Every evaluated attempt, however far back it is in the history
+        const matching: AttemptSession[] = await fetchAllMatchingSessions({
+          scenario_id: requested,
+          evaluated: true,
+          sort_by: 'started_at',
+          sort_order: 'asc',
+        })
+        setAttempts(matching)
+        setSelectedIds(matching.slice(-2).map((session) => session.id))
+      } catch (error) {
+        console.error('❌ Failed to load attempts:', error)
+        setLoadError(error instanceof Error ? error.message : 'Failed to load attempts')
+      } finally {
+        setLoading(false)
+      }
+    }
+    loadAttempts()
+  }, [])
+
+  // Evaluations are fetched once per attempt and kept while the selection changes
+  useEffect(() => {
+    const missing = selectedIds.filter((id) => !evaluations.has(id))
+    if (missing.length === 0) return
+    let cancelled = false
+    Promise.all(missing.map((id) => apiClient.getSessionEvaluation(id).then((data) => [id, data] as const)))
+      .then((loaded) => {
+        if (cancelled) return
+        setEvaluations((prev) => {
+          const next = new Map(prev)
+          loaded.forEach(([id, data]) => next.set(id, data))
+          return next
+        })
+      })
+      .catch((error) => {
+        console.error('❌ Failed to load evaluations:', error)
+        if (!cancelled) setLoadError(error instanceof Error ? error.message : 'Failed to load evaluations')
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [selectedIds, evaluations])
+
+  // Columns are always in chronological order, whatever order they were picked in
+  const compared = useMemo(
+    () =>
+      attempts
+        .filter((attempt) => selectedIds.includes(attempt.id))
+        .map((attempt) => ({ attempt, evaluation: evaluations.get(attempt.id) ?? null })),
+    [attempts, selectedIds, evaluations]
+  )
+  const ready = compared.length >= 2 && compared.every((item) => item.evaluation !== null)
+  const readyEvaluations = ready ? compared.map((item) => item.evaluation as OSCEEvaluation) : []
+  // Every "what changed" section compares the latest selected attempt with the earliest one
+  const baseline = readyEvaluations[0]
+  const latest = readyEvaluations[readyEvaluations.length - 1]
+  const baselineNumber = ready ? attempts.indexOf(compared[0].attempt) + 1 : null
+  const latestNumber = ready ? attempts.indexOf(compared[compared.length - 1].attempt) + 1 : null
+
+  const categoryRows = ready ? compareCategories(readyEvaluations) : []
+  const feedbackChanges = ready ? compareFeedback(baseline, latest) : null
+  const momentMatches = ready ? matchKeyMoments(baseline.key_moments ?? [], latest.key_moments ?? []) : []
+
+  const toggleAttempt = (id: string) => {
+    setSelectedIds((prev) =>
+      prev.includes(id)
+        ? prev.filter((selected) => selected !== id)
+        : prev.length < MAX_COMPARED_ATTEMPTS
+          ? [...prev, id]
+          : prev
+    )
+  }
+
+  if (loading) {
+    return (
+      <div className="dashboard-page-container">
+        <DashboardNav />
+        <EchoLoader context="reports" />
+      </div>
+    )
+  }
+
+  return (
+    <div className="dashboard-page-container">
+      <DashboardNav />
+
+      <div className="max-w-[1512px] mx-auto px-2 sm:px-4 lg:px-16 pb-6 sm:pb-8">
+        <button
+          onClick={() => router.push('/reports')}
+          className="flex items-center gap-2 text-gray-600 hover:text-gray-900 mb-4 pt-2"
+        >
+          <ArrowLeft className="w-5 h-5" />
+          <span>Back to Reports</span>
+        </button>
+
+        <h1 className="text-2xl sm:text-3xl lg:text-4xl font-montserrat font-bold text-black mb-2">Compare Attempts</h1>
+        <p className="text-base sm:text-lg font-lato text-gray-600 mb-6">
+          {attempts[0] ? formatScenarioTitle(attempts[0].scenario_title) : 'See how your attempts at a scenario have changed.'}
+        </p>
+
+        {loadError ? (
+          <div className="bg-red-50 border border-red-200 rounded-xl p-6 text-center text-red-700">{loadError}</div>
+        ) : !scenarioId || attempts.length < 2 ? (
+          <div className="bg-white border border-gray-200 rounded-xl p-8 text-center">
+            <AlertCircle className="w-10 h-10 text-gray-400 mx-auto mb-3" />
+            <p className="text-gray-600">You need at least two evaluated attempts at this scenario to compare them.</p>
+          </div>
+        ) : (
+          <div className="space-y-6">
+            {/* Attempt Picker */}
+            <div className="bg-white border border-gray-200 rounded-xl p-4">
+              <p className="text-sm font-semibold text-gray-700 mb-2">
+                Attempts to compare <span className="font-normal text-gray-500">(up to {MAX_COMPARED_ATTEMPTS})</span>
+              </p>
+              <div className="flex flex-wrap gap-2">
+                {attempts.map((attempt, index) => {
+                  const selected = selectedIds.includes(attempt.id)
+                  return (
+                    <button
+                      key={attempt.id}
+                      onClick={() => toggleAttempt(attempt.id)}
+                      aria-pressed={selected}
+                      disabled={!selected && selectedIds.length >= MAX_COMPARED_ATTEMPTS}
+                      className={`px-3 py-1.5 rounded-full text-sm border transition-colors disabled:opacity-40 ${
+                        selected ? 'bg-[#344895] border-[#344895] text-white' : 'border-gray-300 text-gray-700 hover:bg-gray-50'
+                      }`}
+                    >
+                      #{index + 1} · {formatDate(attempt.started_at)} · {attempt.evaluation_score ?? '—'}
+                    </button>
+                  )
+                })}
+              </div>
+            </div>
+
+            {compared.length < 2 ? (
+              <p className="text-center text-gray-500 py-8">Pick at least two attempts.</p>
+            ) : !ready ? (
+              <EchoLoader context="reports" />
+            ) : (
+              <>
+                {/* Overall Scores */}
+                <div className="grid gap-4" style={{ gridTemplateColumns: `repeat(${compared.length}, minmax(0, 1fr))` }}>
+                  {compared.map(({ attempt, evaluation }, index) => (
+                    <div key={attempt.id} className="bg-white border border-gray-200 rounded-xl p-4 text-center">
+                      <p className="text-xs text-gray-500 mb-1">
+                        Attempt #{attempts.indexOf(attempt) + 1} · {formatDate(attempt.started_at)}
+                      </p>
+                      <p className="text-3xl font-bold text-gray-900">{evaluation!.percentage.toFixed(1)}%</p>
+                      <p className="text-sm mb-1">
+                        <span className={evaluation!.result === 'PASS' ? 'text-green-600 font-semibold' : 'text-yellow-600 font-semibold'}>
+                          {evaluation!.result}
+                        </span>
+                      </p>
+                      {index > 0 && (
+                        <p className="text-sm">
+                          <Delta
+                            value={Math.round((evaluation!.percentage - compared[index - 1].evaluation!.percentage) * 10) / 10}
+                            suffix=" pts"
+                          />
+                        </p>
+                      )}
+                    </div>
+                  ))}
+                </div>
+
+                {/* Category Scores */}
+                {categoryRows.length > 0 && (
+                  <div className="bg-white border border-gray-200 rounded-xl overflow-x-auto">
+                    <table className="w-full text-sm">
+                      <thead className="bg-gray-50 text-gray-600">
+                        <tr>
+                          <th className="text-left font-semibold px-4 py-2">Category</th>
+                          {compared.map(({ attempt }) => (
+                            <th key={attempt.id} className="text-right font-semibold px-4 py-2">
+                              #{attempts.indexOf(attempt) + 1}
+                            </th>
+                          ))}
+                          <th className="text-right font-semibold px-4 py-2">Change</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {categoryRows.map((row) => (
+                          <tr key={row.key} className="border-t border-gray-100">
+                            <td className="px-4 py-2 text-gray-900">{formatScenarioTitle(row.key)}</td>
+                            {row.percentages.map((value, index) => (
+                              <td key={index} className="text-right px-4 py-2 tabular-nums">
+                                {value === null ? '—' : `${value}%`}
+                              </td>
+                            ))}
+                            <td className="text-right px-4 py-2">
+                              <Delta value={row.delta} suffix=" pts" />
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                )}
+
+                {/* Empathy */}
+                {readyEvaluations.some((evaluation) => evaluation.empathy_analysis) && (
+                  <div className="bg-white border border-pink-200 rounded-xl p-4 flex flex-wrap items-center gap-6">
+                    <h3 className="font-semibold text-pink-900 flex items-center gap-2">
+                      <Heart className="w-5 h-5 text-pink-600" />
+                      Empathy
+                    </h3>
+                    {compared.map(({ attempt, evaluation }) => (
+                      <span key={attempt.id} className="text-sm text-gray-700">
+                        #{attempts.indexOf(attempt) + 1}:{' '}
+                        <strong>{evaluation!.empathy_analysis ? `${evaluation!.empathy_analysis.score.toFixed(1)}/5` : '—'}</strong>
+                      </span>
+                    ))}
+                    {baseline.empathy_analysis && latest.empathy_analysis && (
+                      <span className="text-sm ml-auto">
+                        <Delta value={Math.round((latest.empathy_analysis.score - baseline.empathy_analysis.score) * 10) / 10} />
+                      </span>
+                    )}
+                  </div>
+                )}
+
+                {/* Feedback Changes */}
+                {feedbackChanges && (
+                  <div>
+                    <p className="text-xs text-gray-500 mb-2">
+                      Feedback for attempt #{latestNumber} against attempt #{baselineNumber}.
+                    </p>
+                    <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                      <div className="border-2 border-green-300 rounded-xl p-4 bg-green-50">
+                        <h3 className="font-bold text-green-900 mb-2 flex items-center gap-2">
+                          <Sparkles className="w-4 h-4" />
+                          New strengths
+                        </h3>
+                        {feedbackChanges.newStrengths.length > 0 ? (
+                          <ul className="space-y-1.5 text-sm text-green-900">
+                            {feedbackChanges.newStrengths.map((text, idx) => <li key={idx}>✓ {text}</li>)}
+                          </ul>
+                        ) : (
+                          <p className="text-sm italic text-green-700">No new strengths since attempt #{baselineNumber}.</p>
+                        )}
+                      </div>
+                      <div className="border-2 border-indigo-300 rounded-xl p-4 bg-indigo-50">
+                        <h3 className="font-bold text-indigo-900 mb-2 flex items-center gap-2">
+                          <CheckCircle2 className="w-4 h-4" />
+                          Resolved weaknesses
+                        </h3>
+                        {feedbackChanges.resolvedWeaknesses.length > 0 ? (
+                          <ul className="space-y-1.5 text-sm text-indigo-900">
+                            {feedbackChanges.resolvedWeaknesses.map((text, idx) => <li key={idx}>→ {text}</li>)}
+                          </ul>
+                        ) : (
+                          <p className="text-sm italic text-indigo-700">None of the earlier weaknesses are gone yet.</p>
+                        )}
+                      </div>
+                      <div className="border-2 border-amber-300 rounded-xl p-4 bg-amber-50">
+                        <h3 className="font-bold text-amber-900 mb-2 flex items-center gap-2">
+                          <AlertCircle className="w-4 h-4" />
+                          Still to work on
+                        </h3>
+                        {feedbackChanges.persistingWeaknesses.length > 0 ? (
+                          <ul className="space-y-1.5 text-sm text-amber-900">
+                            {feedbackChanges.persistingWeaknesses.map((text, idx) => <li key={idx}>! {text}</li>)}
+                          </ul>
+                        ) : (
+                          <p className="text-sm italic text-amber-700">No repeated weaknesses.</p>
+                        )}
+                      </div>
+                    </div>
+                  </div>
+                )}
+
+                {/* Key Moments */}
+                {momentMatches.length > 0 && (
+                  <div className="bg-white border border-gray-200 rounded-xl p-4">
+                    <h3 className="font-semibold text-gray-900 mb-1">Key moments</h3>
+                    <p className="text-xs text-gray-500 mb-3">
+                      Attempt #{latestNumber} against attempt #{baselineNumber}. Changed wording is highlighted.
+                    </p>
+                    <ul className="space-y-3">
+                      {momentMatches.map((match, idx) => (
+                        <li key={idx} className="border-l-4 pl-3 py-1 text-sm border-gray-200">
+                          <span
+                            className={`inline-block px-2 py-0.5 rounded-full text-xs font-medium mb-1 ${
+                              match.status === 'repeated'
+                                ? 'bg-amber-100 text-amber-700'
+                                : match.status === 'new'
+                                  ? 'bg-indigo-100 text-[#344895]'
+                                  : 'bg-gray-100 text-gray-600'
+                            }`}
+                          >
+                            {match.status === 'repeated' ? 'In both attempts' : match.status === 'new' ? 'New this time' : 'Not flagged this time'}
+                          </span>
+                          {match.status === 'repeated' ? (
+                            <>
+                              <p className="text-gray-800">
+                                <span className="text-xs text-gray-500 mr-1">{match.later.timestamp} · {match.later.speaker}:</span>
+                                {diffWords(match.earlier.text, match.later.text).map((segment, segmentIndex) => (
+                                  <span
+                                    key={segmentIndex}
+                                    className={
+                                      segment.type === 'added'
+                                        ? 'bg-green-100 text-green-900'
+                                        : segment.type === 'removed'
+                                          ? 'bg-red-100 text-red-800 line-through'
+                                          : ''
+                                    }
+                                  >
+                                    {segment.text}{' '}
+                                  </span>
+                                ))}
+                              </p>
+                              <p className="text-xs text-gray-500 mt-0.5">{match.later.note}</p>
+                            </>
+                          ) : (
+                            (() => {
+                              const moment = match.status === 'new' ? match.later : match.earlier
+                              return (
+                                <>
+                                  <p className={match.status === 'gone' ? 'text-gray-500' : 'text-gray-800'}>
+                                    <span className="text-xs text-gray-500 mr-1">{moment.timestamp} · {moment.speaker}:</span>
+                                    {moment.text}
+                                  </p>
+                                  <p className="text-xs text-gray-500 mt-0.5">{moment.note}</p>
+                                </>
+                              )
+                            })()
+                          )}
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+              </>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
+
+export default function CompareAttemptsPage() {
+  return (
+    <RequireAuth
+      fallback={
+        <div className="dashboard-page-container">
+          <DashboardNav />
+          <EchoLoader context="reports" />
+        </div>
+      }
+    >
+      <CompareAttemptsContent />
+    </RequireAuth>
+  )
+}
@@ -0,0 +1,202 @@
+'use client'
+
+import { useCallback, useEffect, useMemo, useState } from 'react'
+import { useRouter } from 'next/navigation'
+import DashboardNav from '@/components/DashboardNav'
+import RequireAuth from '@/components/RequireAuth'
+import EchoLoader from '@/components/EchoLoader'
+import { CompetencyRadarChart, CompetencyTrendChart } from '@/components/CompetencyCharts'
+import { AlertCircle, ArrowLeft, Minus, RefreshCw, TrendingDown, TrendingUp } from 'lucide-react'
+import {
+  COMPETENCY_TARGET_PERCENTAGE,
+  ROLLING_WINDOW,
+  buildCompetencySeries,
+  findMostMissedItems,
+  getCategoryLabel,
+  loadEvaluationHistory,
+  type EvaluatedSession,
+} from '@/lib/competency'
+import { humanizeKey } from '@/lib/transcriptAnnotations'
+
+function Change({ value }: { value: number | null }) {
+  if (value === null) return <span className="text-xs text-gray-400">One session so far</span>
+  if (value === 0) {
+    return (
+      <span className="inline-flex items-center gap-0.5 text-xs text-gray-500">
+        <Minus className="w-3 h-3" />No change
+      </span>
+    )
+  }
+  const up = value > 0
+  return (
+    <span className={`inline-flex items-center gap-0.5 text-xs font-semibold ${up ? 'text-green-600' : 'text-red-600'}`}>
+      {up ? <TrendingUp className="w-3 h-3" /> : <TrendingDown className="w-3 h-3" />}
+      {up ? '+' : ''}
+      {value} pts since first session
+    </span>
+  )
+}
+
+function CompetencyContent() {
+  const router = useRouter()
+  const [history, setHistory] = useState<EvaluatedSession[]>([])
+  const [loading, setLoading] = useState(true)
+  const [loadError, setLoadError] = useState<string | null>(null)
+
+  const loadHistory = useCallback(async () => {
+    try {
+      setLoading(true)
+      setLoadError(null)
+      setHistory(await loadEvaluationHistory())
+    } catch (error) {
+      console.error('❌ Failed to load competency history:', error)
+      setLoadError(error instanceof Error ? error.message : 'Failed to load your evaluations')
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    loadHistory()
+  }, [loadHistory])
+
+  const series = useMemo(() => buildCompetencySeries(history), [history])
+  const missedItems = useMemo(() => findMostMissedItems(history), [history])
+
+  if (loading) {
+    return (
+      <div className="dashboard-page-container">
+        <DashboardNav />
+        <EchoLoader context="reports" />
+      </div>
+    )
+  }
+
+  return (
+    <div className="dashboard-page-container">
+      <DashboardNav />
+
+      <div className="max-w-[1512px] mx-auto px-2 sm:px-4 lg:px-16 pb-6 sm:pb-8">
+        <button
+          onClick={() => router.push('/reports')}
+          className="flex items-center gap-2 text-gray-600 hover:text-gray-900 mb-4 pt-2"
+        >
+          <ArrowLeft className="w-5 h-5" />
+          <span>Back to Reports</span>
+        </button>
+
+        <h1 className="text-2xl sm:text-3xl lg:text-4xl font-montserrat font-bold text-black mb-2">Competency</h1>
+        <p className="text-base sm:text-lg font-lato text-gray-600 mb-6">
+          How each OSCE category has moved across {history.length} evaluated session{history.length === 1 ? '' : 's'}.
+        </p>
+
+        {loadError ? (
+          <div className="bg-red-50 border border-red-200 rounded-xl p-6 text-center">
+            <p className="text-red-700 mb-3">{loadError}</p>
+            <button
+              onClick={loadHistory}
+              className="inline-flex items-center gap-2 px-4 py-2 bg-[#344895] text-white rounded-lg hover:bg-[#1A1F71] transition-colors"
+            >
+              <RefreshCw className="w-4 h-4" />
+              Try again
+            </button>
+          </div>
+        ) : series.length === 0 ? (
+          <div className="bg-white border border-gray-200 rounded-xl p-8 text-center">
+            <AlertCircle className="w-10 h-10 text-gray-400 mx-auto mb-3" />
+            <p className="text-gray-600">Complete and evaluate a training session to start tracking your competencies.</p>
+          </div>
+        ) : (
+          <div className="space-y-6">
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+              {/* Current Level */}
+              <div className="bg-white border border-gray-200 rounded-xl p-4">
+                <h2 className="font-semibold text-gray-900 mb-1">Current level</h2>
+                <p className="text-xs text-gray-500 mb-3">
+                  Average of your last {ROLLING_WINDOW} sessions in each category. The dashed line is the{' '}
+                  {COMPETENCY_TARGET_PERCENTAGE}% target.
+                </p>
+                {series.length >= 3 ? (
+                  <CompetencyRadarChart series={series} />
+                ) : (
+                  <ul className="space-y-2 text-sm">
+                    {series.map((item) => (
+                      <li key={item.key} className="flex justify-between">
+                        <span className="text-gray-700">{item.label}</span>
+                        <span className="font-semibold tabular-nums">{item.current}%</span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+
+              {/* Most Missed Items */}
+              <div className="bg-white border border-gray-200 rounded-xl p-4">
+                <h2 className="font-semibold text-gray-900 mb-1">Most missed rubric items</h2>
+                <p className="text-xs text-gray-500 mb-3">Criteria you most often scored low on, with the latest evidence.</p>
+                {missedItems.length > 0 ? (
+                  <ol className="space-y-3">
+                    {missedItems.map((item) => (
+                      <li key={`${item.category}:${item.criterion}`} className="text-sm">
+                        <div className="flex items-baseline justify-between gap-3">
+                          <span className="font-medium text-gray-900">
+                            {humanizeKey(item.criterion)}{' '}
+                            <span className="font-normal text-gray-500">· {getCategoryLabel(item.category)}</span>
+                          </span>
+                          <span className="shrink-0 text-xs font-semibold text-amber-700 tabular-nums">
+                            {item.missed} of {item.assessed}
+                          </span>
+                        </div>
+                        {item.lastEvidence && <p className="text-xs text-gray-600 mt-0.5 line-clamp-2">{item.lastEvidence}</p>}
+                      </li>
+                    ))}
+                  </ol>
+                ) : (
+                  <p className="text-sm italic text-gray-500">No rubric items missed so far.</p>
+                )}
+              </div>
+            </div>
+
+            {/* Category Trends */}
+            <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-4">
+              {series.map((item) => (
+                <div key={item.key} className="bg-white border border-gray-200 rounded-xl p-4">
+                  <div className="flex items-baseline justify-between gap-2 mb-1">
+                    <h3 className="font-semibold text-gray-900">{item.label}</h3>
+                    <span
+                      className={`text-lg font-bold tabular-nums ${
+                        item.current >= COMPETENCY_TARGET_PERCENTAGE ? 'text-green-600' : 'text-gray-900'
+                      }`}
+                    >
+                      {item.current}%
+                    </span>
+                  </div>
+                  <Change value={item.change} />
+                  <CompetencyTrendChart series={item} />
+                </div>
+              ))}
+            </div>
+            <p className="text-xs text-gray-500">
+              Dots are individual sessions; the line is the {ROLLING_WINDOW}-session rolling average.
+            </p>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
+
+export default function CompetencyPage() {
+  return (
+    <RequireAuth
+      fallback={
+        <div className="dashboard-page-container">
+          <DashboardNav />
+          <EchoLoader context="reports" />
+        </div>
+      }
+    >
+      <CompetencyContent />
+    </RequireAuth>
+  )
+}
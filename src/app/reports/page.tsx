@@ -1,11 +1,13 @@
 'use client'
 
-import { useEffect, useState } from 'react'
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react'
 import { useRouter } from 'next/navigation'
 import { useAuth } from '@/hooks/useAuth'
 import DashboardNav from '@/components/DashboardNav'
+import RequireAuth from '@/components/RequireAuth'
 import EchoLoader from '@/components/EchoLoader'
 import OSCEFeedback from '@/components/OSCEFeedback'
+import SessionReplay from '@/components/SessionReplay'
 import { 
   ArrowLeft,
   Calendar,
@@ -20,44 +22,75 @@ import {
   AlertCircle,
   Eye,
   TrendingUp,
-  TrendingDown
+  TrendingDown,
+  PlayCircle,
+  GitCompare,
+  Radar,
+  Search,
+  X,
+  ArrowUp,
+  ArrowDown,
+  FileSpreadsheet
 } from 'lucide-react'
 import { apiClient } from '@/lib/api'
+import { listRecordedSessionIds } from '@/lib/sessionRecording'
 import { formatScenarioTitle } from '@/lib/utils'
+import { buildPortfolioHtml, loadEvaluationReport, printHtmlDocument, type EvaluationReport } from '@/lib/feedbackExport'
+import { PATIENT_MOODS } from '@/lib/scenarioAuthoring'
+import { DURATION_BUCKETS, SCENARIO_CATEGORIES } from '@/lib/scenarioCatalog'
+import {
+  DEFAULT_SESSION_SORT,
+  EMPTY_SESSION_FILTERS,
+  SESSIONS_PAGE_SIZE,
+  SESSION_SORT_FIELDS,
+  buildSessionExportRows,
+  buildSessionSearchQuery,
+  fetchAllMatchingSessions,
+  hasActiveSessionFilters,
+  toggleSessionSort,
+  type SessionDateRange,
+  type SessionFilters,
+  type SessionSort,
+  type SessionSummary,
+} from '@/lib/sessionSearch'
+import { downloadTable, type TableExportFormat } from '@/lib/tableExport'
 
-interface TrainingSession {
-  id: string
-  scenario_title: string
-  category: string
-  scenario_type: string
-  patient_mood: string
-  started_at: string
-  ended_at: string | null
-  duration_seconds: number | null
-  total_turns: number
-  has_evaluation: boolean
-  evaluation_score: number | null
-  evaluation_completed_at: string | null
-}
+const SEARCH_DEBOUNCE_MS = 300
 
-export default function ReportsPage() {
+const DATE_RANGES: { value: SessionDateRange; label: string }[] = [
+  { value: '7days', label: 'Last 7 Days' },
+  { value: '30days', label: 'Last 30 Days' },
+  { value: '90days', label: 'Last 90 Days' },
+  { value: 'all', label: 'All Time' },
+]
+
+const parseScore = (value: string) => (value === '' ? null : Math.min(100, Math.max(0, Number(value))))
+
+function ReportsContent() {
   const router = useRouter()
   const [loading, setLoading] = useState(true)
-  const [sessions, setSessions] = useState<TrainingSession[]>([])
-  const [filteredSessions, setFilteredSessions] = useState<TrainingSession[]>([])
+  // Every evaluated session, for the overview cards; the list below pages through the server search
+  const [sessions, setSessions] = useState<SessionSummary[]>([])
+  const [results, setResults] = useState<SessionSummary[]>([])
+  const [hasMore, setHasMore] = useState(false)
+  const [loadingPage, setLoadingPage] = useState(false)
+  const [listError, setListError] = useState<string | null>(null)
+  const [filters, setFilters] = useState<SessionFilters>(EMPTY_SESSION_FILTERS)
+  const [searchInput, setSearchInput] = useState('')
+  const [sort, setSort] = useState<SessionSort>(DEFAULT_SESSION_SORT)
   const [selectedSession, setSelectedSession] = useState<string | null>(null)
   const [showFeedback, setShowFeedback] = useState(false)
-  const [dateRange, setDateRange] = useState('all')
-  const [filterStatus, setFilterStatus] = useState<'all' | 'evaluated' | 'not_evaluated'>('all')
+  const [recordedSessionIds, setRecordedSessionIds] = useState<Set<string>>(new Set())
+  const [replaySessionId, setReplaySessionId] = useState<string | null>(null)
+  const [portfolioIds, setPortfolioIds] = useState<Set<string>>(new Set())
+  const [exportingPortfolio, setExportingPortfolio] = useState(false)
+  const [exportingTable, setExportingTable] = useState<TableExportFormat | null>(null)
+  const [exportError, setExportError] = useState<{ message: string; retry: () => void } | null>(null)
+  const searchRequest = useRef(0)
+  const loadMoreRef = useRef<HTMLDivElement>(null)
 
   const { user, loading: authLoading } = useAuth()
   
-  useEffect(() => {
-    if (!authLoading && !user) {
-      router.push('/auth/login')
-    }
-  }, [user, authLoading, router])
-
   useEffect(() => {
     const fetchSessions = async () => {
       if (!user) return
@@ -65,11 +98,10 @@ export default function ReportsPage() {
       try {
         setLoading(true)
         console.log('📚 Fetching sessions for user:', user.id)
-        const data = await apiClient.getAllSessions(100, 0)
+        const data = await fetchAllMatchingSessions({ evaluated: true })
         console.log('📊 Received sessions:', data)
         console.log('📊 Number of sessions:', data?.length || 0)
         setSessions(data)
-        setFilteredSessions(data)
       } catch (error) {
         console.error('❌ Failed to fetch sessions:', error)
       } finally {
@@ -82,46 +114,148 @@ export default function ReportsPage() {
     }
   }, [user])
 
+  // Links from dispute notifications open that session's report
   useEffect(() => {
-    let filtered = [...sessions]
-
-    // Filter by date range
-    if (dateRange !== 'all') {
-      const now = new Date()
-      const cutoffDate = new Date()
-      
-      switch (dateRange) {
-        case '7days':
-          cutoffDate.setDate(now.getDate() - 7)
-          break
-        case '30days':
-          cutoffDate.setDate(now.getDate() - 30)
-          break
-        case '90days':
-          cutoffDate.setDate(now.getDate() - 90)
-          break
-      }
-      
-      filtered = filtered.filter(session => 
-        new Date(session.started_at) >= cutoffDate
-      )
+    const sessionId = new URLSearchParams(window.location.search).get('session')
+    if (sessionId) {
+      setSelectedSession(sessionId)
+      setShowFeedback(true)
     }
+  }, [])
 
-    // Filter by evaluation status
-    if (filterStatus !== 'all') {
-      filtered = filtered.filter(session => 
-        filterStatus === 'evaluated' ? session.has_evaluation : !session.has_evaluation
-      )
+  // Replays are only available for sessions recorded in this browser
+  useEffect(() => {
+    listRecordedSessionIds()
+      .then((ids) => setRecordedSessionIds(new Set(ids)))
+      .catch((error) => console.warn('Local recordings unavailable:', error))
+  }, [])
+
+  // Typing only searches once the user pauses
+  useEffect(() => {
+    const timeout = setTimeout(() => {
+      setFilters((prev) => (prev.search === searchInput ? prev : { ...prev, search: searchInput }))
+    }, SEARCH_DEBOUNCE_MS)
+    return () => clearTimeout(timeout)
+  }, [searchInput])
+
+  const searchQuery = useMemo(() => buildSessionSearchQuery(filters, sort), [filters, sort])
+
+  // A new query restarts from the first page; responses to superseded requests are dropped
+  const loadPage = useCallback(async (skip: number) => {
+    const requestId = ++searchRequest.current
+    try {
+      setLoadingPage(true)
+      setListError(null)
+      const page = await apiClient.searchSessions(searchQuery, SESSIONS_PAGE_SIZE, skip)
+      if (requestId !== searchRequest.current) return
+      setResults((prev) => (skip === 0 ? page : [...prev, ...page]))
+      setHasMore(page.length === SESSIONS_PAGE_SIZE)
+    } catch (error) {
+      if (requestId !== searchRequest.current) return
+      console.error('❌ Failed to search sessions:', error)
+      setListError(error instanceof Error ? error.message : 'Failed to load sessions')
+    } finally {
+      if (requestId === searchRequest.current) setLoadingPage(false)
     }
+  }, [searchQuery])
+
+  useEffect(() => {
+    if (user) loadPage(0)
+  }, [user, loadPage])
 
-    setFilteredSessions(filtered)
-  }, [dateRange, filterStatus, sessions])
+  // Infinite scroll: fetch the next page as the end of the list comes into view
+  useEffect(() => {
+    const sentinel = loadMoreRef.current
+    if (!sentinel || !hasMore || loadingPage || listError) return
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries[0]?.isIntersecting) loadPage(results.length)
+      },
+      { rootMargin: '200px' }
+    )
+    observer.observe(sentinel)
+    return () => observer.disconnect()
+  }, [hasMore, loadingPage, listError, loadPage, results.length])
+
+  const updateFilter = <K extends keyof SessionFilters>(key: K, value: SessionFilters[K]) => {
+    setFilters((prev) => ({ ...prev, [key]: value }))
+  }
+
+  const clearFilters = () => {
+    setSearchInput('')
+    setFilters(EMPTY_SESSION_FILTERS)
+  }
+
+  // Scenarios attempted (and evaluated) more than once can be compared
+  const evaluatedAttempts = sessions.reduce((counts, session) => {
+    if (session.scenario_id && session.has_evaluation) {
+      counts.set(session.scenario_id, (counts.get(session.scenario_id) ?? 0) + 1)
+    }
+    return counts
+  }, new Map<string, number>())
 
   const handleViewFeedback = (sessionId: string) => {
     setSelectedSession(sessionId)
     setShowFeedback(true)
   }
 
+  const togglePortfolioSession = (sessionId: string) => {
+    setPortfolioIds((current) => {
+      const next = new Set(current)
+      if (next.has(sessionId)) next.delete(sessionId)
+      else next.add(sessionId)
+      return next
+    })
+  }
+
+  // Portfolio of the selected evaluated sessions, oldest first, printed as one document
+  const handleExportPortfolio = async () => {
+    // Selections can come from any page of the list, including ones since filtered out
+    const known = new Map([...sessions, ...results].map((session) => [session.id, session]))
+    const selected = Array.from(known.values())
+      .filter((session) => portfolioIds.has(session.id) && session.has_evaluation)
+      .sort((a, b) => new Date(a.started_at).getTime() - new Date(b.started_at).getTime())
+    if (selected.length === 0) return
+
+    try {
+      setExportingPortfolio(true)
+      setExportError(null)
+      const reports: EvaluationReport[] = []
+      // One at a time to keep the load on the evaluation endpoint predictable
+      for (const session of selected) {
+        reports.push(await loadEvaluationReport(session.id))
+      }
+      printHtmlDocument(buildPortfolioHtml(reports, user?.full_name))
+    } catch (error) {
+      console.error('❌ Failed to export portfolio:', error)
+      setExportError({
+        message: error instanceof Error ? error.message : 'Failed to export portfolio',
+        retry: handleExportPortfolio,
+      })
+    } finally {
+      setExportingPortfolio(false)
+    }
+  }
+
+  // Everything matching the current search and filters, not just the loaded pages
+  const handleExportTable = async (format: TableExportFormat) => {
+    try {
+      setExportingTable(format)
+      setExportError(null)
+      const matching = await fetchAllMatchingSessions(searchQuery)
+      const rows = await buildSessionExportRows(matching)
+      downloadTable(rows, `training-sessions-${new Date().toISOString().slice(0, 10)}`, format)
+    } catch (error) {
+      console.error('❌ Failed to export sessions:', error)
+      setExportError({
+        message: error instanceof Error ? error.message : 'Failed to export sessions',
+        retry: () => handleExportTable(format),
+      })
+    } finally {
+      setExportingTable(null)
+    }
+  }
+
   const getScoreColor = (score: number | null) => {
     if (!score) return 'text-gray-400'
     if (score >= 80) return 'text-green-600'  // 80/100 = 80% passing threshold
@@ -222,13 +356,43 @@ export default function ReportsPage() {
           </div>
 
           <div className="reports-actions">
-            <button className="reports-action-button">
+            <button
+              className="reports-action-button"
+              onClick={() => router.push('/reports/competency')}
+              title="Track each OSCE category across all your evaluated sessions"
+            >
+              <Radar className="w-4 h-4" />
+              <span className="hidden sm:inline">Competency</span>
+            </button>
+            <button
+              className="reports-action-button disabled:opacity-50 disabled:cursor-not-allowed"
+              onClick={handleExportPortfolio}
+              disabled={portfolioIds.size === 0 || exportingPortfolio}
+              title={portfolioIds.size === 0 ? 'Select evaluated sessions below to include in your portfolio' : 'Save the selected reports as one PDF'}
+            >
               <Download className="w-4 h-4" />
-              <span className="hidden sm:inline">Export</span>
+              <span className="hidden sm:inline">
+                {exportingPortfolio
+                  ? 'Preparing portfolio…'
+                  : `Export portfolio${portfolioIds.size > 0 ? ` (${portfolioIds.size})` : ''}`}
+              </span>
             </button>
           </div>
         </div>
 
+        {exportError && (
+          <div className="bg-red-50 border border-red-200 rounded-lg p-4 mb-6 flex items-start gap-3">
+            <AlertCircle className="w-5 h-5 text-red-600 flex-shrink-0 mt-0.5" />
+            <p className="text-sm text-red-800 flex-1">{exportError.message}</p>
+            <button
+              onClick={exportError.retry}
+              className="text-sm font-medium text-red-700 hover:text-red-900"
+            >
+              Try again
+            </button>
+          </div>
+        )}
+
         {/* Stats Overview */}
         <div className="reports-metrics-grid">
           <div className="reports-metric-card">
@@ -292,48 +456,113 @@ export default function ReportsPage() {
           </div>
         </div>
 
-        {/* Filters */}
-        <div className="flex flex-col sm:flex-row gap-4 mb-6">
-          {/* Date Range Selector */}
-          <div className="reports-date-selector flex-1">
-            <button 
-              className={`reports-date-button ${dateRange === '7days' ? 'active' : ''}`}
-              onClick={() => setDateRange('7days')}
-            >
-              Last 7 Days
-            </button>
-            <button 
-              className={`reports-date-button ${dateRange === '30days' ? 'active' : ''}`}
-              onClick={() => setDateRange('30days')}
-            >
-              Last 30 Days
-            </button>
-            <button 
-              className={`reports-date-button ${dateRange === '90days' ? 'active' : ''}`}
-              onClick={() => setDateRange('90days')}
-            >
-              Last 90 Days
-            </button>
-            <button 
-              className={`reports-date-button ${dateRange === 'all' ? 'active' : ''}`}
-              onClick={() => setDateRange('all')}
-            >
-              All Time
-            </button>
+        {/* Search & Filters */}
+        <div className="bg-white border border-gray-200 rounded-xl p-4 mb-6 space-y-3">
+          <div className="flex flex-col sm:flex-row gap-4">
+            <div className="relative flex-1">
+              <Search className="w-4 h-4 text-gray-400 absolute left-3 top-1/2 -translate-y-1/2" />
+              <input
+                type="search"
+                value={searchInput}
+                onChange={(e) => setSearchInput(e.target.value)}
+                placeholder="Search scenario titles and transcripts..."
+                aria-label="Search sessions"
+                className="w-full pl-9 pr-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-purple-500"
+              />
+            </div>
+
+            {/* Date Range Selector */}
+            <div className="reports-date-selector">
+              {DATE_RANGES.map((option) => (
+                <button
+                  key={option.value}
+                  className={`reports-date-button ${filters.dateRange === option.value ? 'active' : ''}`}
+                  onClick={() => updateFilter('dateRange', option.value)}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
           </div>
 
-          {/* Status Filter */}
-          <div className="flex items-center gap-2">
+          <div className="flex flex-wrap items-center gap-2">
             <Filter className="w-4 h-4 text-gray-500" />
             <select
-              value={filterStatus}
-              onChange={(e) => setFilterStatus(e.target.value as any)}
+              value={filters.status}
+              onChange={(e) => updateFilter('status', e.target.value as SessionFilters['status'])}
+              aria-label="Filter by evaluation status"
               className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-purple-500"
             >
               <option value="all">All Sessions</option>
               <option value="evaluated">Evaluated Only</option>
               <option value="not_evaluated">Not Evaluated</option>
             </select>
+            <select
+              value={filters.category ?? ''}
+              onChange={(e) => updateFilter('category', e.target.value || null)}
+              aria-label="Filter by category"
+              className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-purple-500"
+            >
+              <option value="">All categories</option>
+              {SCENARIO_CATEGORIES.map((option) => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+            <select
+              value={filters.mood ?? ''}
+              onChange={(e) => updateFilter('mood', e.target.value || null)}
+              aria-label="Filter by patient mood"
+              className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-purple-500"
+            >
+              <option value="">Any mood</option>
+              {PATIENT_MOODS.map((mood) => (
+                <option key={mood} value={mood}>{formatScenarioTitle(mood)}</option>
+              ))}
+            </select>
+            <select
+              value={filters.duration ?? ''}
+              onChange={(e) => updateFilter('duration', (e.target.value || null) as SessionFilters['duration'])}
+              aria-label="Filter by duration"
+              className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-purple-500"
+            >
+              <option value="">Any length</option>
+              {DURATION_BUCKETS.map((option) => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+            <div className="flex items-center gap-1 text-sm text-gray-600">
+              <span>Score</span>
+              <input
+                type="number"
+                min={0}
+                max={100}
+                value={filters.minScore ?? ''}
+                onChange={(e) => updateFilter('minScore', parseScore(e.target.value))}
+                placeholder="0"
+                aria-label="Minimum score"
+                className="w-16 px-2 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-purple-500"
+              />
+              <span>–</span>
+              <input
+                type="number"
+                min={0}
+                max={100}
+                value={filters.maxScore ?? ''}
+                onChange={(e) => updateFilter('maxScore', parseScore(e.target.value))}
+                placeholder="100"
+                aria-label="Maximum score"
+                className="w-16 px-2 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-purple-500"
+              />
+            </div>
+            {(hasActiveSessionFilters(filters) || searchInput !== '') && (
+              <button
+                onClick={clearFilters}
+                className="flex items-center gap-1 text-sm text-gray-600 hover:text-gray-900"
+              >
+                <X className="w-4 h-4" />
+                Clear
+              </button>
+            )}
           </div>
         </div>
 
@@ -341,26 +570,104 @@ export default function ReportsPage() {
         <div className="reports-section-card">
           <div className="reports-section-header">
             <h2 className="reports-section-title">Training Sessions</h2>
-            <span className="reports-badge">{filteredSessions.length} Sessions</span>
+            <div className="flex items-center gap-3">
+              {portfolioIds.size > 0 && (
+                <button
+                  onClick={() => setPortfolioIds(new Set())}
+                  className="text-sm text-gray-500 hover:text-gray-700"
+                >
+                  Clear selection
+                </button>
+              )}
+              {(['csv', 'xlsx'] as TableExportFormat[]).map((format) => (
+                <button
+                  key={format}
+                  onClick={() => handleExportTable(format)}
+                  disabled={exportingTable !== null || results.length === 0}
+                  className="inline-flex items-center gap-1 text-sm text-gray-600 hover:text-gray-900 disabled:opacity-50"
+                  title={`Download every session matching these filters, with category scores, as ${format.toUpperCase()}`}
+                >
+                  <FileSpreadsheet className="w-4 h-4" />
+                  {exportingTable === format ? 'Exporting…' : format.toUpperCase()}
+                </button>
+              ))}
+              <span className="reports-badge">
+                {results.length}
+                {hasMore ? '+' : ''} Sessions
+              </span>
+            </div>
           </div>
-          
-          {filteredSessions.length === 0 ? (
+
+          {/* Sort */}
+          <div className="flex flex-wrap items-center gap-1 px-4 py-2 border-b border-gray-100 text-xs text-gray-500">
+            <span className="mr-1">Sort by</span>
+            {SESSION_SORT_FIELDS.map((option) => {
+              const active = sort.field === option.value
+              return (
+                <button
+                  key={option.value}
+                  onClick={() => setSort((prev) => toggleSessionSort(prev, option.value))}
+                  aria-pressed={active}
+                  className={`inline-flex items-center gap-0.5 px-2 py-1 rounded transition-colors ${
+                    active ? 'bg-purple-50 text-purple-700 font-semibold' : 'hover:bg-gray-50'
+                  }`}
+                >
+                  {option.label}
+                  {active && (sort.direction === 'asc' ? <ArrowUp className="w-3 h-3" /> : <ArrowDown className="w-3 h-3" />)}
+                </button>
+              )
+            })}
+          </div>
+
+          {listError ? (
             <div className="text-center py-12">
-              <AlertCircle className="w-12 h-12 text-gray-400 mx-auto mb-3" />
-              <p className="text-gray-500">No training sessions found</p>
+              <AlertCircle className="w-12 h-12 text-red-400 mx-auto mb-3" />
+              <p className="text-red-700 mb-3">{listError}</p>
               <button
-                onClick={() => router.push('/training')}
-                className="mt-4 px-4 py-2 bg-purple-600 text-white rounded-lg hover:bg-purple-700 transition-colors"
+                onClick={() => loadPage(results.length)}
+                className="px-4 py-2 bg-purple-600 text-white rounded-lg hover:bg-purple-700 transition-colors"
               >
-                Start Training
+                Try again
               </button>
             </div>
+          ) : results.length === 0 ? (
+            loadingPage ? (
+              <p className="text-center text-gray-500 py-12">Loading sessions…</p>
+            ) : hasActiveSessionFilters(filters) ? (
+              <div className="text-center py-12">
+                <AlertCircle className="w-12 h-12 text-gray-400 mx-auto mb-3" />
+                <p className="text-gray-500">No sessions match these filters</p>
+                <button onClick={clearFilters} className="mt-4 text-sm text-purple-700 hover:text-purple-900">
+                  Clear filters
+                </button>
+              </div>
+            ) : (
+              <div className="text-center py-12">
+                <AlertCircle className="w-12 h-12 text-gray-400 mx-auto mb-3" />
+                <p className="text-gray-500">No training sessions found</p>
+                <button
+                  onClick={() => router.push('/training')}
+                  className="mt-4 px-4 py-2 bg-purple-600 text-white rounded-lg hover:bg-purple-700 transition-colors"
+                >
+                  Start Training
+                </button>
+              </div>
+            )
           ) : (
             <div className="reports-sessions-list">
-              {filteredSessions.map((session) => (
+              {results.map((session) => (
                 <div key={session.id} className="reports-session-item">
                   <div className="reports-session-header">
                     <div className="flex items-center gap-3 flex-1">
+                      {session.has_evaluation && (
+                        <input
+                          type="checkbox"
+                          checked={portfolioIds.has(session.id)}
+                          onChange={() => togglePortfolioSession(session.id)}
+                          className="w-4 h-4 accent-purple-600 cursor-pointer"
+                          aria-label={`Include ${formatScenarioTitle(session.scenario_title)} in portfolio export`}
+                        />
+                      )}
                       <div className="reports-session-icon">
                         <BarChart3 className="w-5 h-5" />
                       </div>
@@ -386,6 +693,25 @@ export default function ReportsPage() {
                     </div>
                     
                     <div className="flex items-center gap-3">
+                      {recordedSessionIds.has(session.id) && (
+                        <button
+                          onClick={() => setReplaySessionId(session.id)}
+                          className="px-3 py-2 border border-purple-300 text-purple-700 rounded-lg hover:bg-purple-50 transition-colors flex items-center gap-2 text-sm"
+                        >
+                          <PlayCircle className="w-4 h-4" />
+                          Replay
+                        </button>
+                      )}
+                      {session.scenario_id && (evaluatedAttempts.get(session.scenario_id) ?? 0) >= 2 && (
+                        <button
+                          onClick={() => router.push(`/reports/compare?scenario=${encodeURIComponent(session.scenario_id!)}`)}
+                          className="px-3 py-2 border border-purple-300 text-purple-700 rounded-lg hover:bg-purple-50 transition-colors flex items-center gap-2 text-sm"
+                          title="Compare your attempts at this scenario"
+                        >
+                          <GitCompare className="w-4 h-4" />
+                          Compare
+                        </button>
+                      )}
                       {session.has_evaluation ? (
                         <>
                           <div className="text-right">
@@ -413,6 +739,11 @@ export default function ReportsPage() {
                   </div>
                 </div>
               ))}
+              {hasMore && (
+                <div ref={loadMoreRef} className="py-4 text-center text-sm text-gray-500">
+                  {loadingPage ? 'Loading more sessions…' : ''}
+                </div>
+              )}
             </div>
           )}
         </div>
@@ -433,6 +764,30 @@ export default function ReportsPage() {
           </div>
         </div>
       )}
+
+      {/* Replay Modal */}
+      {replaySessionId && (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white rounded-2xl max-w-3xl w-full max-h-[90vh] overflow-y-auto">
+            <SessionReplay sessionId={replaySessionId} onClose={() => setReplaySessionId(null)} />
+          </div>
+        </div>
+      )}
     </div>
   )
 }
+
+export default function ReportsPage() {
+  return (
+    <RequireAuth
+      fallback={
+        <div className="dashboard-page-container">
+          <DashboardNav />
+          <EchoLoader context="reports" />
+        </div>
+      }
+    >
+      <ReportsContent />
+    </RequireAuth>
+  )
+}
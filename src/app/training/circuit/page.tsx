@@ -0,0 +1,445 @@
+'use client'
+
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react'
+import { useRouter } from 'next/navigation'
+import DashboardNav from '@/components/DashboardNav'
+import RequireAuth from '@/components/RequireAuth'
+import EchoLoader from '@/components/EchoLoader'
+import TrainingBotEnhanced from '@/components/TrainingBotEnhanced'
+import OSCECircuitReport from '@/components/OSCECircuitReport'
+import { ArrowDown, ArrowLeft, ArrowUp, BookOpen, Play, RefreshCw, Shuffle, Timer, X } from 'lucide-react'
+import { listTrainingScenarios, type TrainingScenario } from '@/lib/trainingApi'
+import { getCategoryLabel } from '@/lib/scenarioCatalog'
+import {
+  createCircuitConfig,
+  DEFAULT_READING_SECONDS,
+  DEFAULT_STATION_SECONDS,
+  MAX_CIRCUIT_STATIONS,
+  MIN_CIRCUIT_STATIONS,
+  pickRandomStations,
+  playStationTone,
+  READING_TIME_OPTIONS,
+  STATION_TIME_OPTIONS,
+  type CircuitConfig,
+  type CircuitStationControl,
+  type CircuitStationResult,
+} from '@/lib/osceCircuit'
+import { formatScenarioTitle } from '@/lib/utils'
+
+type CircuitPhase = 'setup' | 'reading' | 'station' | 'report'
+
+const formatMinutes = (seconds: number) => (seconds % 60 === 0 ? `${seconds / 60} min` : `${(seconds / 60).toFixed(1)} min`)
+const formatClock = (seconds: number) => `${Math.floor(seconds / 60)}:${(seconds % 60).toString().padStart(2, '0')}`
+
+function OSCECircuitContent() {
+  const router = useRouter()
+  const [scenarios, setScenarios] = useState<TrainingScenario[]>([])
+  const [loading, setLoading] = useState(true)
+  const [loadError, setLoadError] = useState<string | null>(null)
+
+  const [selected, setSelected] = useState<TrainingScenario[]>([])
+  const [readingSeconds, setReadingSeconds] = useState(DEFAULT_READING_SECONDS)
+  const [stationSeconds, setStationSeconds] = useState(DEFAULT_STATION_SECONDS)
+
+  const [circuit, setCircuit] = useState<CircuitConfig | null>(null)
+  const [phase, setPhase] = useState<CircuitPhase>('setup')
+  const [stationIndex, setStationIndex] = useState(0)
+  // Reading time runs on wall-clock time so throttled background tabs don't stretch it
+  const [readingEndsAt, setReadingEndsAt] = useState(0)
+  const [readingNow, setReadingNow] = useState(() => Date.now())
+  const readingRemaining = Math.max(0, Math.ceil((readingEndsAt - readingNow) / 1000))
+  const [results, setResults] = useState<CircuitStationResult[]>([])
+
+  const loadScenarios = useCallback(async () => {
+    try {
+      setLoading(true)
+      setLoadError(null)
+      setScenarios(await listTrainingScenarios())
+    } catch (error) {
+      console.error('❌ Failed to load scenarios for circuit:', error)
+      setLoadError(error instanceof Error ? error.message : 'Failed to load scenarios')
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    loadScenarios()
+  }, [loadScenarios])
+
+  // Reading time counts down in real time; the station starts on the tone
+  useEffect(() => {
+    if (phase !== 'reading') return
+    const interval = setInterval(() => setReadingNow(Date.now()), 1000)
+    return () => clearInterval(interval)
+  }, [phase])
+
+  useEffect(() => {
+    if (phase !== 'reading' || readingRemaining > 0) return
+    playStationTone('start')
+    setPhase('station')
+  }, [phase, readingRemaining])
+
+  // Leaving mid-circuit loses the remaining stations
+  useEffect(() => {
+    if (phase !== 'reading' && phase !== 'station') return
+    const handleBeforeUnload = (event: BeforeUnloadEvent) => {
+      event.preventDefault()
+    }
+    window.addEventListener('beforeunload', handleBeforeUnload)
+    return () => window.removeEventListener('beforeunload', handleBeforeUnload)
+  }, [phase])
+
+  const toggleStation = (scenario: TrainingScenario) => {
+    setSelected((prev) =>
+      prev.some((item) => item.id === scenario.id)
+        ? prev.filter((item) => item.id !== scenario.id)
+        : prev.length < MAX_CIRCUIT_STATIONS
+          ? [...prev, scenario]
+          : prev
+    )
+  }
+
+  const moveStation = (index: number, offset: -1 | 1) => {
+    setSelected((prev) => {
+      const next = [...prev]
+      const target = index + offset
+      if (target < 0 || target >= next.length) return prev
+      ;[next[index], next[target]] = [next[target], next[index]]
+      return next
+    })
+  }
+
+  const beginReading = (index: number, config: CircuitConfig) => {
+    setStationIndex(index)
+    const now = Date.now()
+    setReadingNow(now)
+    setReadingEndsAt(now + config.readingSeconds * 1000)
+    setPhase('reading')
+  }
+
+  const handleStartCircuit = () => {
+    if (selected.length < MIN_CIRCUIT_STATIONS) return
+    const config = createCircuitConfig(selected, readingSeconds, stationSeconds)
+    console.log('[Circuit] Starting circuit', config.id, 'with', config.stations.length, 'stations')
+    setCircuit(config)
+    setResults([])
+    beginReading(0, config)
+  }
+
+  const handleStationComplete = useCallback<CircuitStationControl['onComplete']>(
+    (sessionId, endedBy, elapsedSeconds) => {
+      if (!circuit) return
+      const scenario = circuit.stations[stationIndex]
+      console.log('[Circuit] Station', stationIndex + 1, 'ended by', endedBy, 'session:', sessionId)
+      setResults((prev) => [...prev, { scenario, sessionId, endedBy, elapsedSeconds }])
+      if (stationIndex + 1 < circuit.stations.length) {
+        beginReading(stationIndex + 1, circuit)
+      } else {
+        setPhase('report')
+      }
+    },
+    [circuit, stationIndex]
+  )
+
+  // Ends the running station's session (and releases the mic) when leaving mid-station
+  const stopStationRef = useRef<(() => Promise<void>) | null>(null)
+  const registerStationStop = useCallback<CircuitStationControl['registerStop']>((stop) => {
+    stopStationRef.current = stop
+  }, [])
+
+  const stationControl = useMemo<CircuitStationControl | null>(
+    () =>
+      circuit
+        ? {
+            circuitId: circuit.id,
+            stationNumber: stationIndex + 1,
+            totalStations: circuit.stations.length,
+            stationSeconds: circuit.stationSeconds,
+            onComplete: handleStationComplete,
+            registerStop: registerStationStop,
+          }
+        : null,
+    [circuit, stationIndex, handleStationComplete, registerStationStop]
+  )
+
+  const handleLeaveCircuit = async () => {
+    if (!window.confirm('Leave the circuit? Stations you have not finished will not be recorded.')) return
+    try {
+      await stopStationRef.current?.()
+    } catch (err) {
+      console.error('[Circuit] Error ending station session:', err)
+    }
+    router.push('/training/scenarios')
+  }
+
+  const handleRestart = () => {
+    setCircuit(null)
+    setResults([])
+    setPhase('setup')
+  }
+
+  if (loading) {
+    return (
+      <div className="dashboard-page-container">
+        <DashboardNav />
+        <EchoLoader context="training" />
+      </div>
+    )
+  }
+
+  const currentStation = circuit?.stations[stationIndex]
+
+  return (
+    <div className="dashboard-page-container">
+      <DashboardNav />
+
+      <div className="max-w-[1512px] mx-auto px-2 sm:px-4 lg:px-16 pb-6 sm:pb-8">
+        {phase === 'setup' && (
+          <>
+            <button
+              onClick={() => router.push('/training/scenarios')}
+              className="flex items-center gap-2 text-gray-600 hover:text-gray-900 mb-4 pt-2"
+            >
+              <ArrowLeft className="w-5 h-5" />
+              <span>Back to Scenario Library</span>
+            </button>
+
+            <h1 className="text-2xl sm:text-3xl lg:text-4xl font-montserrat font-bold text-black mb-2">OSCE Circuit</h1>
+            <p className="text-base sm:text-lg font-lato text-gray-600 mb-6">
+              Run several stations back to back under exam timing. You get reading time before each station, and the
+              station ends on the buzzer.
+            </p>
+
+            {loadError ? (
+              <div className="bg-red-50 border border-red-200 rounded-xl p-6 text-center">
+                <p className="text-red-700 mb-3">{loadError}</p>
+                <button
+                  onClick={loadScenarios}
+                  className="inline-flex items-center gap-2 px-4 py-2 bg-[#344895] text-white rounded-lg hover:bg-[#1A1F71] transition-colors"
+                >
+                  <RefreshCw className="w-4 h-4" />
+                  Try again
+                </button>
+              </div>
+            ) : (
+              <div className="grid grid-cols-1 lg:grid-cols-[2fr_1fr] gap-6 items-start">
+                {/* Scenario Picker */}
+                <div className="bg-white border border-gray-200 rounded-xl p-4">
+                  <div className="flex items-center justify-between mb-3">
+                    <h2 className="font-semibold text-gray-900">Choose stations</h2>
+                    <button
+                      onClick={() => setSelected(pickRandomStations(scenarios, Math.min(4, scenarios.length)))}
+                      className="flex items-center gap-1 text-sm font-medium text-[#344895] hover:text-[#1A1F71]"
+                    >
+                      <Shuffle className="w-4 h-4" />
+                      Random circuit
+                    </button>
+                  </div>
+                  <div className="divide-y divide-gray-100 max-h-[32rem] overflow-y-auto">
+                    {scenarios.map((scenario) => {
+                      const position = selected.findIndex((item) => item.id === scenario.id)
+                      return (
+                        <div key={scenario.id} className="flex items-start gap-3 py-2">
+                          <input
+                            id={`circuit-station-${scenario.id}`}
+                            type="checkbox"
+                            checked={position !== -1}
+                            onChange={() => toggleStation(scenario)}
+                            disabled={position === -1 && selected.length >= MAX_CIRCUIT_STATIONS}
+                            className="mt-1"
+                          />
+                          <label htmlFor={`circuit-station-${scenario.id}`} className="flex-1 cursor-pointer">
+                            <span className="block text-sm font-medium text-gray-900">{scenario.title}</span>
+                            <span className="block text-xs text-gray-500">
+                              {getCategoryLabel(scenario.category)} · {formatScenarioTitle(scenario.difficulty)} ·{' '}
+                              {formatScenarioTitle(scenario.patient_mood)} patient
+                            </span>
+                          </label>
+                        </div>
+                      )
+                    })}
+                  </div>
+                </div>
+
+                {/* Circuit Summary */}
+                <div className="bg-white border border-gray-200 rounded-xl p-4 space-y-4 lg:sticky lg:top-4">
+                  <h2 className="font-semibold text-gray-900">Your circuit</h2>
+                  {selected.length === 0 ? (
+                    <p className="text-sm text-gray-500">
+                      Pick {MIN_CIRCUIT_STATIONS}-{MAX_CIRCUIT_STATIONS} stations.
+                    </p>
+                  ) : (
+                    <ol className="space-y-1">
+                      {selected.map((scenario, index) => (
+                        <li key={scenario.id} className="flex items-center gap-2 text-sm">
+                          <span className="w-6 h-6 rounded-full bg-[#344895] text-white text-xs font-bold flex items-center justify-center flex-shrink-0">
+                            {index + 1}
+                          </span>
+                          <span className="flex-1 truncate">{scenario.title}</span>
+                          <button
+                            onClick={() => moveStation(index, -1)}
+                            disabled={index === 0}
+                            className="p-1 text-gray-400 hover:text-gray-700 disabled:opacity-30"
+                            aria-label={`Move ${scenario.title} earlier`}
+                          >
+                            <ArrowUp className="w-4 h-4" />
+                          </button>
+                          <button
+                            onClick={() => moveStation(index, 1)}
+                            disabled={index === selected.length - 1}
+                            className="p-1 text-gray-400 hover:text-gray-700 disabled:opacity-30"
+                            aria-label={`Move ${scenario.title} later`}
+                          >
+                            <ArrowDown className="w-4 h-4" />
+                          </button>
+                          <button
+                            onClick={() => toggleStation(scenario)}
+                            className="p-1 text-gray-400 hover:text-red-600"
+                            aria-label={`Remove ${scenario.title}`}
+                          >
+                            <X className="w-4 h-4" />
+                          </button>
+                        </li>
+                      ))}
+                    </ol>
+                  )}
+
+                  <div className="grid grid-cols-2 gap-3">
+                    <div>
+                      <label htmlFor="circuit-reading" className="block text-sm font-semibold text-gray-700 mb-1">
+                        Reading time
+                      </label>
+                      <select
+                        id="circuit-reading"
+                        value={readingSeconds}
+                        onChange={(e) => setReadingSeconds(Number(e.target.value))}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-[#344895]"
+                      >
+                        {READING_TIME_OPTIONS.map((seconds) => (
+                          <option key={seconds} value={seconds}>{formatMinutes(seconds)}</option>
+                        ))}
+                      </select>
+                    </div>
+                    <div>
+                      <label htmlFor="circuit-station" className="block text-sm font-semibold text-gray-700 mb-1">
+                        Station time
+                      </label>
+                      <select
+                        id="circuit-station"
+                        value={stationSeconds}
+                        onChange={(e) => setStationSeconds(Number(e.target.value))}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-[#344895]"
+                      >
+                        {STATION_TIME_OPTIONS.map((seconds) => (
+                          <option key={seconds} value={seconds}>{formatMinutes(seconds)}</option>
+                        ))}
+                      </select>
+                    </div>
+                  </div>
+
+                  <p className="text-xs text-gray-500">
+                    About {Math.ceil((selected.length * (readingSeconds + stationSeconds)) / 60)} minutes in total. Feedback
+                    for every station comes in one report at the end.
+                  </p>
+
+                  <button
+                    onClick={handleStartCircuit}
+                    disabled={selected.length < MIN_CIRCUIT_STATIONS}
+                    className="w-full inline-flex items-center justify-center gap-2 px-4 py-3 bg-[#344895] text-white rounded-lg font-semibold hover:bg-[#1A1F71] transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    <Play className="w-4 h-4" />
+                    Start circuit
+                  </button>
+                </div>
+              </div>
+            )}
+          </>
+        )}
+
+        {(phase === 'reading' || phase === 'station') && circuit && currentStation && (
+          <>
+            <div className="flex items-center justify-between pt-2 mb-4">
+              <ol className="flex items-center gap-1" aria-label="Circuit progress">
+                {circuit.stations.map((scenario, index) => (
+                  <li
+                    key={`${scenario.id}-${index}`}
+                    className={`w-8 h-2 rounded-full ${
+                      index < stationIndex ? 'bg-[#344895]' : index === stationIndex ? 'bg-[#3DD6D0]' : 'bg-gray-200'
+                    }`}
+                    aria-current={index === stationIndex ? 'step' : undefined}
+                    title={`Station ${index + 1}`}
+                  />
+                ))}
+              </ol>
+              <button onClick={handleLeaveCircuit} className="text-sm text-gray-500 hover:text-gray-800">
+                Leave circuit
+              </button>
+            </div>
+
+            {phase === 'reading' ? (
+              <div className="bg-white border border-gray-200 rounded-xl p-6 sm:p-8 max-w-3xl mx-auto">
+                <div className="flex items-center justify-between mb-4">
+                  <p className="text-sm font-semibold text-[#344895] flex items-center gap-2">
+                    <BookOpen className="w-4 h-4" />
+                    Station {stationIndex + 1} of {circuit.stations.length} - reading time
+                  </p>
+                  <span className="flex items-center gap-1 text-2xl font-bold tabular-nums text-gray-900" role="timer">
+                    <Timer className="w-5 h-5 text-gray-500" />
+                    {formatClock(readingRemaining)}
+                  </span>
+                </div>
+                <h2 className="text-2xl font-montserrat font-bold text-gray-900 mb-3">{currentStation.title}</h2>
+                <p className="text-gray-700 mb-4">{currentStation.description}</p>
+                <div className="flex flex-wrap gap-2 text-xs mb-6">
+                  <span className="px-2 py-0.5 rounded-full bg-gray-100 text-gray-700">{getCategoryLabel(currentStation.category)}</span>
+                  <span className="px-2 py-0.5 rounded-full bg-gray-100 text-gray-700">{formatScenarioTitle(currentStation.patient_mood)} patient</span>
+                  <span className="px-2 py-0.5 rounded-full bg-gray-100 text-gray-700">{formatMinutes(circuit.stationSeconds)} station</span>
+                </div>
+                <button
+                  onClick={() => setReadingEndsAt(readingNow)}
+                  className="inline-flex items-center gap-2 px-4 py-2 bg-[#344895] text-white rounded-lg font-semibold text-sm hover:bg-[#1A1F71] transition-colors"
+                >
+                  <Play className="w-4 h-4" />
+                  I&apos;m ready - start the station
+                </button>
+              </div>
+            ) : (
+              <TrainingBotEnhanced
+                key={`${circuit.id}-${stationIndex}`}
+                scenarios={[]}
+                libraryScenario={currentStation}
+                circuitStation={stationControl}
+              />
+            )}
+          </>
+        )}
+
+        {phase === 'report' && (
+          <div className="pt-2">
+            <OSCECircuitReport
+              results={results}
+              onRestart={handleRestart}
+              onExit={() => router.push('/training/scenarios')}
+            />
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
+
+export default function OSCECircuitPage() {
+  return (
+    <RequireAuth
+      fallback={
+        <div className="dashboard-page-container">
+          <DashboardNav />
+          <EchoLoader context="training" />
+        </div>
+      }
+    >
+      <OSCECircuitContent />
+    </RequireAuth>
+  )
+}
@@ -1,11 +1,13 @@
 'use client'
 
 import { useEffect, useState, useCallback } from 'react'
-import { useRouter } from 'next/navigation'
 import { useAuth } from '@/hooks/useAuth'
 import DashboardNav from '@/components/DashboardNav'
+import RequireAuth from '@/components/RequireAuth'
 import EchoLoader from '@/components/EchoLoader'
 import TrainingBotEnhanced from '@/components/TrainingBotEnhanced'
+import { getTrainingScenario, type TrainingScenario } from '@/lib/trainingApi'
+import { parseTestRunScenario, type AuthoredScenario } from '@/lib/scenarioAuthoring'
 
 // Scenario definitions by domain
 const scenariosByDomain = {
@@ -95,20 +97,15 @@ const scenariosByDomain = {
   ]
 }
 
-export default function TrainingPage() {
-  const router = useRouter()
+function TrainingContent() {
   const [loading, setLoading] = useState(true)
   const [userDomain, setUserDomain] = useState<string>('nursing')
   const [scenarios, setScenarios] = useState<any[]>([])
   const [lectureSimulation, setLectureSimulation] = useState<any>(null)
+  const [libraryScenario, setLibraryScenario] = useState<TrainingScenario | null>(null)
+  const [testRunScenario, setTestRunScenario] = useState<AuthoredScenario | null>(null)
 
-  const { user, loading: authLoading } = useAuth()
-
-  useEffect(() => {
-    if (!authLoading && !user) {
-      router.push('/auth/login')
-    }
-  }, [user, authLoading, router])
+  const { user } = useAuth()
 
   // Check for lecture simulation mode
   useEffect(() => {
@@ -135,6 +132,30 @@ export default function TrainingPage() {
     }
   }, [])
 
+  // Scenario launched from the scenario library (?scenario=<id>), or an
+  // instructor test run handed over from the authoring tool
+  useEffect(() => {
+    const params = new URLSearchParams(window.location.search)
+    if (params.get('mode') === 'scenario_test_run') {
+      const testRunData = localStorage.getItem('scenario_test_run')
+      if (testRunData) {
+        const scenario = parseTestRunScenario(testRunData)
+        if (scenario) {
+          setTestRunScenario(scenario)
+        } else {
+          console.warn('Discarding unreadable scenario test run')
+          localStorage.removeItem('scenario_test_run')
+        }
+      }
+      return
+    }
+    const scenarioId = params.get('scenario')
+    if (!scenarioId) return
+    getTrainingScenario(scenarioId)
+      .then(setLibraryScenario)
+      .catch((error) => console.error('Failed to load library scenario:', error))
+  }, [])
+
   const checkUser = useCallback(async () => {
     if (!user || lectureSimulation) {
       return
@@ -203,9 +224,23 @@ export default function TrainingPage() {
         </p>
 
         {/* Interactive Voice Training Bot */}
-        <TrainingBotEnhanced scenarios={scenarios} lectureSimulation={lectureSimulation} />
+        <TrainingBotEnhanced scenarios={scenarios} lectureSimulation={lectureSimulation} libraryScenario={libraryScenario} testRunScenario={testRunScenario} />
       </div>
     </div>
   )
 }
 
+export default function TrainingPage() {
+  return (
+    <RequireAuth
+      fallback={
+        <div className="dashboard-page-container">
+          <DashboardNav />
+          <EchoLoader context="training" />
+        </div>
+      }
+    >
+      <TrainingContent />
+    </RequireAuth>
+  )
+}
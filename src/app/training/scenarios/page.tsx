@@ -0,0 +1,281 @@
+'use client'
+
+import { useCallback, useEffect, useMemo, useState } from 'react'
+import { useRouter } from 'next/navigation'
+import DashboardNav from '@/components/DashboardNav'
+import RequireAuth from '@/components/RequireAuth'
+import EchoLoader from '@/components/EchoLoader'
+import { ArrowLeft, Award, CheckCircle2, Clock, Filter, Play, RefreshCw, Search, Timer, X } from 'lucide-react'
+import { listTrainingScenarios, type TrainingScenario } from '@/lib/trainingApi'
+import {
+  buildPracticeHistory,
+  DURATION_BUCKETS,
+  EMPTY_SCENARIO_FILTERS,
+  filterScenarios,
+  getCategoryLabel,
+  SCENARIO_CATEGORIES,
+  SCENARIO_DIFFICULTIES,
+  type ScenarioFilters,
+  type ScenarioPracticeHistory,
+} from '@/lib/scenarioCatalog'
+import { fetchAllMatchingSessions } from '@/lib/sessionSearch'
+import { formatScenarioTitle } from '@/lib/utils'
+
+const DIFFICULTY_STYLES: Record<TrainingScenario['difficulty'], string> = {
+  beginner: 'bg-green-100 text-green-700',
+  intermediate: 'bg-amber-100 text-amber-700',
+  advanced: 'bg-red-100 text-red-700',
+}
+
+function ScenarioLibraryContent() {
+  const router = useRouter()
+  const [scenarios, setScenarios] = useState<TrainingScenario[]>([])
+  const [history, setHistory] = useState<Map<string, ScenarioPracticeHistory>>(new Map())
+  const [loading, setLoading] = useState(true)
+  const [loadError, setLoadError] = useState<string | null>(null)
+  const [filters, setFilters] = useState<ScenarioFilters>(EMPTY_SCENARIO_FILTERS)
+
+  const loadLibrary = useCallback(async () => {
+    try {
+      setLoading(true)
+      setLoadError(null)
+      const [catalogue, sessions] = await Promise.all([
+        listTrainingScenarios(),
+        // Badges are a nice-to-have; the library still works without history. Every
+        // session counts as an attempt, evaluated or not, so the query is unfiltered
+        fetchAllMatchingSessions({}).catch((error) => {
+          console.warn('Failed to load practice history:', error)
+          return []
+        }),
+      ])
+      setScenarios(catalogue)
+      setHistory(buildPracticeHistory(sessions))
+    } catch (error) {
+      console.error('❌ Failed to load scenario library:', error)
+      setLoadError(error instanceof Error ? error.message : 'Failed to load scenario library')
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    loadLibrary()
+  }, [loadLibrary])
+
+  const moods = useMemo(
+    () => Array.from(new Set(scenarios.map((scenario) => scenario.patient_mood))).sort(),
+    [scenarios]
+  )
+  const visibleScenarios = useMemo(() => filterScenarios(scenarios, filters), [scenarios, filters])
+  const hasActiveFilters =
+    filters.search !== '' || filters.category !== null || filters.mood !== null || filters.difficulty !== null || filters.duration !== null
+
+  const updateFilter = <K extends keyof ScenarioFilters>(key: K, value: ScenarioFilters[K]) => {
+    setFilters((prev) => ({ ...prev, [key]: value }))
+  }
+
+  const handleLaunch = (scenario: TrainingScenario) => {
+    router.push(`/training?scenario=${encodeURIComponent(scenario.id)}`)
+  }
+
+  if (loading) {
+    return (
+      <div className="dashboard-page-container">
+        <DashboardNav />
+        <EchoLoader context="training" />
+      </div>
+    )
+  }
+
+  return (
+    <div className="dashboard-page-container">
+      <DashboardNav />
+
+      <div className="max-w-[1512px] mx-auto px-2 sm:px-4 lg:px-16 pb-6 sm:pb-8">
+        <button
+          onClick={() => router.push('/training')}
+          className="flex items-center gap-2 text-gray-600 hover:text-gray-900 mb-4 pt-2"
+        >
+          <ArrowLeft className="w-5 h-5" />
+          <span>Back to Training</span>
+        </button>
+
+        <div className="flex flex-wrap items-end justify-between gap-4 mb-6">
+          <div>
+            <h1 className="text-2xl sm:text-3xl lg:text-4xl font-montserrat font-bold text-black mb-2">Scenario Library</h1>
+            <p className="text-base sm:text-lg font-lato text-gray-600">
+              Pick a specific patient case to practise, or revisit one to beat your best score.
+            </p>
+          </div>
+          <button
+            onClick={() => router.push('/training/circuit')}
+            className="inline-flex items-center gap-2 px-4 py-2 border border-[#344895] text-[#344895] rounded-lg font-semibold text-sm hover:bg-indigo-50 transition-colors"
+          >
+            <Timer className="w-4 h-4" />
+            Practise an OSCE circuit
+          </button>
+        </div>
+
+        {loadError ? (
+          <div className="bg-red-50 border border-red-200 rounded-xl p-6 text-center">
+            <p className="text-red-700 mb-3">{loadError}</p>
+            <button
+              onClick={loadLibrary}
+              className="inline-flex items-center gap-2 px-4 py-2 bg-[#344895] text-white rounded-lg hover:bg-[#1A1F71] transition-colors"
+            >
+              <RefreshCw className="w-4 h-4" />
+              Try again
+            </button>
+          </div>
+        ) : (
+          <>
+            {/* Search & Filters */}
+            <div className="bg-white border border-gray-200 rounded-xl p-4 mb-6 space-y-3">
+              <div className="relative">
+                <Search className="w-4 h-4 text-gray-400 absolute left-3 top-1/2 -translate-y-1/2" />
+                <input
+                  type="search"
+                  value={filters.search}
+                  onChange={(e) => updateFilter('search', e.target.value)}
+                  placeholder="Search by condition, medication or keyword..."
+                  aria-label="Search scenarios"
+                  className="w-full pl-9 pr-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-[#344895]"
+                />
+              </div>
+              <div className="flex flex-wrap items-center gap-2">
+                <Filter className="w-4 h-4 text-gray-500" />
+                <select
+                  value={filters.category ?? ''}
+                  onChange={(e) => updateFilter('category', e.target.value || null)}
+                  aria-label="Filter by category"
+                  className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-[#344895]"
+                >
+                  <option value="">All categories</option>
+                  {SCENARIO_CATEGORIES.map((option) => (
+                    <option key={option.value} value={option.value}>{option.label}</option>
+                  ))}
+                </select>
+                <select
+                  value={filters.mood ?? ''}
+                  onChange={(e) => updateFilter('mood', e.target.value || null)}
+                  aria-label="Filter by patient mood"
+                  className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-[#344895]"
+                >
+                  <option value="">Any mood</option>
+                  {moods.map((mood) => (
+                    <option key={mood} value={mood}>{formatScenarioTitle(mood)}</option>
+                  ))}
+                </select>
+                <select
+                  value={filters.difficulty ?? ''}
+                  onChange={(e) => updateFilter('difficulty', (e.target.value || null) as ScenarioFilters['difficulty'])}
+                  aria-label="Filter by difficulty"
+                  className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-[#344895]"
+                >
+                  <option value="">Any difficulty</option>
+                  {SCENARIO_DIFFICULTIES.map((option) => (
+                    <option key={option.value} value={option.value}>{option.label}</option>
+                  ))}
+                </select>
+                <select
+                  value={filters.duration ?? ''}
+                  onChange={(e) => updateFilter('duration', (e.target.value || null) as ScenarioFilters['duration'])}
+                  aria-label="Filter by estimated duration"
+                  className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-[#344895]"
+                >
+                  <option value="">Any length</option>
+                  {DURATION_BUCKETS.map((option) => (
+                    <option key={option.value} value={option.value}>{option.label}</option>
+                  ))}
+                </select>
+                {hasActiveFilters && (
+                  <button
+                    onClick={() => setFilters(EMPTY_SCENARIO_FILTERS)}
+                    className="flex items-center gap-1 text-sm text-gray-600 hover:text-gray-900"
+                  >
+                    <X className="w-4 h-4" />
+                    Clear
+                  </button>
+                )}
+                <span className="ml-auto text-sm text-gray-500">
+                  {visibleScenarios.length} of {scenarios.length} scenarios
+                </span>
+              </div>
+            </div>
+
+            {/* Scenario Grid */}
+            {visibleScenarios.length === 0 ? (
+              <p className="text-center text-gray-500 py-12">No scenarios match these filters.</p>
+            ) : (
+              <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-4">
+                {visibleScenarios.map((scenario) => {
+                  const practice = history.get(scenario.id)
+                  return (
+                    <div key={scenario.id} className="bg-white border border-gray-200 rounded-xl p-5 flex flex-col">
+                      <div className="flex items-start justify-between gap-2 mb-2">
+                        <h2 className="font-semibold text-gray-900">{scenario.title}</h2>
+                        {practice && (
+                          <span
+                            className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-xs font-medium bg-indigo-100 text-[#344895] whitespace-nowrap"
+                            title={`Last practised ${new Date(practice.lastPractisedAt).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}`}
+                          >
+                            <CheckCircle2 className="w-3 h-3" />
+                            Practised {practice.attempts}×
+                          </span>
+                        )}
+                      </div>
+                      <p className="text-sm text-gray-600 mb-4 flex-1">{scenario.description}</p>
+                      <div className="flex flex-wrap items-center gap-2 text-xs mb-4">
+                        <span className="px-2 py-0.5 rounded-full bg-gray-100 text-gray-700">{getCategoryLabel(scenario.category)}</span>
+                        <span className="px-2 py-0.5 rounded-full bg-gray-100 text-gray-700">{formatScenarioTitle(scenario.patient_mood)} patient</span>
+                        <span className={`px-2 py-0.5 rounded-full ${DIFFICULTY_STYLES[scenario.difficulty]}`}>
+                          {formatScenarioTitle(scenario.difficulty)}
+                        </span>
+                        <span className="inline-flex items-center gap-1 text-gray-500">
+                          <Clock className="w-3 h-3" />
+                          ~{scenario.estimated_minutes} min
+                        </span>
+                      </div>
+                      <div className="flex items-center justify-between">
+                        {practice?.bestScore != null ? (
+                          <span className="inline-flex items-center gap-1 text-sm text-gray-700">
+                            <Award className={`w-4 h-4 ${practice.bestScore >= 80 ? 'text-green-600' : 'text-amber-500'}`} />
+                            Best: <strong>{practice.bestScore}</strong>/100
+                          </span>
+                        ) : (
+                          <span className="text-sm text-gray-400">{practice ? 'Not yet evaluated' : 'New'}</span>
+                        )}
+                        <button
+                          onClick={() => handleLaunch(scenario)}
+                          className="inline-flex items-center gap-2 px-4 py-2 bg-[#344895] text-white rounded-lg font-semibold text-sm hover:bg-[#1A1F71] transition-colors"
+                        >
+                          <Play className="w-4 h-4" />
+                          {practice ? 'Practise again' : 'Start'}
+                        </button>
+                      </div>
+                    </div>
+                  )
+                })}
+              </div>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  )
+}
+
+export default function ScenarioLibraryPage() {
+  return (
+    <RequireAuth
+      fallback={
+        <div className="dashboard-page-container">
+          <DashboardNav />
+          <EchoLoader context="training" />
+        </div>
+      }
+    >
+      <ScenarioLibraryContent />
+    </RequireAuth>
+  )
+}
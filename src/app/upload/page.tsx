@@ -5,7 +5,10 @@ import { useRouter } from 'next/navigation'
 import { Upload, FileText, X, CheckCircle, AlertCircle, Loader2, Plus, BookOpen, Clock, ChevronRight, FolderOpen, Trash2 } from 'lucide-react'
 import { useAuth } from '@/hooks/useAuth'
 import { apiClient } from '@/lib/api'
+import { ApiError, http, request } from '@/lib/httpClient'
 import DashboardNav from '@/components/DashboardNav'
+import RequireAuth from '@/components/RequireAuth'
+import EchoLoader from '@/components/EchoLoader'
 import { useUploadContext } from '@/contexts/UploadContext'
 
 // Supported file types
@@ -28,9 +31,21 @@ interface Lecture {
     has_artifacts: boolean
 }
 
-export default function LibraryPage() {
+interface LectureUploadResponse {
+    id: string
+    message?: string
+    relevance_warning?: string | null
+    is_relevant?: boolean
+}
+
+interface LectureStatusResponse {
+    status: string
+    error_message?: string | null
+}
+
+function LibraryContent() {
     const router = useRouter()
-    const { user, loading: authLoading } = useAuth()
+    const { user } = useAuth()
     const { uploadState, setUploadState, setFile, resetUpload } = useUploadContext()
     const [isDragging, setIsDragging] = useState(false)
     const [showUploadSection, setShowUploadSection] = useState(false)
@@ -43,13 +58,6 @@ export default function LibraryPage() {
     const [deletingLectureId, setDeletingLectureId] = useState<string | null>(null)
     const [navigatingToId, setNavigatingToId] = useState<string | null>(null)
 
-    // Redirect if not authenticated
-    useEffect(() => {
-        if (!authLoading && !user) {
-            router.push('/auth/login')
-        }
-    }, [authLoading, user, router])
-
     // Reset stale upload state on page load (only keep if actively uploading/processing)
     useEffect(() => {
         if (uploadState.status === 'success' || uploadState.status === 'error') {
@@ -71,14 +79,8 @@ export default function LibraryPage() {
         if (!token) return
 
         try {
-            const apiUrl = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:8000'
-            const response = await fetch(`${apiUrl}/api/v1/lectures`, {
-                headers: { 'Authorization': `Bearer ${token}` },
-            })
-            if (response.ok) {
-                const data = await response.json()
-                setLectures(data)
-            }
+            const data = await http.get<Lecture[]>('/lectures')
+            setLectures(data)
         } catch (error) {
             console.error('Failed to fetch lectures:', error)
         } finally {
@@ -137,22 +139,12 @@ export default function LibraryPage() {
             const formData = new FormData()
             formData.append('file', uploadState.file)
 
-            const apiUrl = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:8000'
-            const response = await fetch(`${apiUrl}/api/v1/lectures/upload`, {
+            const data = await request<LectureUploadResponse>('/lectures/upload', {
                 method: 'POST',
-                headers: {
-                    'Authorization': `Bearer ${token}`,
-                },
                 body: formData,
+                errorMessage: 'Upload failed',
             })
 
-            if (!response.ok) {
-                const errorData = await response.json()
-                throw new Error(errorData.detail || 'Upload failed')
-            }
-
-            const data = await response.json()
-
             // Check if this is a duplicate (already exists)
             if (data.message?.includes('already exists')) {
                 // Existing lecture - skip processing, go straight to success
@@ -191,11 +183,8 @@ export default function LibraryPage() {
             pollLectureStatus(data.id)
 
         } catch (error) {
-            // Check if it's a network error (Failed to fetch)
             const errorMessage = error instanceof Error ? error.message : 'Upload failed'
-            const isNetworkError = errorMessage.toLowerCase().includes('failed to fetch') || 
-                                   errorMessage.toLowerCase().includes('network') ||
-                                   errorMessage.toLowerCase().includes('connection')
+            const isNetworkError = error instanceof ApiError && error.isNetworkError
             
             setUploadState(prev => ({
                 ...prev,
@@ -208,20 +197,12 @@ export default function LibraryPage() {
     }
 
     const pollLectureStatus = async (lectureId: string) => {
-        const apiUrl = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:8000'
-        const token = apiClient.getToken()
         let attempts = 0
         const maxAttempts = 60
 
         const checkStatus = async () => {
             try {
-                const response = await fetch(`${apiUrl}/api/v1/lectures/${lectureId}`, {
-                    headers: { 'Authorization': `Bearer ${token}` },
-                })
-
-                if (!response.ok) throw new Error('Failed to check status')
-
-                const data = await response.json()
+                const data = await http.get<LectureStatusResponse>(`/lectures/${lectureId}`)
 
                 if (data.status === 'completed') {
                     setUploadState(prev => ({
@@ -290,18 +271,9 @@ export default function LibraryPage() {
         setDeletingLectureId(lectureId)
         
         try {
-            const apiUrl = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:8000'
-            const response = await fetch(`${apiUrl}/api/v1/lectures/${lectureId}`, {
-                method: 'DELETE',
-                headers: { 'Authorization': `Bearer ${token}` },
-            })
-
-            if (response.ok) {
-                // Remove from local state immediately
-                setLectures(prev => prev.filter(l => l.id !== lectureId))
-            } else {
-                alert('Failed to delete lecture')
-            }
+            await http.delete(`/lectures/${lectureId}`)
+            // Remove from local state immediately
+            setLectures(prev => prev.filter(l => l.id !== lectureId))
         } catch (error) {
             console.error('Delete failed:', error)
             alert('Failed to delete lecture')
@@ -334,13 +306,8 @@ export default function LibraryPage() {
     const cancelRelevanceWarning = async () => {
         if (pendingLectureId) {
             // Delete the uploaded lecture
-            const token = apiClient.getToken()
             try {
-                const apiUrl = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:8000'
-                await fetch(`${apiUrl}/api/v1/lectures/${pendingLectureId}`, {
-                    method: 'DELETE',
-                    headers: { 'Authorization': `Bearer ${token}` },
-                })
+                await http.delete(`/lectures/${pendingLectureId}`)
             } catch (e) {
                 console.error('Failed to delete rejected lecture:', e)
             }
@@ -670,3 +637,18 @@ export default function LibraryPage() {
         </div>
     )
 }
+
+export default function LibraryPage() {
+    return (
+        <RequireAuth
+            fallback={
+                <div className="dashboard-page-container">
+                    <DashboardNav />
+                    <EchoLoader context="general" />
+                </div>
+            }
+        >
+            <LibraryContent />
+        </RequireAuth>
+    )
+}
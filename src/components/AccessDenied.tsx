@@ -0,0 +1,65 @@
+'use client'
+
+import { useRouter } from 'next/navigation'
+import { ShieldAlert } from 'lucide-react'
+
+interface AccessDeniedProps {
+  title?: string
+  description?: string
+  icon?: React.ReactNode
+  actionLabel?: string
+  onAction?: () => void
+  secondaryLabel?: string
+  onSecondary?: () => void
+}
+
+export default function AccessDenied({
+  title = 'Access Denied',
+  description = "You don't have permission to view this page.",
+  icon,
+  actionLabel = 'Back to Dashboard',
+  onAction,
+  secondaryLabel,
+  onSecondary,
+}: AccessDeniedProps) {
+  const router = useRouter()
+
+  return (
+    <div className="flex flex-col items-center justify-center min-h-[60vh] px-4 py-12">
+      <div className="bg-white border-2 border-red-200 rounded-[20px] sm:rounded-[33px] p-8 sm:p-12 max-w-lg w-full text-center shadow-lg">
+        <div className="flex justify-center mb-6">
+          {icon || (
+            <div className="bg-red-50 rounded-full p-5 border-2 border-red-200">
+              <ShieldAlert className="w-12 h-12 text-red-500" />
+            </div>
+          )}
+        </div>
+
+        <h2 className="text-2xl sm:text-3xl font-montserrat font-extrabold text-[#1A1F71] mb-4">
+          {title}
+        </h2>
+
+        <p className="text-base font-lato text-gray-600 mb-8 max-w-md mx-auto">
+          {description}
+        </p>
+
+        <div className="flex flex-col sm:flex-row gap-3 justify-center">
+          <button
+            onClick={onAction || (() => router.push('/dashboard'))}
+            className="px-6 py-2.5 bg-[#344895] text-white rounded-lg font-semibold hover:bg-[#1A1F71] transition-colors"
+          >
+            {actionLabel}
+          </button>
+          {secondaryLabel && onSecondary && (
+            <button
+              onClick={onSecondary}
+              className="px-6 py-2.5 border border-gray-300 text-gray-700 rounded-lg font-medium hover:bg-gray-50 transition-colors"
+            >
+              {secondaryLabel}
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,300 @@
+'use client'
+
+import { useEffect, useMemo, useRef, useState } from 'react'
+import { Bot, FileText, Flag, GraduationCap, User } from 'lucide-react'
+import DisputeItemForm from '@/components/DisputeItemForm'
+import type { FacultyComment, OSCEEvaluation } from '@/lib/osceEvaluation'
+import {
+  DISPUTE_STATUS_LABELS,
+  DISPUTE_STATUS_STYLES,
+  disputeKey,
+  latestDisputeByCriterion,
+  type EvaluationDispute,
+} from '@/lib/evaluationDisputes'
+import {
+  annotateTranscript,
+  humanizeKey,
+  loadSessionTranscript,
+  resolveCommentTurn,
+  rubricAnnotationId,
+  segmentTurn,
+  type AnnotationTone,
+  type TranscriptAnnotation,
+  type TranscriptTurn,
+} from '@/lib/transcriptAnnotations'
+
+interface AnnotatedTranscriptProps {
+  sessionId: string
+  evaluation: OSCEEvaluation
+  /** Faculty comments to show under the turns they were made on */
+  comments?: FacultyComment[]
+  disputes?: EvaluationDispute[]
+  /** Enables "Dispute" on rubric rows */
+  onDisputeCreated?: (dispute: EvaluationDispute) => void
+}
+
+const TONE_STYLES: Record<AnnotationTone, { mark: string; dot: string; label: string }> = {
+  strength: { mark: 'bg-green-100 text-green-900 decoration-green-500', dot: 'bg-green-500', label: 'Earned marks' },
+  weakness: { mark: 'bg-amber-100 text-amber-900 decoration-amber-500', dot: 'bg-amber-500', label: 'Lost marks' },
+  neutral: { mark: 'bg-indigo-50 text-indigo-900 decoration-indigo-400', dot: 'bg-indigo-400', label: 'Key moment' },
+}
+
+// How long a turn stays outlined after jumping to it from the rubric
+const FOCUS_HIGHLIGHT_MS = 2000
+
+const formatOffset = (ms: number) => {
+  const seconds = Math.max(0, Math.floor(ms / 1000))
+  return `${Math.floor(seconds / 60)}:${(seconds % 60).toString().padStart(2, '0')}`
+}
+
+/**
+ * The session transcript with each rubric criterion's evidence and each key
+ * moment highlighted where it happened. Rubric rows jump to their turn;
+ * faculty comments sit under the turn they were made on.
+ */
+export default function AnnotatedTranscript({
+  sessionId,
+  evaluation,
+  comments = [],
+  disputes = [],
+  onDisputeCreated,
+}: AnnotatedTranscriptProps) {
+  const [turns, setTurns] = useState<TranscriptTurn[] | null>(null)
+  const [focusedTurn, setFocusedTurn] = useState<number | null>(null)
+  const [disputeTarget, setDisputeTarget] = useState<string | null>(null)
+  const turnRefs = useRef<Map<number, HTMLLIElement>>(new Map())
+  const focusTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+    setTurns(null)
+    loadSessionTranscript(sessionId)
+      .then((loaded) => {
+        if (!cancelled) setTurns(loaded)
+      })
+      .catch((error) => {
+        console.error('❌ Failed to load transcript:', error)
+        if (!cancelled) setTurns([])
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [sessionId])
+
+  useEffect(() => {
+    return () => {
+      if (focusTimerRef.current) clearTimeout(focusTimerRef.current)
+    }
+  }, [])
+
+  const annotations = useMemo(() => annotateTranscript(evaluation, turns ?? []), [evaluation, turns])
+  const annotationsById = useMemo(() => new Map(annotations.map((annotation) => [annotation.id, annotation])), [annotations])
+  const annotationsByTurn = useMemo(() => {
+    const byTurn = new Map<number, TranscriptAnnotation[]>()
+    annotations.forEach((annotation) => {
+      if (annotation.turnIndex === null) return
+      byTurn.set(annotation.turnIndex, [...(byTurn.get(annotation.turnIndex) ?? []), annotation])
+    })
+    return byTurn
+  }, [annotations])
+
+  const commentsByTurn = useMemo(() => {
+    const byTurn = new Map<number, FacultyComment[]>()
+    comments.forEach((comment) => {
+      const turnIndex = resolveCommentTurn(comment, turns ?? [])
+      if (turnIndex !== null) byTurn.set(turnIndex, [...(byTurn.get(turnIndex) ?? []), comment])
+    })
+    return byTurn
+  }, [comments, turns])
+
+  const disputesByCriterion = useMemo(() => latestDisputeByCriterion(disputes), [disputes])
+
+  const keyMoments = annotations.filter((annotation) => annotation.source === 'key_moment')
+  const categories = Object.entries(evaluation.categories ?? {})
+
+  const jumpTo = (annotation: TranscriptAnnotation | undefined) => {
+    if (annotation?.turnIndex == null) return
+    turnRefs.current.get(annotation.turnIndex)?.scrollIntoView({ behavior: 'smooth', block: 'center' })
+    setFocusedTurn(annotation.turnIndex)
+    if (focusTimerRef.current) clearTimeout(focusTimerRef.current)
+    focusTimerRef.current = setTimeout(() => setFocusedTurn(null), FOCUS_HIGHLIGHT_MS)
+  }
+
+  if (categories.length === 0 && keyMoments.length === 0) return null
+
+  return (
+    <div className="border border-gray-200 rounded-xl p-5">
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+        <h3 className="text-xl font-bold flex items-center gap-2">
+          <FileText className="h-6 w-6" />
+          Transcript &amp; Evidence
+        </h3>
+        <div className="flex flex-wrap items-center gap-3 text-xs text-gray-600">
+          {(Object.keys(TONE_STYLES) as AnnotationTone[]).map((tone) => (
+            <span key={tone} className="flex items-center gap-1.5">
+              <span className={`w-2.5 h-2.5 rounded-full ${TONE_STYLES[tone].dot}`} />
+              {TONE_STYLES[tone].label}
+            </span>
+          ))}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-[minmax(0,2fr)_minmax(0,3fr)] gap-5">
+        {/* Rubric and key moments */}
+        <div className="space-y-4">
+          {categories.map(([category, detail]) => (
+            <div key={category}>
+              <div className="flex items-center justify-between text-sm font-semibold text-gray-900 mb-1.5">
+                <span>{humanizeKey(category)}</span>
+                <span className="tabular-nums text-gray-600">
+                  {detail.score} / {detail.max}
+                </span>
+              </div>
+              <ul className="space-y-1.5">
+                {Object.entries(detail.breakdown ?? {}).map(([criterion, item]) => {
+                  const annotation = annotationsById.get(rubricAnnotationId(category, criterion))
+                  const linked = annotation?.turnIndex != null
+                  const key = disputeKey(category, criterion)
+                  const dispute = disputesByCriterion.get(key)
+                  return (
+                    <li key={criterion}>
+                      <button
+                        type="button"
+                        onClick={() => jumpTo(annotation)}
+                        disabled={!linked}
+                        className="w-full text-left rounded-lg border border-gray-200 px-3 py-2 hover:bg-gray-50 disabled:hover:bg-transparent disabled:cursor-default transition-colors"
+                        title={linked ? 'Show in transcript' : 'No matching turn found in the transcript'}
+                      >
+                        <span className="flex items-center gap-2 text-sm">
+                          <span className={`w-2 h-2 rounded-full flex-shrink-0 ${TONE_STYLES[annotation?.tone ?? 'neutral'].dot}`} />
+                          <span className="flex-1 font-medium text-gray-800">{humanizeKey(criterion)}</span>
+                          <span className="tabular-nums text-gray-600">{item.score}</span>
+                        </span>
+                        {item.evidence && <span className="block text-xs text-gray-600 mt-1 ml-4">{item.evidence}</span>}
+                      </button>
+                      {dispute ? (
+                        <div className="mt-1 ml-4 text-xs">
+                          <span className={`inline-block px-2 py-0.5 rounded-full font-medium ${DISPUTE_STATUS_STYLES[dispute.status]}`}>
+                            Dispute: {DISPUTE_STATUS_LABELS[dispute.status]}
+                            {dispute.status === 'upheld' && dispute.adjusted_score !== null && ` · now ${dispute.adjusted_score}`}
+                          </span>
+                          {dispute.response && <p className="mt-1 text-gray-600">{dispute.response}</p>}
+                        </div>
+                      ) : onDisputeCreated && disputeTarget !== key ? (
+                        <button
+                          type="button"
+                          onClick={() => setDisputeTarget(key)}
+                          className="no-print mt-1 ml-4 text-xs text-gray-500 hover:text-amber-700 underline"
+                        >
+                          Dispute this item
+                        </button>
+                      ) : null}
+                      {onDisputeCreated && !dispute && disputeTarget === key && (
+                        <DisputeItemForm
+                          sessionId={sessionId}
+                          category={category}
+                          criterion={criterion}
+                          turns={turns ?? []}
+                          suggestedTurn={annotation?.turnIndex ?? null}
+                          onCancel={() => setDisputeTarget(null)}
+                          onSubmitted={(created) => {
+                            setDisputeTarget(null)
+                            onDisputeCreated(created)
+                          }}
+                        />
+                      )}
+                    </li>
+                  )
+                })}
+              </ul>
+            </div>
+          ))}
+
+          {keyMoments.length > 0 && (
+            <div>
+              <p className="text-sm font-semibold text-gray-900 mb-1.5">Key moments</p>
+              <ul className="space-y-1.5">
+                {keyMoments.map((moment) => (
+                  <li key={moment.id}>
+                    <button
+                      type="button"
+                      onClick={() => jumpTo(moment)}
+                      disabled={moment.turnIndex === null}
+                      className="w-full text-left rounded-lg border border-gray-200 px-3 py-2 hover:bg-gray-50 disabled:hover:bg-transparent disabled:cursor-default transition-colors flex items-start gap-2 text-sm"
+                    >
+                      <Flag className={`w-3.5 h-3.5 flex-shrink-0 mt-0.5 ${moment.tone === 'strength' ? 'text-green-600' : moment.tone === 'weakness' ? 'text-amber-600' : 'text-indigo-500'}`} />
+                      <span className="text-gray-800">{moment.label}</span>
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+
+        {/* Transcript */}
+        <div className="bg-gray-50 border border-gray-200 rounded-xl p-4 max-h-[32rem] overflow-y-auto" aria-label="Annotated transcript">
+          {turns === null ? (
+            <p className="text-sm text-gray-500">Loading transcript…</p>
+          ) : turns.length === 0 ? (
+            <p className="text-sm text-gray-500">
+              The transcript for this session isn&apos;t available, so evidence can&apos;t be shown in context.
+            </p>
+          ) : (
+            <ol className="space-y-2">
+              {turns.map((turn, index) => {
+                const isStudent = turn.speaker === 'student'
+                const turnAnnotations = annotationsByTurn.get(index) ?? []
+                return (
+                  <li
+                    key={index}
+                    ref={(el) => {
+                      if (el) turnRefs.current.set(index, el)
+                      else turnRefs.current.delete(index)
+                    }}
+                    className={`flex gap-2 rounded-lg px-3 py-2 transition-shadow ${focusedTurn === index ? 'bg-white ring-2 ring-[#344895]' : ''}`}
+                  >
+                    {isStudent ? (
+                      <User className="w-4 h-4 text-[#1A1F71] flex-shrink-0 mt-0.5" />
+                    ) : (
+                      <Bot className="w-4 h-4 text-[#344895] flex-shrink-0 mt-0.5" />
+                    )}
+                    <div className="flex-1">
+                      <p className="text-sm text-gray-900">
+                        <span className="font-semibold mr-1">{isStudent ? 'You' : 'Patient'}</span>
+                        {turn.offsetMs !== null && (
+                          <span className="text-xs text-gray-500 tabular-nums mr-2">{formatOffset(turn.offsetMs)}</span>
+                        )}
+                        {segmentTurn(turn.text, turnAnnotations).map((segment, segmentIndex) =>
+                          segment.tone ? (
+                            <mark
+                              key={segmentIndex}
+                              className={`rounded px-0.5 underline decoration-2 underline-offset-2 ${TONE_STYLES[segment.tone].mark}`}
+                              title={segment.annotationIds.map((id) => annotationsById.get(id)?.label).join('\n')}
+                            >
+                              {segment.text}
+                            </mark>
+                          ) : (
+                            <span key={segmentIndex}>{segment.text}</span>
+                          )
+                        )}
+                      </p>
+                      {(commentsByTurn.get(index) ?? []).map((comment) => (
+                        <p key={comment.id} className="mt-1.5 flex items-start gap-1.5 text-xs text-indigo-900 bg-indigo-50 border border-indigo-200 rounded-md px-2 py-1.5">
+                          <GraduationCap className="w-3.5 h-3.5 flex-shrink-0 mt-px text-indigo-600" />
+                          <span>
+                            <span className="font-semibold">{comment.author_name}:</span> {comment.text}
+                          </span>
+                        </p>
+                      ))}
+                    </div>
+                  </li>
+                )
+              })}
+            </ol>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,290 @@
+'use client'
+
+import { useCallback, useEffect, useRef, useState } from 'react'
+import { AlertCircle, CheckCircle2, Headphones, Loader2, Mic, RefreshCw, Volume2, X } from 'lucide-react'
+import {
+  diagnoseMicrophoneError,
+  getAudioDevicePreferences,
+  listAudioDevices,
+  openMicrophone,
+  playTestTone,
+  saveAudioDevicePreferences,
+  supportsOutputSelection,
+  type AudioDeviceList,
+  type MicrophoneDiagnosis,
+} from '@/lib/audioDevices'
+import { DEFAULT_VAD_OPTIONS } from '@/lib/voiceActivity'
+
+interface AudioCheckProps {
+  onContinue: () => void
+  onCancel: () => void
+  continueLabel?: string
+}
+
+// RMS is small for normal speech; scale it so conversation fills most of the meter
+const METER_SCALE = 400
+
+/**
+ * Pre-session microphone and speaker check.
+ * Lets the student pick devices (remembered for future sessions), watch a live
+ * input level and play a test tone through the chosen output.
+ */
+export default function AudioCheck({ onContinue, onCancel, continueLabel = 'Start Session' }: AudioCheckProps) {
+  const [devices, setDevices] = useState<AudioDeviceList>({ inputs: [], outputs: [] })
+  const [inputDeviceId, setInputDeviceId] = useState<string>('')
+  const [outputDeviceId, setOutputDeviceId] = useState<string>('')
+  const [level, setLevel] = useState(0)
+  const [heardSpeech, setHeardSpeech] = useState(false)
+  const [diagnosis, setDiagnosis] = useState<MicrophoneDiagnosis | null>(null)
+  const [isOpening, setIsOpening] = useState(true)
+  const [isPlayingTone, setIsPlayingTone] = useState(false)
+  const [toneError, setToneError] = useState<string | null>(null)
+
+  const streamRef = useRef<MediaStream | null>(null)
+  const contextRef = useRef<AudioContext | null>(null)
+  const frameRef = useRef<number | null>(null)
+
+  const stopMeter = useCallback(() => {
+    if (frameRef.current !== null) {
+      cancelAnimationFrame(frameRef.current)
+      frameRef.current = null
+    }
+    streamRef.current?.getTracks().forEach((track) => track.stop())
+    streamRef.current = null
+    contextRef.current?.close().catch(() => undefined)
+    contextRef.current = null
+    setLevel(0)
+  }, [])
+
+  const refreshDevices = useCallback(async () => {
+    try {
+      setDevices(await listAudioDevices())
+    } catch (err) {
+      console.warn('[AudioCheck] Could not list devices:', err)
+    }
+  }, [])
+
+  const startMeter = useCallback(async (deviceId?: string) => {
+    stopMeter()
+    setIsOpening(true)
+    setDiagnosis(null)
+    setHeardSpeech(false)
+
+    try {
+      const stream = await openMicrophone(deviceId)
+      streamRef.current = stream
+
+      const context = new AudioContext()
+      contextRef.current = context
+      const analyser = context.createAnalyser()
+      analyser.fftSize = 1024
+      context.createMediaStreamSource(stream).connect(analyser)
+      const frame = new Float32Array(analyser.fftSize)
+
+      const tick = () => {
+        analyser.getFloatTimeDomainData(frame)
+        let sum = 0
+        for (let i = 0; i < frame.length; i++) sum += frame[i] * frame[i]
+        const rms = Math.sqrt(sum / frame.length)
+        setLevel(rms)
+        if (rms >= DEFAULT_VAD_OPTIONS.speechThreshold) setHeardSpeech(true)
+        frameRef.current = requestAnimationFrame(tick)
+      }
+      tick()
+
+      // The device actually opened may differ from the saved one (e.g. it was unplugged)
+      const openedId = stream.getAudioTracks()[0]?.getSettings().deviceId
+      if (openedId) setInputDeviceId(openedId)
+      await refreshDevices()
+    } catch (err) {
+      console.error('[AudioCheck] Microphone check failed:', err)
+      setDiagnosis(diagnoseMicrophoneError(err))
+    } finally {
+      setIsOpening(false)
+    }
+  }, [stopMeter, refreshDevices])
+
+  useEffect(() => {
+    const prefs = getAudioDevicePreferences()
+    setInputDeviceId(prefs.inputDeviceId || '')
+    setOutputDeviceId(prefs.outputDeviceId || '')
+    startMeter(prefs.inputDeviceId)
+
+    navigator.mediaDevices?.addEventListener('devicechange', refreshDevices)
+    return () => {
+      navigator.mediaDevices?.removeEventListener('devicechange', refreshDevices)
+      stopMeter()
+    }
+  }, [startMeter, stopMeter, refreshDevices])
+
+  const handleInputChange = (deviceId: string) => {
+    setInputDeviceId(deviceId)
+    saveAudioDevicePreferences({ ...getAudioDevicePreferences(), inputDeviceId: deviceId || undefined })
+    startMeter(deviceId || undefined)
+  }
+
+  const handleOutputChange = (deviceId: string) => {
+    setOutputDeviceId(deviceId)
+    saveAudioDevicePreferences({ ...getAudioDevicePreferences(), outputDeviceId: deviceId || undefined })
+  }
+
+  const handlePlayTone = async () => {
+    setIsPlayingTone(true)
+    setToneError(null)
+    try {
+      await playTestTone(outputDeviceId || undefined)
+    } catch (err) {
+      console.error('[AudioCheck] Test tone failed:', err)
+      setToneError('Could not play through that speaker. Try another output device.')
+    } finally {
+      setIsPlayingTone(false)
+    }
+  }
+
+  const meterPercent = Math.min(100, Math.round(level * METER_SCALE))
+  const thresholdPercent = Math.min(100, Math.round(DEFAULT_VAD_OPTIONS.speechThreshold * METER_SCALE))
+  const canPickOutput = supportsOutputSelection() && devices.outputs.length > 0
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-xl shadow-2xl max-w-lg w-full p-6 animate-in fade-in zoom-in duration-200">
+        <div className="flex items-start justify-between mb-4">
+          <div className="flex items-center gap-3">
+            <div className="w-10 h-10 rounded-full bg-indigo-100 flex items-center justify-center">
+              <Headphones className="w-5 h-5 text-indigo-600" />
+            </div>
+            <div>
+              <h3 className="text-lg font-semibold text-gray-900">Audio Check</h3>
+              <p className="text-sm text-gray-600">Make sure Echo can hear you and you can hear Echo.</p>
+            </div>
+          </div>
+          <button onClick={onCancel} className="text-gray-400 hover:text-gray-600" aria-label="Close audio check">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {diagnosis ? (
+          <div className="bg-red-50 border border-red-200 rounded-lg p-4 mb-4 flex items-start gap-3">
+            <AlertCircle className="w-5 h-5 text-red-500 flex-shrink-0 mt-0.5" />
+            <div className="flex-1">
+              <p className="text-sm font-semibold text-red-800 mb-1">{diagnosis.title}</p>
+              <p className="text-sm text-red-600 mb-3">{diagnosis.message}</p>
+              <button
+                onClick={() => startMeter(inputDeviceId || undefined)}
+                className="flex items-center gap-1.5 text-sm font-medium text-red-700 hover:text-red-900"
+              >
+                <RefreshCw className="w-4 h-4" />
+                Try again
+              </button>
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-5 mb-6">
+            {/* Microphone */}
+            <div>
+              <label htmlFor="audio-check-input" className="flex items-center gap-2 text-sm font-semibold text-gray-700 mb-2">
+                <Mic className="w-4 h-4" />
+                Microphone
+              </label>
+              <select
+                id="audio-check-input"
+                value={inputDeviceId}
+                onChange={(e) => handleInputChange(e.target.value)}
+                disabled={isOpening}
+                className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-[#344895]"
+              >
+                <option value="">System default</option>
+                {devices.inputs.map((device, index) => (
+                  <option key={device.deviceId || index} value={device.deviceId}>
+                    {device.label || `Microphone ${index + 1}`}
+                  </option>
+                ))}
+              </select>
+
+              <div className="mt-3">
+                <div className="relative h-3 bg-gray-200 rounded-full overflow-hidden" role="meter" aria-label="Microphone level" aria-valuemin={0} aria-valuemax={100} aria-valuenow={meterPercent}>
+                  <div
+                    className={`h-full transition-[width] duration-75 ${meterPercent >= thresholdPercent ? 'bg-green-500' : 'bg-[#344895]'}`}
+                    style={{ width: `${meterPercent}%` }}
+                  />
+                  <div className="absolute top-0 bottom-0 w-0.5 bg-gray-500" style={{ left: `${thresholdPercent}%` }} />
+                </div>
+                <p className="text-xs text-gray-500 mt-1.5 flex items-center gap-1">
+                  {isOpening ? (
+                    <>
+                      <Loader2 className="w-3 h-3 animate-spin" />
+                      Opening microphone...
+                    </>
+                  ) : heardSpeech ? (
+                    <>
+                      <CheckCircle2 className="w-3 h-3 text-green-600" />
+                      We can hear you.
+                    </>
+                  ) : (
+                    'Say something - the bar should move past the marker when you speak.'
+                  )}
+                </p>
+              </div>
+            </div>
+
+            {/* Speaker */}
+            <div>
+              <label htmlFor="audio-check-output" className="flex items-center gap-2 text-sm font-semibold text-gray-700 mb-2">
+                <Volume2 className="w-4 h-4" />
+                Speaker
+              </label>
+              <div className="flex gap-2">
+                {canPickOutput ? (
+                  <select
+                    id="audio-check-output"
+                    value={outputDeviceId}
+                    onChange={(e) => handleOutputChange(e.target.value)}
+                    className="flex-1 px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-[#344895]"
+                  >
+                    <option value="">System default</option>
+                    {devices.outputs.map((device, index) => (
+                      <option key={device.deviceId || index} value={device.deviceId}>
+                        {device.label || `Speaker ${index + 1}`}
+                      </option>
+                    ))}
+                  </select>
+                ) : (
+                  <p id="audio-check-output" className="flex-1 text-sm text-gray-500 py-2">
+                    System default (this browser doesn&apos;t support choosing a speaker)
+                  </p>
+                )}
+                <button
+                  onClick={handlePlayTone}
+                  disabled={isPlayingTone}
+                  className="px-4 py-2 border border-gray-300 rounded-lg text-gray-700 font-medium hover:bg-gray-50 transition-colors disabled:opacity-50 flex items-center gap-2"
+                >
+                  {isPlayingTone ? <Loader2 className="w-4 h-4 animate-spin" /> : <Volume2 className="w-4 h-4" />}
+                  Test
+                </button>
+              </div>
+              {toneError && <p className="text-xs text-red-600 mt-1.5">{toneError}</p>}
+            </div>
+          </div>
+        )}
+
+        <div className="flex gap-3">
+          <button
+            onClick={onCancel}
+            className="flex-1 px-4 py-2.5 border border-gray-300 rounded-lg text-gray-700 font-medium hover:bg-gray-50 transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={() => {
+              stopMeter()
+              onContinue()
+            }}
+            className="flex-1 px-4 py-2.5 bg-indigo-600 text-white rounded-lg font-medium hover:bg-indigo-700 transition-colors"
+          >
+            {diagnosis ? 'Continue Anyway' : continueLabel}
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
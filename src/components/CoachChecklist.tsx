@@ -0,0 +1,76 @@
+'use client'
+
+import { CheckCircle2, Circle, ListChecks } from 'lucide-react'
+import type { ChecklistItem, ChecklistKind } from '@/lib/coachChecklist'
+
+interface CoachChecklistProps {
+  items: ChecklistItem[]
+  /** Show the student turn that covered each item (used after the session) */
+  showEvidence?: boolean
+  className?: string
+}
+
+const SECTIONS: { kind: ChecklistKind; title: string }[] = [
+  { kind: 'expected_action', title: 'Expected actions' },
+  { kind: 'key_concern', title: "Patient's concerns" },
+]
+
+/**
+ * Expected actions and key concerns of a lecture simulation, ticked off as the
+ * student covers them
+ */
+export default function CoachChecklist({ items, showEvidence = false, className = '' }: CoachChecklistProps) {
+  const covered = items.filter((item) => item.covered).length
+  const fromTranscript = items.some((item) => item.source === 'transcript')
+
+  return (
+    <div className={`bg-white border border-gray-200 rounded-xl p-4 ${className}`}>
+      <div className="flex items-center justify-between mb-1">
+        <h3 className="font-semibold text-gray-900 flex items-center gap-2">
+          <ListChecks className="w-4 h-4 text-[#344895]" />
+          Checklist
+        </h3>
+        <span className="text-sm font-medium text-gray-600">
+          {covered} / {items.length}
+        </span>
+      </div>
+      <div className="h-1.5 rounded-full bg-gray-100 mb-3 overflow-hidden">
+        <div
+          className="h-full bg-[#3DD6D0] transition-all duration-500"
+          style={{ width: `${items.length > 0 ? (covered / items.length) * 100 : 0}%` }}
+        />
+      </div>
+
+      {SECTIONS.map(({ kind, title }) => {
+        const sectionItems = items.filter((item) => item.kind === kind)
+        if (sectionItems.length === 0) return null
+        return (
+          <div key={kind} className="mb-3 last:mb-0">
+            <p className="text-xs font-semibold uppercase tracking-wide text-gray-500 mb-1.5">{title}</p>
+            <ul className="space-y-1.5">
+              {sectionItems.map((item) => (
+                <li key={item.key} className="flex items-start gap-2 text-sm">
+                  {item.covered ? (
+                    <CheckCircle2 className="w-4 h-4 text-green-600 flex-shrink-0 mt-0.5" aria-label="Covered" />
+                  ) : (
+                    <Circle className="w-4 h-4 text-gray-300 flex-shrink-0 mt-0.5" aria-label="Not covered yet" />
+                  )}
+                  <span className={item.covered ? 'text-gray-500' : 'text-gray-800'}>
+                    {item.text}
+                    {showEvidence && item.evidence && (
+                      <span className="block text-xs italic text-gray-500 mt-0.5">&ldquo;{item.evidence}&rdquo;</span>
+                    )}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )
+      })}
+
+      {fromTranscript && (
+        <p className="text-[11px] text-gray-400 mt-3">Ticked by matching keywords in what you said, so it may miss rephrasings.</p>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,130 @@
+'use client'
+
+import * as d3 from 'd3'
+import { COMPETENCY_TARGET_PERCENTAGE, type CompetencySeries } from '@/lib/competency'
+
+const TREND_WIDTH = 320
+const TREND_HEIGHT = 140
+const TREND_MARGIN = { top: 8, right: 8, bottom: 20, left: 28 }
+
+const formatShortDate = (date: Date) => date.toLocaleDateString('en-US', { month: 'short', day: 'numeric' })
+
+/** One category's scores per session, with the rolling average and the target line */
+export function CompetencyTrendChart({ series }: { series: CompetencySeries }) {
+  const innerWidth = TREND_WIDTH - TREND_MARGIN.left - TREND_MARGIN.right
+  const innerHeight = TREND_HEIGHT - TREND_MARGIN.top - TREND_MARGIN.bottom
+  const dates = series.points.map((point) => point.date)
+  const [first, last] = d3.extent(dates) as [Date, Date]
+
+  // A single session still needs a non-zero domain to sit in the middle of
+  const x = d3
+    .scaleTime()
+    .domain(first.getTime() === last.getTime() ? [d3.timeDay.offset(first, -1), d3.timeDay.offset(last, 1)] : [first, last])
+    .range([0, innerWidth])
+  const y = d3.scaleLinear().domain([0, 100]).range([innerHeight, 0])
+
+  const rollingPath =
+    d3
+      .line<CompetencySeries['points'][number]>()
+      .x((point) => x(point.date))
+      .y((point) => y(point.rollingAverage))
+      .curve(d3.curveMonotoneX)(series.points) ?? ''
+
+  return (
+    <svg
+      viewBox={`0 0 ${TREND_WIDTH} ${TREND_HEIGHT}`}
+      className="w-full h-auto"
+      role="img"
+      aria-label={`${series.label} scores over time, currently ${series.current}%`}
+    >
+      <g transform={`translate(${TREND_MARGIN.left},${TREND_MARGIN.top})`}>
+        {[0, 50, 100].map((tick) => (
+          <g key={tick}>
+            <line x1={0} x2={innerWidth} y1={y(tick)} y2={y(tick)} stroke="#F3F4F6" />
+            <text x={-6} y={y(tick)} dy="0.32em" textAnchor="end" className="fill-gray-400 text-[9px]">
+              {tick}
+            </text>
+          </g>
+        ))}
+        <line
+          x1={0}
+          x2={innerWidth}
+          y1={y(COMPETENCY_TARGET_PERCENTAGE)}
+          y2={y(COMPETENCY_TARGET_PERCENTAGE)}
+          stroke="#16A34A"
+          strokeDasharray="4 3"
+        />
+        <path d={rollingPath} fill="none" stroke="#344895" strokeWidth={2} />
+        {series.points.map((point) => (
+          <circle key={point.sessionId} cx={x(point.date)} cy={y(point.percentage)} r={3} fill="#9CA3AF">
+            <title>
+              {formatShortDate(point.date)} · {point.percentage}% (rolling {point.rollingAverage}%)
+            </title>
+          </circle>
+        ))}
+        <text x={0} y={innerHeight + 14} className="fill-gray-400 text-[9px]">
+          {formatShortDate(first)}
+        </text>
+        {first.getTime() !== last.getTime() && (
+          <text x={innerWidth} y={innerHeight + 14} textAnchor="end" className="fill-gray-400 text-[9px]">
+            {formatShortDate(last)}
+          </text>
+        )}
+      </g>
+    </svg>
+  )
+}
+
+const RADAR_SIZE = 320
+const RADAR_RADIUS = 110
+
+/** Current level in every category against the target, as two overlaid polygons */
+export function CompetencyRadarChart({ series }: { series: CompetencySeries[] }) {
+  const center = RADAR_SIZE / 2
+  const angle = (index: number) => (index / series.length) * Math.PI * 2 - Math.PI / 2
+  const radius = d3.scaleLinear().domain([0, 100]).range([0, RADAR_RADIUS])
+  const pointAt = (index: number, value: number): [number, number] => [
+    center + Math.cos(angle(index)) * radius(value),
+    center + Math.sin(angle(index)) * radius(value),
+  ]
+  const polygon = (values: number[]) => values.map((value, index) => pointAt(index, value).join(',')).join(' ')
+
+  return (
+    <svg
+      viewBox={`0 0 ${RADAR_SIZE} ${RADAR_SIZE}`}
+      className="w-full max-w-sm h-auto mx-auto"
+      role="img"
+      aria-label="Current level in each category against the target"
+    >
+      {[25, 50, 75, 100].map((ring) => (
+        <polygon key={ring} points={polygon(series.map(() => ring))} fill="none" stroke="#E5E7EB" />
+      ))}
+      {series.map((item, index) => {
+        const [x, y] = pointAt(index, 100)
+        const [labelX, labelY] = pointAt(index, 118)
+        const anchor = Math.abs(labelX - center) < 4 ? 'middle' : labelX > center ? 'start' : 'end'
+        return (
+          <g key={item.key}>
+            <line x1={center} y1={center} x2={x} y2={y} stroke="#E5E7EB" />
+            <text x={labelX} y={labelY} dy="0.32em" textAnchor={anchor} className="fill-gray-600 text-[10px]">
+              {item.label}
+            </text>
+          </g>
+        )
+      })}
+      <polygon
+        points={polygon(series.map(() => COMPETENCY_TARGET_PERCENTAGE))}
+        fill="none"
+        stroke="#16A34A"
+        strokeDasharray="4 3"
+      />
+      <polygon
+        points={polygon(series.map((item) => item.current))}
+        fill="#344895"
+        fillOpacity={0.2}
+        stroke="#344895"
+        strokeWidth={2}
+      />
+    </svg>
+  )
+}
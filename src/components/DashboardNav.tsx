@@ -3,7 +3,9 @@
 import Link from 'next/link'
 import { usePathname, useRouter } from 'next/navigation'
 import { useAuth } from '@/hooks/useAuth'
+import { hasRole } from '@/lib/authGuard'
 import LogoIcon from '@/components/icons/Logo'
+import DisputeNotifications from '@/components/DisputeNotifications'
 
 export default function DashboardNav() {
   const pathname = usePathname()
@@ -15,6 +17,9 @@ export default function DashboardNav() {
   const isProfile = pathname === '/profile'
   const isLibrary = pathname === '/upload'
   const isNaplex = pathname === '/naplex' || pathname.startsWith('/naplex/')
+  const isInstructor = pathname.startsWith('/instructor/scenarios')
+  const isDisputes = pathname.startsWith('/instructor/disputes')
+  const canAuthor = hasRole(user?.role, 'instructor')
 
   const handleProfileClick = () => {
     router.push('/profile')
@@ -72,6 +77,22 @@ export default function DashboardNav() {
           >
             Dashboard
           </Link>
+          {canAuthor && (
+            <Link
+              href="/instructor/scenarios"
+              className={`dashboard-nav-link ${isInstructor ? 'dashboard-nav-link-active' : ''}`}
+            >
+              Scenarios
+            </Link>
+          )}
+          {canAuthor && (
+            <Link
+              href="/instructor/disputes"
+              className={`dashboard-nav-link ${isDisputes ? 'dashboard-nav-link-active' : ''}`}
+            >
+              Disputes
+            </Link>
+          )}
         </div>
 
         {/* Mobile Navigation Menu */}
@@ -107,10 +128,29 @@ export default function DashboardNav() {
           >
             Dashboard
           </Link>
+          {canAuthor && (
+            <>
+              <span className="text-gray-400">|</span>
+              <Link
+                href="/instructor/scenarios"
+                className={`dashboard-mobile-nav-link ${isInstructor ? 'text-[#3DD6D0]' : ''}`}
+              >
+                Scenarios
+              </Link>
+              <span className="text-gray-400">|</span>
+              <Link
+                href="/instructor/disputes"
+                className={`dashboard-mobile-nav-link ${isDisputes ? 'text-[#3DD6D0]' : ''}`}
+              >
+                Disputes
+              </Link>
+            </>
+          )}
         </div>
 
         {/* User Profile Circle with Dropdown */}
         <div className="dashboard-user-section">
+          {user && <DisputeNotifications />}
           <button
             onClick={handleProfileClick}
             data-tour="nav-profile"
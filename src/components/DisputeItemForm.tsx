@@ -0,0 +1,101 @@
+'use client'
+
+import { useState } from 'react'
+import { Flag } from 'lucide-react'
+import { MIN_DISPUTE_REASON_LENGTH, type EvaluationDispute } from '@/lib/evaluationDisputes'
+import { humanizeKey, turnExcerpt, type TranscriptTurn } from '@/lib/transcriptAnnotations'
+
+interface DisputeItemFormProps {
+  sessionId: string
+  category: string
+  criterion: string
+  turns: TranscriptTurn[]
+  /** The turn the evidence was matched to, preselected */
+  suggestedTurn: number | null
+  onSubmitted: (dispute: EvaluationDispute) => void
+  onCancel: () => void
+}
+
+/** Contest one rubric criterion, pointing at the turn that shows it was covered */
+export default function DisputeItemForm({
+  sessionId,
+  category,
+  criterion,
+  turns,
+  suggestedTurn,
+  onSubmitted,
+  onCancel,
+}: DisputeItemFormProps) {
+  const [reason, setReason] = useState('')
+  const [turnIndex, setTurnIndex] = useState<number | null>(suggestedTurn)
+  const [submitting, setSubmitting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const studentTurns = turns.map((turn, index) => ({ turn, index })).filter(({ turn }) => turn.speaker === 'student')
+  const canSubmit = reason.trim().length >= MIN_DISPUTE_REASON_LENGTH && !submitting
+
+  const handleSubmit = async () => {
+    try {
+      setSubmitting(true)
+      setError(null)
+      const { apiClient } = await import('@/lib/api')
+      const turn = turnIndex !== null ? turns[turnIndex] : undefined
+      const dispute = await apiClient.createEvaluationDispute(sessionId, {
+        category,
+        criterion,
+        reason: reason.trim(),
+        turn_index: turn ? turnIndex : null,
+        turn_excerpt: turn ? turnExcerpt(turn.text) : null,
+      })
+      onSubmitted(dispute)
+    } catch (err) {
+      console.error('❌ Failed to submit dispute:', err)
+      setError(err instanceof Error ? err.message : 'Failed to submit dispute')
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  return (
+    <div className="mt-2 rounded-lg border border-amber-200 bg-amber-50 p-3 space-y-2 text-sm">
+      <p className="font-medium text-amber-900">Dispute &ldquo;{humanizeKey(criterion)}&rdquo;</p>
+      <textarea
+        aria-label="Why this score is wrong"
+        value={reason}
+        onChange={(e) => setReason(e.target.value)}
+        rows={3}
+        placeholder="What did you actually say or do? E.g. I asked about allergies but the transcript misheard me."
+        className="w-full px-3 py-2 border border-amber-200 rounded bg-white focus:outline-none focus:ring-2 focus:ring-amber-400"
+      />
+      {studentTurns.length > 0 && (
+        <select
+          aria-label="Relevant turn"
+          value={turnIndex ?? ''}
+          onChange={(e) => setTurnIndex(e.target.value === '' ? null : Number(e.target.value))}
+          className="w-full px-3 py-2 border border-amber-200 rounded bg-white focus:outline-none focus:ring-2 focus:ring-amber-400"
+        >
+          <option value="">No specific turn</option>
+          {studentTurns.map(({ turn, index }) => (
+            <option key={index} value={index}>
+              Turn {index + 1}: {turnExcerpt(turn.text)}
+            </option>
+          ))}
+        </select>
+      )}
+      {error && <p className="text-red-700">{error}</p>}
+      <div className="flex items-center justify-end gap-2">
+        <button onClick={onCancel} disabled={submitting} className="px-3 py-1.5 text-gray-600 hover:text-gray-900">
+          Cancel
+        </button>
+        <button
+          onClick={handleSubmit}
+          disabled={!canSubmit}
+          className="flex items-center gap-1.5 px-3 py-1.5 bg-amber-600 text-white rounded-lg font-medium hover:bg-amber-700 disabled:opacity-50"
+        >
+          <Flag className="w-3.5 h-3.5" />
+          {submitting ? 'Submitting…' : 'Submit dispute'}
+        </button>
+      </div>
+    </div>
+  )
+}
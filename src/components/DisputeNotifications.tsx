@@ -0,0 +1,108 @@
+'use client'
+
+import { useEffect, useRef, useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { Bell } from 'lucide-react'
+import { DISPUTE_STATUS_LABELS, DISPUTE_STATUS_STYLES, getUnseenOutcomes, type EvaluationDispute } from '@/lib/evaluationDisputes'
+import { humanizeKey } from '@/lib/transcriptAnnotations'
+import { formatScenarioTitle } from '@/lib/utils'
+
+/**
+ * Bell in the dashboard nav for dispute outcomes the student hasn't seen.
+ * Hidden when there is nothing new.
+ */
+export default function DisputeNotifications() {
+  const router = useRouter()
+  const [outcomes, setOutcomes] = useState<EvaluationDispute[]>([])
+  const [open, setOpen] = useState(false)
+  const containerRef = useRef<HTMLDivElement>(null)
+
+  useEffect(() => {
+    let cancelled = false
+    const load = async () => {
+      try {
+        const { apiClient } = await import('@/lib/api')
+        const disputes = await apiClient.getMyDisputes()
+        if (!cancelled) setOutcomes(getUnseenOutcomes(disputes))
+      } catch (error) {
+        console.warn('[DisputeNotifications] Could not load disputes:', error)
+      }
+    }
+    load()
+    return () => {
+      cancelled = true
+    }
+  }, [])
+
+  useEffect(() => {
+    if (!open) return
+    const handleClick = (event: MouseEvent) => {
+      if (!containerRef.current?.contains(event.target as Node)) setOpen(false)
+    }
+    document.addEventListener('mousedown', handleClick)
+    return () => document.removeEventListener('mousedown', handleClick)
+  }, [open])
+
+  const dismissAll = async () => {
+    const ids = outcomes.map((dispute) => dispute.id)
+    setOutcomes([])
+    setOpen(false)
+    try {
+      const { apiClient } = await import('@/lib/api')
+      await apiClient.markDisputesSeen(ids)
+    } catch (error) {
+      console.warn('[DisputeNotifications] Could not mark disputes as seen:', error)
+    }
+  }
+
+  if (outcomes.length === 0) return null
+
+  return (
+    <div ref={containerRef} className="relative">
+      <button
+        onClick={() => setOpen((value) => !value)}
+        className="relative p-2 rounded-full text-gray-600 hover:bg-gray-100 transition-colors"
+        aria-label={`${outcomes.length} dispute update${outcomes.length === 1 ? '' : 's'}`}
+        aria-expanded={open}
+      >
+        <Bell className="w-5 h-5" />
+        <span className="absolute -top-0.5 -right-0.5 min-w-[1.1rem] h-[1.1rem] px-1 rounded-full bg-red-500 text-white text-[10px] font-bold flex items-center justify-center">
+          {outcomes.length}
+        </span>
+      </button>
+
+      {open && (
+        <div className="absolute right-0 mt-2 w-80 bg-white border border-gray-200 rounded-xl shadow-lg z-50">
+          <div className="flex items-center justify-between px-4 py-3 border-b">
+            <p className="text-sm font-semibold text-gray-900">Dispute updates</p>
+            <button onClick={dismissAll} className="text-xs text-gray-500 hover:text-gray-800">
+              Dismiss all
+            </button>
+          </div>
+          <ul className="max-h-80 overflow-y-auto divide-y divide-gray-100">
+            {outcomes.map((dispute) => (
+              <li key={dispute.id}>
+                <button
+                  onClick={() => {
+                    setOpen(false)
+                    router.push(`/reports?session=${encodeURIComponent(dispute.session_id)}`)
+                  }}
+                  className="w-full text-left px-4 py-3 hover:bg-gray-50"
+                >
+                  <span className="flex items-center gap-2 mb-0.5">
+                    <span className={`px-2 py-0.5 rounded-full text-[11px] font-medium ${DISPUTE_STATUS_STYLES[dispute.status]}`}>
+                      {DISPUTE_STATUS_LABELS[dispute.status]}
+                    </span>
+                    <span className="text-sm font-medium text-gray-900 truncate">{humanizeKey(dispute.criterion)}</span>
+                  </span>
+                  <span className="block text-xs text-gray-500 truncate">{formatScenarioTitle(dispute.scenario_title)}</span>
+                  {dispute.response && <span className="block text-xs text-gray-700 mt-1 line-clamp-2">{dispute.response}</span>}
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  )
+}
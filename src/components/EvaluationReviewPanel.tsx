@@ -0,0 +1,386 @@
+'use client'
+
+import { useEffect, useMemo, useState } from 'react'
+import { BadgeCheck, MessageSquarePlus, RefreshCw, Save, Trash2, X } from 'lucide-react'
+import { ApiError } from '@/lib/httpClient'
+import {
+  getAdminSessionEvaluation,
+  saveEvaluationReview,
+  type AdminTranscriptTurn,
+  type EvaluationReviewUpdate,
+} from '@/lib/adminApi'
+import { summarizeCategoryScores, type OSCECategoryScores, type OSCEEvaluation } from '@/lib/osceEvaluation'
+import { humanizeKey, turnExcerpt } from '@/lib/transcriptAnnotations'
+
+type DraftComment = EvaluationReviewUpdate['comments'][number] & { author_name?: string }
+
+interface EvaluationReviewPanelProps {
+  sessionId: string
+  transcript: AdminTranscriptTurn[]
+  /** Transcript turn picked for the next comment */
+  commentTurn: number | null
+  onCommentTurnChange: (turnIndex: number | null) => void
+  onSaved?: (evaluation: OSCEEvaluation) => void
+}
+
+const toDraftComments = (evaluation: OSCEEvaluation): DraftComment[] =>
+  (evaluation.faculty_review?.comments ?? []).map((comment) => ({
+    id: comment.id,
+    turn_index: comment.turn_index,
+    turn_excerpt: comment.turn_excerpt,
+    text: comment.text,
+    author_name: comment.author_name,
+  }))
+
+/**
+ * Faculty review of a session's AI evaluation: adjust breakdown scores and
+ * evidence, comment on transcript turns and sign the evaluation off. The AI
+ * scores stay visible next to any override.
+ */
+export default function EvaluationReviewPanel({
+  sessionId,
+  transcript,
+  commentTurn,
+  onCommentTurnChange,
+  onSaved,
+}: EvaluationReviewPanelProps) {
+  const [evaluation, setEvaluation] = useState<OSCEEvaluation | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [notEvaluated, setNotEvaluated] = useState(false)
+  const [loadError, setLoadError] = useState<string | null>(null)
+  const [categories, setCategories] = useState<OSCECategoryScores>({})
+  const [comments, setComments] = useState<DraftComment[]>([])
+  const [reviewed, setReviewed] = useState(false)
+  const [newComment, setNewComment] = useState('')
+  const [saving, setSaving] = useState(false)
+  const [saveError, setSaveError] = useState<string | null>(null)
+
+  const resetDraft = (source: OSCEEvaluation) => {
+    setCategories(structuredClone(source.categories ?? {}))
+    setComments(toDraftComments(source))
+    setReviewed(source.faculty_review?.reviewed ?? false)
+  }
+
+  const fetchEvaluation = async () => {
+    try {
+      setLoading(true)
+      setLoadError(null)
+      setNotEvaluated(false)
+      const data = await getAdminSessionEvaluation(sessionId)
+      setEvaluation(data)
+      resetDraft(data)
+    } catch (error) {
+      if (error instanceof ApiError && error.status === 404) {
+        setNotEvaluated(true)
+      } else {
+        console.error('❌ Failed to load evaluation for review:', error)
+        setLoadError(error instanceof Error ? error.message : 'Failed to load evaluation')
+      }
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    setEvaluation(null)
+    setNewComment('')
+    setSaveError(null)
+    fetchEvaluation()
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [sessionId])
+
+  const original = evaluation?.faculty_review?.original ?? evaluation
+  const totals = useMemo(() => summarizeCategoryScores(categories), [categories])
+
+  // A category's items can't add up to more than the category is worth
+  const overMaxCategories = Object.entries(categories)
+    .filter(([, detail]) => detail.score > detail.max)
+    .map(([category]) => category)
+
+  const dirty = useMemo(() => {
+    if (!evaluation) return false
+    return (
+      JSON.stringify(categories) !== JSON.stringify(evaluation.categories ?? {}) ||
+      JSON.stringify(comments) !== JSON.stringify(toDraftComments(evaluation)) ||
+      reviewed !== (evaluation.faculty_review?.reviewed ?? false)
+    )
+  }, [categories, comments, reviewed, evaluation])
+
+  const updateCriterion = (category: string, criterion: string, change: Partial<{ score: number; evidence: string }>) => {
+    setCategories((current) => {
+      const target = current[category]
+      const breakdown = { ...target.breakdown, [criterion]: { ...target.breakdown[criterion], ...change } }
+      const score = Object.values(breakdown).reduce((total, item) => total + item.score, 0)
+      return { ...current, [category]: { ...target, breakdown, score } }
+    })
+  }
+
+  const addComment = () => {
+    const text = newComment.trim()
+    if (!text) return
+    const turn = commentTurn !== null ? transcript[commentTurn] : undefined
+    setComments((current) => [
+      ...current,
+      { turn_index: turn ? commentTurn : null, turn_excerpt: turn ? turnExcerpt(turn.text) : null, text },
+    ])
+    setNewComment('')
+    onCommentTurnChange(null)
+  }
+
+  const handleSave = async () => {
+    if (overMaxCategories.length > 0) return
+    try {
+      setSaving(true)
+      setSaveError(null)
+      const saved = await saveEvaluationReview(sessionId, {
+        categories,
+        comments: comments.map(({ id, turn_index, turn_excerpt, text }) => ({ id, turn_index, turn_excerpt, text })),
+        reviewed,
+      })
+      setEvaluation(saved)
+      resetDraft(saved)
+      onSaved?.(saved)
+    } catch (error) {
+      console.error('❌ Failed to save evaluation review:', error)
+      setSaveError(error instanceof Error ? error.message : 'Failed to save review')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  if (loading) {
+    return <p className="text-sm text-gray-500">Loading evaluation…</p>
+  }
+
+  if (notEvaluated) {
+    return <p className="text-sm text-gray-500">This session hasn&apos;t been evaluated yet, so there is nothing to review.</p>
+  }
+
+  if (loadError || !evaluation || !original) {
+    return (
+      <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm flex items-center justify-between gap-3">
+        <span>{loadError ?? 'Failed to load evaluation'}</span>
+        <button onClick={fetchEvaluation} className="flex items-center gap-1 font-medium hover:text-red-900">
+          <RefreshCw className="h-4 w-4" />
+          Try again
+        </button>
+      </div>
+    )
+  }
+
+  const review = evaluation.faculty_review
+  const anchoredTurn = commentTurn !== null ? transcript[commentTurn] : undefined
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-start justify-between gap-3">
+        <div>
+          <h3 className="font-semibold text-gray-900">Instructor Review</h3>
+          {review?.reviewed && review.reviewer_name && (
+            <p className="text-xs text-gray-500">
+              Reviewed by {review.reviewer_name}
+              {review.reviewed_at && ` on ${new Date(review.reviewed_at).toLocaleDateString()}`}
+            </p>
+          )}
+        </div>
+        {review?.reviewed && (
+          <span className="flex items-center gap-1 px-2 py-1 bg-indigo-100 text-indigo-800 rounded text-xs font-medium">
+            <BadgeCheck className="h-4 w-4" />
+            Faculty reviewed
+          </span>
+        )}
+      </div>
+
+      {/* AI score vs reviewed score */}
+      <div className="grid grid-cols-2 gap-3">
+        <div className="p-3 rounded-lg bg-gray-50 border border-gray-200">
+          <p className="text-xs font-medium text-gray-500 uppercase tracking-wide">AI score</p>
+          <p className="text-lg font-bold text-gray-900">
+            {original.overall_score}/{original.max_score}{' '}
+            <span className="text-sm font-medium text-gray-600">({original.percentage.toFixed(1)}%, {original.result})</span>
+          </p>
+        </div>
+        <div className="p-3 rounded-lg bg-indigo-50 border border-indigo-200">
+          <p className="text-xs font-medium text-indigo-700 uppercase tracking-wide">Reviewed score</p>
+          <p className="text-lg font-bold text-indigo-900">
+            {totals.overall_score}/{totals.max_score}{' '}
+            <span className="text-sm font-medium text-indigo-700">({totals.percentage.toFixed(1)}%)</span>
+          </p>
+        </div>
+      </div>
+
+      {/* Breakdown scores and evidence */}
+      {Object.entries(categories).map(([category, detail]) => (
+        <div key={category} className="border border-gray-200 rounded-lg">
+          <div className="flex items-center justify-between px-4 py-2 bg-gray-50 border-b border-gray-200 rounded-t-lg text-sm font-semibold text-gray-900">
+            <span>{humanizeKey(category)}</span>
+            <span className={`tabular-nums ${detail.score > detail.max ? 'text-red-600' : ''}`}>
+              {detail.score} / {detail.max}
+            </span>
+          </div>
+          <div className="divide-y divide-gray-100">
+            {Object.entries(detail.breakdown ?? {}).map(([criterion, item]) => {
+              const aiItem = original.categories?.[category]?.breakdown?.[criterion]
+              const inputId = `review-${category}-${criterion}`
+              const otherItemsScore = Object.entries(detail.breakdown ?? {}).reduce(
+                (total, [key, other]) => (key === criterion ? total : total + other.score),
+                0
+              )
+              const headroom = Math.max(0, detail.max - otherItemsScore)
+              return (
+                <div key={criterion} className="p-4 space-y-2">
+                  <div className="flex items-center gap-3">
+                    <label htmlFor={inputId} className="flex-1 text-sm font-medium text-gray-800">
+                      {humanizeKey(criterion)}
+                    </label>
+                    {aiItem && aiItem.score !== item.score && (
+                      <span className="text-xs text-gray-500">AI: {aiItem.score}</span>
+                    )}
+                    <input
+                      id={inputId}
+                      type="number"
+                      min={0}
+                      max={headroom}
+                      step={0.5}
+                      value={item.score}
+                      disabled={saving}
+                      onChange={(e) => {
+                        const score = Math.min(headroom, Math.max(0, Number(e.target.value) || 0))
+                        updateCriterion(category, criterion, { score })
+                      }}
+                      className="w-20 px-2 py-1 border border-gray-300 rounded text-sm text-right focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                    />
+                  </div>
+                  <textarea
+                    aria-label={`${humanizeKey(criterion)} evidence`}
+                    value={item.evidence}
+                    disabled={saving}
+                    onChange={(e) => updateCriterion(category, criterion, { evidence: e.target.value })}
+                    rows={2}
+                    className="w-full px-3 py-2 border border-gray-300 rounded text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                  />
+                  {aiItem && aiItem.evidence !== item.evidence && (
+                    <p className="text-xs text-gray-500">
+                      <span className="font-medium">AI evidence:</span> {aiItem.evidence}
+                    </p>
+                  )}
+                </div>
+              )
+            })}
+          </div>
+        </div>
+      ))}
+
+      {/* Comments */}
+      <div>
+        <h4 className="text-sm font-semibold text-gray-900 mb-2">Comments</h4>
+        {comments.length === 0 ? (
+          <p className="text-sm text-gray-500 mb-3">No comments yet.</p>
+        ) : (
+          <ul className="space-y-2 mb-3">
+            {comments.map((comment, index) => (
+              <li key={comment.id ?? `new-${index}`} className="p-3 bg-gray-50 border border-gray-200 rounded-lg text-sm">
+                <div className="flex items-start gap-2">
+                  <div className="flex-1">
+                    {comment.turn_index !== null ? (
+                      <p className="text-xs text-gray-500 mb-1">
+                        Turn {comment.turn_index + 1}: &ldquo;{comment.turn_excerpt}&rdquo;
+                      </p>
+                    ) : (
+                      <p className="text-xs text-gray-500 mb-1">General comment</p>
+                    )}
+                    <p className="text-gray-900">{comment.text}</p>
+                    <p className="text-xs text-gray-400 mt-1">{comment.author_name ?? 'Not saved yet'}</p>
+                  </div>
+                  <button
+                    onClick={() => setComments((current) => current.filter((_, i) => i !== index))}
+                    disabled={saving}
+                    className="p-1 text-gray-400 hover:text-red-600"
+                    title="Remove comment"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <div className="border border-gray-200 rounded-lg p-3 space-y-2">
+          {anchoredTurn ? (
+            <div className="flex items-start gap-2 text-xs text-indigo-700">
+              <span className="flex-1">
+                On turn {commentTurn! + 1} ({anchoredTurn.speaker}): &ldquo;{turnExcerpt(anchoredTurn.text)}&rdquo;
+              </span>
+              <button onClick={() => onCommentTurnChange(null)} className="text-indigo-400 hover:text-indigo-700" title="Make it a general comment">
+                <X className="h-3.5 w-3.5" />
+              </button>
+            </div>
+          ) : (
+            <p className="text-xs text-gray-500">
+              General comment. Use the comment button on a transcript turn to attach it to that turn.
+            </p>
+          )}
+          <textarea
+            aria-label="New comment"
+            value={newComment}
+            onChange={(e) => setNewComment(e.target.value)}
+            rows={2}
+            placeholder="Feedback for the student"
+            className="w-full px-3 py-2 border border-gray-300 rounded text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+          />
+          <button
+            onClick={addComment}
+            disabled={!newComment.trim() || saving}
+            className="flex items-center gap-1 px-3 py-1.5 text-sm font-medium text-indigo-700 border border-indigo-300 rounded hover:bg-indigo-50 disabled:opacity-50"
+          >
+            <MessageSquarePlus className="h-4 w-4" />
+            Add comment
+          </button>
+        </div>
+      </div>
+
+      {overMaxCategories.length > 0 && (
+        <div className="bg-amber-50 border border-amber-200 text-amber-800 px-4 py-3 rounded-lg text-sm">
+          {overMaxCategories.map(humanizeKey).join(', ')} {overMaxCategories.length === 1 ? 'scores' : 'score'} more
+          than the category maximum. Lower the item scores before saving.
+        </div>
+      )}
+
+      {saveError && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm">{saveError}</div>
+      )}
+
+      <div className="flex flex-wrap items-center justify-between gap-3 pt-2 border-t">
+        <div className="flex items-center gap-2 text-sm text-gray-700">
+          <input
+            id="review-reviewed"
+            type="checkbox"
+            checked={reviewed}
+            disabled={saving}
+            onChange={(e) => setReviewed(e.target.checked)}
+            className="h-4 w-4 accent-indigo-600"
+          />
+          <label htmlFor="review-reviewed">Mark as faculty reviewed (visible to the student)</label>
+        </div>
+        <div className="flex gap-2">
+          <button
+            onClick={() => resetDraft(evaluation)}
+            disabled={!dirty || saving}
+            className="px-3 py-2 text-sm border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50"
+          >
+            Discard changes
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={!dirty || saving || overMaxCategories.length > 0}
+            className="flex items-center gap-2 px-4 py-2 text-sm font-medium text-white bg-indigo-600 rounded-lg hover:bg-indigo-700 disabled:opacity-50"
+          >
+            <Save className="h-4 w-4" />
+            {saving ? 'Saving…' : 'Save review'}
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,230 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { AlertCircle, Award, CheckCircle2, Clock, Eye, Loader2, TrendingUp } from 'lucide-react'
+import OSCEFeedback from './OSCEFeedback'
+import { apiClient } from '@/lib/api'
+import {
+  CIRCUIT_PASS_PERCENTAGE,
+  summarizeCircuit,
+  type CircuitStationEvaluation,
+  type CircuitStationResult,
+} from '@/lib/osceCircuit'
+
+interface OSCECircuitReportProps {
+  results: CircuitStationResult[]
+  onRestart: () => void
+  onExit: () => void
+}
+
+type StationEvaluationState =
+  | { status: 'pending' }
+  | { status: 'done'; evaluation: CircuitStationEvaluation }
+  | { status: 'failed'; message: string }
+
+const formatDuration = (seconds: number) => `${Math.floor(seconds / 60)}:${(seconds % 60).toString().padStart(2, '0')}`
+
+/**
+ * Combined report for an OSCE circuit. Stations are evaluated one at a time so
+ * a long circuit doesn't queue every evaluation on the server at once.
+ */
+export default function OSCECircuitReport({ results, onRestart, onExit }: OSCECircuitReportProps) {
+  const [states, setStates] = useState<StationEvaluationState[]>(() => results.map(() => ({ status: 'pending' })))
+  const [viewingSessionId, setViewingSessionId] = useState<string | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+
+    const evaluateAll = async () => {
+      for (let index = 0; index < results.length; index++) {
+        const { sessionId } = results[index]
+        let state: StationEvaluationState
+        if (!sessionId) {
+          state = { status: 'failed', message: 'The station session did not start.' }
+        } else {
+          try {
+            const evaluation: CircuitStationEvaluation = await apiClient.evaluateTrainingSession(sessionId)
+            state = { status: 'done', evaluation }
+          } catch (err) {
+            console.error('[Circuit] Station evaluation failed:', err)
+            const message = err instanceof Error ? err.message : 'Evaluation failed'
+            state = {
+              status: 'failed',
+              message: message.includes('too short') ? 'Too short to evaluate' : message,
+            }
+          }
+        }
+        if (cancelled) return
+        setStates((prev) => prev.map((existing, i) => (i === index ? state : existing)))
+      }
+    }
+
+    evaluateAll()
+    return () => {
+      cancelled = true
+    }
+  }, [results])
+
+  const pending = states.some((state) => state.status === 'pending')
+  const summary = summarizeCircuit(states.map((state) => (state.status === 'done' ? state.evaluation : null)))
+  const stationFeedback = (key: 'strengths' | 'weaknesses') =>
+    states.flatMap((state, index) =>
+      state.status === 'done' ? state.evaluation.feedback[key].map((text) => ({ station: index + 1, text })) : []
+    )
+
+  return (
+    <div className="bg-white border border-gray-200 rounded-xl shadow-sm">
+      <div className="px-6 py-5 border-b">
+        <h2 className="text-2xl font-bold text-gray-900">OSCE Circuit Report</h2>
+        <p className="text-sm text-gray-500">
+          {results.length} stations · pass mark {CIRCUIT_PASS_PERCENTAGE}% overall with at least half the stations passed
+        </p>
+      </div>
+
+      <div className="p-6 space-y-6">
+        {/* Overall Result */}
+        <div
+          className={`rounded-xl p-6 text-center ${
+            pending ? 'bg-gray-50' : summary.result === 'PASS' ? 'bg-green-100' : 'bg-yellow-100'
+          }`}
+        >
+          {pending ? (
+            <div className="flex flex-col items-center gap-2 text-gray-600">
+              <Loader2 className="h-8 w-8 animate-spin text-[#344895]" />
+              <p>
+                Evaluating station {states.findIndex((state) => state.status === 'pending') + 1} of {results.length}...
+              </p>
+            </div>
+          ) : summary.averagePercentage === null ? (
+            <p className="text-gray-700">None of the stations could be evaluated.</p>
+          ) : (
+            <>
+              <div className="flex items-center justify-center gap-3 mb-2">
+                {summary.result === 'PASS' ? (
+                  <Award className="h-10 w-10 text-green-600" />
+                ) : (
+                  <AlertCircle className="h-10 w-10 text-yellow-600" />
+                )}
+                <h3 className="text-4xl font-bold">{summary.averagePercentage.toFixed(1)}%</h3>
+              </div>
+              <p className="font-semibold mb-2">
+                {summary.stationsPassed} of {results.length} stations passed
+              </p>
+              <span
+                className={`inline-block px-6 py-2 rounded-full font-bold text-white ${
+                  summary.result === 'PASS' ? 'bg-green-600' : 'bg-yellow-600'
+                }`}
+              >
+                {summary.result}
+              </span>
+            </>
+          )}
+        </div>
+
+        {/* Stations */}
+        <div className="border border-gray-200 rounded-lg divide-y divide-gray-100">
+          {results.map((result, index) => {
+            const state = states[index]
+            return (
+              <div key={`${result.scenario.id}-${index}`} className="flex flex-wrap items-center gap-4 px-4 py-3">
+                <span className="w-8 h-8 rounded-full bg-[#344895] text-white text-sm font-bold flex items-center justify-center">
+                  {index + 1}
+                </span>
+                <div className="flex-1 min-w-[12rem]">
+                  <p className="font-medium text-gray-900">{result.scenario.title}</p>
+                  <p className="text-xs text-gray-500 flex items-center gap-1">
+                    <Clock className="w-3 h-3" />
+                    {formatDuration(result.elapsedSeconds)} · {result.endedBy === 'time' ? 'ended on the buzzer' : 'finished early'}
+                  </p>
+                </div>
+                {state.status === 'pending' ? (
+                  <Loader2 className="w-5 h-5 animate-spin text-gray-400" />
+                ) : state.status === 'failed' ? (
+                  <span className="text-sm text-red-600">{state.message}</span>
+                ) : (
+                  <span className="flex items-center gap-3">
+                    <span className="text-sm font-semibold text-gray-900">{state.evaluation.percentage.toFixed(1)}%</span>
+                    <span
+                      className={`px-2 py-0.5 rounded-full text-xs font-bold ${
+                        state.evaluation.result === 'PASS' ? 'bg-green-100 text-green-700' : 'bg-yellow-100 text-yellow-700'
+                      }`}
+                    >
+                      {state.evaluation.result}
+                    </span>
+                    <button
+                      onClick={() => setViewingSessionId(result.sessionId)}
+                      className="flex items-center gap-1 text-sm text-[#344895] hover:text-[#1A1F71]"
+                    >
+                      <Eye className="w-4 h-4" />
+                      Full report
+                    </button>
+                  </span>
+                )}
+              </div>
+            )
+          })}
+        </div>
+
+        {/* Feedback Across Stations */}
+        {!pending && summary.stationsEvaluated > 0 && (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="border-2 border-green-300 rounded-xl p-5 bg-green-50">
+              <h4 className="font-bold text-green-900 mb-3 flex items-center gap-2">
+                <CheckCircle2 className="h-5 w-5" />
+                Strengths across the circuit
+              </h4>
+              <ul className="space-y-2">
+                {stationFeedback('strengths').map((item, idx) => (
+                  <li key={idx} className="text-sm text-green-900">
+                    <span className="font-semibold">Station {item.station}:</span> {item.text}
+                  </li>
+                ))}
+              </ul>
+            </div>
+            <div className="border-2 border-amber-300 rounded-xl p-5 bg-amber-50">
+              <h4 className="font-bold text-amber-900 mb-3 flex items-center gap-2">
+                <TrendingUp className="h-5 w-5" />
+                Areas to improve
+              </h4>
+              <ul className="space-y-2">
+                {stationFeedback('weaknesses').map((item, idx) => (
+                  <li key={idx} className="text-sm text-amber-900">
+                    <span className="font-semibold">Station {item.station}:</span> {item.text}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          </div>
+        )}
+      </div>
+
+      <div className="bg-gray-50 border-t px-6 py-4 rounded-b-xl flex flex-col sm:flex-row justify-between gap-3">
+        <button
+          onClick={() => window.print()}
+          className="px-4 py-2 border border-gray-300 rounded-lg hover:bg-gray-100 transition-colors text-sm"
+        >
+          Print Report
+        </button>
+        <div className="flex gap-3">
+          <button
+            onClick={onExit}
+            className="px-5 py-2 border border-gray-300 rounded-lg hover:bg-gray-100 transition-colors font-medium"
+          >
+            Back to Library
+          </button>
+          <button
+            onClick={onRestart}
+            disabled={pending}
+            className="px-6 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 transition-colors font-medium disabled:opacity-50"
+          >
+            New Circuit
+          </button>
+        </div>
+      </div>
+
+      {viewingSessionId && (
+        <OSCEFeedback sessionId={viewingSessionId} viewOnly onClose={() => setViewingSessionId(null)} />
+      )}
+    </div>
+  )
+}
@@ -1,58 +1,16 @@
 'use client'
 
 import { useEffect, useState } from 'react'
-import { X, CheckCircle2, AlertCircle, TrendingUp, Award, Heart, MessageCircle, BookOpen, Pill, Activity } from 'lucide-react'
+import { X, CheckCircle2, AlertCircle, TrendingUp, Award, Heart, MessageCircle, BookOpen, Pill, Activity, FileDown, BadgeCheck, GraduationCap } from 'lucide-react'
 import EchoLoader from '@/components/EchoLoader'
 import ProductFeedback from '@/components/ProductFeedback'
-
-interface OSCEEvaluation {
-  overall_score: number
-  max_score: number
-  percentage: number
-  result: string
-  scenario_title: string
-  scenario_type: string
-  patient_mood: string
-  transcript_length: number
-  evaluation_time?: number
-  partial_evaluation?: boolean
-  note?: string
-  categories: {
-    [key: string]: {
-      score: number
-      max: number
-      breakdown: {
-        [key: string]: {
-          score: number
-          evidence: string
-        }
-      }
-    }
-  }
-  feedback: {
-    strengths: string[]
-    weaknesses: string[]
-    improvements: string[]
-  }
-  empathy_analysis?: {
-    score: number
-    indicators: string[]
-    positive_examples: string[]
-    gaps: string[]
-  }
-  key_moments?: Array<{
-    timestamp: string
-    speaker: string
-    text: string
-    note: string
-  }>
-  ideal_clinical_response?: {
-    recommended_treatment: string
-    key_counseling_points: string[]
-    monitoring_plan: string
-  }
-  error?: string
-}
+import CoachChecklist from '@/components/CoachChecklist'
+import AnnotatedTranscript from '@/components/AnnotatedTranscript'
+import type { ChecklistItem } from '@/lib/coachChecklist'
+import type { OSCEEvaluation } from '@/lib/osceEvaluation'
+import { getUnseenOutcomes, type EvaluationDispute } from '@/lib/evaluationDisputes'
+import { useAuth } from '@/hooks/useAuth'
+import { buildEvaluationReportHtml, loadEvaluationReport, printHtmlDocument } from '@/lib/feedbackExport'
 
 interface OSCEFeedbackProps {
   sessionId: string
@@ -65,14 +23,18 @@ interface OSCEFeedbackProps {
     title?: string
   } | null
   onTryAnother?: () => void  // Callback to try another scenario
+  checklist?: ChecklistItem[] | null  // Coach/exam mode checklist from a lecture simulation
 }
 
-export default function OSCEFeedback({ sessionId, onClose, viewOnly = false, lectureSimulation, onTryAnother }: OSCEFeedbackProps) {
+export default function OSCEFeedback({ sessionId, onClose, viewOnly = false, lectureSimulation, onTryAnother, checklist }: OSCEFeedbackProps) {
   const [evaluation, setEvaluation] = useState<OSCEEvaluation | null>(null)
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
   const [showProductFeedback, setShowProductFeedback] = useState(false)
   const [shouldShowFeedback, setShouldShowFeedback] = useState(false)
+  const [exporting, setExporting] = useState(false)
+  const [disputes, setDisputes] = useState<EvaluationDispute[]>([])
+  const { user } = useAuth()
 
   // Determine if we should show product feedback (30% chance, but not in view-only mode)
   useEffect(() => {
@@ -86,6 +48,29 @@ export default function OSCEFeedback({ sessionId, onClose, viewOnly = false, lec
     fetchEvaluation()
   }, [sessionId, viewOnly])
 
+  // Disputes are secondary; the report still works if they can't be loaded
+  useEffect(() => {
+    if (!evaluation) return
+    let cancelled = false
+    const loadDisputes = async () => {
+      try {
+        const { apiClient } = await import('@/lib/api')
+        const data = await apiClient.getSessionDisputes(sessionId)
+        if (cancelled) return
+        setDisputes(data)
+        // Seeing the outcome here counts as being notified
+        const unseen = getUnseenOutcomes(data)
+        if (unseen.length > 0) await apiClient.markDisputesSeen(unseen.map((dispute) => dispute.id))
+      } catch (err) {
+        console.warn('[OSCEFeedback] Disputes unavailable:', err)
+      }
+    }
+    loadDisputes()
+    return () => {
+      cancelled = true
+    }
+  }, [evaluation, sessionId])
+
   const fetchEvaluation = async () => {
     try {
       setLoading(true)
@@ -117,6 +102,19 @@ export default function OSCEFeedback({ sessionId, onClose, viewOnly = false, lec
     }
   }
 
+  const handleExportPdf = async () => {
+    if (!evaluation) return
+    try {
+      setExporting(true)
+      const report = await loadEvaluationReport(sessionId, evaluation)
+      printHtmlDocument(buildEvaluationReportHtml(report, user?.full_name))
+    } catch (err) {
+      console.error('❌ Failed to export evaluation:', err)
+    } finally {
+      setExporting(false)
+    }
+  }
+
   const getScoreBgColor = (percentage: number) => {
     if (percentage >= 80) return 'bg-green-100'
     if (percentage >= 60) return 'bg-yellow-100'
@@ -175,23 +173,35 @@ export default function OSCEFeedback({ sessionId, onClose, viewOnly = false, lec
     )
   }
 
+  // Faculty adjustments and comments are only shown once the review is signed off
+  const facultyReview = evaluation.faculty_review?.reviewed ? evaluation.faculty_review : null
+
   return (
-    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 overflow-y-auto">
-      <div className="bg-white rounded-lg w-full max-w-6xl mx-4 my-8 shadow-2xl">
+    <div className="osce-report-overlay fixed inset-0 bg-black/50 flex items-center justify-center z-50 overflow-y-auto">
+      <div className="osce-report bg-white rounded-lg w-full max-w-6xl mx-4 my-8 shadow-2xl">
         {/* Header */}
         <div className="sticky top-0 bg-white border-b px-6 py-4 flex items-center justify-between rounded-t-lg">
-          <div>
+          <div className="flex flex-wrap items-center gap-3">
             <h2 className="text-2xl font-bold text-gray-900">OSCE Evaluation Report</h2>
+            {facultyReview && (
+              <span
+                className="flex items-center gap-1 px-2.5 py-1 bg-indigo-100 text-indigo-800 rounded-full text-xs font-semibold"
+                title={facultyReview.reviewer_name ? `Reviewed by ${facultyReview.reviewer_name}` : undefined}
+              >
+                <BadgeCheck className="h-4 w-4" />
+                Faculty reviewed
+              </span>
+            )}
           </div>
           <button
             onClick={onClose}
-            className="p-2 hover:bg-gray-100 rounded-full transition-colors"
+            className="no-print p-2 hover:bg-gray-100 rounded-full transition-colors"
           >
             <X className="h-6 w-6 text-gray-500" />
           </button>
         </div>
 
-        <div className="p-6 space-y-6 max-h-[calc(100vh-200px)] overflow-y-auto">
+        <div className="osce-report-body p-6 space-y-6 max-h-[calc(100vh-200px)] overflow-y-auto">
           {/* Partial Evaluation Warning */}
           {evaluation.partial_evaluation && (
             <div className="bg-blue-50 border-l-4 border-blue-500 p-4 rounded">
@@ -230,16 +240,62 @@ export default function OSCEFeedback({ sessionId, onClose, viewOnly = false, lec
                 ? 'Congratulations! You demonstrated competency in this scenario.'
                 : 'Keep practicing. Review the feedback below to improve.'}
             </p>
+            {facultyReview && facultyReview.original.percentage !== evaluation.percentage && (
+              <p className="mt-2 text-sm text-gray-600">
+                Score adjusted by your instructor (AI score: {facultyReview.original.percentage.toFixed(1)}%)
+              </p>
+            )}
           </div>
 
-          {/* Category Breakdown - Coming Soon */}
-          <div className="border-2 border-dashed border-gray-300 rounded-lg p-8 text-center bg-gray-50">
-            <div className="flex flex-col items-center justify-center">
-              <TrendingUp className="h-12 w-12 text-gray-400 mb-4" />
-              <h3 className="text-xl font-bold text-gray-700 mb-2">Category Performance</h3>
-              <p className="text-gray-500 text-sm">Coming Soon</p>
+          {/* Faculty Comments */}
+          {facultyReview && facultyReview.comments.length > 0 && (
+            <div className="border-2 border-indigo-200 rounded-xl p-5 bg-indigo-50/50">
+              <div className="flex items-center gap-2 mb-3">
+                <GraduationCap className="h-6 w-6 text-indigo-600" />
+                <h3 className="text-lg font-bold text-indigo-900">Instructor Comments</h3>
+                {facultyReview.reviewer_name && (
+                  <span className="ml-auto text-sm text-indigo-700">
+                    {facultyReview.reviewer_name}
+                    {facultyReview.reviewed_at && ` · ${new Date(facultyReview.reviewed_at).toLocaleDateString()}`}
+                  </span>
+                )}
+              </div>
+              <ul className="space-y-3">
+                {facultyReview.comments.map((comment) => (
+                  <li key={comment.id} className="bg-white rounded-lg p-3 border border-indigo-100 text-sm">
+                    {comment.turn_excerpt && (
+                      <p className="text-xs text-gray-500 italic mb-1">On &ldquo;{comment.turn_excerpt}&rdquo;</p>
+                    )}
+                    <p className="text-gray-900">{comment.text}</p>
+                  </li>
+                ))}
+              </ul>
             </div>
-          </div>
+          )}
+
+          {/* Expected Actions Checklist */}
+          {checklist && checklist.length > 0 && (
+            <CoachChecklist items={checklist} showEvidence />
+          )}
+
+          {/* Category Breakdown with evidence in the transcript */}
+          {Object.keys(evaluation.categories ?? {}).length > 0 || (evaluation.key_moments?.length ?? 0) > 0 ? (
+            <AnnotatedTranscript
+              sessionId={sessionId}
+              evaluation={evaluation}
+              comments={facultyReview?.comments}
+              disputes={disputes}
+              onDisputeCreated={(dispute) => setDisputes((current) => [...current, dispute])}
+            />
+          ) : (
+            <div className="border-2 border-dashed border-gray-300 rounded-lg p-8 text-center bg-gray-50">
+              <div className="flex flex-col items-center justify-center">
+                <TrendingUp className="h-12 w-12 text-gray-400 mb-4" />
+                <h3 className="text-xl font-bold text-gray-700 mb-2">Category Performance</h3>
+                <p className="text-gray-500 text-sm">Coming Soon</p>
+              </div>
+            </div>
+          )}
 
           {/* Structured Feedback Section */}
           <div className="space-y-6">
@@ -460,14 +516,25 @@ export default function OSCEFeedback({ sessionId, onClose, viewOnly = false, lec
         </div>
 
         {/* Footer Actions */}
-        <div className="sticky bottom-0 bg-gray-50 border-t px-6 py-4 rounded-b-lg flex flex-col sm:flex-row justify-between gap-3">
-          {/* Left side - Print */}
-          <button
-            onClick={() => window.print()}
-            className="px-4 py-2 border border-gray-300 rounded-lg hover:bg-gray-100 transition-colors text-sm"
-          >
-            Print Report
-          </button>
+        <div className="no-print sticky bottom-0 bg-gray-50 border-t px-6 py-4 rounded-b-lg flex flex-col sm:flex-row justify-between gap-3">
+          {/* Left side - Print / PDF */}
+          <div className="flex gap-3">
+            <button
+              onClick={() => window.print()}
+              className="px-4 py-2 border border-gray-300 rounded-lg hover:bg-gray-100 transition-colors text-sm"
+            >
+              Print Report
+            </button>
+            <button
+              onClick={handleExportPdf}
+              disabled={exporting}
+              className="px-4 py-2 border border-gray-300 rounded-lg hover:bg-gray-100 transition-colors text-sm flex items-center gap-2 disabled:opacity-50"
+              title="Full report with score breakdown and transcript excerpts; choose “Save as PDF” in the print dialog"
+            >
+              <FileDown className="h-4 w-4" />
+              {exporting ? 'Preparing…' : 'Download PDF'}
+            </button>
+          </div>
           
           {/* Right side - Navigation buttons */}
           <div className="flex gap-3">
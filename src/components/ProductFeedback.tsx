@@ -3,7 +3,7 @@
 import { useState } from 'react'
 import { X, ThumbsUp, ThumbsDown, MessageSquare } from 'lucide-react'
 import EchoIcon from '@/components/icons/Echo'
-import { apiClient } from '@/lib/api'
+import { http } from '@/lib/httpClient'
 
 interface ProductFeedbackProps {
   sessionId: string
@@ -21,30 +21,16 @@ export default function ProductFeedback({ sessionId, onClose }: ProductFeedbackP
 
     setIsSubmitting(true)
     try {
-      const API_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:8000'
-      const token = apiClient.getToken()
-      const response = await fetch(`${API_URL}/api/v1/feedback/product`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': token ? `Bearer ${token}` : '',
-        },
-        body: JSON.stringify({
-          session_id: sessionId,
-          rating: rating,
-          comment: comment.trim() || null,
-        }),
+      await http.post('/feedback/product', {
+        session_id: sessionId,
+        rating: rating,
+        comment: comment.trim() || null,
       })
 
-      if (response.ok) {
-        setSubmitted(true)
-        setTimeout(() => {
-          onClose()
-        }, 1500)
-      } else {
-        console.error('Failed to submit feedback')
+      setSubmitted(true)
+      setTimeout(() => {
         onClose()
-      }
+      }, 1500)
     } catch (error) {
       console.error('Error submitting feedback:', error)
       onClose()
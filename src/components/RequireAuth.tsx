@@ -0,0 +1,54 @@
+'use client'
+
+import { useEffect } from 'react'
+import { usePathname, useRouter } from 'next/navigation'
+import { useAuth } from '@/hooks/useAuth'
+import EchoLoader from '@/components/EchoLoader'
+import AccessDenied from '@/components/AccessDenied'
+import VerifyEmailNotice from '@/components/VerifyEmailNotice'
+import { buildLoginUrl, hasRole, requiresVerifiedEmail, type UserRole } from '@/lib/authGuard'
+
+interface RequireAuthProps {
+  children: React.ReactNode
+  /** Roles allowed to see the content (admins also pass instructor checks) */
+  requiredRole?: UserRole | UserRole[]
+  /** Block users whose email is not yet verified. Defaults to the route's PROTECTED_ROUTES setting. */
+  requireVerified?: boolean
+  /** Rendered while the session is being resolved or the redirect is pending */
+  fallback?: React.ReactNode
+}
+
+/**
+ * Client-side route guard built on useAuth.
+ * Redirects signed-out users to login with a return URL, and renders a
+ * verification prompt or forbidden screen instead of the children when the
+ * signed-in user does not qualify.
+ */
+export default function RequireAuth({ children, requiredRole, requireVerified, fallback }: RequireAuthProps) {
+  const router = useRouter()
+  const pathname = usePathname()
+  const { user, loading, signOut } = useAuth()
+
+  useEffect(() => {
+    if (!loading && !user) {
+      const search = typeof window !== 'undefined' ? window.location.search : ''
+      router.replace(buildLoginUrl(`${pathname}${search}`))
+    }
+  }, [user, loading, router, pathname])
+
+  if (loading || !user) {
+    return <>{fallback ?? <EchoLoader context="general" />}</>
+  }
+
+  if ((requireVerified ?? requiresVerifiedEmail(pathname)) && !user.is_verified) {
+    return <VerifyEmailNotice email={user.email} onSignOut={signOut} />
+  }
+
+  if (!hasRole(user.role, requiredRole)) {
+    return (
+      <AccessDenied description="Your account doesn't have the required role for this area. Contact your programme administrator if you think this is a mistake." />
+    )
+  }
+
+  return <>{children}</>
+}
@@ -0,0 +1,459 @@
+'use client'
+
+import { useState } from 'react'
+import { EyeOff, Plus, Trash2 } from 'lucide-react'
+import { SCENARIO_CATEGORIES, SCENARIO_DIFFICULTIES } from '@/lib/scenarioCatalog'
+import {
+  getRubricWeightTotal,
+  PATIENT_MOODS,
+  RUBRIC_CATEGORIES,
+  type PatientCase,
+  type ScenarioDraft,
+} from '@/lib/scenarioAuthoring'
+import { formatScenarioTitle } from '@/lib/utils'
+
+interface ScenarioEditorProps {
+  value: ScenarioDraft
+  onChange: (draft: ScenarioDraft) => void
+  disabled?: boolean
+}
+
+const inputClass =
+  'w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-[#344895] disabled:bg-gray-100'
+const labelClass = 'block text-sm font-semibold text-gray-700 mb-1'
+
+function Section({ title, description, children }: { title: string; description?: string; children: React.ReactNode }) {
+  return (
+    <section className="bg-white border border-gray-200 rounded-xl p-5">
+      <h2 className="font-semibold text-gray-900">{title}</h2>
+      {description && <p className="text-xs text-gray-500 mt-0.5">{description}</p>}
+      <div className="mt-4 space-y-4">{children}</div>
+    </section>
+  )
+}
+
+/**
+ * One-line-per-item list (allergies, expected actions)
+ */
+function StringListEditor({
+  items,
+  onChange,
+  placeholder,
+  addLabel,
+  disabled,
+}: {
+  items: string[]
+  onChange: (items: string[]) => void
+  placeholder: string
+  addLabel: string
+  disabled?: boolean
+}) {
+  const [draft, setDraft] = useState('')
+
+  const add = () => {
+    const value = draft.trim()
+    if (!value) return
+    onChange([...items, value])
+    setDraft('')
+  }
+
+  return (
+    <div className="space-y-2">
+      {items.map((item, index) => (
+        <div key={index} className="flex gap-2">
+          <input
+            value={item}
+            onChange={(e) => onChange(items.map((existing, i) => (i === index ? e.target.value : existing)))}
+            aria-label={`${addLabel} ${index + 1}`}
+            className={inputClass}
+            disabled={disabled}
+          />
+          <button
+            onClick={() => onChange(items.filter((_, i) => i !== index))}
+            className="p-2 text-gray-400 hover:text-red-600"
+            aria-label={`Remove ${item}`}
+            disabled={disabled}
+          >
+            <Trash2 className="w-4 h-4" />
+          </button>
+        </div>
+      ))}
+      <div className="flex gap-2">
+        <input
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') {
+              e.preventDefault()
+              add()
+            }
+          }}
+          placeholder={placeholder}
+          aria-label={addLabel}
+          className={inputClass}
+          disabled={disabled}
+        />
+        <button
+          onClick={add}
+          disabled={disabled || !draft.trim()}
+          className="px-3 py-2 border border-gray-300 rounded-lg text-sm text-gray-700 hover:bg-gray-50 disabled:opacity-50 flex items-center gap-1 whitespace-nowrap"
+        >
+          <Plus className="w-4 h-4" />
+          Add
+        </button>
+      </div>
+    </div>
+  )
+}
+
+/**
+ * Structured patient case form used by the instructor authoring tool
+ */
+export default function ScenarioEditor({ value, onChange, disabled = false }: ScenarioEditorProps) {
+  const { patient } = value
+  const weightTotal = getRubricWeightTotal(patient.rubric_weights)
+
+  const update = <K extends keyof ScenarioDraft>(key: K, next: ScenarioDraft[K]) => {
+    onChange({ ...value, [key]: next })
+  }
+  const updatePatient = <K extends keyof PatientCase>(key: K, next: PatientCase[K]) => {
+    onChange({ ...value, patient: { ...patient, [key]: next } })
+  }
+  const updateDemographics = <K extends keyof PatientCase['demographics']>(key: K, next: PatientCase['demographics'][K]) => {
+    updatePatient('demographics', { ...patient.demographics, [key]: next })
+  }
+
+  return (
+    <div className="space-y-6">
+      <Section title="Overview" description="What students see in the scenario library.">
+        <div>
+          <label htmlFor="scenario-title" className={labelClass}>Title</label>
+          <input
+            id="scenario-title"
+            value={value.title}
+            onChange={(e) => update('title', e.target.value)}
+            placeholder="e.g. New warfarin patient asking about ibuprofen"
+            className={inputClass}
+            disabled={disabled}
+          />
+        </div>
+        <div>
+          <label htmlFor="scenario-description" className={labelClass}>Description</label>
+          <textarea
+            id="scenario-description"
+            value={value.description}
+            onChange={(e) => update('description', e.target.value)}
+            rows={2}
+            className={inputClass}
+            disabled={disabled}
+          />
+        </div>
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+          <div>
+            <label htmlFor="scenario-mode" className={labelClass}>Mode</label>
+            <select
+              id="scenario-mode"
+              value={value.mode}
+              onChange={(e) => update('mode', e.target.value as ScenarioDraft['mode'])}
+              className={inputClass}
+              disabled={disabled}
+            >
+              <option value="clinical">Clinical</option>
+              <option value="nonclinical">Nonclinical</option>
+            </select>
+          </div>
+          <div>
+            <label htmlFor="scenario-category" className={labelClass}>Category</label>
+            <select
+              id="scenario-category"
+              value={value.category}
+              onChange={(e) => update('category', e.target.value)}
+              className={inputClass}
+              disabled={disabled}
+            >
+              {SCENARIO_CATEGORIES.map((option) => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label htmlFor="scenario-difficulty" className={labelClass}>Difficulty</label>
+            <select
+              id="scenario-difficulty"
+              value={value.difficulty}
+              onChange={(e) => update('difficulty', e.target.value as ScenarioDraft['difficulty'])}
+              className={inputClass}
+              disabled={disabled}
+            >
+              {SCENARIO_DIFFICULTIES.map((option) => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label htmlFor="scenario-minutes" className={labelClass}>Minutes</label>
+            <input
+              id="scenario-minutes"
+              type="number"
+              min={1}
+              value={value.estimated_minutes}
+              onChange={(e) => update('estimated_minutes', Math.max(1, Number(e.target.value) || 1))}
+              className={inputClass}
+              disabled={disabled}
+            />
+          </div>
+        </div>
+        <div>
+          <label htmlFor="scenario-tags" className={labelClass}>Tags</label>
+          <input
+            id="scenario-tags"
+            value={value.tags.join(', ')}
+            onChange={(e) => update('tags', e.target.value.split(',').map((tag) => tag.trim()).filter(Boolean))}
+            placeholder="anticoagulation, NSAIDs"
+            className={inputClass}
+            disabled={disabled}
+          />
+        </div>
+      </Section>
+
+      <Section title="Patient">
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+          <div>
+            <label htmlFor="patient-name" className={labelClass}>Name</label>
+            <input
+              id="patient-name"
+              value={patient.demographics.name}
+              onChange={(e) => updateDemographics('name', e.target.value)}
+              className={inputClass}
+              disabled={disabled}
+            />
+          </div>
+          <div>
+            <label htmlFor="patient-age" className={labelClass}>Age</label>
+            <input
+              id="patient-age"
+              type="number"
+              min={0}
+              max={120}
+              value={patient.demographics.age ?? ''}
+              onChange={(e) => updateDemographics('age', e.target.value === '' ? null : Math.round(Number(e.target.value)))}
+              className={inputClass}
+              disabled={disabled}
+            />
+          </div>
+          <div>
+            <label htmlFor="patient-sex" className={labelClass}>Sex</label>
+            <select
+              id="patient-sex"
+              value={patient.demographics.sex}
+              onChange={(e) => updateDemographics('sex', e.target.value as PatientCase['demographics']['sex'])}
+              className={inputClass}
+              disabled={disabled}
+            >
+              <option value="unspecified">Unspecified</option>
+              <option value="female">Female</option>
+              <option value="male">Male</option>
+              <option value="other">Other</option>
+            </select>
+          </div>
+          <div>
+            <label htmlFor="patient-occupation" className={labelClass}>Occupation</label>
+            <input
+              id="patient-occupation"
+              value={patient.demographics.occupation}
+              onChange={(e) => updateDemographics('occupation', e.target.value)}
+              className={inputClass}
+              disabled={disabled}
+            />
+          </div>
+        </div>
+        <div>
+          <label htmlFor="patient-background" className={labelClass}>Background</label>
+          <textarea
+            id="patient-background"
+            value={patient.background}
+            onChange={(e) => updatePatient('background', e.target.value)}
+            rows={4}
+            placeholder="History, current complaint, social context..."
+            className={inputClass}
+            disabled={disabled}
+          />
+        </div>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+          <div>
+            <label htmlFor="patient-mood" className={labelClass}>Mood</label>
+            <select
+              id="patient-mood"
+              value={patient.mood}
+              onChange={(e) => updatePatient('mood', e.target.value)}
+              className={inputClass}
+              disabled={disabled}
+            >
+              {PATIENT_MOODS.map((mood) => (
+                <option key={mood} value={mood}>{formatScenarioTitle(mood)}</option>
+              ))}
+            </select>
+          </div>
+          <div className="md:col-span-2">
+            <label htmlFor="patient-opening" className={labelClass}>Opening line</label>
+            <input
+              id="patient-opening"
+              value={patient.opening_line}
+              onChange={(e) => updatePatient('opening_line', e.target.value)}
+              placeholder="Hi, I just picked up my new prescription and had a question..."
+              className={inputClass}
+              disabled={disabled}
+            />
+          </div>
+        </div>
+      </Section>
+
+      <Section title="Medications & Allergies">
+        <div className="space-y-2">
+          {patient.medications.map((medication, index) => (
+            <div key={index} className="grid grid-cols-[1fr_1fr_1fr_auto] gap-2">
+              {(['name', 'dose', 'frequency'] as const).map((field) => (
+                <input
+                  key={field}
+                  value={medication[field]}
+                  onChange={(e) =>
+                    updatePatient(
+                      'medications',
+                      patient.medications.map((existing, i) => (i === index ? { ...existing, [field]: e.target.value } : existing))
+                    )
+                  }
+                  placeholder={formatScenarioTitle(field)}
+                  aria-label={`Medication ${index + 1} ${field}`}
+                  className={inputClass}
+                  disabled={disabled}
+                />
+              ))}
+              <button
+                onClick={() => updatePatient('medications', patient.medications.filter((_, i) => i !== index))}
+                className="p-2 text-gray-400 hover:text-red-600"
+                aria-label={`Remove medication ${index + 1}`}
+                disabled={disabled}
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+          ))}
+          <button
+            onClick={() => updatePatient('medications', [...patient.medications, { name: '', dose: '', frequency: '' }])}
+            className="flex items-center gap-1 text-sm font-medium text-[#344895] hover:text-[#1A1F71]"
+            disabled={disabled}
+          >
+            <Plus className="w-4 h-4" />
+            Add medication
+          </button>
+        </div>
+        <div>
+          <p className={labelClass}>Allergies</p>
+          <StringListEditor
+            items={patient.allergies}
+            onChange={(allergies) => updatePatient('allergies', allergies)}
+            placeholder="e.g. Penicillin (rash)"
+            addLabel="Allergy"
+            disabled={disabled}
+          />
+        </div>
+      </Section>
+
+      <Section
+        title="Hidden Facts"
+        description="Things the patient only reveals if the student asks the right question."
+      >
+        {patient.hidden_facts.map((item, index) => (
+          <div key={index} className="grid grid-cols-1 md:grid-cols-[2fr_1fr_auto] gap-2 items-start">
+            <textarea
+              value={item.fact}
+              onChange={(e) =>
+                updatePatient(
+                  'hidden_facts',
+                  patient.hidden_facts.map((existing, i) => (i === index ? { ...existing, fact: e.target.value } : existing))
+                )
+              }
+              rows={2}
+              placeholder="e.g. Takes St John's Wort for low mood"
+              aria-label={`Hidden fact ${index + 1}`}
+              className={inputClass}
+              disabled={disabled}
+            />
+            <input
+              value={item.reveal_when}
+              onChange={(e) =>
+                updatePatient(
+                  'hidden_facts',
+                  patient.hidden_facts.map((existing, i) => (i === index ? { ...existing, reveal_when: e.target.value } : existing))
+                )
+              }
+              placeholder="Reveal when asked about..."
+              aria-label={`Hidden fact ${index + 1} trigger`}
+              className={inputClass}
+              disabled={disabled}
+            />
+            <button
+              onClick={() => updatePatient('hidden_facts', patient.hidden_facts.filter((_, i) => i !== index))}
+              className="p-2 text-gray-400 hover:text-red-600"
+              aria-label={`Remove hidden fact ${index + 1}`}
+              disabled={disabled}
+            >
+              <Trash2 className="w-4 h-4" />
+            </button>
+          </div>
+        ))}
+        <button
+          onClick={() => updatePatient('hidden_facts', [...patient.hidden_facts, { fact: '', reveal_when: '' }])}
+          className="flex items-center gap-1 text-sm font-medium text-[#344895] hover:text-[#1A1F71]"
+          disabled={disabled}
+        >
+          <EyeOff className="w-4 h-4" />
+          Add hidden fact
+        </button>
+      </Section>
+
+      <Section title="Assessment" description="What a good student does, and how the rubric is weighted.">
+        <div>
+          <p className={labelClass}>Expected actions</p>
+          <StringListEditor
+            items={patient.expected_actions}
+            onChange={(actions) => updatePatient('expected_actions', actions)}
+            placeholder="e.g. Asks about other medicines, including OTC and herbal"
+            addLabel="Expected action"
+            disabled={disabled}
+          />
+        </div>
+        <div>
+          <p className={labelClass}>Rubric weights</p>
+          <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
+            {RUBRIC_CATEGORIES.map((category) => (
+              <label key={category.key} className="flex items-center justify-between gap-2 text-sm text-gray-700">
+                {category.label}
+                <span className="flex items-center gap-1">
+                  <input
+                    type="number"
+                    min={0}
+                    max={100}
+                    value={patient.rubric_weights[category.key] ?? 0}
+                    onChange={(e) =>
+                      updatePatient('rubric_weights', {
+                        ...patient.rubric_weights,
+                        [category.key]: Math.min(100, Math.max(0, Number(e.target.value) || 0)),
+                      })
+                    }
+                    className="w-16 px-2 py-1 border border-gray-300 rounded-lg text-sm text-right focus:outline-none focus:ring-2 focus:ring-[#344895]"
+                    disabled={disabled}
+                  />
+                  %
+                </span>
+              </label>
+            ))}
+          </div>
+          <p className={`text-xs mt-2 ${weightTotal === 100 ? 'text-gray-500' : 'text-red-600 font-medium'}`}>
+            Total: {weightTotal}%{weightTotal !== 100 && ' - must be 100% to publish'}
+          </p>
+        </div>
+      </Section>
+    </div>
+  )
+}
@@ -0,0 +1,43 @@
+'use client'
+
+import { Clock } from 'lucide-react'
+import { getCategoryLabel } from '@/lib/scenarioCatalog'
+import { patientCaseToPrompt, type ScenarioDraft } from '@/lib/scenarioAuthoring'
+import { formatScenarioTitle } from '@/lib/utils'
+
+interface ScenarioPreviewProps {
+  draft: ScenarioDraft
+}
+
+/**
+ * How a scenario looks to students in the library, plus the brief the
+ * simulated patient is given
+ */
+export default function ScenarioPreview({ draft }: ScenarioPreviewProps) {
+  return (
+    <div className="space-y-4">
+      <div>
+        <p className="text-xs font-semibold uppercase tracking-wide text-gray-500 mb-2">Library card</p>
+        <div className="bg-white border border-gray-200 rounded-xl p-5">
+          <h3 className="font-semibold text-gray-900 mb-2">{draft.title || 'Untitled scenario'}</h3>
+          <p className="text-sm text-gray-600 mb-4">{draft.description || 'No description yet.'}</p>
+          <div className="flex flex-wrap items-center gap-2 text-xs">
+            <span className="px-2 py-0.5 rounded-full bg-gray-100 text-gray-700">{getCategoryLabel(draft.category)}</span>
+            <span className="px-2 py-0.5 rounded-full bg-gray-100 text-gray-700">{formatScenarioTitle(draft.patient.mood)} patient</span>
+            <span className="px-2 py-0.5 rounded-full bg-gray-100 text-gray-700">{formatScenarioTitle(draft.difficulty)}</span>
+            <span className="inline-flex items-center gap-1 text-gray-500">
+              <Clock className="w-3 h-3" />
+              ~{draft.estimated_minutes} min
+            </span>
+          </div>
+        </div>
+      </div>
+      <div>
+        <p className="text-xs font-semibold uppercase tracking-wide text-gray-500 mb-2">Patient brief</p>
+        <pre className="bg-gray-50 border border-gray-200 rounded-xl p-4 text-xs text-gray-700 whitespace-pre-wrap font-mono max-h-[32rem] overflow-y-auto">
+          {patientCaseToPrompt(draft)}
+        </pre>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,388 @@
+'use client'
+
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react'
+import { Bot, Flag, Loader2, Pause, Play, Scissors, User, X } from 'lucide-react'
+import {
+  getSessionRecording,
+  type RecordedClip,
+  type RecordedTurn,
+  type RecordingSpeaker,
+  type SessionRecording,
+} from '@/lib/sessionRecording'
+import { formatScenarioTitle } from '@/lib/utils'
+
+interface KeyMoment {
+  timestamp: string
+  speaker: string
+  text: string
+  note: string
+}
+
+interface SessionReplayProps {
+  sessionId: string
+  onClose: () => void
+}
+
+interface ResolvedKeyMoment extends KeyMoment {
+  offsetMs: number
+}
+
+const SPEAKERS: RecordingSpeaker[] = ['student', 'patient']
+
+// Audio elements drift a little from the timeline clock; only re-seek past this
+const SYNC_TOLERANCE_SECONDS = 0.3
+
+const formatTime = (ms: number) => {
+  const seconds = Math.max(0, Math.floor(ms / 1000))
+  return `${Math.floor(seconds / 60)}:${(seconds % 60).toString().padStart(2, '0')}`
+}
+
+/**
+ * Key moment timestamps come from the evaluator as "m:ss", "h:mm:ss" or plain
+ * seconds. When they can't be parsed, fall back to finding the quoted text in
+ * the transcript.
+ */
+function resolveKeyMomentOffset(moment: KeyMoment, transcript: RecordedTurn[]): number | null {
+  const raw = moment.timestamp?.trim() ?? ''
+  if (/^\d+(:\d{1,2}){1,2}$/.test(raw)) {
+    const seconds = raw.split(':').reduce((total, part) => total * 60 + Number(part), 0)
+    return seconds * 1000
+  }
+  if (/^\d+(\.\d+)?s?$/.test(raw)) {
+    return parseFloat(raw) * 1000
+  }
+
+  const needle = moment.text?.toLowerCase().replace(/["“”]/g, '').trim().slice(0, 40)
+  if (!needle) return null
+  const turn = transcript.find((entry) => entry.text.toLowerCase().includes(needle))
+  return turn ? turn.offsetMs : null
+}
+
+function findClipAt(clips: RecordedClip[], positionMs: number): RecordedClip | null {
+  for (let i = clips.length - 1; i >= 0; i--) {
+    const clip = clips[i]
+    if (clip.offsetMs <= positionMs && positionMs < clip.offsetMs + clip.durationMs) return clip
+  }
+  return null
+}
+
+/**
+ * Replays a locally recorded training session: both voices on a shared
+ * timeline, with the transcript highlighting along and jump points for the
+ * evaluation's key moments.
+ */
+export default function SessionReplay({ sessionId, onClose }: SessionReplayProps) {
+  const [recording, setRecording] = useState<SessionRecording | null>(null)
+  const [keyMoments, setKeyMoments] = useState<KeyMoment[]>([])
+  const [loading, setLoading] = useState(true)
+  const [loadError, setLoadError] = useState<string | null>(null)
+  const [positionMs, setPositionMs] = useState(0)
+  const [isPlaying, setIsPlaying] = useState(false)
+
+  const positionRef = useRef(0)
+  const frameRef = useRef<number | null>(null)
+  const lastTickRef = useRef<number | null>(null)
+  const audioRefs = useRef<Record<RecordingSpeaker, HTMLAudioElement | null>>({ student: null, patient: null })
+  const activeClipRefs = useRef<Record<RecordingSpeaker, RecordedClip | null>>({ student: null, patient: null })
+  const turnRefs = useRef<Map<number, HTMLButtonElement>>(new Map())
+
+  useEffect(() => {
+    let cancelled = false
+    const load = async () => {
+      try {
+        setLoading(true)
+        const saved = await getSessionRecording(sessionId)
+        if (cancelled) return
+        if (!saved) {
+          setLoadError('This session was not recorded on this device.')
+          return
+        }
+        setRecording(saved)
+
+        // Key moments are a bonus; the replay works without an evaluation
+        try {
+          const { apiClient } = await import('@/lib/api')
+          const evaluation = await apiClient.getSessionEvaluation(sessionId)
+          if (!cancelled && Array.isArray(evaluation?.key_moments)) {
+            setKeyMoments(evaluation.key_moments)
+          }
+        } catch (err) {
+          console.warn('[SessionReplay] No evaluation for key moments:', err)
+        }
+      } catch (err) {
+        console.error('[SessionReplay] Failed to load recording:', err)
+        if (!cancelled) setLoadError('Could not open the recording.')
+      } finally {
+        if (!cancelled) setLoading(false)
+      }
+    }
+    load()
+    return () => {
+      cancelled = true
+    }
+  }, [sessionId])
+
+  const clipsBySpeaker = useMemo(() => {
+    const clips = recording?.clips ?? []
+    return {
+      student: clips.filter((clip) => clip.speaker === 'student'),
+      patient: clips.filter((clip) => clip.speaker === 'patient'),
+    }
+  }, [recording])
+
+  // Object URLs for every clip, released when the replay closes
+  const clipUrls = useMemo(() => {
+    const urls = new Map<RecordedClip, string>()
+    recording?.clips.forEach((clip) => urls.set(clip, URL.createObjectURL(clip.blob)))
+    return urls
+  }, [recording])
+
+  useEffect(() => {
+    return () => clipUrls.forEach((url) => URL.revokeObjectURL(url))
+  }, [clipUrls])
+
+  const durationMs = useMemo(() => {
+    if (!recording) return 0
+    const clipEnd = Math.max(0, ...recording.clips.map((clip) => clip.offsetMs + clip.durationMs))
+    return Math.max(recording.durationMs, clipEnd)
+  }, [recording])
+
+  const resolvedMoments = useMemo<ResolvedKeyMoment[]>(() => {
+    if (!recording) return []
+    return keyMoments
+      .map((moment) => ({ ...moment, offsetMs: resolveKeyMomentOffset(moment, recording.transcript) }))
+      .filter((moment): moment is ResolvedKeyMoment => moment.offsetMs !== null && moment.offsetMs <= durationMs)
+  }, [keyMoments, recording, durationMs])
+
+  const activeTurnIndex = useMemo(() => {
+    if (!recording) return -1
+    let index = -1
+    recording.transcript.forEach((turn, i) => {
+      if (turn.offsetMs <= positionMs) index = i
+    })
+    return index
+  }, [recording, positionMs])
+
+  // Point each speaker's <audio> at whatever clip covers the timeline position
+  const syncAudio = useCallback((position: number, playing: boolean) => {
+    SPEAKERS.forEach((speaker) => {
+      const audio = audioRefs.current[speaker]
+      if (!audio) return
+      const clip = findClipAt(clipsBySpeaker[speaker], position)
+
+      if (!clip) {
+        if (!audio.paused) audio.pause()
+        activeClipRefs.current[speaker] = null
+        return
+      }
+
+      const clipTime = (position - clip.offsetMs) / 1000
+      if (activeClipRefs.current[speaker] !== clip) {
+        activeClipRefs.current[speaker] = clip
+        audio.src = clipUrls.get(clip) ?? ''
+        audio.currentTime = clipTime
+      } else if (Math.abs(audio.currentTime - clipTime) > SYNC_TOLERANCE_SECONDS) {
+        audio.currentTime = clipTime
+      }
+
+      if (playing && audio.paused) {
+        audio.play().catch((err) => console.warn('[SessionReplay] Playback blocked:', err))
+      } else if (!playing && !audio.paused) {
+        audio.pause()
+      }
+    })
+  }, [clipsBySpeaker, clipUrls])
+
+  const stopClock = useCallback(() => {
+    if (frameRef.current !== null) {
+      cancelAnimationFrame(frameRef.current)
+      frameRef.current = null
+    }
+    lastTickRef.current = null
+  }, [])
+
+  const pause = useCallback(() => {
+    stopClock()
+    setIsPlaying(false)
+    syncAudio(positionRef.current, false)
+  }, [stopClock, syncAudio])
+
+  const play = useCallback(() => {
+    if (positionRef.current >= durationMs) {
+      positionRef.current = 0
+      setPositionMs(0)
+    }
+    setIsPlaying(true)
+
+    const tick = (now: number) => {
+      const elapsed = lastTickRef.current === null ? 0 : now - lastTickRef.current
+      lastTickRef.current = now
+      const next = Math.min(durationMs, positionRef.current + elapsed)
+      positionRef.current = next
+      setPositionMs(next)
+
+      if (next >= durationMs) {
+        pause()
+        return
+      }
+      syncAudio(next, true)
+      frameRef.current = requestAnimationFrame(tick)
+    }
+    frameRef.current = requestAnimationFrame(tick)
+  }, [durationMs, pause, syncAudio])
+
+  const seek = useCallback((ms: number) => {
+    const next = Math.max(0, Math.min(durationMs, ms))
+    positionRef.current = next
+    setPositionMs(next)
+    syncAudio(next, isPlaying)
+  }, [durationMs, isPlaying, syncAudio])
+
+  useEffect(() => stopClock, [stopClock])
+
+  // Keep the highlighted turn in view while playing
+  useEffect(() => {
+    if (!isPlaying || activeTurnIndex < 0) return
+    turnRefs.current.get(activeTurnIndex)?.scrollIntoView({ block: 'nearest', behavior: 'smooth' })
+  }, [activeTurnIndex, isPlaying])
+
+  return (
+    <div className="p-6">
+      <div className="flex items-start justify-between mb-4">
+        <div>
+          <h2 className="text-xl font-bold text-gray-900">Session Replay</h2>
+          {recording && (
+            <p className="text-sm text-gray-600">
+              {formatScenarioTitle(recording.scenarioTitle ?? 'Training session')} ·{' '}
+              {new Date(recording.startedAt).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })}
+            </p>
+          )}
+        </div>
+        <button onClick={onClose} className="text-gray-400 hover:text-gray-600" aria-label="Close replay">
+          <X className="w-6 h-6" />
+        </button>
+      </div>
+
+      {loading ? (
+        <div className="flex items-center justify-center py-12 text-gray-500 gap-2">
+          <Loader2 className="w-5 h-5 animate-spin" />
+          Loading recording...
+        </div>
+      ) : loadError || !recording ? (
+        <p className="text-center py-12 text-gray-500">{loadError}</p>
+      ) : (
+        <>
+          {SPEAKERS.map((speaker) => (
+            <audio
+              key={speaker}
+              ref={(el) => {
+                audioRefs.current[speaker] = el
+              }}
+              preload="auto"
+              className="hidden"
+            >
+              {/* The transcript below is the caption track */}
+              <track kind="captions" />
+            </audio>
+          ))}
+
+          {/* Transport */}
+          <div className="flex items-center gap-3 mb-2">
+            <button
+              onClick={isPlaying ? pause : play}
+              className="w-10 h-10 rounded-full bg-[#344895] hover:bg-[#1A1F71] text-white flex items-center justify-center flex-shrink-0"
+              aria-label={isPlaying ? 'Pause replay' : 'Play replay'}
+            >
+              {isPlaying ? <Pause className="w-5 h-5" /> : <Play className="w-5 h-5 ml-0.5" />}
+            </button>
+            <span className="text-xs text-gray-600 tabular-nums w-10 text-right">{formatTime(positionMs)}</span>
+            <div className="relative flex-1">
+              <input
+                type="range"
+                min={0}
+                max={durationMs}
+                step={100}
+                value={positionMs}
+                onChange={(e) => seek(Number(e.target.value))}
+                className="w-full accent-[#344895]"
+                aria-label="Replay position"
+              />
+              {resolvedMoments.map((moment, index) => (
+                <span
+                  key={index}
+                  className="absolute top-0 w-1 h-2 bg-amber-500 rounded-full pointer-events-none"
+                  style={{ left: `${durationMs ? (moment.offsetMs / durationMs) * 100 : 0}%` }}
+                />
+              ))}
+            </div>
+            <span className="text-xs text-gray-600 tabular-nums w-10">{formatTime(durationMs)}</span>
+          </div>
+          {recording.clips.length === 0 && (
+            <p className="text-xs text-gray-500 mb-2">No audio was recorded for this session (text chat) - the transcript still plays along.</p>
+          )}
+
+          {/* Key moments */}
+          {resolvedMoments.length > 0 && (
+            <div className="mb-4">
+              <h3 className="text-sm font-semibold text-gray-700 mb-2 flex items-center gap-1.5">
+                <Flag className="w-4 h-4 text-amber-500" />
+                Key moments
+              </h3>
+              <div className="flex flex-wrap gap-2">
+                {resolvedMoments.map((moment, index) => (
+                  <button
+                    key={index}
+                    onClick={() => seek(moment.offsetMs)}
+                    title={moment.note}
+                    className="px-3 py-1.5 rounded-lg border border-amber-200 bg-amber-50 hover:bg-amber-100 text-xs text-amber-900 text-left max-w-xs"
+                  >
+                    <span className="font-semibold tabular-nums mr-1">{formatTime(moment.offsetMs)}</span>
+                    {moment.note}
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {/* Transcript */}
+          <div className="bg-gray-50 border border-gray-200 rounded-xl p-4 max-h-96 overflow-y-auto space-y-2" aria-label="Replay transcript">
+            {recording.transcript.map((turn, index) => {
+              const isStudent = turn.speaker === 'student'
+              const isActive = index === activeTurnIndex
+              return (
+                <button
+                  key={index}
+                  ref={(el) => {
+                    if (el) turnRefs.current.set(index, el)
+                    else turnRefs.current.delete(index)
+                  }}
+                  onClick={() => seek(turn.offsetMs)}
+                  aria-current={isActive ? 'true' : undefined}
+                  className={`w-full flex gap-2 text-left rounded-lg px-3 py-2 transition-colors ${isActive
+                    ? 'bg-indigo-100 ring-2 ring-[#344895]'
+                    : 'hover:bg-white'
+                    }`}
+                >
+                  {isStudent ? (
+                    <User className="w-4 h-4 text-[#1A1F71] flex-shrink-0 mt-0.5" />
+                  ) : (
+                    <Bot className="w-4 h-4 text-[#344895] flex-shrink-0 mt-0.5" />
+                  )}
+                  <span className="flex-1 text-sm text-gray-900">
+                    <span className="font-semibold mr-1">{isStudent ? 'You' : 'Patient'}</span>
+                    <span className="text-xs text-gray-500 tabular-nums mr-2">{formatTime(turn.offsetMs)}</span>
+                    {turn.text}
+                    {turn.interrupted && (
+                      <Scissors className="inline w-3 h-3 ml-1 text-amber-600" aria-label="interrupted" />
+                    )}
+                  </span>
+                </button>
+              )
+            })}
+          </div>
+          <p className="text-xs text-gray-400 mt-3">Recordings are stored only on this device.</p>
+        </>
+      )}
+    </div>
+  )
+}
@@ -1,12 +1,22 @@
 'use client'
 
-import { useState, useEffect } from 'react'
+import { useState, useEffect, useMemo, useRef } from 'react'
 import { useRouter } from 'next/navigation'
 import Image from 'next/image'
-import { Mic, MicOff, RotateCcw, AlertCircle, Award, Loader2 } from 'lucide-react'
-import { useTrainingSession } from '@/hooks/useTrainingSession'
+import { Mic, MicOff, RotateCcw, AlertCircle, Award, Loader2, Hand, Radio, WifiOff, Captions, CaptionsOff, Keyboard, Send, Volume2, VolumeX, Headphones, Activity, Library, Timer } from 'lucide-react'
+import { useTrainingSession, type EncounterPhase, type TrainingInputMode } from '@/hooks/useTrainingSession'
 import OSCEFeedback from './OSCEFeedback'
+import TranscriptPanel from './TranscriptPanel'
+import AudioCheck from './AudioCheck'
+import TrainingDiagnostics from './TrainingDiagnostics'
+import CoachChecklist from './CoachChecklist'
+import { isFeatureEnabled } from '@/lib/featureFlags'
 import { formatScenarioTitle } from '@/lib/utils'
+import { getCategoryLabel, SCENARIO_CATEGORIES } from '@/lib/scenarioCatalog'
+import type { CreateSessionRequest, TrainingScenario } from '@/lib/trainingApi'
+import { patientCaseToPrompt, toScenarioDraft, type AuthoredScenario } from '@/lib/scenarioAuthoring'
+import { playStationTone, STATION_WARNING_SECONDS, type CircuitStationControl } from '@/lib/osceCircuit'
+import { buildChecklist, COACH_MODE_OPTIONS, type CoachMode } from '@/lib/coachChecklist'
 
 interface Scenario {
   id: string
@@ -16,6 +26,30 @@ interface Scenario {
   custom_scenario?: string
 }
 
+const INPUT_MODE_STORAGE_KEY = 'training_input_mode'
+const SHOW_TRANSCRIPT_STORAGE_KEY = 'training_show_transcript'
+const MUTE_PATIENT_STORAGE_KEY = 'training_mute_patient_audio'
+// Per browser session, so the check runs again after the browser restarts
+const AUDIO_CHECK_DONE_KEY = 'training_audio_check_done'
+// Per-browser opt-in for the diagnostics overlay, set with ?diagnostics=1
+const DIAGNOSTICS_ENABLED_KEY = 'training_diagnostics'
+const SHOW_DIAGNOSTICS_STORAGE_KEY = 'training_show_diagnostics'
+const COACH_MODE_STORAGE_KEY = 'training_coach_mode'
+
+const INPUT_MODE_OPTIONS: { value: TrainingInputMode; label: string; icon: typeof Mic }[] = [
+  { value: 'hands_free', label: 'Hands-free', icon: Radio },
+  { value: 'push_to_talk', label: 'Push to talk', icon: Hand },
+  { value: 'text', label: 'Type', icon: Keyboard },
+]
+
+const ENCOUNTER_PHASE_STEPS: { phase: EncounterPhase; label: string }[] = [
+  { phase: 'opening', label: 'Opening' },
+  { phase: 'history_taking', label: 'History' },
+  { phase: 'counselling', label: 'Counselling' },
+  { phase: 'closing', label: 'Closing' },
+  { phase: 'ended', label: 'Ended' },
+]
+
 interface TrainingBotProps {
   scenarios: Scenario[]
   lectureSimulation?: {
@@ -30,21 +64,43 @@ interface TrainingBotProps {
     lecture_id?: string
     scenario_id?: string
   }
+  /** Scenario picked in the scenario library */
+  libraryScenario?: TrainingScenario | null
+  /** Instructor test run of a scenario from the authoring tool (may be an unpublished draft) */
+  testRunScenario?: AuthoredScenario | null
+  /** Runs the library scenario as a timed OSCE circuit station */
+  circuitStation?: CircuitStationControl | null
 }
 
-export default function TrainingBotEnhanced({ scenarios, lectureSimulation }: TrainingBotProps) {
+export default function TrainingBotEnhanced({ scenarios, lectureSimulation, libraryScenario, testRunScenario, circuitStation }: TrainingBotProps) {
   const router = useRouter()
   const {
     session,
     isConnected,
+    isReconnecting,
+    reconnectAttempt,
     isRecording,
     isSpeaking,
     error,
+    microphoneError,
     conversationEnding,
+    encounterPhase,
+    checklistProgress,
+    inputMode,
+    isHandsFreeActive,
+    transcript,
+    isPatientAudioMuted,
+    turnMetrics,
+    reconnectCount,
     startSession,
     stopSession,
     startRecording,
     stopRecording,
+    setInputMode,
+    startHandsFree,
+    stopHandsFree,
+    sendText,
+    setPatientAudioMuted,
   } = useTrainingSession();
 
   const [timer, setTimer] = useState(0)
@@ -61,6 +117,24 @@ export default function TrainingBotEnhanced({ scenarios, lectureSimulation }: Tr
   const [customScenario, setCustomScenario] = useState<string>('')
   const [useCustomScenario, setUseCustomScenario] = useState(false)
   const [isStartingSession, setIsStartingSession] = useState(false)
+  const [showTranscript, setShowTranscript] = useState(true)
+  const [sessionStartedAt, setSessionStartedAt] = useState<number | null>(null)
+  const [chatDraft, setChatDraft] = useState('')
+  // 'start' runs the check before a voice session; 'review' just opens it
+  const [audioCheckMode, setAudioCheckMode] = useState<'start' | 'review' | null>(null)
+  const featuredScenario = testRunScenario ?? libraryScenario
+  const [diagnosticsAvailable, setDiagnosticsAvailable] = useState(false)
+  const [showDiagnostics, setShowDiagnostics] = useState(false)
+  const [preferencesRestored, setPreferencesRestored] = useState(false)
+  const [coachMode, setCoachMode] = useState<CoachMode>('off')
+  const stationStartedRef = useRef(false)
+  const stationFinishedRef = useRef(false)
+  // The station clock runs on wall-clock time from the session start, not connected time,
+  // so a station that never connects or keeps reconnecting still ends on time
+  const [stationStartedAt, setStationStartedAt] = useState<number | null>(null)
+  const [stationNow, setStationNow] = useState(() => Date.now())
+  const stationElapsed = stationStartedAt === null ? 0 : Math.max(0, Math.floor((stationNow - stationStartedAt) / 1000))
+  const stationRemaining = circuitStation ? Math.max(0, circuitStation.stationSeconds - stationElapsed) : null
 
   // Timer effect
   useEffect(() => {
@@ -74,6 +148,146 @@ export default function TrainingBotEnhanced({ scenarios, lectureSimulation }: Tr
     return () => clearInterval(interval)
   }, [session, isConnected])
 
+  // Restore the student's preferred input mode and caption setting
+  useEffect(() => {
+    const savedMode = localStorage.getItem(INPUT_MODE_STORAGE_KEY)
+    if (savedMode === 'hands_free' || savedMode === 'push_to_talk' || savedMode === 'text') {
+      setInputMode(savedMode)
+    }
+    if (localStorage.getItem(SHOW_TRANSCRIPT_STORAGE_KEY) === 'false') {
+      setShowTranscript(false)
+    }
+    if (localStorage.getItem(MUTE_PATIENT_STORAGE_KEY) === 'true') {
+      setPatientAudioMuted(true)
+    }
+    const savedCoachMode = localStorage.getItem(COACH_MODE_STORAGE_KEY)
+    if (savedCoachMode === 'coach' || savedCoachMode === 'exam') {
+      setCoachMode(savedCoachMode)
+    }
+    setPreferencesRestored(true)
+  }, [setInputMode, setPatientAudioMuted])
+
+  // Circuit stations start as soon as reading time is over, once the saved input mode is applied
+  useEffect(() => {
+    if (!circuitStation || !preferencesRestored || stationStartedRef.current) return
+    stationStartedRef.current = true
+    handleRequestStart()
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [circuitStation, preferencesRestored])
+
+  useEffect(() => {
+    if (stationStartedAt === null) return
+    const interval = setInterval(() => setStationNow(Date.now()), 1000)
+    return () => clearInterval(interval)
+  }, [stationStartedAt])
+
+  // Let the circuit end the live session when the student leaves mid-station
+  useEffect(() => {
+    if (!circuitStation) return
+    circuitStation.registerStop(stopSession)
+    return () => circuitStation.registerStop(null)
+  }, [circuitStation, stopSession])
+
+  // Station warnings and the end-of-station buzzer
+  useEffect(() => {
+    if (stationRemaining === null || stationStartedAt === null) return
+    if (stationRemaining === 0) {
+      playStationTone('end')
+      finishStation('time')
+    } else if (STATION_WARNING_SECONDS.includes(stationRemaining)) {
+      playStationTone('warning')
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [stationRemaining])
+
+  // Diagnostics are for support and testing, so they stay hidden unless asked for
+  useEffect(() => {
+    const param = new URLSearchParams(window.location.search).get('diagnostics')
+    if (param === '1') localStorage.setItem(DIAGNOSTICS_ENABLED_KEY, 'true')
+    if (param === '0') localStorage.removeItem(DIAGNOSTICS_ENABLED_KEY)
+
+    const available = isFeatureEnabled('trainingDiagnostics') || localStorage.getItem(DIAGNOSTICS_ENABLED_KEY) === 'true'
+    setDiagnosticsAvailable(available)
+    setShowDiagnostics(available && localStorage.getItem(SHOW_DIAGNOSTICS_STORAGE_KEY) === 'true')
+  }, [])
+
+  // Lecture simulations come with expected actions and concerns to check off
+  const hasChecklist = !!lectureSimulation &&
+    ((lectureSimulation.expected_actions?.length ?? 0) + (lectureSimulation.key_concerns?.length ?? 0)) > 0
+  const checklist = useMemo(
+    () => hasChecklist && coachMode !== 'off'
+      ? buildChecklist(lectureSimulation?.expected_actions ?? [], lectureSimulation?.key_concerns ?? [], transcript, checklistProgress)
+      : [],
+    [hasChecklist, coachMode, lectureSimulation, transcript, checklistProgress]
+  )
+  const showCoachSidebar = !!session && coachMode === 'coach' && checklist.length > 0
+
+  const handleChangeCoachMode = (next: CoachMode) => {
+    setCoachMode(next)
+    localStorage.setItem(COACH_MODE_STORAGE_KEY, next)
+  }
+
+  const handleToggleDiagnostics = () => {
+    const next = !showDiagnostics
+    setShowDiagnostics(next)
+    localStorage.setItem(SHOW_DIAGNOSTICS_STORAGE_KEY, String(next))
+  }
+
+  // Transcript times are shown relative to when the conversation connected
+  useEffect(() => {
+    if (!session) {
+      setSessionStartedAt(null)
+    } else if (isConnected) {
+      setSessionStartedAt(prev => prev ?? Date.now())
+    }
+  }, [session, isConnected])
+
+  const handleToggleTranscript = () => {
+    const next = !showTranscript
+    setShowTranscript(next)
+    localStorage.setItem(SHOW_TRANSCRIPT_STORAGE_KEY, String(next))
+  }
+
+  // Hands-free listens as soon as the session is connected
+  useEffect(() => {
+    if (isConnected && inputMode === 'hands_free') {
+      startHandsFree();
+    }
+  }, [isConnected, inputMode, startHandsFree])
+
+  const handleChangeInputMode = (nextMode: TrainingInputMode) => {
+    if (nextMode === inputMode) return;
+    if (isRecording && inputMode === 'push_to_talk') {
+      stopRecording();
+    }
+    setInputMode(nextMode);
+    localStorage.setItem(INPUT_MODE_STORAGE_KEY, nextMode);
+    // Patient audio can only be muted in text mode
+    if (nextMode !== 'text' && isPatientAudioMuted) {
+      setPatientAudioMuted(false);
+    }
+  }
+
+  const handleTogglePatientAudio = () => {
+    const next = !isPatientAudioMuted
+    setPatientAudioMuted(next)
+    localStorage.setItem(MUTE_PATIENT_STORAGE_KEY, String(next))
+  }
+
+  const handleSendChat = (e?: React.FormEvent) => {
+    e?.preventDefault()
+    if (sendText(chatDraft)) {
+      setChatDraft('')
+    }
+  }
+
+  const handleChatKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    // Enter sends, Shift+Enter adds a new line
+    if (e.key === 'Enter' && !e.shiftKey) {
+      handleSendChat(e)
+    }
+  }
+
   // Helper function to format category name
   const formatCategoryName = (category: string): string => {
     if (category === 'random') return 'Random Scenario';
@@ -97,8 +311,9 @@ export default function TrainingBotEnhanced({ scenarios, lectureSimulation }: Tr
 
     try {
       // Prepare session request
-      const sessionRequest: any = {
+      const sessionRequest: CreateSessionRequest = {
         mode: mode,
+        input_mode: inputMode === 'text' ? 'text' : 'voice',
       };
 
       // Check if this is a lecture-based simulation
@@ -130,6 +345,23 @@ INSTRUCTIONS: Role-play as this patient. Stay in character. Express the concerns
         sessionRequest.custom_scenario = lectureScenario;
         setSelectedScenario(lectureSimulation.title);
         setSelectedCategory('lecture');
+      } else if (testRunScenario) {
+        sessionRequest.mode = testRunScenario.mode;
+        sessionRequest.scenario_id = testRunScenario.id;
+        sessionRequest.patient_case = testRunScenario.patient;
+        sessionRequest.custom_scenario = patientCaseToPrompt(toScenarioDraft(testRunScenario));
+        sessionRequest.test_run = true;
+        setSelectedScenario(`Test run: ${testRunScenario.title}`);
+        setSelectedCategory(testRunScenario.category);
+      } else if (libraryScenario) {
+        sessionRequest.mode = libraryScenario.mode;
+        sessionRequest.scenario_id = libraryScenario.id;
+        if (circuitStation) {
+          sessionRequest.circuit_id = circuitStation.circuitId;
+          sessionRequest.circuit_station = circuitStation.stationNumber;
+        }
+        setSelectedScenario(libraryScenario.title);
+        setSelectedCategory(libraryScenario.category);
       } else if (useCustomScenario && customScenario.trim()) {
         sessionRequest.custom_scenario = customScenario.trim();
         setSelectedScenario('Custom Scenario');
@@ -147,20 +379,55 @@ INSTRUCTIONS: Role-play as this patient. Stay in character. Express the concerns
         setSelectedCategory('random');
       }
 
+      // Started here rather than on arrival so the audio check doesn't use up station time
+      if (circuitStation && stationStartedAt === null) {
+        const startedAt = Date.now();
+        setStationStartedAt(startedAt);
+        setStationNow(startedAt);
+      }
+
       await startSession(sessionRequest);
     } finally {
       setIsStartingSession(false);
     }
   }
 
+  // Voice sessions get a one-off audio check before the first start
+  const handleRequestStart = () => {
+    if (inputMode !== 'text' && !sessionStorage.getItem(AUDIO_CHECK_DONE_KEY)) {
+      setAudioCheckMode('start');
+      return;
+    }
+    handleStartSession();
+  }
+
+  const handleAudioCheckContinue = () => {
+    const shouldStart = audioCheckMode === 'start';
+    sessionStorage.setItem(AUDIO_CHECK_DONE_KEY, 'true');
+    setAudioCheckMode(null);
+    if (shouldStart) {
+      handleStartSession();
+    }
+  }
+
   const handleToggleMicrophone = () => {
     console.log('[TrainingBot] Toggle microphone, current state:', { isRecording, isConnected });
 
-    if (!isConnected) {
+    if (!isConnected && !isReconnecting) {
       console.warn('[TrainingBot] Cannot toggle mic - not connected');
       return;
     }
 
+    // In hands-free mode the mic button mutes and unmutes listening
+    if (inputMode === 'hands_free') {
+      if (isHandsFreeActive) {
+        stopHandsFree();
+      } else {
+        startHandsFree();
+      }
+      return;
+    }
+
     if (isRecording) {
       console.log('[TrainingBot] Stopping recording...');
       stopRecording();
@@ -182,9 +449,26 @@ INSTRUCTIONS: Role-play as this patient. Stay in character. Express the concerns
     setTimer(0);
   }
 
+  // Circuit stations hand the session back to the circuit instead of showing feedback
+  const finishStation = async (endedBy: 'time' | 'student') => {
+    if (!circuitStation || stationFinishedRef.current) return;
+    stationFinishedRef.current = true;
+    setShowEndSessionConfirm(false);
+    setIsEndingSession(true);
+    const sessionId = session?.id ?? null;
+    const elapsed = Math.min(stationElapsed, circuitStation.stationSeconds);
+    try {
+      await stopSession();
+    } catch (err) {
+      console.error('[Circuit] Error ending station session:', err);
+    }
+    setIsEndingSession(false);
+    circuitStation.onComplete(sessionId, endedBy, elapsed);
+  }
+
   const handleViewFeedback = () => {
     // If session is active, show confirmation dialog
-    if (session && isConnected) {
+    if (session && (isConnected || isReconnecting)) {
       setShowEndSessionConfirm(true);
     } else if (completedSessionId || session?.id) {
       // Session already ended, just show feedback
@@ -193,10 +477,14 @@ INSTRUCTIONS: Role-play as this patient. Stay in character. Express the concerns
   }
 
   const handleConfirmEndSession = async () => {
+    if (circuitStation) {
+      await finishStation('student');
+      return;
+    }
     setShowEndSessionConfirm(false);
 
     // If session is still active, end it first before showing feedback
-    if (session && isConnected) {
+    if (session && (isConnected || isReconnecting)) {
       try {
         setIsEndingSession(true);
         console.log('[Feedback] Ending session before showing feedback...');
@@ -232,12 +520,48 @@ INSTRUCTIONS: Role-play as this patient. Stay in character. Express the concerns
   const getStatusMessage = () => {
     if (error) return `Error: ${error}`;
     if (!session) return 'Select a scenario to begin';
+    if (isReconnecting) return 'Reconnecting...';
     if (!isConnected) return 'Connecting...';
-    if (isSpeaking) return 'Echo is speaking...';
+    if (inputMode === 'text') {
+      if (isSpeaking) return 'Echo is speaking...';
+      return transcript[transcript.length - 1]?.speaker === 'student'
+        ? 'Waiting for the patient...'
+        : 'Type your response below';
+    }
+    if (isSpeaking) {
+      if (inputMode === 'hands_free') {
+        return isHandsFreeActive ? 'Echo is speaking... just talk to interrupt' : 'Echo is speaking...';
+      }
+      return 'Echo is speaking... tap the mic to interrupt';
+    }
     if (isRecording) return 'Listening to you...';
+    if (inputMode === 'hands_free') {
+      return isHandsFreeActive ? 'Hands-free is on - just start speaking' : 'Mic muted - tap to resume hands-free';
+    }
     return 'Tap the mic to speak';
   }
 
+  const micIsOn = inputMode === 'hands_free' ? isHandsFreeActive : isRecording;
+
+  const renderInputModeToggle = () => (
+    <div className="inline-flex rounded-full bg-gray-100 p-1" role="group" aria-label="How you respond to the patient">
+      {INPUT_MODE_OPTIONS.map(({ value, label, icon: Icon }) => (
+        <button
+          key={value}
+          onClick={() => handleChangeInputMode(value)}
+          className={`flex items-center gap-1.5 px-4 py-1.5 rounded-full text-sm font-medium transition-colors ${inputMode === value
+            ? 'bg-[#344895] text-white'
+            : 'text-gray-600 hover:text-gray-900'
+            }`}
+          aria-pressed={inputMode === value}
+        >
+          <Icon className="w-4 h-4" />
+          {label}
+        </button>
+      ))}
+    </div>
+  );
+
   const getConversationState = () => {
     if (isSpeaking) return 'bot-speaking';
     if (isRecording) return 'user-speaking';
@@ -247,23 +571,28 @@ INSTRUCTIONS: Role-play as this patient. Stay in character. Express the concerns
   const conversationState = getConversationState();
 
   return (
-    <div className="voice-bot-container">
+    <div className={`voice-bot-container ${showCoachSidebar ? 'lg:grid lg:grid-cols-[1fr_18rem] lg:gap-4 lg:items-start' : ''}`}>
       <div className="voice-bot-card">
         {/* Header with Timer */}
         <div className="voice-bot-header">
           <div className="flex items-center gap-3">
             <div className="voice-bot-status-indicator">
-              <div className={`voice-bot-status-dot ${isConnected ? 'bg-green-500' : 'bg-gray-400'}`} />
+              <div className={`voice-bot-status-dot ${isConnected ? 'bg-green-500' : isReconnecting ? 'bg-amber-500 animate-pulse' : 'bg-gray-400'}`} />
             </div>
             <div>
-              <h2 className="voice-bot-title">Voice Training Session</h2>
+              <h2 className="voice-bot-title">
+                {circuitStation ? `Station ${circuitStation.stationNumber} of ${circuitStation.totalStations}` : 'Voice Training Session'}
+              </h2>
               <p className="voice-bot-subtitle">
-                {isConnected ? 'Connected' : session ? 'Connecting...' : 'Not started'}
+                {isConnected ? 'Connected' : isReconnecting ? 'Reconnecting...' : session ? 'Connecting...' : 'Not started'}
               </p>
             </div>
           </div>
-          <div className="voice-bot-timer">
-            <span className="voice-bot-timer-text">{formatTime(timer)}</span>
+          <div className="voice-bot-timer" title={circuitStation ? 'Station time remaining' : undefined}>
+            {stationRemaining !== null && <Timer className={`w-4 h-4 ${stationRemaining <= STATION_WARNING_SECONDS[STATION_WARNING_SECONDS.length - 1] ? 'text-red-500' : 'text-gray-500'}`} />}
+            <span className={`voice-bot-timer-text ${stationRemaining !== null && stationRemaining <= STATION_WARNING_SECONDS[STATION_WARNING_SECONDS.length - 1] ? 'text-red-600' : ''}`}>
+              {formatTime(stationRemaining ?? timer)}
+            </span>
           </div>
         </div>
 
@@ -278,6 +607,60 @@ INSTRUCTIONS: Role-play as this patient. Stay in character. Express the concerns
           </div>
         )}
 
+        {/* Microphone Problem */}
+        {session && microphoneError && inputMode !== 'text' && (
+          <div className="bg-red-50 border border-red-200 rounded-lg p-4 mb-4 flex items-start gap-3">
+            <AlertCircle className="w-5 h-5 text-red-500 flex-shrink-0 mt-0.5" />
+            <div className="flex-1">
+              <p className="text-sm font-semibold text-red-800 mb-1">{microphoneError.title}</p>
+              <p className="text-sm text-red-600 mb-2">{microphoneError.message}</p>
+              <div className="flex flex-wrap gap-3">
+                <button
+                  onClick={() => setAudioCheckMode('review')}
+                  className="text-sm font-medium text-red-700 hover:text-red-900 underline"
+                >
+                  Check audio devices
+                </button>
+                <button
+                  onClick={() => handleChangeInputMode('text')}
+                  className="text-sm font-medium text-red-700 hover:text-red-900 underline"
+                >
+                  Type instead
+                </button>
+              </div>
+            </div>
+          </div>
+        )}
+
+        {/* Reconnecting Banner */}
+        {session && isReconnecting && (
+          <div className="bg-amber-50 border border-amber-200 rounded-lg p-4 mb-4 flex items-start gap-3" role="status">
+            <WifiOff className="w-5 h-5 text-amber-500 flex-shrink-0 mt-0.5" />
+            <div className="flex-1">
+              <p className="text-sm font-semibold text-amber-800 mb-1">
+                Connection lost - reconnecting{reconnectAttempt > 0 ? ` (attempt ${reconnectAttempt})` : ''}...
+              </p>
+              <p className="text-sm text-amber-700">
+                Your session is still here. Anything you say now will be sent as soon as we&apos;re back.
+              </p>
+            </div>
+            <Loader2 className="w-4 h-4 text-amber-500 animate-spin flex-shrink-0 mt-1" />
+          </div>
+        )}
+
+        {/* Station Time Warning */}
+        {session && stationRemaining !== null && stationRemaining > 0 && stationRemaining <= STATION_WARNING_SECONDS[0] && (
+          <div
+            className={`rounded-lg p-3 mb-4 flex items-center gap-3 border ${stationRemaining <= STATION_WARNING_SECONDS[STATION_WARNING_SECONDS.length - 1] ? 'bg-red-50 border-red-200 text-red-800' : 'bg-amber-50 border-amber-200 text-amber-800'}`}
+            role="status"
+          >
+            <Timer className="w-5 h-5 flex-shrink-0" />
+            <p className="text-sm font-semibold">
+              {formatTime(stationRemaining)} left at this station - start bringing the consultation to a close.
+            </p>
+          </div>
+        )}
+
         {/* Main Voice Interface */}
         <div className="voice-bot-main">
           {!session ? (
@@ -296,7 +679,7 @@ INSTRUCTIONS: Role-play as this patient. Stay in character. Express the concerns
                   </div>
 
                   <button
-                    onClick={() => handleStartSession()}
+                    onClick={handleRequestStart}
                     disabled={isStartingSession}
                     className="px-8 py-4 bg-gradient-to-r from-[#3DD6D0] to-[#2BB5AF] text-[#1A1F71] rounded-full font-montserrat font-bold text-lg hover:shadow-lg transition-all disabled:opacity-70 disabled:cursor-not-allowed flex items-center justify-center gap-2 min-w-[240px]"
                   >
@@ -313,12 +696,113 @@ INSTRUCTIONS: Role-play as this patient. Stay in character. Express the concerns
                   <p className="text-sm text-gray-500 mt-4 text-center">
                     {isStartingSession ? 'Setting up your session...' : 'The patient will start the conversation'}
                   </p>
+
+                  <div className="mt-6 flex flex-col items-center gap-3">
+                    {renderInputModeToggle()}
+                    {hasChecklist && (
+                      <div className="flex flex-col items-center gap-1">
+                        <div className="inline-flex rounded-full bg-gray-100 p-1" role="group" aria-label="Checklist of expected actions">
+                          {COACH_MODE_OPTIONS.map((option) => (
+                            <button
+                              key={option.value}
+                              onClick={() => handleChangeCoachMode(option.value)}
+                              className={`px-3 py-1 rounded-full text-xs font-medium transition-colors ${coachMode === option.value
+                                ? 'bg-[#344895] text-white'
+                                : 'text-gray-600 hover:text-gray-900'
+                                }`}
+                              aria-pressed={coachMode === option.value}
+                              title={option.description}
+                            >
+                              {option.value === 'off' ? 'Checklist off' : `${option.label} mode`}
+                            </button>
+                          ))}
+                        </div>
+                        <p className="text-xs text-gray-500">
+                          {COACH_MODE_OPTIONS.find((option) => option.value === coachMode)?.description}
+                        </p>
+                      </div>
+                    )}
+                    {inputMode !== 'text' && (
+                      <button
+                        onClick={() => setAudioCheckMode('review')}
+                        className="flex items-center gap-1.5 text-sm font-medium text-[#344895] hover:text-[#1A1F71]"
+                      >
+                        <Headphones className="w-4 h-4" />
+                        Check microphone &amp; speaker
+                      </button>
+                    )}
+                  </div>
+                </div>
+              ) : featuredScenario ? (
+                /* Scenario picked from the library, or an instructor test run */
+                <div className="flex flex-col items-center justify-center py-8">
+                  <div className="mb-6 text-center max-w-xl">
+                    <p className="text-sm text-gray-500 mb-1">
+                      {testRunScenario
+                        ? `Instructor test run (${testRunScenario.status})`
+                        : circuitStation
+                          ? `OSCE circuit - ${formatTime(circuitStation.stationSeconds)} station`
+                          : 'From the scenario library'}
+                    </p>
+                    <h3 className="text-xl font-montserrat font-bold text-[#344895] mb-2">
+                      {featuredScenario.title}
+                    </h3>
+                    <p className="text-sm text-gray-600 mb-3">{featuredScenario.description}</p>
+                    <div className="flex flex-wrap justify-center gap-2 text-xs">
+                      <span className="px-2 py-0.5 rounded-full bg-gray-100 text-gray-700">{getCategoryLabel(featuredScenario.category)}</span>
+                      <span className="px-2 py-0.5 rounded-full bg-gray-100 text-gray-700">{formatScenarioTitle(featuredScenario.difficulty)}</span>
+                      <span className="px-2 py-0.5 rounded-full bg-gray-100 text-gray-700">~{featuredScenario.estimated_minutes} min</span>
+                    </div>
+                  </div>
+
+                  <button
+                    onClick={handleRequestStart}
+                    disabled={isStartingSession}
+                    className="px-8 py-3 bg-[#344895] text-white rounded-lg font-semibold hover:bg-[#1A1F71] transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2 min-w-[240px] min-h-[48px]"
+                  >
+                    {isStartingSession ? (
+                      <>
+                        <Loader2 className="w-5 h-5 animate-spin" />
+                        Connecting...
+                      </>
+                    ) : (
+                      'Start Scenario'
+                    )}
+                  </button>
+
+                  <div className="mt-6 flex flex-col items-center gap-3">
+                    {renderInputModeToggle()}
+                    {inputMode !== 'text' && (
+                      <button
+                        onClick={() => setAudioCheckMode('review')}
+                        className="flex items-center gap-1.5 text-sm font-medium text-[#344895] hover:text-[#1A1F71]"
+                      >
+                        <Headphones className="w-4 h-4" />
+                        Check microphone &amp; speaker
+                      </button>
+                    )}
+                    {!circuitStation && (
+                      <button
+                        onClick={() => router.push(testRunScenario ? `/instructor/scenarios/${testRunScenario.id}` : '/training/scenarios')}
+                        className="text-sm text-gray-600 hover:text-gray-900 underline"
+                      >
+                        {testRunScenario ? 'Back to the editor' : 'Choose a different scenario'}
+                      </button>
+                    )}
+                  </div>
                 </div>
               ) : (
                 /* Standard Mode - Full Options */
                 <>
                   <h3 className="voice-bot-scenario-title">Choose Your Training Scenario</h3>
                   <p className="voice-bot-scenario-subtitle">Select a patient interaction to practice</p>
+                  <button
+                    onClick={() => router.push('/training/scenarios')}
+                    className="flex items-center gap-1.5 mx-auto mb-4 text-sm font-medium text-[#344895] hover:text-[#1A1F71]"
+                  >
+                    <Library className="w-4 h-4" />
+                    Browse the scenario library
+                  </button>
 
                   {/* Mode Selection */}
                   <div className="mb-6 space-y-4">
@@ -362,15 +846,9 @@ INSTRUCTIONS: Role-play as this patient. Stay in character. Express the concerns
                           disabled={useCustomScenario}
                         >
                           <option value="random">Random</option>
-                          <option value="cardiovascular">Cardiovascular</option>
-                          <option value="otc">OTC</option>
-                          <option value="respiratory">Respiratory</option>
-                          <option value="diabetes">Diabetes</option>
-                          <option value="pain_management">Pain Management</option>
-                          <option value="mental_health">Mental Health</option>
-                          <option value="pediatric">Pediatric</option>
-                          <option value="geriatric">Geriatric</option>
-                          <option value="womens_health">Women&apos;s Health</option>
+                          {SCENARIO_CATEGORIES.map((option) => (
+                            <option key={option.value} value={option.value}>{option.label}</option>
+                          ))}
                         </select>
                       </div>
                     )}
@@ -400,12 +878,31 @@ INSTRUCTIONS: Role-play as this patient. Stay in character. Express the concerns
                         />
                       )}
                     </div>
+
+                    {/* Input Mode */}
+                    <div>
+                      <p className="block text-sm font-semibold text-gray-700 mb-2">Respond By</p>
+                      {renderInputModeToggle()}
+                      {inputMode === 'text' ? (
+                        <p className="text-xs text-gray-500 mt-1">
+                          Type your side of the conversation - no microphone needed. Evaluated the same as a voice session.
+                        </p>
+                      ) : (
+                        <button
+                          onClick={() => setAudioCheckMode('review')}
+                          className="flex items-center gap-1.5 text-xs font-medium text-[#344895] hover:text-[#1A1F71] mt-2"
+                        >
+                          <Headphones className="w-3.5 h-3.5" />
+                          Check microphone &amp; speaker
+                        </button>
+                      )}
+                    </div>
                   </div>
 
                   {/* Start Session Button */}
                   <div className="mb-6">
                     <button
-                      onClick={() => handleStartSession()}
+                      onClick={handleRequestStart}
                       disabled={(useCustomScenario && !customScenario.trim()) || isStartingSession}
                       className="w-full px-6 py-3 bg-[#344895] text-white rounded-lg font-semibold hover:bg-[#1A1F71] transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2 min-h-[48px]"
                     >
@@ -430,7 +927,7 @@ INSTRUCTIONS: Role-play as this patient. Stay in character. Express the concerns
                       {scenarios.map((scenarioItem) => (
                         <button
                           key={scenarioItem.id}
-                          onClick={() => handleStartSession()}
+                          onClick={handleRequestStart}
                           className="voice-bot-scenario-card"
                         >
                           <div className="voice-bot-scenario-icon">{scenarioItem.icon}</div>
@@ -491,11 +988,79 @@ INSTRUCTIONS: Role-play as this patient. Stay in character. Express the concerns
                 )}
               </div>
 
+              {/* Encounter Phase */}
+              {encounterPhase && (
+                <ol className="flex flex-wrap justify-center gap-1.5 mb-3" aria-label="Consultation stage">
+                  {ENCOUNTER_PHASE_STEPS.map((step, index) => {
+                    const currentIndex = ENCOUNTER_PHASE_STEPS.findIndex((other) => other.phase === encounterPhase)
+                    const isCurrent = step.phase === encounterPhase
+                    const isDone = currentIndex > index
+                    return (
+                      <li
+                        key={step.phase}
+                        aria-current={isCurrent ? 'step' : undefined}
+                        className={`px-2.5 py-1 rounded-full text-xs font-medium ${isCurrent
+                          ? 'bg-[#344895] text-white'
+                          : isDone
+                            ? 'bg-indigo-100 text-[#344895]'
+                            : 'bg-gray-100 text-gray-500'
+                          }`}
+                      >
+                        {step.label}
+                      </li>
+                    )
+                  })}
+                </ol>
+              )}
+
               {/* Status Message */}
               <div className="voice-bot-status-message">
                 <p className="voice-bot-status-text">{getStatusMessage()}</p>
               </div>
 
+              {/* Live Transcript / Captions (always shown as the chat in text mode) */}
+              <div className="w-full mb-4">
+                {inputMode !== 'text' && (
+                  <div className="flex justify-end mb-2">
+                    <button
+                      onClick={handleToggleTranscript}
+                      className="flex items-center gap-1.5 text-xs font-medium text-gray-600 hover:text-gray-900 transition-colors"
+                      aria-pressed={showTranscript}
+                    >
+                      {showTranscript ? <CaptionsOff className="w-4 h-4" /> : <Captions className="w-4 h-4" />}
+                      {showTranscript ? 'Hide transcript' : 'Show transcript'}
+                    </button>
+                  </div>
+                )}
+                {(showTranscript || inputMode === 'text') && (
+                  <TranscriptPanel entries={transcript} startedAt={sessionStartedAt} />
+                )}
+              </div>
+
+              {/* Text Chat Input */}
+              {inputMode === 'text' && (
+                <form onSubmit={handleSendChat} className="w-full mb-4 flex items-end gap-2">
+                  <textarea
+                    value={chatDraft}
+                    onChange={(e) => setChatDraft(e.target.value)}
+                    onKeyDown={handleChatKeyDown}
+                    placeholder="Type what you would say to the patient..."
+                    aria-label="Your message to the patient"
+                    rows={2}
+                    disabled={!isConnected && !isReconnecting}
+                    className="flex-1 px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-[#344895] resize-none disabled:bg-gray-100"
+                  />
+                  <button
+                    type="submit"
+                    disabled={!chatDraft.trim() || (!isConnected && !isReconnecting)}
+                    className="h-11 px-4 bg-[#344895] text-white rounded-lg font-semibold hover:bg-[#1A1F71] transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2"
+                  >
+                    <Send className="w-4 h-4" />
+                    Send
+                  </button>
+                </form>
+              )}
+
               {/* Conversation Ending Prompt */}
               {conversationEnding && timer >= 35 && !isEndingSession && (
                 <div className="mb-4 p-4 bg-gradient-to-r from-green-50 to-emerald-50 border-2 border-green-300 rounded-xl animate-in fade-in slide-in-from-bottom-2 duration-300">
@@ -504,15 +1069,21 @@ INSTRUCTIONS: Role-play as this patient. Stay in character. Express the concerns
                       <Award className="w-5 h-5 text-white" />
                     </div>
                     <div className="flex-1">
-                      <p className="font-semibold text-green-800 text-sm">Consultation Complete!</p>
-                      <p className="text-xs text-green-600">The patient seems satisfied. Ready to get your feedback?</p>
+                      <p className="font-semibold text-green-800 text-sm">
+                        {encounterPhase === 'closing' ? 'Wrapping Up' : 'Consultation Complete!'}
+                      </p>
+                      <p className="text-xs text-green-600">
+                        {encounterPhase === 'closing'
+                          ? 'The patient is ready to leave. Close the consultation, then get your feedback.'
+                          : 'The patient seems satisfied. Ready to get your feedback?'}
+                      </p>
                     </div>
                     <button
                       onClick={handleViewFeedback}
                       className="px-4 py-2 bg-green-600 hover:bg-green-700 text-white rounded-lg font-semibold text-sm transition-colors flex items-center gap-2"
                     >
                       <Award className="w-4 h-4" />
-                      Get Feedback
+                      {circuitStation ? 'Finish Station' : 'Get Feedback'}
                     </button>
                   </div>
                 </div>
@@ -521,33 +1092,69 @@ INSTRUCTIONS: Role-play as this patient. Stay in character. Express the concerns
               {/* Controls */}
               <div className="voice-bot-controls">
                 {/* Microphone Button (Main Control) */}
-                <button
-                  onClick={handleToggleMicrophone}
-                  className={`voice-bot-mic-main ${isRecording ? 'active' : ''}`}
-                  disabled={!isConnected || isSpeaking}
-                  aria-label={isRecording ? 'Stop speaking' : 'Start speaking'}
-                >
-                  <div className="voice-bot-mic-inner">
-                    {isRecording ? (
-                      <MicOff className="voice-bot-mic-icon" />
-                    ) : (
-                      <Mic className="voice-bot-mic-icon" />
+                {inputMode !== 'text' && (
+                  <button
+                    onClick={handleToggleMicrophone}
+                    className={`voice-bot-mic-main ${micIsOn ? 'active' : ''}`}
+                    disabled={!isConnected && !isReconnecting}
+                    aria-label={
+                      inputMode === 'hands_free'
+                        ? (isHandsFreeActive ? 'Mute hands-free microphone' : 'Resume hands-free listening')
+                        : (isRecording ? 'Stop speaking' : 'Start speaking')
+                    }
+                  >
+                    <div className="voice-bot-mic-inner">
+                      {micIsOn ? (
+                        <MicOff className="voice-bot-mic-icon" />
+                      ) : (
+                        <Mic className="voice-bot-mic-icon" />
+                      )}
+                    </div>
+                    {isRecording && (
+                      <div className="voice-bot-mic-pulse"></div>
                     )}
-                  </div>
-                  {isRecording && (
-                    <div className="voice-bot-mic-pulse"></div>
-                  )}
-                </button>
+                  </button>
+                )}
 
                 {/* Secondary Controls */}
                 <div className="voice-bot-secondary-controls">
-                  <button
-                    onClick={handleResetSession}
-                    className="voice-bot-control-button voice-bot-reset-button"
-                    aria-label="Reset session"
-                  >
-                    <RotateCcw className="w-5 h-5 sm:w-6 sm:h-6" />
-                  </button>
+                  {!circuitStation && (
+                    <button
+                      onClick={handleResetSession}
+                      className="voice-bot-control-button voice-bot-reset-button"
+                      aria-label="Reset session"
+                    >
+                      <RotateCcw className="w-5 h-5 sm:w-6 sm:h-6" />
+                    </button>
+                  )}
+
+                  {diagnosticsAvailable && (
+                    <button
+                      onClick={handleToggleDiagnostics}
+                      className="voice-bot-control-button voice-bot-reset-button"
+                      aria-label={showDiagnostics ? 'Hide diagnostics' : 'Show diagnostics'}
+                      aria-pressed={showDiagnostics}
+                      title="Latency and audio diagnostics"
+                    >
+                      <Activity className="w-5 h-5 sm:w-6 sm:h-6" />
+                    </button>
+                  )}
+
+                  {inputMode === 'text' && (
+                    <button
+                      onClick={handleTogglePatientAudio}
+                      className="voice-bot-control-button voice-bot-reset-button"
+                      aria-label={isPatientAudioMuted ? 'Unmute patient voice' : 'Mute patient voice'}
+                      aria-pressed={isPatientAudioMuted}
+                      title={isPatientAudioMuted ? 'Patient voice off - replies appear as text only' : 'Mute the patient voice'}
+                    >
+                      {isPatientAudioMuted ? (
+                        <VolumeX className="w-5 h-5 sm:w-6 sm:h-6" />
+                      ) : (
+                        <Volume2 className="w-5 h-5 sm:w-6 sm:h-6" />
+                      )}
+                    </button>
+                  )}
                   
                   {/* Get Feedback Button - Improved UI */}
                   {(completedSessionId || session) && timer >= 35 ? (
@@ -590,10 +1197,19 @@ INSTRUCTIONS: Role-play as this patient. Stay in character. Express the concerns
                 </div>
               </div>
 
+              {/* Input Mode */}
+              <div className="flex justify-center mb-4">
+                {renderInputModeToggle()}
+              </div>
+
               {/* Helpful Tips */}
               <div className="voice-bot-tips">
                 <p className="voice-bot-tip-text">
-                  💡 <strong>Tip:</strong> Speak clearly and naturally. Echo will respond based on your tone and empathy.
+                  💡 <strong>Tip:</strong> {inputMode === 'hands_free'
+                    ? 'Speak naturally and pause when you are done - Echo replies once you stop talking. Headphones help avoid echo.'
+                    : inputMode === 'text'
+                    ? 'Write as you would speak to the patient. Your messages are evaluated just like a spoken consultation.'
+                    : 'Speak clearly and naturally. Echo will respond based on your tone and empathy.'}
                 </p>
               </div>
             </div>
@@ -601,6 +1217,31 @@ INSTRUCTIONS: Role-play as this patient. Stay in character. Express the concerns
         </div>
       </div>
 
+      {/* Coach Mode Checklist */}
+      {showCoachSidebar && (
+        <aside className="mt-4 lg:mt-0 lg:sticky lg:top-4" aria-label="Coach mode checklist">
+          <CoachChecklist items={checklist} />
+        </aside>
+      )}
+
+      {/* Diagnostics Overlay */}
+      {session && diagnosticsAvailable && showDiagnostics && (
+        <TrainingDiagnostics
+          turnMetrics={turnMetrics}
+          reconnectCount={reconnectCount}
+          onClose={handleToggleDiagnostics}
+        />
+      )}
+
+      {/* Pre-session Audio Check */}
+      {audioCheckMode && (
+        <AudioCheck
+          continueLabel={audioCheckMode === 'start' ? 'Start Session' : 'Done'}
+          onContinue={handleAudioCheckContinue}
+          onCancel={() => setAudioCheckMode(null)}
+        />
+      )}
+
       {/* End Session Confirmation Dialog */}
       {showEndSessionConfirm && (
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
@@ -611,10 +1252,12 @@ INSTRUCTIONS: Role-play as this patient. Stay in character. Express the concerns
               </div>
               <div className="flex-1">
                 <h3 className="text-lg font-semibold text-gray-900 mb-2">
-                  End Session & Get Feedback?
+                  {circuitStation ? 'Finish This Station?' : 'End Session & Get Feedback?'}
                 </h3>
                 <p className="text-sm text-gray-600 mb-1">
-                  This will end your current training session and generate your performance evaluation.
+                  {circuitStation
+                    ? "You can't come back to this station. Feedback for every station comes in the circuit report."
+                    : 'This will end your current training session and generate your performance evaluation.'}
                 </p>
                 <p className="text-xs text-gray-500">
                   Session duration: <strong>{formatTime(timer)}</strong>
@@ -639,6 +1282,8 @@ INSTRUCTIONS: Role-play as this patient. Stay in character. Express the concerns
                     <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white"></div>
                     <span>Ending...</span>
                   </>
+                ) : circuitStation ? (
+                  'Finish Station'
                 ) : (
                   'End & Get Feedback'
                 )}
@@ -652,6 +1297,7 @@ INSTRUCTIONS: Role-play as this patient. Stay in character. Express the concerns
       {showFeedback && (completedSessionId || session?.id) && (
         <OSCEFeedback
           sessionId={completedSessionId || session!.id}
+          checklist={checklist}
           onClose={() => {
             setShowFeedback(false)
             // If this was a lecture simulation, clear the localStorage and go back to lecture
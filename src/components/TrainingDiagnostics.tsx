@@ -0,0 +1,113 @@
+'use client'
+
+import { Activity, X } from 'lucide-react'
+import type { TurnMetrics } from '@/lib/turnTelemetry'
+
+interface TrainingDiagnosticsProps {
+  turnMetrics: TurnMetrics[]
+  reconnectCount: number
+  onClose: () => void
+}
+
+// Latency the cohort starts to notice, and latency that breaks the conversation
+const SLOW_RESPONSE_MS = 1500
+const VERY_SLOW_RESPONSE_MS = 3000
+const VISIBLE_TURNS = 8
+
+const formatMs = (ms: number | null) => (ms === null ? '—' : ms >= 1000 ? `${(ms / 1000).toFixed(1)}s` : `${ms}ms`)
+
+const latencyColor = (ms: number | null) => {
+  if (ms === null) return 'text-gray-400'
+  if (ms >= VERY_SLOW_RESPONSE_MS) return 'text-red-400'
+  if (ms >= SLOW_RESPONSE_MS) return 'text-amber-300'
+  return 'text-green-400'
+}
+
+const median = (values: number[]) => {
+  if (values.length === 0) return null
+  const sorted = [...values].sort((a, b) => a - b)
+  return sorted[Math.floor((sorted.length - 1) / 2)]
+}
+
+/**
+ * Debug overlay with per-turn latency and audio quality for the live session
+ */
+export default function TrainingDiagnostics({ turnMetrics, reconnectCount, onClose }: TrainingDiagnosticsProps) {
+  const responseTimes = turnMetrics.flatMap((turn) => (turn.timeToFirstAudioMs === null ? [] : [turn.timeToFirstAudioMs]))
+  const medianResponse = median(responseTimes)
+  const dropped = turnMetrics.reduce((sum, turn) => sum + turn.droppedChunks, 0)
+  const gaps = turnMetrics.reduce((sum, turn) => sum + turn.playbackGaps, 0)
+  const recent = turnMetrics.slice(-VISIBLE_TURNS).reverse()
+
+  return (
+    <div
+      className="fixed bottom-4 right-4 z-40 w-[22rem] max-w-[calc(100vw-2rem)] rounded-xl bg-gray-900/95 text-gray-100 shadow-2xl font-mono text-[11px]"
+      role="region"
+      aria-label="Session diagnostics"
+    >
+      <div className="flex items-center justify-between px-3 py-2 border-b border-gray-700">
+        <span className="flex items-center gap-1.5 font-semibold text-xs">
+          <Activity className="w-3.5 h-3.5" />
+          Diagnostics
+        </span>
+        <button onClick={onClose} className="text-gray-400 hover:text-white" aria-label="Hide diagnostics">
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      <div className="grid grid-cols-4 gap-2 px-3 py-2 border-b border-gray-700">
+        <div>
+          <div className="text-gray-400">median 1st audio</div>
+          <div className={latencyColor(medianResponse)}>{formatMs(medianResponse)}</div>
+        </div>
+        <div>
+          <div className="text-gray-400">gaps</div>
+          <div>{gaps}</div>
+        </div>
+        <div>
+          <div className="text-gray-400">dropped</div>
+          <div className={dropped > 0 ? 'text-red-400' : ''}>{dropped}</div>
+        </div>
+        <div>
+          <div className="text-gray-400">reconnects</div>
+          <div className={reconnectCount > 0 ? 'text-amber-300' : ''}>{reconnectCount}</div>
+        </div>
+      </div>
+
+      {recent.length === 0 ? (
+        <p className="px-3 py-3 text-gray-400">No turns yet.</p>
+      ) : (
+        <table className="w-full">
+          <thead className="text-gray-400">
+            <tr>
+              <th className="text-left font-normal px-3 py-1">#</th>
+              <th className="text-right font-normal px-1 py-1">up</th>
+              <th className="text-right font-normal px-1 py-1">1st text</th>
+              <th className="text-right font-normal px-1 py-1">1st audio</th>
+              <th className="text-right font-normal px-1 py-1">decode</th>
+              <th className="text-right font-normal px-3 py-1">gaps</th>
+            </tr>
+          </thead>
+          <tbody>
+            {recent.map((turn) => (
+              <tr key={turn.turn} className="border-t border-gray-800">
+                <td className="px-3 py-1">
+                  {turn.turn}
+                  <span className="text-gray-500 ml-1">{turn.input === 'text' ? 'T' : 'V'}</span>
+                </td>
+                <td className="text-right px-1 py-1">{(turn.uploadBytes / 1024).toFixed(0)}k</td>
+                <td className={`text-right px-1 py-1 ${latencyColor(turn.timeToFirstTextMs)}`}>{formatMs(turn.timeToFirstTextMs)}</td>
+                <td className={`text-right px-1 py-1 ${latencyColor(turn.timeToFirstAudioMs)}`}>{formatMs(turn.timeToFirstAudioMs)}</td>
+                <td className="text-right px-1 py-1">{formatMs(turn.decodeMs)}</td>
+                <td className="text-right px-3 py-1">
+                  {turn.playbackGaps > 0 ? `${turn.playbackGaps} / ${formatMs(turn.playbackGapMs)}` : '0'}
+                  {turn.droppedChunks > 0 && <span className="text-red-400 ml-1">-{turn.droppedChunks}</span>}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,96 @@
+'use client'
+
+import { useEffect, useRef } from 'react'
+import { Bot, Scissors, User } from 'lucide-react'
+import type { TranscriptEntry } from '@/hooks/useTrainingSession'
+
+interface TranscriptPanelProps {
+  entries: TranscriptEntry[]
+  /** Session start (ms since epoch), used to show turn times as mm:ss */
+  startedAt?: number | null
+  className?: string
+}
+
+const formatOffset = (timestamp: number, startedAt?: number | null) => {
+  if (!startedAt) {
+    return new Date(timestamp).toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit', second: '2-digit' })
+  }
+  const seconds = Math.max(0, Math.floor((timestamp - startedAt) / 1000))
+  return `${Math.floor(seconds / 60)}:${(seconds % 60).toString().padStart(2, '0')}`
+}
+
+/**
+ * Running two-sided transcript for a live training session.
+ * Partial turns update in place so it also works as live captions.
+ */
+export default function TranscriptPanel({ entries, startedAt, className = '' }: TranscriptPanelProps) {
+  const scrollRef = useRef<HTMLDivElement>(null)
+  const stickToBottomRef = useRef(true)
+
+  // Follow new captions unless the student has scrolled up to re-read
+  useEffect(() => {
+    const el = scrollRef.current
+    if (el && stickToBottomRef.current) {
+      el.scrollTop = el.scrollHeight
+    }
+  }, [entries])
+
+  const handleScroll = () => {
+    const el = scrollRef.current
+    if (!el) return
+    stickToBottomRef.current = el.scrollHeight - el.scrollTop - el.clientHeight < 40
+  }
+
+  return (
+    <div
+      ref={scrollRef}
+      onScroll={handleScroll}
+      className={`bg-gray-50 border border-gray-200 rounded-xl p-4 max-h-72 overflow-y-auto text-left ${className}`}
+      role="log"
+      aria-live="polite"
+      aria-label="Conversation transcript"
+    >
+      {entries.length === 0 ? (
+        <p className="text-sm text-gray-500 text-center py-4">
+          The conversation will appear here as you talk.
+        </p>
+      ) : (
+        <div className="space-y-3">
+          {entries.map((entry) => {
+            const isStudent = entry.speaker === 'student'
+            return (
+              <div key={entry.id} className={`flex gap-2 ${isStudent ? 'justify-end' : 'justify-start'}`}>
+                {!isStudent && <Bot className="w-5 h-5 text-[#344895] flex-shrink-0 mt-1" />}
+                <div className={`max-w-[80%] ${isStudent ? 'items-end' : 'items-start'} flex flex-col`}>
+                  <div className="flex items-center gap-2 mb-0.5 text-xs text-gray-500">
+                    <span className={`font-semibold ${isStudent ? 'text-[#1A1F71]' : 'text-[#344895]'}`}>
+                      {isStudent ? 'You' : 'Patient'}
+                    </span>
+                    <span>{formatOffset(entry.timestamp, startedAt)}</span>
+                    {entry.interrupted && (
+                      <span className="inline-flex items-center gap-0.5 text-amber-600" title="You interrupted the patient here">
+                        <Scissors className="w-3 h-3" />
+                        interrupted
+                      </span>
+                    )}
+                  </div>
+                  <div
+                    className={`px-3 py-2 rounded-lg text-sm ${isStudent
+                      ? 'bg-[#344895] text-white'
+                      : 'bg-white border border-gray-200 text-gray-900'
+                      } ${entry.partial ? 'opacity-70 italic' : ''}`}
+                  >
+                    {entry.text || '…'}
+                    {entry.partial && entry.text && '…'}
+                    {entry.interrupted && ' —'}
+                  </div>
+                </div>
+                {isStudent && <User className="w-5 h-5 text-[#1A1F71] flex-shrink-0 mt-1" />}
+              </div>
+            )
+          })}
+        </div>
+      )}
+    </div>
+  )
+}
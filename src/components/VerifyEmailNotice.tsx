@@ -0,0 +1,31 @@
+'use client'
+
+import { useRouter } from 'next/navigation'
+import { MailWarning } from 'lucide-react'
+import AccessDenied from '@/components/AccessDenied'
+
+interface VerifyEmailNoticeProps {
+  email: string
+  onSignOut: () => void
+}
+
+/** Shown in place of routes that need a verified email, by both RequireAuth and the verify-email page */
+export default function VerifyEmailNotice({ email, onSignOut }: VerifyEmailNoticeProps) {
+  const router = useRouter()
+
+  return (
+    <AccessDenied
+      icon={
+        <div className="bg-amber-50 rounded-full p-5 border-2 border-amber-200">
+          <MailWarning className="w-12 h-12 text-amber-500" />
+        </div>
+      }
+      title="Verify Your Email"
+      description={`Please verify ${email} before continuing. Check your inbox for the verification link, then sign in again.`}
+      actionLabel="Sign In Again"
+      onAction={onSignOut}
+      secondaryLabel="Back to Dashboard"
+      onSecondary={() => router.push('/dashboard')}
+    />
+  )
+}
@@ -3,6 +3,11 @@
 import { useEffect, useState } from 'react'
 import { useRouter } from 'next/navigation'
 import { apiClient, type AuthResponse } from '@/lib/api'
+import { ApiError, SESSION_EXPIRED_EVENT } from '@/lib/httpClient'
+import { buildLoginUrl, LOGIN_PATH } from '@/lib/authGuard'
+
+const currentLocation = () =>
+  typeof window === 'undefined' ? null : `${window.location.pathname}${window.location.search}`
 
 interface UseAuthReturn {
   user: AuthResponse['user'] | null
@@ -20,30 +25,45 @@ export function useAuth(): UseAuthReturn {
     const storedUser = apiClient.getUser()
     const token = apiClient.getToken()
 
-    if (storedUser && token) {
+    if (storedUser && (token || apiClient.getRefreshToken())) {
       setUser(storedUser)
       setLoading(false)
-      
-      // Verify token is still valid by fetching current user
+
+      // Verify the session is still valid. An expired access token is refreshed
+      // transparently by the HTTP client; only a rejected refresh logs out.
       apiClient.getCurrentUser()
         .then((currentUser) => {
           setUser(currentUser)
         })
-        .catch(() => {
-          // Token invalid, clear and redirect
-          apiClient.clearTokens()
-          setUser(null)
-          router.push('/auth/login')
+        .catch((err) => {
+          if (err instanceof ApiError && err.status === 401 && !apiClient.getRefreshToken()) {
+            // The refresh was rejected: the HTTP client has cleared the session and
+            // fired SESSION_EXPIRED_EVENT, whose listener below does the redirect
+            setUser(null)
+            return
+          }
+          // Offline, forbidden or a server error - keep the cached user rather than logging out
+          console.warn('[useAuth] Could not verify session:', err instanceof Error ? err.message : err)
         })
     } else {
       setLoading(false)
     }
   }, [router])
 
+  // Refresh token rejected anywhere in the app - sign out cleanly
+  useEffect(() => {
+    const handleSessionExpired = () => {
+      setUser(null)
+      router.push(buildLoginUrl(currentLocation()))
+    }
+    window.addEventListener(SESSION_EXPIRED_EVENT, handleSessionExpired)
+    return () => window.removeEventListener(SESSION_EXPIRED_EVENT, handleSessionExpired)
+  }, [router])
+
   const signOut = async () => {
     await apiClient.logout()
     setUser(null)
-    router.push('/auth/login')
+    router.push(LOGIN_PATH)
   }
 
   return {
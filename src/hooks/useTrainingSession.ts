@@ -5,28 +5,145 @@
 import { useState, useRef, useCallback, useEffect } from 'react';
 import {
   createTrainingSession,
-  connectToTrainingConversation,
   endTrainingSession,
   sendAudioToTraining,
+  startAudioStream,
+  endAudioStream,
+  sendInterruptToTraining,
+  sendTextToTraining,
   TrainingSession,
   CreateSessionRequest
 } from '@/lib/trainingApi';
+import { openTrainingConnection, TrainingConnection } from '@/lib/trainingConnection';
+import { createSessionRecorder, SessionRecorder } from '@/lib/sessionRecording';
+import { createTurnTelemetry, TurnMetrics, TurnTelemetry } from '@/lib/turnTelemetry';
+import type { ChecklistProgress } from '@/lib/coachChecklist';
+import {
+  applyOutputDevice,
+  diagnoseMicrophoneError,
+  getAudioDevicePreferences,
+  MicrophoneDiagnosis,
+  openMicrophone
+} from '@/lib/audioDevices';
+import {
+  createVoiceActivityDetector,
+  VoiceActivityDetector,
+  VoiceActivityOptions,
+  SpeechEndReason
+} from '@/lib/voiceActivity';
+
+/**
+ * push_to_talk: the student taps to start and stop; the whole utterance is sent on stop.
+ * hands_free: the mic stays open and each utterance detected by the VAD is streamed live.
+ * text: the student types their turns; no microphone needed.
+ */
+export type TrainingInputMode = 'push_to_talk' | 'hands_free' | 'text';
+
+interface UseTrainingSessionOptions {
+  /** Overrides for the hands-free voice activity thresholds */
+  vad?: Partial<VoiceActivityOptions>;
+  /** Let the student talk over the patient (default true) */
+  bargeIn?: boolean;
+  /** Keep a local recording of both sides for replay from Reports (default true) */
+  recordSession?: boolean;
+}
+
+/**
+ * Stage of the simulated encounter, signalled by the server with
+ * `{ type: 'encounter_state', state }` messages.
+ */
+export type EncounterPhase = 'opening' | 'history_taking' | 'counselling' | 'closing' | 'ended';
+
+export const ENCOUNTER_PHASES: EncounterPhase[] = ['opening', 'history_taking', 'counselling', 'closing', 'ended'];
+
+/** One turn of the live conversation, in the order it happened */
+export interface TranscriptEntry {
+  id: string;
+  speaker: 'student' | 'patient';
+  text: string;
+  /** When the turn started (ms since epoch) */
+  timestamp: number;
+  /** Still being transcribed (student) or generated (patient); text may change */
+  partial: boolean;
+  /** Patient reply cut off by the student (barge-in) */
+  interrupted: boolean;
+}
+
+/** The student cut the patient off mid-reply */
+export interface PatientInterruption {
+  /** When the student cut in (ms since epoch) */
+  timestamp: number;
+  /** Seconds of the interrupted clip that had played */
+  playedSeconds: number;
+  /** Patient reply that was cut off, if the text had arrived */
+  patientText: string | null;
+  trigger: 'voice' | 'push_to_talk';
+}
 
 interface UseTrainingSessionReturn {
   session: TrainingSession | null;
   isConnected: boolean;
+  isReconnecting: boolean;
+  reconnectAttempt: number;
   isRecording: boolean;
   isSpeaking: boolean;
   error: string | null;
+  /** Why the microphone could not be opened (permission, missing device, in use) */
+  microphoneError: MicrophoneDiagnosis | null;
   lastAiMessage: string | null;
   conversationEnding: boolean;
+  /** Current encounter phase, or null if the server doesn't signal phases */
+  encounterPhase: EncounterPhase | null;
+  /** Server-reported checklist coverage (latest per item); empty if the server doesn't track it */
+  checklistProgress: ChecklistProgress[];
+  inputMode: TrainingInputMode;
+  isHandsFreeActive: boolean;
+  interruptions: PatientInterruption[];
+  transcript: TranscriptEntry[];
+  isPatientAudioMuted: boolean;
+  /** Per-turn latency and audio quality metrics for the current session */
+  turnMetrics: TurnMetrics[];
+  reconnectCount: number;
   startSession: (request?: CreateSessionRequest) => Promise<void>;
   stopSession: () => Promise<void>;
   startRecording: () => Promise<void>;
   stopRecording: () => void;
+  setInputMode: (mode: TrainingInputMode) => void;
+  startHandsFree: () => Promise<void>;
+  stopHandsFree: () => void;
+  interruptPatient: (trigger?: PatientInterruption['trigger']) => void;
+  sendText: (text: string) => boolean;
+  setPatientAudioMuted: (muted: boolean) => void;
 }
 
-// Phrases that indicate the patient is ending the conversation
+// Chunk size for live streaming; push-to-talk keeps the original 100ms
+const STREAM_TIMESLICE_MS = 250;
+
+// While the patient is talking the VAD needs a louder signal to count as speech,
+// so speaker bleed that echo cancellation misses does not interrupt the patient
+const BARGE_IN_THRESHOLD_SCALE = 2.5;
+
+// Don't let the patient's own voice trigger an utterance in hands-free mode.
+// With barge-in the VAD keeps listening, just less sensitively.
+function gateDetectorForPlayback(vad: VoiceActivityDetector, patientSpeaking: boolean, bargeIn: boolean) {
+  if (bargeIn) {
+    vad.setPaused(false);
+    vad.setThresholdScale(patientSpeaking ? BARGE_IN_THRESHOLD_SCALE : 1);
+  } else {
+    vad.setPaused(patientSpeaking);
+  }
+}
+
+function pickRecorderMimeType(): string {
+  return MediaRecorder.isTypeSupported('audio/webm;codecs=opus')
+    ? 'audio/webm;codecs=opus'
+    : MediaRecorder.isTypeSupported('audio/webm')
+    ? 'audio/webm'
+    : 'audio/mp4';
+}
+
+// Fallback for servers that don't send encounter_state: phrases that suggest
+// the patient is ending the conversation. Prone to false positives mid-consult.
 const CONVERSATION_ENDING_PHRASES = [
   'have a great day',
   'have a good day',
@@ -54,26 +171,80 @@ const CONVERSATION_ENDING_PHRASES = [
   'i\'ll follow those instructions',
 ];
 
+function parseEncounterPhase(value: unknown): EncounterPhase | null {
+  if (typeof value !== 'string') return null;
+  // Accept "history-taking" / "History Taking" as well as "history_taking"
+  const normalized = value.trim().toLowerCase().replace(/[\s-]+/g, '_');
+  return ENCOUNTER_PHASES.find(phase => phase === normalized) ?? null;
+}
+
 function detectConversationEnding(message: string): boolean {
   const lowerMessage = message.toLowerCase();
   return CONVERSATION_ENDING_PHRASES.some(phrase => lowerMessage.includes(phrase));
 }
 
-export function useTrainingSession(): UseTrainingSessionReturn {
+export function useTrainingSession(options: UseTrainingSessionOptions = {}): UseTrainingSessionReturn {
   const [session, setSession] = useState<TrainingSession | null>(null);
   const [isConnected, setIsConnected] = useState(false);
+  const [isReconnecting, setIsReconnecting] = useState(false);
+  const [reconnectAttempt, setReconnectAttempt] = useState(0);
   const [isRecording, setIsRecording] = useState(false);
   const [isSpeaking, setIsSpeaking] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [microphoneError, setMicrophoneError] = useState<MicrophoneDiagnosis | null>(null);
   const [lastAiMessage, setLastAiMessage] = useState<string | null>(null);
   const [conversationEnding, setConversationEnding] = useState(false);
+  const [encounterPhase, setEncounterPhase] = useState<EncounterPhase | null>(null);
+  // Once the server signals phases, phrase matching is no longer trusted
+  const serverSignalsPhaseRef = useRef(false);
+  const [checklistProgress, setChecklistProgress] = useState<ChecklistProgress[]>([]);
+  const [inputMode, setInputModeState] = useState<TrainingInputMode>('push_to_talk');
+  const [isHandsFreeActive, setIsHandsFreeActive] = useState(false);
+  const [interruptions, setInterruptions] = useState<PatientInterruption[]>([]);
+  const [transcript, setTranscript] = useState<TranscriptEntry[]>([]);
+  const transcriptIdRef = useRef(0);
+  const [isPatientAudioMuted, setIsPatientAudioMuted] = useState(false);
+  const patientAudioMutedRef = useRef(false);
+  const [turnMetrics, setTurnMetrics] = useState<TurnMetrics[]>([]);
+  const [reconnectCount, setReconnectCount] = useState(0);
+  const telemetryRef = useRef<TurnTelemetry>(createTurnTelemetry());
   
-  const wsRef = useRef<WebSocket | null>(null);
+  const wsRef = useRef<TrainingConnection | null>(null);
+  const isReconnectingRef = useRef(false);
   const mediaRecorderRef = useRef<MediaRecorder | null>(null);
   const audioContextRef = useRef<AudioContext | null>(null);
   const audioQueueRef = useRef<Blob[]>([]);
   const isPlayingRef = useRef(false);
+  const currentSourceRef = useRef<AudioBufferSourceNode | null>(null);
+  const currentSourceStartedAtRef = useRef(0); // AudioContext time the current clip started
+  const discardPatientAudioRef = useRef(false); // Drop the tail of an interrupted reply
+  const lastAiMessageRef = useRef<string | null>(null);
   const audioChunksRef = useRef<Blob[]>([]); // Accumulate audio chunks before sending
+  const recordingStartedAtRef = useRef(0);
+
+  // Local replay recording of the whole encounter
+  const sessionRecorderRef = useRef<SessionRecorder | null>(null);
+  const recordSessionRef = useRef(options.recordSession !== false);
+  recordSessionRef.current = options.recordSession !== false;
+
+  // Hands-free streaming
+  const handsFreeStreamRef = useRef<MediaStream | null>(null);
+  const vadContextRef = useRef<AudioContext | null>(null);
+  const vadRef = useRef<VoiceActivityDetector | null>(null);
+  const streamRecorderRef = useRef<MediaRecorder | null>(null);
+  const utteranceChunksRef = useRef<Blob[]>([]);
+  const utteranceStartedAtRef = useRef(0);
+  const vadOptionsRef = useRef(options.vad);
+  vadOptionsRef.current = options.vad;
+  const bargeInEnabled = options.bargeIn !== false;
+  const bargeInEnabledRef = useRef(bargeInEnabled);
+  bargeInEnabledRef.current = bargeInEnabled;
+
+  // Copy telemetry into state after each measurement so the diagnostics overlay updates
+  const refreshTelemetry = useCallback(() => {
+    setTurnMetrics(telemetryRef.current.getTurns());
+    setReconnectCount(telemetryRef.current.getReconnects());
+  }, []);
 
   // Log everything for debugging
   useEffect(() => {
@@ -87,6 +258,11 @@ export function useTrainingSession(): UseTrainingSessionReturn {
     });
   }, [session, isConnected, isRecording, isSpeaking, error]);
 
+  useEffect(() => {
+    if (!vadRef.current) return;
+    gateDetectorForPlayback(vadRef.current, isSpeaking, bargeInEnabled);
+  }, [isSpeaking, bargeInEnabled]);
+
   // Play audio from queue
   const playNextInQueue = useCallback(async () => {
     console.log('[Audio Queue] Checking queue, length:', audioQueueRef.current.length, 'isPlaying:', isPlayingRef.current);
@@ -119,27 +295,46 @@ export function useTrainingSession(): UseTrainingSessionReturn {
       const arrayBuffer = await audioBlob.arrayBuffer();
       console.log('[Audio Queue] ArrayBuffer size:', arrayBuffer.byteLength);
       
+      const decodeStartedAt = performance.now();
       const audioBuffer = await audioContextRef.current.decodeAudioData(arrayBuffer);
+      telemetryRef.current.recordDecode(performance.now() - decodeStartedAt);
       console.log('[Audio Queue] Decoded audio:', {
         duration: audioBuffer.duration,
         channels: audioBuffer.numberOfChannels,
         sampleRate: audioBuffer.sampleRate
       });
       
+      // The reply may have been interrupted while this clip was decoding
+      if (discardPatientAudioRef.current) {
+        console.log('[Audio Queue] Playback interrupted during decode, dropping clip');
+        return;
+      }
+      
       const source = audioContextRef.current.createBufferSource();
       source.buffer = audioBuffer;
       source.connect(audioContextRef.current.destination);
       
       source.onended = () => {
         console.log('[Audio Queue] Audio chunk finished playing');
+        telemetryRef.current.markPlaybackEnded();
+        if (currentSourceRef.current === source) {
+          currentSourceRef.current = null;
+        }
         playNextInQueue();
       };
       
       console.log('[Audio Queue] Starting playback...');
+      currentSourceRef.current = source;
+      currentSourceStartedAtRef.current = audioContextRef.current.currentTime;
       source.start();
+      telemetryRef.current.markPlaybackStarted();
+      refreshTelemetry();
+      sessionRecorderRef.current?.addClip('patient', audioBlob, Date.now(), audioBuffer.duration * 1000);
       
     } catch (err) {
       console.error('[Audio Queue] Failed to play audio:', err);
+      telemetryRef.current.recordDroppedChunk();
+      refreshTelemetry();
       isPlayingRef.current = false;
       setIsSpeaking(false);
       // Try to play next in queue
@@ -147,7 +342,7 @@ export function useTrainingSession(): UseTrainingSessionReturn {
         playNextInQueue();
       }
     }
-  }, []);
+  }, [refreshTelemetry]);
 
   // Handle received audio
   const handleAudio = useCallback(async (audioBlob: Blob) => {
@@ -156,6 +351,19 @@ export function useTrainingSession(): UseTrainingSessionReturn {
       type: audioBlob.type
     });
 
+    if (discardPatientAudioRef.current) {
+      console.log('[WebSocket Audio] Dropping audio from interrupted reply');
+      return;
+    }
+
+    telemetryRef.current.markAudioReceived();
+    refreshTelemetry();
+
+    if (patientAudioMutedRef.current) {
+      console.log('[WebSocket Audio] Patient audio muted, skipping playback');
+      return;
+    }
+
     if (!audioContextRef.current) {
       console.log('[WebSocket Audio] Creating new AudioContext...');
       try {
@@ -164,6 +372,8 @@ export function useTrainingSession(): UseTrainingSessionReturn {
           sampleRate: audioContextRef.current.sampleRate,
           state: audioContextRef.current.state
         });
+        // Play the patient through the speaker chosen in the audio check
+        await applyOutputDevice(audioContextRef.current, getAudioDevicePreferences().outputDeviceId);
       } catch (err) {
         console.error('[WebSocket Audio] Failed to create AudioContext:', err);
         setError('Failed to initialize audio playback');
@@ -191,7 +401,116 @@ export function useTrainingSession(): UseTrainingSessionReturn {
     } else {
       console.log('[WebSocket Audio] Queue already playing, will play when ready');
     }
-  }, [playNextInQueue]);
+  }, [playNextInQueue, refreshTelemetry]);
+
+  // Add a turn, or update the speaker's in-progress turn if there is one
+  const upsertTranscriptTurn = useCallback((speaker: TranscriptEntry['speaker'], text: string, partial: boolean) => {
+    setTranscript(prev => {
+      const last = prev[prev.length - 1];
+      if (last && last.speaker === speaker && last.partial) {
+        return [...prev.slice(0, -1), { ...last, text, partial }];
+      }
+      transcriptIdRef.current += 1;
+      return [...prev, {
+        id: `turn-${transcriptIdRef.current}`,
+        speaker,
+        text,
+        timestamp: Date.now(),
+        partial,
+        interrupted: false,
+      }];
+    });
+  }, []);
+
+  // Barge-in: cut the patient off, drop the rest of their reply and tell the server
+  // Stop the clip that is playing and flush the queue; returns seconds of the clip played
+  const stopPatientPlayback = useCallback((): number => {
+    const source = currentSourceRef.current;
+    const context = audioContextRef.current;
+    const playedSeconds = source && context
+      ? Math.max(0, context.currentTime - currentSourceStartedAtRef.current)
+      : 0;
+
+    if (source) {
+      source.onended = null;
+      try {
+        source.stop();
+      } catch (err) {
+        console.warn('[Audio Queue] Failed to stop audio source:', err);
+      }
+      currentSourceRef.current = null;
+    }
+    audioQueueRef.current = [];
+    isPlayingRef.current = false;
+    setIsSpeaking(false);
+    return playedSeconds;
+  }, []);
+
+  const interruptPatient = useCallback((trigger: PatientInterruption['trigger'] = 'push_to_talk') => {
+    if (!isPlayingRef.current && audioQueueRef.current.length === 0) return;
+
+    const playedSeconds = stopPatientPlayback();
+    discardPatientAudioRef.current = true;
+    sessionRecorderRef.current?.truncateLastClip('patient', playedSeconds * 1000);
+    console.log('[Barge-in] Student interrupted the patient after', playedSeconds.toFixed(2), 's, trigger:', trigger);
+
+    const interruption: PatientInterruption = {
+      timestamp: Date.now(),
+      playedSeconds,
+      patientText: lastAiMessageRef.current,
+      trigger,
+    };
+    setInterruptions(prev => [...prev, interruption]);
+
+    // Flag the reply that was cut off so captions and evaluation show it
+    setTranscript(prev => {
+      for (let i = prev.length - 1; i >= 0; i--) {
+        if (prev[i].speaker === 'patient') {
+          const updated = [...prev];
+          updated[i] = { ...prev[i], partial: false, interrupted: true };
+          return updated;
+        }
+        if (!prev[i].partial) break;
+      }
+      return prev;
+    });
+
+    if (wsRef.current) {
+      sendInterruptToTraining(wsRef.current, {
+        played_seconds: Math.round(playedSeconds * 100) / 100,
+        interrupted_text: interruption.patientText,
+      });
+    }
+  }, [stopPatientPlayback]);
+
+  // Silence the patient (text mode); replies still arrive as text
+  const setPatientAudioMuted = useCallback((muted: boolean) => {
+    console.log('[Audio] Patient audio muted:', muted);
+    patientAudioMutedRef.current = muted;
+    setIsPatientAudioMuted(muted);
+    if (muted) {
+      stopPatientPlayback();
+    }
+  }, [stopPatientPlayback]);
+
+  // Send a typed turn. Recorded on the session like a spoken one.
+  const sendText = useCallback((text: string): boolean => {
+    const trimmed = text.trim();
+    if (!trimmed) return false;
+    if (!wsRef.current || wsRef.current.readyState !== WebSocket.OPEN) {
+      console.warn('[Text] Cannot send message - not connected');
+      return false;
+    }
+
+    console.log('[Text] Sending typed turn:', trimmed);
+    sendTextToTraining(wsRef.current, trimmed);
+    telemetryRef.current.startTurn('text', new TextEncoder().encode(trimmed).length);
+    refreshTelemetry();
+    upsertTranscriptTurn('student', trimmed, false);
+    // The next reply answers this turn, not an interrupted one
+    discardPatientAudioRef.current = false;
+    return true;
+  }, [upsertTranscriptTurn, refreshTelemetry]);
 
   // Start training session
   const startSession = useCallback(async (request?: CreateSessionRequest) => {
@@ -209,58 +528,135 @@ export function useTrainingSession(): UseTrainingSessionReturn {
         category: newSession.category
       });
       setSession(newSession);
+      sessionRecorderRef.current = recordSessionRef.current
+        ? createSessionRecorder(newSession.id, newSession.scenario_title)
+        : null;
       
       // Reset conversation ending state for new session
       setConversationEnding(false);
+      setEncounterPhase(null);
+      serverSignalsPhaseRef.current = false;
+      setChecklistProgress([]);
       setLastAiMessage(null);
+      lastAiMessageRef.current = null;
+      setInterruptions([]);
+      setTranscript([]);
+      telemetryRef.current = createTurnTelemetry();
+      refreshTelemetry();
+      discardPatientAudioRef.current = false;
       
       // 2. Connect WebSocket
       console.log('[WebSocket] Connecting to session:', newSession.id);
-      const ws = connectToTrainingConversation(
-        newSession.id,
-        (data) => {
-          console.log('[WebSocket Message] Received:', data);
-          if (data.type === 'status' && data.message === 'connected') {
-            console.log('[WebSocket] Connection confirmed!');
-            setIsConnected(true);
-          } else if (data.type === 'error') {
-            console.error('[WebSocket Error]:', data.message);
-            setError(data.message);
-          } else if (data.type === 'ai_response_text' && data.text) {
-            // Track AI response and detect conversation ending
-            console.log('[WebSocket] AI response text:', data.text);
-            setLastAiMessage(data.text);
-            
-            // Check if the patient is signaling end of conversation
-            if (detectConversationEnding(data.text)) {
-              console.log('[WebSocket] Conversation ending detected!');
-              setConversationEnding(true);
+      const ws = await openTrainingConnection(newSession.id, {
+        onMessage: (message) => {
+          console.log('[WebSocket Message] Received:', message);
+          switch (message.type) {
+            case 'status':
+              if (message.message === 'connected' || message.message === 'resumed') {
+                console.log('[WebSocket] Connection confirmed!', message.message === 'resumed' ? '(resumed)' : '',
+                  'protocol v' + (message.protocol_version ?? 1));
+                setIsConnected(true);
+              }
+              break;
+            case 'error':
+              console.error('[WebSocket Error]:', message.code ?? 'unknown', message.message);
+              setError(message.message);
+              break;
+            case 'encounter_state': {
+              const phase = parseEncounterPhase(message.state);
+              if (!phase) {
+                console.warn('[WebSocket] Unknown encounter state:', message.state);
+                break;
+              }
+              console.log('[WebSocket] Encounter phase:', phase);
+              serverSignalsPhaseRef.current = true;
+              setEncounterPhase(phase);
+              setConversationEnding(phase === 'closing' || phase === 'ended');
+              break;
             }
+            case 'checklist_progress': {
+              const update: ChecklistProgress = {
+                kind: message.kind,
+                index: message.index,
+                covered: message.covered,
+                evidence: message.evidence,
+                timestamp: Date.now(),
+              };
+              setChecklistProgress(prev => [
+                ...prev.filter(item => item.kind !== update.kind || item.index !== update.index),
+                update,
+              ]);
+              break;
+            }
+            case 'student_transcript':
+              // What the server heard the student say; partial until is_final
+              console.log('[WebSocket] Student transcript:', message.text, message.is_final === false ? '(partial)' : '');
+              upsertTranscriptTurn('student', message.text, message.is_final === false);
+              break;
+            case 'ai_response_partial':
+              telemetryRef.current.markFirstText();
+              // Patient reply text streamed ahead of the audio
+              if (!discardPatientAudioRef.current) {
+                upsertTranscriptTurn('patient', message.text, true);
+              }
+              break;
+            case 'ai_response_text':
+              if (!message.text) break;
+              telemetryRef.current.markFirstText();
+              // Track AI response and detect conversation ending
+              console.log('[WebSocket] AI response text:', message.text);
+              setLastAiMessage(message.text);
+              lastAiMessageRef.current = message.text;
+              if (!discardPatientAudioRef.current) {
+                upsertTranscriptTurn('patient', message.text, false);
+              }
+
+              // Offline fallback: guess the ending from the patient's wording
+              if (!serverSignalsPhaseRef.current && detectConversationEnding(message.text)) {
+                console.log('[WebSocket] Conversation ending detected from phrasing');
+                setConversationEnding(true);
+              }
+              break;
+            case 'audio_metadata':
+              console.log('[WebSocket] Incoming audio:', message.mime_type, message.duration_ms ?? '?', 'ms');
+              break;
           }
         },
-        handleAudio,
-        (err) => {
-          console.error('[WebSocket] Connection error:', err);
-          // Don't show error if it's an expected closure (e.g., when ending session)
-          // Check if error message indicates a normal closure or network issue
-          if (err.message && (
-            err.message.includes('WebSocket closed') ||
-            err.message.includes('closed unexpectedly') ||
-            err.message.includes('Connection closed') ||
-            err.message.includes('network') ||
-            err.message.includes('Connection lost')
-          )) {
-            console.log('[WebSocket] Expected closure or network issue, not showing error');
+        onAudio: handleAudio,
+        onFrameDropped: () => {
+          telemetryRef.current.recordDroppedChunk();
+          refreshTelemetry();
+        },
+        onStateChange: (state, attempt) => {
+          console.log('[WebSocket] Connection state:', state, 'attempt:', attempt);
+          if (state === 'reconnecting') {
+            if (!isReconnectingRef.current) {
+              telemetryRef.current.recordReconnect();
+              refreshTelemetry();
+            }
+            isReconnectingRef.current = true;
+            setIsReconnecting(true);
+            setReconnectAttempt(attempt);
+            setIsConnected(false);
+          } else if (state === 'open') {
+            // Resumed sockets may not repeat the "connected" status message
+            if (isReconnectingRef.current) {
+              setIsConnected(true);
+            }
+            isReconnectingRef.current = false;
+            setIsReconnecting(false);
+            setReconnectAttempt(0);
+          } else if (state === 'closed') {
+            isReconnectingRef.current = false;
+            setIsReconnecting(false);
             setIsConnected(false);
-            return;
-          }
-          // Only set error for unexpected errors, not network issues
-          if (!err.message.includes('network') && !err.message.includes('Connection lost')) {
-            setError(err.message);
           }
-          setIsConnected(false);
-        }
-      );
+        },
+        onGiveUp: (err) => {
+          console.error('[WebSocket] Giving up on connection:', err);
+          setError(err.message);
+        },
+      });
       
       wsRef.current = ws;
       console.log('[WebSocket] Connection initiated, readyState:', ws.readyState);
@@ -269,13 +665,151 @@ export function useTrainingSession(): UseTrainingSessionReturn {
       console.error('[Session] Failed to start:', err);
       setError(err instanceof Error ? err.message : 'Failed to start session');
     }
-  }, [handleAudio]);
+  }, [handleAudio, upsertTranscriptTurn, refreshTelemetry]);
+
+  // Close the utterance currently being streamed (hands-free mode)
+  const finishStreamedUtterance = useCallback((reason: SpeechEndReason | 'stopped') => {
+    const recorder = streamRecorderRef.current;
+    if (!recorder) return;
+    streamRecorderRef.current = null;
+    console.log('[HandsFree] Utterance ended:', reason);
+
+    // The final dataavailable fires before onstop, so every frame has been sent by then
+    recorder.onstop = () => {
+      if (wsRef.current) {
+        endAudioStream(wsRef.current, reason);
+        telemetryRef.current.startTurn('voice', 0);
+        refreshTelemetry();
+      }
+      if (utteranceChunksRef.current.length > 0) {
+        const startedAt = utteranceStartedAtRef.current;
+        const utterance = new Blob(utteranceChunksRef.current, { type: utteranceChunksRef.current[0].type });
+        sessionRecorderRef.current?.addClip('student', utterance, startedAt, Date.now() - startedAt);
+        utteranceChunksRef.current = [];
+      }
+      // Audio from here on answers this utterance, not an interrupted reply
+      discardPatientAudioRef.current = false;
+    };
+    if (recorder.state !== 'inactive') {
+      recorder.stop();
+    }
+    setIsRecording(false);
+  }, [refreshTelemetry]);
+
+  // Open a new utterance and stream its frames as they are recorded (hands-free mode)
+  const beginStreamedUtterance = useCallback(() => {
+    const stream = handsFreeStreamRef.current;
+    const ws = wsRef.current;
+    if (!stream || streamRecorderRef.current) return;
+    if (!ws || ws.readyState !== WebSocket.OPEN) {
+      console.warn('[HandsFree] Speech detected but WebSocket not open. State:', ws?.readyState);
+      return;
+    }
+
+    if (isPlayingRef.current) {
+      if (!bargeInEnabledRef.current) return;
+      interruptPatient('voice');
+    }
+
+    // A fresh recorder per utterance so each stream starts with its container header
+    const mimeType = pickRecorderMimeType();
+    const recorder = new MediaRecorder(stream, { mimeType });
+
+    utteranceChunksRef.current = [];
+    utteranceStartedAtRef.current = Date.now();
+    recorder.ondataavailable = (event) => {
+      if (event.data.size > 0 && wsRef.current) {
+        sendAudioToTraining(wsRef.current, event.data);
+        telemetryRef.current.addUploadBytes(event.data.size);
+        utteranceChunksRef.current.push(event.data);
+      }
+    };
+
+    recorder.onerror = (event) => {
+      console.error('[HandsFree] MediaRecorder error:', event);
+    };
+
+    startAudioStream(ws, mimeType);
+    recorder.start(STREAM_TIMESLICE_MS);
+    streamRecorderRef.current = recorder;
+    setIsRecording(true);
+    console.log('[HandsFree] Speech detected, streaming utterance with mimeType:', mimeType);
+  }, [interruptPatient]);
+
+  // Stop listening in hands-free mode and release the microphone
+  const stopHandsFree = useCallback(() => {
+    if (!handsFreeStreamRef.current) return;
+    console.log('[HandsFree] Stopping hands-free listening...');
+
+    finishStreamedUtterance('stopped');
+    vadRef.current?.stop();
+    vadRef.current = null;
+
+    handsFreeStreamRef.current.getTracks().forEach(track => track.stop());
+    handsFreeStreamRef.current = null;
+
+    if (vadContextRef.current) {
+      vadContextRef.current.close().catch((err) => {
+        console.warn('[HandsFree] Failed to close VAD AudioContext:', err);
+      });
+      vadContextRef.current = null;
+    }
+    setIsHandsFreeActive(false);
+  }, [finishStreamedUtterance]);
+
+  // Keep the microphone open and let the VAD decide when the student is talking
+  const startHandsFree = useCallback(async () => {
+    if (handsFreeStreamRef.current) return;
+    console.log('[HandsFree] Requesting microphone access...');
+
+    let stream: MediaStream | null = null;
+    try {
+      stream = await openMicrophone(getAudioDevicePreferences().inputDeviceId);
+      setMicrophoneError(null);
+      const context = new AudioContext();
+
+      handsFreeStreamRef.current = stream;
+      vadContextRef.current = context;
+      vadRef.current = createVoiceActivityDetector(
+        context,
+        stream,
+        {
+          onSpeechStart: beginStreamedUtterance,
+          onSpeechEnd: finishStreamedUtterance,
+        },
+        vadOptionsRef.current
+      );
+      // The patient may already be mid-reply when hands-free is switched on
+      gateDetectorForPlayback(vadRef.current, isPlayingRef.current, bargeInEnabledRef.current);
+
+      setIsHandsFreeActive(true);
+      console.log('[HandsFree] Listening for speech');
+    } catch (err) {
+      console.error('[HandsFree] Failed to start hands-free listening:', err);
+      stream?.getTracks().forEach(track => track.stop());
+      handsFreeStreamRef.current = null;
+      setMicrophoneError(diagnoseMicrophoneError(err));
+    }
+  }, [beginStreamedUtterance, finishStreamedUtterance]);
+
+  const setInputMode = useCallback((mode: TrainingInputMode) => {
+    console.log('[HandsFree] Switching input mode to:', mode);
+    stopHandsFree();
+    setInputModeState(mode);
+  }, [stopHandsFree]);
+
+  // Release the microphone if the component unmounts mid-session
+  useEffect(() => {
+    return () => stopHandsFree();
+  }, [stopHandsFree]);
 
   // Stop training session
   const stopSession = useCallback(async () => {
     console.log('[Session] Stopping session...');
     console.trace('[Session] Stack trace for stopSession call:'); // Add stack trace to see who's calling it
     try {
+      stopHandsFree();
+
       // Stop recording if active
       if (mediaRecorderRef.current && isRecording) {
         console.log('[Recording] Stopping recording...');
@@ -294,10 +828,18 @@ export function useTrainingSession(): UseTrainingSessionReturn {
         wsRef.current = null;
       }
 
+      // Keep the local replay before the session state is cleared
+      if (sessionRecorderRef.current) {
+        await sessionRecorderRef.current.save(transcript);
+        sessionRecorderRef.current = null;
+      }
+
       // End session
       if (session) {
         console.log('[Session] Ending session via API:', session.id);
-        await endTrainingSession(session.id);
+        const telemetry = telemetryRef.current.summarize();
+        console.log('[Telemetry] Session summary:', telemetry);
+        await endTrainingSession(session.id, undefined, telemetry);
       }
 
       // Clear audio context
@@ -309,6 +851,7 @@ export function useTrainingSession(): UseTrainingSessionReturn {
 
       audioQueueRef.current = [];
       isPlayingRef.current = false;
+      currentSourceRef.current = null;
       setIsConnected(false);
       setSession(null);
       setIsSpeaking(false);
@@ -318,10 +861,15 @@ export function useTrainingSession(): UseTrainingSessionReturn {
       console.error('[Session] Error stopping session:', err);
       setError(err instanceof Error ? err.message : 'Failed to stop session');
     }
-  }, [session, isRecording]);
+  }, [session, isRecording, stopHandsFree, transcript]);
 
   // Start recording user audio
   const startRecording = useCallback(async () => {
+    // Pressing the mic while the patient is talking counts as barge-in
+    if (isPlayingRef.current && bargeInEnabledRef.current) {
+      interruptPatient('push_to_talk');
+    }
+
     console.log('[Recording] Requesting microphone access...');
     
     // Clear any previous audio chunks
@@ -329,15 +877,8 @@ export function useTrainingSession(): UseTrainingSessionReturn {
     console.log('[Recording] Cleared previous audio chunks');
     
     try {
-      const stream = await navigator.mediaDevices.getUserMedia({ 
-        audio: {
-          sampleRate: 16000,
-          channelCount: 1,
-          echoCancellation: true,
-          noiseSuppression: true,
-          autoGainControl: true,
-        } 
-      });
+      const stream = await openMicrophone(getAudioDevicePreferences().inputDeviceId);
+      setMicrophoneError(null);
 
       console.log('[Recording] Microphone access granted');
       console.log('[Recording] Audio tracks:', stream.getAudioTracks().map(t => ({
@@ -347,11 +888,7 @@ export function useTrainingSession(): UseTrainingSessionReturn {
         muted: t.muted
       })));
 
-      const mimeType = MediaRecorder.isTypeSupported('audio/webm;codecs=opus')
-        ? 'audio/webm;codecs=opus'
-        : MediaRecorder.isTypeSupported('audio/webm')
-        ? 'audio/webm'
-        : 'audio/mp4';
+      const mimeType = pickRecorderMimeType();
       
       console.log('[Recording] Using mimeType:', mimeType);
 
@@ -384,15 +921,16 @@ export function useTrainingSession(): UseTrainingSessionReturn {
 
       console.log('[Recording] Starting MediaRecorder with 100ms timeslice...');
       mediaRecorder.start(100);
+      recordingStartedAtRef.current = Date.now();
       mediaRecorderRef.current = mediaRecorder;
       setIsRecording(true);
       console.log('[Recording] Recording started successfully');
       
     } catch (err) {
       console.error('[Recording] Failed to access microphone:', err);
-      setError('Failed to access microphone. Please check permissions.');
+      setMicrophoneError(diagnoseMicrophoneError(err));
     }
-  }, []);
+  }, [interruptPatient]);
 
   // Stop recording user audio
   const stopRecording = useCallback(() => {
@@ -412,6 +950,15 @@ export function useTrainingSession(): UseTrainingSessionReturn {
           
           console.log('[Recording] Sending combined audio to server...');
           sendAudioToTraining(wsRef.current, combinedBlob);
+          telemetryRef.current.startTurn('voice', combinedBlob.size);
+          refreshTelemetry();
+          discardPatientAudioRef.current = false;
+          sessionRecorderRef.current?.addClip(
+            'student',
+            combinedBlob,
+            recordingStartedAtRef.current,
+            Date.now() - recordingStartedAtRef.current
+          );
           
           // Clear chunks for next recording
           audioChunksRef.current = [];
@@ -434,20 +981,38 @@ export function useTrainingSession(): UseTrainingSessionReturn {
     } else {
       console.warn('[Recording] No active MediaRecorder to stop');
     }
-  }, []);
+  }, [refreshTelemetry]);
 
   return {
     session,
     isConnected,
+    isReconnecting,
+    reconnectAttempt,
     isRecording,
     isSpeaking,
     error,
+    microphoneError,
     lastAiMessage,
     conversationEnding,
+    encounterPhase,
+    checklistProgress,
+    inputMode,
+    isHandsFreeActive,
+    interruptions,
+    transcript,
+    isPatientAudioMuted,
+    turnMetrics,
+    reconnectCount,
     startSession,
     stopSession,
     startRecording,
     stopRecording,
+    setInputMode,
+    startHandsFree,
+    stopHandsFree,
+    interruptPatient,
+    sendText,
+    setPatientAudioMuted,
   };
 }
 
@@ -0,0 +1,148 @@
+/**
+ * Admin API Service
+ * Thin client for /api/v1/admin endpoints. Requests carry the signed-in
+ * user's bearer token; the backend rejects non-admin accounts with 403.
+ */
+
+import { http } from './httpClient'
+import type { OSCECategoryScores, OSCEEvaluation } from './osceEvaluation'
+
+export interface AdminUser {
+  user_id: string
+  email: string
+  full_name: string
+  healthcare_domain: string
+  session_count: number
+  total_time_seconds: number
+  latest_session_date: string | null
+  created_at: string
+}
+
+export interface AdminUserListResponse {
+  users: AdminUser[]
+}
+
+export interface AdminStats {
+  total_users: number
+  total_sessions: number
+  completed_sessions: number
+  total_training_time_hours: number
+  average_session_duration_seconds: number
+  sessions_by_category: Record<string, number>
+  sessions_with_audio: number
+  sessions_with_evaluation: number
+}
+
+export interface AdminSessionSummary {
+  session_id: string
+  scenario_title: string
+  scenario_type: string
+  category: string
+  patient_mood: string
+  started_at: string
+  ended_at: string
+  duration_seconds: number
+  total_turns: number
+  has_audio: boolean
+  student_audio_count: number
+  patient_audio_count: number
+  evaluation_score: number | null
+  evaluation_feedback: boolean
+}
+
+export interface AdminUserProfile {
+  user_id: string
+  email: string
+  full_name: string
+  healthcare_domain: string
+}
+
+export interface AdminUserSessionsResponse {
+  user: AdminUserProfile
+  sessions: AdminSessionSummary[]
+}
+
+export interface AdminTranscriptTurn {
+  speaker: string
+  text: string
+  timestamp: number
+}
+
+export interface AdminAudioClip {
+  timestamp: number
+  audio_base64: string
+  size_bytes: number
+  duration: number | null
+}
+
+export interface AdminSessionDetails {
+  session_id: string
+  user: AdminUserProfile
+  scenario: {
+    title: string
+    type: string
+    category: string
+    patient_mood: string
+    system_prompt: string
+  }
+  timing: {
+    started_at: string
+    ended_at: string
+    duration_seconds: number
+  }
+  conversation: {
+    total_turns: number
+    transcript: AdminTranscriptTurn[]
+  }
+  audio: {
+    has_audio: boolean
+    student_audio: AdminAudioClip[]
+    patient_audio: AdminAudioClip[]
+  }
+  evaluation: {
+    score: number | null
+    feedback: unknown
+  }
+}
+
+export async function getAdminUsers(): Promise<AdminUserListResponse> {
+  return http.get<AdminUserListResponse>('/admin/users', { errorMessage: 'Failed to load users' })
+}
+
+export async function getAdminStats(): Promise<AdminStats> {
+  return http.get<AdminStats>('/admin/stats', { errorMessage: 'Failed to load admin stats' })
+}
+
+export async function getAdminUserSessions(userId: string): Promise<AdminUserSessionsResponse> {
+  return http.get<AdminUserSessionsResponse>(`/admin/users/${encodeURIComponent(userId)}/sessions`, {
+    errorMessage: 'Failed to load user sessions',
+  })
+}
+
+export async function getAdminSessionDetails(sessionId: string): Promise<AdminSessionDetails> {
+  return http.get<AdminSessionDetails>(`/admin/sessions/${encodeURIComponent(sessionId)}`, {
+    errorMessage: 'Failed to load session details',
+  })
+}
+
+export interface EvaluationReviewUpdate {
+  /** Reviewed breakdown scores and evidence; category and overall totals are recomputed server-side */
+  categories: OSCECategoryScores
+  /** The full comment list; comments without an id are created */
+  comments: { id?: string; turn_index: number | null; turn_excerpt: string | null; text: string }[]
+  /** Mark the evaluation as faculty reviewed (shown to the student) */
+  reviewed: boolean
+}
+
+export async function getAdminSessionEvaluation(sessionId: string): Promise<OSCEEvaluation> {
+  return http.get<OSCEEvaluation>(`/admin/sessions/${encodeURIComponent(sessionId)}/evaluation`, {
+    errorMessage: 'Failed to load evaluation',
+  })
+}
+
+/** The first save keeps the AI scoring as `faculty_review.original` */
+export async function saveEvaluationReview(sessionId: string, update: EvaluationReviewUpdate): Promise<OSCEEvaluation> {
+  return http.put<OSCEEvaluation>(`/admin/sessions/${encodeURIComponent(sessionId)}/evaluation/review`, update, {
+    errorMessage: 'Failed to save review',
+  })
+}
@@ -1,22 +1,18 @@
-// Get API URL and ensure it doesn't have a trailing slash or /api/v1 prefix
-const getApiUrl = (): string => {
-  const defaultUrl =
-    process.env.NODE_ENV === 'development'
-      ? 'http://localhost:8000'
-      : 'https://curavoice-backend-production-3ea1.up.railway.app'
-
-  const url = process.env.NEXT_PUBLIC_API_URL || defaultUrl
-  // Remove trailing slash
-  const cleanUrl = url.replace(/\/$/, '')
-
-  // Debug logging
-  console.log('[API] NEXT_PUBLIC_API_URL:', process.env.NEXT_PUBLIC_API_URL);
-  console.log('[API] Resolved API URL:', cleanUrl);
-
-  return cleanUrl
-}
-
-const API_URL = getApiUrl()
+import {
+  API_BASE_URL,
+  clearStoredSession,
+  getAccessToken,
+  getRefreshToken as readRefreshToken,
+  http,
+  setAccessToken,
+  setRefreshToken as storeRefreshToken,
+} from './httpClient'
+import { setSessionCookie } from './authGuard'
+import type { CreateDisputeRequest, EvaluationDispute } from './evaluationDisputes'
+import { getStudentFacingEvaluation, type OSCEEvaluation } from './osceEvaluation'
+import type { SessionSearchQuery, SessionSummary } from './sessionSearch'
+
+export { ApiError } from './httpClient'
 
 export interface AuthResponse {
   user: {
@@ -50,70 +46,33 @@ export interface PasswordResetResponse {
 }
 
 class ApiClient {
-  private baseUrl: string
-
-  constructor(baseUrl: string) {
-    // Remove trailing slash and ensure clean base URL
-    this.baseUrl = baseUrl.replace(/\/$/, '')
-  }
-
-  /**
-   * Get the API base URL with /api/v1 prefix
-   * Handles cases where baseUrl might already include /api/v1
-   */
-  private getApiBase(): string {
-    // Remove /api/v1 if it exists at the end to avoid duplication
-    let cleanBase = this.baseUrl.replace(/\/api\/v1\/?$/, '')
-
-    // Ensure no trailing slash
-    cleanBase = cleanBase.replace(/\/$/, '')
-
-    // Always append /api/v1 to ensure consistent API path
-    return `${cleanBase}/api/v1`
-  }
-
-  private getAuthHeaders(): HeadersInit {
-    const token = this.getToken()
-    return {
-      'Content-Type': 'application/json',
-      ...(token && { Authorization: `Bearer ${token}` }),
-    }
-  }
+  readonly baseUrl = API_BASE_URL
 
   getToken(): string | null {
-    if (typeof window === 'undefined') return null
-    return localStorage.getItem('access_token')
+    return getAccessToken()
   }
 
   setToken(token: string): void {
-    if (typeof window !== 'undefined') {
-      localStorage.setItem('access_token', token)
-    }
+    setAccessToken(token)
   }
 
   setRefreshToken(token: string): void {
-    if (typeof window !== 'undefined') {
-      localStorage.setItem('refresh_token', token)
-    }
+    storeRefreshToken(token)
   }
 
   getRefreshToken(): string | null {
-    if (typeof window === 'undefined') return null
-    return localStorage.getItem('refresh_token')
+    return readRefreshToken()
   }
 
   clearTokens(): void {
-    if (typeof window !== 'undefined') {
-      localStorage.removeItem('access_token')
-      localStorage.removeItem('refresh_token')
-      localStorage.removeItem('user')
-    }
+    clearStoredSession()
   }
 
   setUser(user: AuthResponse['user']): void {
     if (typeof window !== 'undefined') {
       localStorage.setItem('user', JSON.stringify(user))
     }
+    setSessionCookie(user)
   }
 
   getUser(): AuthResponse['user'] | null {
@@ -128,214 +87,67 @@ class ApiClient {
   }
 
   async login(data: LoginRequest): Promise<AuthResponse> {
-    const loginUrl = `${this.getApiBase()}/auth/login`;
-    const timestamp = new Date().toISOString();
-
-    console.log(`[${timestamp}] [API] 🔐 Login attempt started`);
-    console.log(`[${timestamp}] [API] Login URL:`, loginUrl);
-    console.log(`[${timestamp}] [API] Base URL:`, this.baseUrl);
-    console.log(`[${timestamp}] [API] API Base:`, this.getApiBase());
-    console.log(`[${timestamp}] [API] Email:`, data.email);
+    const timestamp = new Date().toISOString()
+    console.log(`[${timestamp}] [API] 🔐 Login attempt started for:`, data.email)
 
     try {
-      const response = await fetch(loginUrl, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Accept': 'application/json',
-        },
-        body: JSON.stringify(data),
+      const result = await http.post<AuthResponse>('/auth/login', data, {
+        auth: false,
+        errorMessage: 'Login failed',
       })
-
-      console.log(`[${timestamp}] [API] Response status:`, response.status);
-      console.log(`[${timestamp}] [API] Response headers:`, Object.fromEntries(response.headers.entries()));
-
-      if (!response.ok) {
-        let errorDetail = 'Login failed';
-        try {
-          const error = await response.json()
-          errorDetail = error.detail || error.message || errorDetail;
-          console.error(`[${timestamp}] [API] ❌ Login failed:`, error);
-        } catch (parseError) {
-          console.error(`[${timestamp}] [API] ❌ Failed to parse error response:`, parseError);
-          errorDetail = `HTTP ${response.status}: ${response.statusText}`;
-        }
-        throw new Error(errorDetail)
-      }
-
-      const result: AuthResponse = await response.json()
-      console.log(`[${timestamp}] [API] ✅ Login successful for user:`, result.user.email);
-      console.log(`[${timestamp}] [API] User ID:`, result.user.id);
-      console.log(`[${timestamp}] [API] User role:`, result.user.role);
-
-      this.setToken(result.access_token)
-      this.setRefreshToken(result.refresh_token)
-      this.setUser(result.user)
-
-      console.log(`[${timestamp}] [API] ✅ Tokens and user data saved to localStorage`);
+      console.log(`[${timestamp}] [API] ✅ Login successful for user:`, result.user.email)
+      this.storeSession(result)
       return result
     } catch (error) {
-      if (error instanceof TypeError && error.message.includes('fetch')) {
-        console.error(`[${timestamp}] [API] ❌ Network error - cannot reach backend:`, error);
-        throw new Error('Cannot connect to server. Please check your connection and try again.');
-      }
-      console.error(`[${timestamp}] [API] ❌ Login error:`, error);
-      throw error;
+      console.error(`[${timestamp}] [API] ❌ Login error:`, error)
+      throw error
     }
   }
 
   async register(data: RegisterRequest): Promise<AuthResponse> {
-    const registerUrl = `${this.getApiBase()}/auth/register`;
-    const timestamp = new Date().toISOString();
-
-    console.log(`[${timestamp}] [API] 📝 Registration attempt started`);
-    console.log(`[${timestamp}] [API] Register URL:`, registerUrl);
-    console.log(`[${timestamp}] [API] Email:`, data.email);
-    console.log(`[${timestamp}] [API] Full name:`, data.full_name);
+    const timestamp = new Date().toISOString()
+    console.log(`[${timestamp}] [API] 📝 Registration attempt started for:`, data.email)
 
     try {
-      const response = await fetch(registerUrl, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Accept': 'application/json',
-        },
-        body: JSON.stringify(data),
+      const result = await http.post<AuthResponse>('/auth/register', data, {
+        auth: false,
+        errorMessage: 'Registration failed',
       })
-
-      console.log(`[${timestamp}] [API] Response status:`, response.status);
-
-      if (!response.ok) {
-        const raw = await response.text().catch(() => '')
-        let parsed: any = null
-        if (raw) {
-          try {
-            parsed = JSON.parse(raw)
-          } catch {
-            parsed = null
-          }
-        }
-
-        let errorDetail: string = 'Registration failed'
-        if (parsed) {
-          const detail = parsed.detail ?? parsed.message
-          if (typeof detail === 'string') {
-            errorDetail = detail
-          } else if (Array.isArray(detail)) {
-            // FastAPI / Pydantic validation errors (422)
-            const messages = detail
-              .map((d: any) => d?.msg || d?.message)
-              .filter(Boolean)
-            if (messages.length) errorDetail = messages.join(' ')
-            else errorDetail = 'Invalid registration details. Please check your inputs and try again.'
-          } else if (detail != null) {
-            errorDetail = JSON.stringify(detail)
-          } else {
-            errorDetail = JSON.stringify(parsed)
-          }
-
-          console.error(`[${timestamp}] [API] ❌ Registration failed:`, parsed);
-        } else if (raw) {
-          errorDetail = raw
-          console.error(`[${timestamp}] [API] ❌ Registration failed (non-JSON):`, raw);
-        } else {
-          errorDetail = `HTTP ${response.status}: ${response.statusText}`
-          console.error(`[${timestamp}] [API] ❌ Registration failed (empty body)`);
-        }
-
-        throw new Error(errorDetail)
-      }
-
-      const result: AuthResponse = await response.json()
-      console.log(`[${timestamp}] [API] ✅ Registration successful for user:`, result.user.email);
-
-      this.setToken(result.access_token)
-      this.setRefreshToken(result.refresh_token)
-      this.setUser(result.user)
-
-      console.log(`[${timestamp}] [API] ✅ Tokens and user data saved to localStorage`);
+      console.log(`[${timestamp}] [API] ✅ Registration successful for user:`, result.user.email)
+      this.storeSession(result)
       return result
     } catch (error) {
-      if (error instanceof TypeError && error.message.includes('fetch')) {
-        console.error(`[${timestamp}] [API] ❌ Network error - cannot reach backend:`, error);
-        throw new Error('Cannot connect to server. Please check your connection and try again.');
-      }
-      console.error(`[${timestamp}] [API] ❌ Registration error:`, error);
-      throw error;
+      console.error(`[${timestamp}] [API] ❌ Registration error:`, error)
+      throw error
     }
   }
 
-  async forgotPassword(email: string): Promise<PasswordResetResponse> {
-    const response = await fetch(`${this.getApiBase()}/auth/forgot-password`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Accept': 'application/json',
-      },
-      body: JSON.stringify({ email }),
-    })
-
-    const data = await response.json().catch(() => null)
-
-    if (!response.ok) {
-      const detail = data?.detail || data?.message || `HTTP ${response.status}: ${response.statusText}`
-      throw new Error(detail)
-    }
+  private storeSession(result: AuthResponse): void {
+    this.setToken(result.access_token)
+    this.setRefreshToken(result.refresh_token)
+    this.setUser(result.user)
+  }
 
-    return data as PasswordResetResponse
+  async forgotPassword(email: string): Promise<PasswordResetResponse> {
+    return http.post<PasswordResetResponse>('/auth/forgot-password', { email }, { auth: false })
   }
 
   async validateResetToken(token: string): Promise<PasswordResetResponse> {
-    const response = await fetch(`${this.getApiBase()}/auth/validate-reset-token`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Accept': 'application/json',
-      },
-      body: JSON.stringify({ token }),
-    })
-
-    const data = await response.json().catch(() => null)
-
-    if (!response.ok) {
-      const detail = data?.detail || data?.message || `HTTP ${response.status}: ${response.statusText}`
-      throw new Error(detail)
-    }
-
-    return data as PasswordResetResponse
+    return http.post<PasswordResetResponse>('/auth/validate-reset-token', { token }, { auth: false })
   }
 
   async resetPassword(token: string, newPassword: string): Promise<PasswordResetResponse> {
-    const response = await fetch(`${this.getApiBase()}/auth/reset-password`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Accept': 'application/json',
-      },
-      body: JSON.stringify({ token, new_password: newPassword }),
-    })
-
-    const data = await response.json().catch(() => null)
-
-    if (!response.ok) {
-      const detail = data?.detail || data?.message || `HTTP ${response.status}: ${response.statusText}`
-      throw new Error(detail)
-    }
-
-    return data as PasswordResetResponse
+    return http.post<PasswordResetResponse>(
+      '/auth/reset-password',
+      { token, new_password: newPassword },
+      { auth: false }
+    )
   }
 
   async getCurrentUser(): Promise<AuthResponse['user']> {
-    const response = await fetch(`${this.getApiBase()}/auth/me`, {
-      method: 'GET',
-      headers: this.getAuthHeaders(),
+    const user = await http.get<AuthResponse['user']>('/auth/me', {
+      errorMessage: 'Failed to get user',
     })
-
-    if (!response.ok) {
-      throw new Error('Failed to get user')
-    }
-
-    const user = await response.json()
     this.setUser(user)
     return user
   }
@@ -344,61 +156,59 @@ class ApiClient {
     this.clearTokens()
   }
 
-  async evaluateTrainingSession(sessionId: string): Promise<any> {
-    try {
-      const response = await fetch(`${this.getApiBase()}/training/sessions/${sessionId}/evaluate`, {
-        method: 'POST',
-        headers: this.getAuthHeaders(),
-      })
+  async evaluateTrainingSession(sessionId: string): Promise<OSCEEvaluation> {
+    return http.post<OSCEEvaluation>(`/training/sessions/${sessionId}/evaluate`, undefined, {
+      errorMessage: 'Evaluation failed',
+    })
+  }
 
-      if (!response.ok) {
-        let errorDetail = 'Evaluation failed'
-        try {
-          const error = await response.json()
-          errorDetail = error.detail || error.message || errorDetail
-        } catch {
-          errorDetail = `HTTP ${response.status}: ${response.statusText}`
-        }
-        throw new Error(errorDetail)
-      }
-
-      return await response.json()
-    } catch (error) {
-      // Re-throw with more context if it's a network error
-      if (error instanceof TypeError && error.message.includes('fetch')) {
-        throw new Error('Failed to fetch evaluation. Please check your connection and try again.')
-      }
-      throw error
-    }
+  async getAllSessions(limit: number = 100, skip: number = 0): Promise<SessionSummary[]> {
+    return http.get<SessionSummary[]>('/training/sessions', {
+      query: { limit, skip },
+      errorMessage: 'Failed to fetch sessions',
+    })
   }
 
-  async getAllSessions(limit: number = 100, skip: number = 0): Promise<any[]> {
-    const response = await fetch(`${this.getApiBase()}/training/sessions?limit=${limit}&skip=${skip}`, {
-      method: 'GET',
-      headers: this.getAuthHeaders(),
+  /** One page of the student's sessions, searched, filtered and sorted by the server */
+  async searchSessions(query: SessionSearchQuery, limit: number, skip: number): Promise<SessionSummary[]> {
+    return http.get<SessionSummary[]>('/training/sessions', {
+      query: { ...query, limit, skip },
+      errorMessage: 'Failed to fetch sessions',
     })
+  }
 
-    if (!response.ok) {
-      const error = await response.json()
-      throw new Error(error.detail || 'Failed to fetch sessions')
-    }
+  /** The student's view: unsigned faculty edits are replaced by the AI scoring */
+  async getSessionEvaluation(sessionId: string): Promise<OSCEEvaluation> {
+    const evaluation = await http.get<OSCEEvaluation>(`/training/sessions/${sessionId}/evaluation`, {
+      errorMessage: 'Failed to fetch evaluation',
+    })
+    return getStudentFacingEvaluation(evaluation)
+  }
 
-    return response.json()
+  async createEvaluationDispute(sessionId: string, request: CreateDisputeRequest): Promise<EvaluationDispute> {
+    return http.post<EvaluationDispute>(`/training/sessions/${sessionId}/evaluation/disputes`, request, {
+      errorMessage: 'Failed to submit dispute',
+    })
   }
 
-  async getSessionEvaluation(sessionId: string): Promise<any> {
-    const response = await fetch(`${this.getApiBase()}/training/sessions/${sessionId}/evaluation`, {
-      method: 'GET',
-      headers: this.getAuthHeaders(),
+  async getSessionDisputes(sessionId: string): Promise<EvaluationDispute[]> {
+    return http.get<EvaluationDispute[]>(`/training/sessions/${sessionId}/evaluation/disputes`, {
+      errorMessage: 'Failed to fetch disputes',
     })
+  }
 
-    if (!response.ok) {
-      const error = await response.json()
-      throw new Error(error.detail || 'Failed to fetch evaluation')
-    }
+  /** All of the signed-in student's disputes, newest first */
+  async getMyDisputes(): Promise<EvaluationDispute[]> {
+    return http.get<EvaluationDispute[]>('/training/disputes', {
+      errorMessage: 'Failed to fetch disputes',
+    })
+  }
 
-    return response.json()
+  async markDisputesSeen(disputeIds: string[]): Promise<void> {
+    await http.post('/training/disputes/seen', { ids: disputeIds }, {
+      errorMessage: 'Failed to update disputes',
+    })
   }
 }
 
-export const apiClient = new ApiClient(API_URL)
+export const apiClient = new ApiClient()
@@ -0,0 +1,201 @@
+/**
+ * Audio device selection and diagnostics
+ * Remembers the student's preferred microphone and speaker, builds
+ * getUserMedia constraints for them, and turns getUserMedia failures into
+ * something a student can act on.
+ */
+
+const AUDIO_DEVICE_PREFS_KEY = 'training_audio_devices'
+
+export interface AudioDevicePreferences {
+  inputDeviceId?: string
+  outputDeviceId?: string
+}
+
+export interface AudioDeviceList {
+  inputs: MediaDeviceInfo[]
+  outputs: MediaDeviceInfo[]
+}
+
+export type MicrophoneErrorKind =
+  | 'permission_denied'
+  | 'no_device'
+  | 'in_use'
+  | 'unsupported'
+  | 'unknown'
+
+export interface MicrophoneDiagnosis {
+  kind: MicrophoneErrorKind
+  title: string
+  message: string
+}
+
+// Chrome 110+ can route a whole AudioContext to a chosen output; not yet in lib.dom
+type SinkableAudioContext = AudioContext & { setSinkId?: (sinkId: string) => Promise<void> }
+
+const BASE_MICROPHONE_CONSTRAINTS: MediaTrackConstraints = {
+  sampleRate: 16000,
+  channelCount: 1,
+  echoCancellation: true,
+  noiseSuppression: true,
+  autoGainControl: true,
+}
+
+export function getAudioDevicePreferences(): AudioDevicePreferences {
+  if (typeof window === 'undefined') return {}
+  try {
+    const raw = localStorage.getItem(AUDIO_DEVICE_PREFS_KEY)
+    return raw ? (JSON.parse(raw) as AudioDevicePreferences) : {}
+  } catch {
+    return {}
+  }
+}
+
+export function saveAudioDevicePreferences(prefs: AudioDevicePreferences): void {
+  localStorage.setItem(AUDIO_DEVICE_PREFS_KEY, JSON.stringify(prefs))
+}
+
+export function buildMicrophoneConstraints(deviceId?: string): MediaTrackConstraints {
+  return deviceId
+    ? { ...BASE_MICROPHONE_CONSTRAINTS, deviceId: { exact: deviceId } }
+    : BASE_MICROPHONE_CONSTRAINTS
+}
+
+/**
+ * Open the preferred microphone, falling back to the default one if the saved
+ * device has been unplugged since it was chosen.
+ */
+export async function openMicrophone(deviceId?: string): Promise<MediaStream> {
+  if (typeof navigator === 'undefined' || !navigator.mediaDevices?.getUserMedia) {
+    throw new DOMException('Microphone access is not available', 'NotSupportedError')
+  }
+  try {
+    return await navigator.mediaDevices.getUserMedia({ audio: buildMicrophoneConstraints(deviceId) })
+  } catch (err) {
+    const name = err instanceof DOMException ? err.name : ''
+    if (deviceId && (name === 'OverconstrainedError' || name === 'NotFoundError')) {
+      console.warn('[AudioDevices] Saved microphone unavailable, using the default device')
+      return navigator.mediaDevices.getUserMedia({ audio: buildMicrophoneConstraints() })
+    }
+    throw err
+  }
+}
+
+/**
+ * Device labels are only populated once the page has microphone permission,
+ * so call this after a successful getUserMedia.
+ */
+export async function listAudioDevices(): Promise<AudioDeviceList> {
+  const devices = await navigator.mediaDevices.enumerateDevices()
+  return {
+    inputs: devices.filter((device) => device.kind === 'audioinput'),
+    outputs: devices.filter((device) => device.kind === 'audiooutput'),
+  }
+}
+
+export function supportsOutputSelection(): boolean {
+  return typeof HTMLMediaElement !== 'undefined' && 'setSinkId' in HTMLMediaElement.prototype
+}
+
+/**
+ * Route an AudioContext to the chosen speaker where the browser allows it.
+ * Returns false when the browser keeps the system default.
+ */
+export async function applyOutputDevice(context: AudioContext, deviceId?: string): Promise<boolean> {
+  const sinkable = context as SinkableAudioContext
+  if (!deviceId || typeof sinkable.setSinkId !== 'function') return false
+  try {
+    await sinkable.setSinkId(deviceId)
+    return true
+  } catch (err) {
+    console.warn('[AudioDevices] Could not switch output device:', err)
+    return false
+  }
+}
+
+/**
+ * Play a short two-note chime through the chosen output device
+ */
+export async function playTestTone(outputDeviceId?: string): Promise<void> {
+  const context = new AudioContext()
+  const destination = context.createMediaStreamDestination()
+  const gain = context.createGain()
+  gain.connect(destination)
+
+  const now = context.currentTime
+  ;[523.25, 659.25].forEach((frequency, index) => {
+    const start = now + index * 0.35
+    const oscillator = context.createOscillator()
+    oscillator.type = 'sine'
+    oscillator.frequency.value = frequency
+    oscillator.connect(gain)
+    gain.gain.setValueAtTime(0.0001, start)
+    gain.gain.exponentialRampToValueAtTime(0.3, start + 0.03)
+    gain.gain.exponentialRampToValueAtTime(0.0001, start + 0.3)
+    oscillator.start(start)
+    oscillator.stop(start + 0.32)
+  })
+
+  // Play through an <audio> element so setSinkId works in every browser that supports it
+  const audio = new Audio()
+  audio.srcObject = destination.stream
+  if (outputDeviceId && supportsOutputSelection()) {
+    await audio.setSinkId(outputDeviceId)
+  }
+
+  try {
+    await audio.play()
+    await new Promise((resolve) => setTimeout(resolve, 800))
+  } finally {
+    audio.pause()
+    audio.srcObject = null
+    await context.close()
+  }
+}
+
+export function diagnoseMicrophoneError(err: unknown): MicrophoneDiagnosis {
+  const name = err instanceof DOMException || err instanceof Error ? err.name : ''
+
+  switch (name) {
+    case 'NotAllowedError':
+    case 'PermissionDeniedError':
+    case 'SecurityError':
+      return {
+        kind: 'permission_denied',
+        title: 'Microphone permission denied',
+        message:
+          'Your browser is blocking the microphone. Click the lock or camera icon in the address bar, allow microphone access for this site, then try again.',
+      }
+    case 'NotFoundError':
+    case 'DevicesNotFoundError':
+    case 'OverconstrainedError':
+      return {
+        kind: 'no_device',
+        title: 'No microphone found',
+        message:
+          'We could not find a microphone. Plug in a headset or check that your microphone is enabled in your system sound settings.',
+      }
+    case 'NotReadableError':
+    case 'TrackStartError':
+    case 'AbortError':
+      return {
+        kind: 'in_use',
+        title: 'Microphone is busy',
+        message:
+          'Another app (Zoom, Teams, another browser tab) may be using your microphone. Close it and try again.',
+      }
+    case 'NotSupportedError':
+      return {
+        kind: 'unsupported',
+        title: 'Microphone not available',
+        message:
+          'This browser cannot access a microphone here. Use an up-to-date Chrome, Edge, Firefox or Safari over https, or switch to text mode.',
+      }
+    default:
+      return {
+        kind: 'unknown',
+        title: 'Microphone error',
+        message: 'Failed to access microphone. Please check permissions.',
+      }
+  }
+}
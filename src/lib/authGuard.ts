@@ -0,0 +1,108 @@
+/**
+ * Route protection configuration
+ * Shared by the Next.js middleware (signed-in and verified-email checks via
+ * cookie) and the <RequireAuth> client guard (verified email and role checks).
+ *
+ * The session cookie only mirrors what is already in localStorage so the
+ * middleware can redirect before a protected page renders. It is not a
+ * security boundary - the backend still authorizes every request.
+ */
+
+export type UserRole = 'student' | 'instructor' | 'admin'
+
+export const LOGIN_PATH = '/auth/login'
+export const VERIFY_EMAIL_PATH = '/auth/verify-email'
+export const DEFAULT_AUTHENTICATED_PATH = '/dashboard'
+export const RETURN_URL_PARAM = 'next'
+export const SESSION_COOKIE = 'cv_session'
+
+interface ProtectedRoute {
+  prefix: string
+  roles?: UserRole[]
+  /** Unverified accounts are sent to VERIFY_EMAIL_PATH */
+  requireVerified?: boolean
+}
+
+export const PROTECTED_ROUTES: ProtectedRoute[] = [
+  { prefix: '/dashboard' },
+  { prefix: '/training', requireVerified: true },
+  { prefix: '/reports', requireVerified: true },
+  { prefix: '/profile' },
+  { prefix: '/upload' },
+  { prefix: '/artifacts' },
+  { prefix: '/naplex' },
+  { prefix: '/admin', roles: ['admin'] },
+  { prefix: '/instructor', roles: ['instructor', 'admin'] },
+]
+
+/** Paths under a protected prefix that must stay reachable while signed out */
+const PUBLIC_EXCEPTIONS = ['/admin/login']
+
+export function matchProtectedRoute(pathname: string): ProtectedRoute | null {
+  if (PUBLIC_EXCEPTIONS.includes(pathname)) return null
+  return (
+    PROTECTED_ROUTES.find(
+      (route) => pathname === route.prefix || pathname.startsWith(`${route.prefix}/`)
+    ) || null
+  )
+}
+
+export function requiresVerifiedEmail(pathname: string): boolean {
+  return matchProtectedRoute(pathname)?.requireVerified ?? false
+}
+
+/**
+ * Whether `role` satisfies `allowed`. Admins implicitly satisfy instructor routes.
+ */
+export function hasRole(role: string | null | undefined, allowed?: UserRole | UserRole[]): boolean {
+  if (!allowed) return true
+  if (!role) return false
+  const roles = Array.isArray(allowed) ? allowed : [allowed]
+  if (roles.includes(role as UserRole)) return true
+  return role === 'admin' && roles.includes('instructor')
+}
+
+/**
+ * Only allow same-origin relative paths as return URLs (no protocol-relative
+ * `//evil.com` or absolute URLs), falling back to the dashboard.
+ */
+export function getSafeReturnUrl(raw: string | null | undefined, fallback: string = DEFAULT_AUTHENTICATED_PATH): string {
+  if (!raw || !raw.startsWith('/') || raw.startsWith('//') || raw.startsWith('/\\')) return fallback
+  if (raw.startsWith(LOGIN_PATH) || raw.startsWith(VERIFY_EMAIL_PATH)) return fallback
+  return raw
+}
+
+function withReturnUrl(path: string, returnTo?: string | null): string {
+  const safe = returnTo ? getSafeReturnUrl(returnTo, '') : ''
+  return safe ? `${path}?${RETURN_URL_PARAM}=${encodeURIComponent(safe)}` : path
+}
+
+export function buildLoginUrl(returnTo?: string | null): string {
+  return withReturnUrl(LOGIN_PATH, returnTo)
+}
+
+export function buildVerifyEmailUrl(returnTo?: string | null): string {
+  return withReturnUrl(VERIFY_EMAIL_PATH, returnTo)
+}
+
+/**
+ * Cookie value is `<role>:<verified|unverified>`. Cookies written before the
+ * verification flag existed hold only the role; their status is unknown (null)
+ * and left to the client guard.
+ */
+export function parseSessionCookie(value: string): { role: string; verified: boolean | null } {
+  const [role, status] = decodeURIComponent(value).split(':')
+  return { role, verified: status === 'verified' ? true : status === 'unverified' ? false : null }
+}
+
+export function setSessionCookie(user: { role: string; is_verified: boolean }): void {
+  if (typeof document === 'undefined') return
+  const secure = window.location.protocol === 'https:' ? '; Secure' : ''
+  const value = `${user.role || 'student'}:${user.is_verified ? 'verified' : 'unverified'}`
+  document.cookie = `${SESSION_COOKIE}=${encodeURIComponent(value)}; Path=/; Max-Age=${60 * 60 * 24 * 30}; SameSite=Lax${secure}`
+}
+
+export function clearSessionCookie(): void {
+  if (typeof document === 'undefined') return
+  document.cookie = `${SESSION_COOKIE}=; Path=/; Max-Age=0; SameSite=Lax`
+}
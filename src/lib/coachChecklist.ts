@@ -0,0 +1,114 @@
+/**
+ * Coach mode checklist
+ * Tracks which of a lecture simulation's expected actions and key concerns the
+ * student has covered. The server can report coverage with
+ * `checklist_progress` messages; without them, student turns are matched
+ * against each item's keywords as a best-effort fallback.
+ */
+
+export type CoachMode = 'off' | 'coach' | 'exam'
+
+export const COACH_MODE_OPTIONS: { value: CoachMode; label: string; description: string }[] = [
+  { value: 'off', label: 'Off', description: 'No checklist' },
+  { value: 'coach', label: 'Coach', description: 'See the checklist tick off as you go' },
+  { value: 'exam', label: 'Exam', description: 'Checklist stays hidden until your feedback' },
+]
+
+export type ChecklistKind = 'expected_action' | 'key_concern'
+
+/** Coverage reported by the server, by position in the lecture simulation's lists */
+export interface ChecklistProgress {
+  kind: ChecklistKind
+  index: number
+  covered: boolean
+  evidence?: string
+  /** When the update arrived (ms since epoch) */
+  timestamp: number
+}
+
+export interface ChecklistItem {
+  key: string
+  kind: ChecklistKind
+  index: number
+  text: string
+  covered: boolean
+  source: 'server' | 'transcript' | null
+  /** The student turn that covered it */
+  evidence: string | null
+  coveredAt: number | null
+}
+
+interface StudentTurn {
+  speaker: 'student' | 'patient'
+  text: string
+  timestamp: number
+  partial: boolean
+}
+
+const STOPWORDS = new Set([
+  'about', 'after', 'also', 'any', 'appropriate', 'ask', 'asks', 'been', 'before', 'being', 'check', 'could',
+  'does', 'during', 'each', 'ensure', 'from', 'have', 'into', 'more', 'most', 'other', 'over', 'patient',
+  'patients', 'should', 'some', 'such', 'than', 'that', 'their', 'them', 'then', 'there', 'these', 'they',
+  'this', 'those', 'through', 'what', 'when', 'where', 'which', 'while', 'will', 'with', 'would', 'your',
+])
+
+/** Crude stemming so "counsel", "counselling" and "counseled" match */
+function stem(word: string): string {
+  return word.replace(/(ing|ed|s)$/, '').replace(/ll$/, 'l')
+}
+
+export function extractKeywords(text: string): string[] {
+  const words = text
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter((word) => word.length >= 4 && !STOPWORDS.has(word))
+    .map(stem)
+  return Array.from(new Set(words))
+}
+
+function matchTurn(keywords: string[], turns: StudentTurn[]): StudentTurn | null {
+  if (keywords.length === 0) return null
+  // Two keywords in one turn is enough; short items need all of theirs
+  const required = Math.min(2, keywords.length)
+  for (const turn of turns) {
+    const turnWords = new Set(extractKeywords(turn.text))
+    const hits = keywords.filter((keyword) => turnWords.has(keyword)).length
+    if (hits >= required) return turn
+  }
+  return null
+}
+
+export function buildChecklist(
+  expectedActions: string[],
+  keyConcerns: string[],
+  transcript: StudentTurn[],
+  serverProgress: ChecklistProgress[]
+): ChecklistItem[] {
+  const studentTurns = transcript.filter((entry) => entry.speaker === 'student' && !entry.partial)
+  const useServer = serverProgress.length > 0
+
+  const toItems = (texts: string[], kind: ChecklistKind): ChecklistItem[] =>
+    texts.map((text, index) => {
+      const base = { key: `${kind}-${index}`, kind, index, text }
+      if (useServer) {
+        const progress = serverProgress.find((item) => item.kind === kind && item.index === index)
+        return {
+          ...base,
+          covered: progress?.covered ?? false,
+          source: progress?.covered ? 'server' : null,
+          evidence: progress?.evidence ?? null,
+          coveredAt: progress?.covered ? progress.timestamp : null,
+        }
+      }
+      const turn = matchTurn(extractKeywords(text), studentTurns)
+      return {
+        ...base,
+        covered: turn !== null,
+        source: turn ? 'transcript' : null,
+        evidence: turn?.text ?? null,
+        coveredAt: turn?.timestamp ?? null,
+      }
+    })
+
+  return [...toItems(expectedActions, 'expected_action'), ...toItems(keyConcerns, 'key_concern')]
+}
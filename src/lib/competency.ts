@@ -0,0 +1,140 @@
+/**
+ * Competency over time
+ * Aggregates the OSCE category scores of all of a student's evaluations into
+ * per-category trends, a current level against target, and the rubric items
+ * they miss most often.
+ */
+
+import { isCriterionMet, type OSCEEvaluation } from './osceEvaluation'
+import { RUBRIC_CATEGORIES } from './scenarioAuthoring'
+import { humanizeKey } from './transcriptAnnotations'
+import { mapWithConcurrency } from './utils'
+
+/** Sessions averaged for the rolling line and for "current level" */
+export const ROLLING_WINDOW = 3
+/** Matches the 80% pass mark used across Reports */
+export const COMPETENCY_TARGET_PERCENTAGE = 80
+// Older history adds little and costs one request per session
+const MAX_HISTORY_EVALUATIONS = 50
+const FETCH_CONCURRENCY = 4
+
+export interface EvaluatedSession {
+  sessionId: string
+  scenarioTitle: string
+  startedAt: string
+  evaluation: OSCEEvaluation
+}
+
+export interface CompetencyPoint {
+  sessionId: string
+  scenarioTitle: string
+  date: Date
+  percentage: number
+  /** Mean of this and up to ROLLING_WINDOW - 1 previous points */
+  rollingAverage: number
+}
+
+export interface CompetencySeries {
+  key: string
+  label: string
+  points: CompetencyPoint[]
+  /** Latest rolling average */
+  current: number
+  /** Latest rolling average minus the first one, null with a single point */
+  change: number | null
+}
+
+export interface MissedRubricItem {
+  category: string
+  criterion: string
+  missed: number
+  assessed: number
+  missRate: number
+  /** Evidence from the most recent miss */
+  lastEvidence: string
+}
+
+export const getCategoryLabel = (key: string) =>
+  RUBRIC_CATEGORIES.find((category) => category.key === key)?.label ?? humanizeKey(key)
+
+const round1 = (value: number) => Math.round(value * 10) / 10
+
+/**
+ * The student's evaluated sessions with their evaluations, oldest first.
+ * Sessions whose evaluation can't be fetched are left out rather than failing
+ * the whole history.
+ */
+export async function loadEvaluationHistory(): Promise<EvaluatedSession[]> {
+  const [{ apiClient }, { fetchAllMatchingSessions }] = await Promise.all([import('./api'), import('./sessionSearch')])
+  const sessions = await fetchAllMatchingSessions({ evaluated: true, sort_by: 'started_at', sort_order: 'asc' })
+  const evaluated = sessions.slice(-MAX_HISTORY_EVALUATIONS)
+
+  const results = await mapWithConcurrency(evaluated, FETCH_CONCURRENCY, async (session) => {
+    const evaluation = await apiClient.getSessionEvaluation(session.id)
+    return {
+      sessionId: session.id,
+      scenarioTitle: session.scenario_title,
+      startedAt: session.started_at,
+      evaluation,
+    }
+  })
+  return results.filter((result): result is EvaluatedSession => result !== null)
+}
+
+/** One series per OSCE category seen in any evaluation, in rubric order */
+export function buildCompetencySeries(history: EvaluatedSession[]): CompetencySeries[] {
+  const byCategory = new Map<string, Omit<CompetencyPoint, 'rollingAverage'>[]>()
+  history.forEach(({ sessionId, scenarioTitle, startedAt, evaluation }) => {
+    Object.entries(evaluation.categories ?? {}).forEach(([key, category]) => {
+      if (category.max <= 0) return
+      const points = byCategory.get(key) ?? []
+      points.push({ sessionId, scenarioTitle, date: new Date(startedAt), percentage: round1((category.score / category.max) * 100) })
+      byCategory.set(key, points)
+    })
+  })
+
+  const order = RUBRIC_CATEGORIES.map((category) => category.key)
+  const rank = (key: string) => (order.includes(key) ? order.indexOf(key) : order.length)
+
+  return Array.from(byCategory.entries())
+    .sort(([a], [b]) => rank(a) - rank(b) || a.localeCompare(b))
+    .map(([key, raw]) => {
+      const points = raw.map((point, index) => {
+        const window = raw.slice(Math.max(0, index - ROLLING_WINDOW + 1), index + 1)
+        return { ...point, rollingAverage: round1(window.reduce((sum, item) => sum + item.percentage, 0) / window.length) }
+      })
+      const current = points[points.length - 1].rollingAverage
+      return {
+        key,
+        label: getCategoryLabel(key),
+        points,
+        current,
+        change: points.length > 1 ? round1(current - points[0].rollingAverage) : null,
+      }
+    })
+}
+
+/** Rubric items the student most often falls short on, by miss count then rate */
+export function findMostMissedItems(history: EvaluatedSession[], limit = 10): MissedRubricItem[] {
+  const items = new Map<string, MissedRubricItem>()
+  history.forEach(({ evaluation }) => {
+    Object.entries(evaluation.categories ?? {}).forEach(([category, detail]) => {
+      Object.entries(detail.breakdown ?? {}).forEach(([criterion, item]) => {
+        const key = `${category}:${criterion}`
+        const entry = items.get(key) ?? { category, criterion, missed: 0, assessed: 0, missRate: 0, lastEvidence: '' }
+        entry.assessed += 1
+        if (!isCriterionMet(detail, item.score)) {
+          entry.missed += 1
+          entry.lastEvidence = item.evidence
+        }
+        items.set(key, entry)
+      })
+    })
+  })
+
+  return Array.from(items.values())
+    .filter((item) => item.missed > 0)
+    .map((item) => ({ ...item, missRate: item.missed / item.assessed }))
+    .sort((a, b) => b.missed - a.missed || b.missRate - a.missRate)
+    .slice(0, limit)
+}
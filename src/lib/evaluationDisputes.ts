@@ -0,0 +1,79 @@
+/**
+ * Evaluation disputes
+ * A student can contest the AI score of one rubric criterion (typically when
+ * speech recognition misheard them), pointing at the turn that proves it.
+ * Instructors resolve disputes from a queue; the student is notified of the
+ * outcome.
+ */
+
+export type DisputeStatus = 'open' | 'upheld' | 'rejected'
+
+export const DISPUTE_STATUS_LABELS: Record<DisputeStatus, string> = {
+  open: 'Under review',
+  upheld: 'Upheld',
+  rejected: 'Not upheld',
+}
+
+export const DISPUTE_STATUS_STYLES: Record<DisputeStatus, string> = {
+  open: 'bg-amber-100 text-amber-800',
+  upheld: 'bg-green-100 text-green-800',
+  rejected: 'bg-gray-100 text-gray-700',
+}
+
+export const MIN_DISPUTE_REASON_LENGTH = 10
+
+export interface EvaluationDispute {
+  id: string
+  session_id: string
+  scenario_title: string
+  student_name: string
+  category: string
+  criterion: string
+  /** Criterion score and evidence when the dispute was raised */
+  original_score: number
+  original_evidence: string
+  reason: string
+  turn_index: number | null
+  turn_excerpt: string | null
+  status: DisputeStatus
+  /** Instructor's reply, shown to the student */
+  response: string | null
+  /** New criterion score when upheld */
+  adjusted_score: number | null
+  resolved_by: string | null
+  created_at: string
+  resolved_at: string | null
+  /** Whether the student has seen the outcome */
+  student_seen: boolean
+}
+
+export interface CreateDisputeRequest {
+  category: string
+  criterion: string
+  reason: string
+  turn_index: number | null
+  turn_excerpt: string | null
+}
+
+export interface ResolveDisputeRequest {
+  status: Exclude<DisputeStatus, 'open'>
+  response: string
+  adjusted_score?: number | null
+}
+
+export const disputeKey = (category: string, criterion: string) => `${category}:${criterion}`
+
+/** Latest dispute per criterion, for showing status next to rubric rows */
+export function latestDisputeByCriterion(disputes: EvaluationDispute[]): Map<string, EvaluationDispute> {
+  const latest = new Map<string, EvaluationDispute>()
+  disputes.forEach((dispute) => {
+    const key = disputeKey(dispute.category, dispute.criterion)
+    const current = latest.get(key)
+    if (!current || dispute.created_at > current.created_at) latest.set(key, dispute)
+  })
+  return latest
+}
+
+/** Resolved disputes whose outcome the student hasn't seen yet */
+export const getUnseenOutcomes = (disputes: EvaluationDispute[]) =>
+  disputes.filter((dispute) => dispute.status !== 'open' && !dispute.student_seen)
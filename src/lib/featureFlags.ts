@@ -3,6 +3,7 @@
  * 
  * Feature flags are controlled via environment variables.
  * Set NEXT_PUBLIC_NAPLEX_COMING_SOON=true to show the "Coming Soon" page.
+ * Set NEXT_PUBLIC_TRAINING_DIAGNOSTICS=true to offer the training diagnostics overlay.
  */
 
 export const featureFlags = {
@@ -12,6 +13,13 @@ export const featureFlags = {
    * When false (default), the full feature is active.
    */
   naplexComingSoon: process.env.NEXT_PUBLIC_NAPLEX_COMING_SOON === 'true',
+
+  /**
+   * Training diagnostics overlay
+   * When true, every student gets the latency/audio debug toggle. It can
+   * also be switched on for one browser with ?diagnostics=1.
+   */
+  trainingDiagnostics: process.env.NEXT_PUBLIC_TRAINING_DIAGNOSTICS === 'true',
 } as const
 
 /**
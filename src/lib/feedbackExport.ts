@@ -0,0 +1,367 @@
+/**
+ * Printable OSCE feedback
+ * Builds a standalone, print-styled HTML document from one or more
+ * evaluations and opens the browser's print dialog on it, so students can
+ * save a report (or a portfolio of several) as a PDF for their programme.
+ */
+
+import type { OSCEEvaluation } from './osceEvaluation'
+import { humanizeKey, loadSessionTranscript, type TranscriptTurn } from './transcriptAnnotations'
+import { formatScenarioTitle } from './utils'
+
+// Transcripts can run long; the portfolio only needs a readable excerpt
+const MAX_TRANSCRIPT_TURNS = 40
+
+export interface EvaluationReport {
+  sessionId: string
+  evaluation: OSCEEvaluation
+  startedAt?: string | null
+  durationSeconds?: number | null
+  /** Full transcript, when the server or this device still has it */
+  transcript?: TranscriptTurn[] | null
+}
+
+/**
+ * Gather everything the printed report shows for a session. Session details
+ * and the transcript are optional extras; only the evaluation is required.
+ */
+export async function loadEvaluationReport(sessionId: string, evaluation?: OSCEEvaluation): Promise<EvaluationReport> {
+  const [{ apiClient }, { getTrainingSession }] = await Promise.all([import('./api'), import('./trainingApi')])
+
+  const resolvedEvaluation = evaluation ?? (await apiClient.getSessionEvaluation(sessionId))
+  const [session, transcript] = await Promise.all([
+    getTrainingSession(sessionId).catch((error) => {
+      console.warn('[FeedbackExport] Session details unavailable:', error)
+      return null
+    }),
+    loadSessionTranscript(sessionId),
+  ])
+
+  return {
+    sessionId,
+    evaluation: resolvedEvaluation,
+    startedAt: session?.started_at ?? null,
+    durationSeconds: session?.duration_seconds ?? null,
+    transcript,
+  }
+}
+
+const escapeHtml = (value: unknown) =>
+  String(value ?? '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;')
+
+function formatDateTime(value: string | null | undefined): string {
+  if (!value) return '—'
+  return new Date(value).toLocaleString('en-US', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  })
+}
+
+function formatDuration(seconds: number | null | undefined): string {
+  if (!seconds) return '—'
+  return `${Math.floor(seconds / 60)}m ${seconds % 60}s`
+}
+
+function formatOffset(offsetMs: number): string {
+  const totalSeconds = Math.floor(offsetMs / 1000)
+  return `${Math.floor(totalSeconds / 60)}:${String(totalSeconds % 60).padStart(2, '0')}`
+}
+
+function list(items: string[] | undefined, emptyText: string): string {
+  if (!items || items.length === 0) return `<p class="muted">${escapeHtml(emptyText)}</p>`
+  return `<ul>${items.map((item) => `<li>${escapeHtml(item)}</li>`).join('')}</ul>`
+}
+
+function renderCategories(evaluation: OSCEEvaluation): string {
+  const categories = Object.entries(evaluation.categories ?? {})
+  if (categories.length === 0) return ''
+  const rows = categories
+    .map(([key, category]) => {
+      const breakdown = Object.entries(category.breakdown ?? {})
+        .map(
+          ([criterion, detail]) => `
+            <tr class="criterion">
+              <td>${escapeHtml(humanizeKey(criterion))}</td>
+              <td class="num">${escapeHtml(detail.score)}</td>
+              <td>${escapeHtml(detail.evidence)}</td>
+            </tr>`
+        )
+        .join('')
+      return `
+        <tr class="category">
+          <td>${escapeHtml(humanizeKey(key))}</td>
+          <td class="num">${escapeHtml(category.score)} / ${escapeHtml(category.max)}</td>
+          <td></td>
+        </tr>${breakdown}`
+    })
+    .join('')
+  return `
+    <section>
+      <h3>Scores by category</h3>
+      <table>
+        <thead><tr><th>Category / criterion</th><th class="num">Score</th><th>Evidence</th></tr></thead>
+        <tbody>${rows}</tbody>
+      </table>
+    </section>`
+}
+
+function renderEmpathy(evaluation: OSCEEvaluation): string {
+  const empathy = evaluation.empathy_analysis
+  if (!empathy) return ''
+  return `
+    <section>
+      <h3>Empathy analysis <span class="badge">${escapeHtml((empathy.score ?? 0).toFixed(1))} / 5.0</span></h3>
+      ${empathy.indicators?.length ? `<p><strong>Observed behaviours:</strong> ${empathy.indicators.map(escapeHtml).join(', ')}</p>` : ''}
+      ${empathy.positive_examples?.length ? `<h4>Positive examples</h4>${empathy.positive_examples.map((example) => `<blockquote>&ldquo;${escapeHtml(example)}&rdquo;</blockquote>`).join('')}` : ''}
+      ${empathy.gaps?.length ? `<h4>Opportunities for growth</h4>${list(empathy.gaps, '')}` : ''}
+    </section>`
+}
+
+function renderIdealResponse(evaluation: OSCEEvaluation): string {
+  const ideal = evaluation.ideal_clinical_response
+  if (!ideal || (!ideal.recommended_treatment && !ideal.key_counseling_points?.length && !ideal.monitoring_plan)) return ''
+  return `
+    <section>
+      <h3>Ideal clinical response</h3>
+      ${ideal.recommended_treatment ? `<h4>Diagnosis &amp; recommended treatment</h4><p class="pre">${escapeHtml(ideal.recommended_treatment)}</p>` : ''}
+      ${ideal.key_counseling_points?.length ? `<h4>Key counselling points</h4><ol>${ideal.key_counseling_points.map((point) => `<li>${escapeHtml(point)}</li>`).join('')}</ol>` : ''}
+      ${ideal.monitoring_plan ? `<h4>Follow-up &amp; monitoring</h4><p class="pre">${escapeHtml(ideal.monitoring_plan)}</p>` : ''}
+    </section>`
+}
+
+function renderTranscript(report: EvaluationReport): string {
+  const moments = report.evaluation.key_moments ?? []
+  const turns = (report.transcript ?? []).filter((turn) => turn.text.trim())
+  if (moments.length === 0 && turns.length === 0) return ''
+
+  const momentsHtml = moments
+    .map(
+      (moment) => `
+        <div class="excerpt">
+          <p class="speaker">${escapeHtml(moment.timestamp)} · ${escapeHtml(humanizeKey(moment.speaker))}</p>
+          <blockquote>&ldquo;${escapeHtml(moment.text)}&rdquo;</blockquote>
+          ${moment.note ? `<p class="note">${escapeHtml(moment.note)}</p>` : ''}
+        </div>`
+    )
+    .join('')
+
+  const shownTurns = turns.slice(0, MAX_TRANSCRIPT_TURNS)
+  const turnsHtml = shownTurns
+    .map(
+      (turn) => `
+        <tr>
+          <td class="num">${turn.offsetMs !== null ? formatOffset(turn.offsetMs) : ''}</td>
+          <td class="speaker">${turn.speaker === 'student' ? 'Student' : 'Patient'}</td>
+          <td>${escapeHtml(turn.text)}</td>
+        </tr>`
+    )
+    .join('')
+
+  return `
+    <section>
+      <h3>Transcript excerpts</h3>
+      ${momentsHtml ? `<h4>Key moments</h4>${momentsHtml}` : ''}
+      ${turnsHtml ? `<h4>Conversation</h4><table class="transcript"><tbody>${turnsHtml}</tbody></table>` : ''}
+      ${turns.length > shownTurns.length ? `<p class="muted">First ${shownTurns.length} of ${turns.length} turns shown.</p>` : ''}
+    </section>`
+}
+
+function renderFacultyComments(evaluation: OSCEEvaluation): string {
+  const comments = evaluation.faculty_review?.reviewed ? evaluation.faculty_review.comments : []
+  if (comments.length === 0) return ''
+  return `
+    <section>
+      <h3>Instructor comments</h3>
+      ${comments
+        .map(
+          (comment) => `
+            <div class="excerpt">
+              ${comment.turn_excerpt ? `<blockquote>&ldquo;${escapeHtml(comment.turn_excerpt)}&rdquo;</blockquote>` : ''}
+              <p>${escapeHtml(comment.text)} <span class="muted">— ${escapeHtml(comment.author_name)}</span></p>
+            </div>`
+        )
+        .join('')}
+    </section>`
+}
+
+function renderReport(report: EvaluationReport, heading: string): string {
+  const { evaluation } = report
+  const review = evaluation.faculty_review?.reviewed ? evaluation.faculty_review : null
+  const meta: [string, string][] = [
+    ['Scenario type', humanizeKey(evaluation.scenario_type || '—')],
+    ['Patient mood', humanizeKey(evaluation.patient_mood || '—')],
+    ['Date', formatDateTime(report.startedAt)],
+    ['Duration', formatDuration(report.durationSeconds)],
+    ['Transcript turns', String(evaluation.transcript_length ?? '—')],
+    ['Session ID', report.sessionId],
+  ]
+  if (review) {
+    meta.push(['Faculty review', [review.reviewer_name, review.reviewed_at && formatDateTime(review.reviewed_at)].filter(Boolean).join(', ') || 'Reviewed'])
+    if (review.original.percentage !== evaluation.percentage) meta.push(['AI score', `${review.original.percentage.toFixed(1)}%`])
+  }
+
+  return `
+    <article class="report">
+      <h2>${escapeHtml(heading)}</h2>
+      <dl class="meta">${meta.map(([label, value]) => `<div><dt>${escapeHtml(label)}</dt><dd>${escapeHtml(value)}</dd></div>`).join('')}</dl>
+      <div class="score ${evaluation.result === 'PASS' ? 'pass' : 'fail'}">
+        <span class="percentage">${escapeHtml(evaluation.percentage.toFixed(1))}%</span>
+        <span>${escapeHtml(evaluation.overall_score)} / ${escapeHtml(evaluation.max_score)} points</span>
+        <span class="result">${escapeHtml(evaluation.result)}</span>
+      </div>
+      ${evaluation.partial_evaluation ? `<p class="muted">Partial evaluation: ${escapeHtml(evaluation.note || 'some details may be incomplete.')}</p>` : ''}
+      ${renderFacultyComments(evaluation)}
+      ${renderCategories(evaluation)}
+      <section>
+        <h3>Feedback</h3>
+        <div class="columns">
+          <div><h4>Strengths</h4>${list(evaluation.feedback?.strengths, 'No specific strengths identified.')}</div>
+          <div><h4>Areas to improve</h4>${list(evaluation.feedback?.weaknesses, 'No major weaknesses identified.')}</div>
+          <div><h4>Recommendations</h4>${list(evaluation.feedback?.improvements, 'Continue practising to maintain your skills.')}</div>
+        </div>
+      </section>
+      ${renderEmpathy(evaluation)}
+      ${renderIdealResponse(evaluation)}
+      ${renderTranscript(report)}
+    </article>`
+}
+
+const PRINT_STYLES = `
+  @page { size: A4; margin: 16mm 14mm; }
+  * { box-sizing: border-box; }
+  body { font-family: 'Lato', Arial, sans-serif; color: #1f2937; font-size: 11pt; line-height: 1.45; margin: 0; }
+  h1, h2, h3 { font-family: 'Montserrat', Arial, sans-serif; color: #1A1F71; margin: 0 0 8px; }
+  h1 { font-size: 22pt; }
+  h2 { font-size: 16pt; border-bottom: 2px solid #3DD6D0; padding-bottom: 4px; }
+  h3 { font-size: 12.5pt; margin-top: 18px; }
+  h4 { font-size: 10.5pt; margin: 10px 0 4px; color: #344895; }
+  section, .excerpt, tr { break-inside: avoid; }
+  .report + .report, .cover + .report { break-before: page; }
+  .meta { display: grid; grid-template-columns: repeat(3, 1fr); gap: 6px 16px; margin: 8px 0 12px; }
+  .meta dt { font-size: 8.5pt; text-transform: uppercase; letter-spacing: 0.04em; color: #6b7280; }
+  .meta dd { margin: 0; font-weight: 600; word-break: break-all; }
+  .score { display: flex; align-items: baseline; gap: 16px; padding: 10px 14px; border-radius: 8px; }
+  .score.pass { background: #dcfce7; }
+  .score.fail { background: #fef3c7; }
+  .score .percentage { font-size: 20pt; font-weight: 700; }
+  .score .result { margin-left: auto; font-weight: 700; }
+  table { width: 100%; border-collapse: collapse; font-size: 9.5pt; }
+  th, td { text-align: left; vertical-align: top; padding: 4px 6px; border-bottom: 1px solid #e5e7eb; }
+  th { background: #f3f4f6; }
+  .num { white-space: nowrap; text-align: right; width: 1%; }
+  tr.category td { font-weight: 700; background: #f9fafb; }
+  tr.criterion td:first-child { padding-left: 16px; }
+  .columns { display: grid; grid-template-columns: repeat(3, 1fr); gap: 12px; }
+  ul, ol { margin: 0; padding-left: 18px; }
+  li { margin-bottom: 3px; }
+  blockquote { margin: 4px 0; padding: 4px 10px; border-left: 3px solid #3DD6D0; background: #f9fafb; }
+  .badge { font-size: 10pt; color: #6b7280; font-weight: 400; }
+  .speaker { font-size: 8.5pt; color: #6b7280; white-space: nowrap; }
+  .note { font-size: 9.5pt; color: #344895; margin: 2px 0 0; }
+  .pre { white-space: pre-line; margin: 0; }
+  .muted { color: #6b7280; font-style: italic; }
+  .transcript td { border-bottom: 1px solid #f3f4f6; }
+  .cover { padding-top: 30mm; }
+  .cover p { font-size: 12pt; }
+  .contents { margin-top: 16mm; }
+  .contents td:last-child { text-align: right; }
+`
+
+function wrapDocument(title: string, body: string): string {
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8" />
+<title>${escapeHtml(title)}</title>
+<style>${PRINT_STYLES}</style>
+</head>
+<body>${body}</body>
+</html>`
+}
+
+export function buildEvaluationReportHtml(report: EvaluationReport, studentName?: string | null): string {
+  const title = formatScenarioTitle(report.evaluation.scenario_title) || 'OSCE Evaluation'
+  const header = `
+    <header>
+      <h1>OSCE Evaluation Report</h1>
+      ${studentName ? `<p>${escapeHtml(studentName)} · Generated ${escapeHtml(formatDateTime(new Date().toISOString()))}</p>` : ''}
+    </header>`
+  return wrapDocument(`CuraVoice OSCE report - ${title}`, header + renderReport(report, title))
+}
+
+/** Several evaluations in one document: cover page, contents, then one report per page */
+export function buildPortfolioHtml(reports: EvaluationReport[], studentName?: string | null): string {
+  const passed = reports.filter((report) => report.evaluation.result === 'PASS').length
+  const average = reports.length
+    ? reports.reduce((sum, report) => sum + report.evaluation.percentage, 0) / reports.length
+    : 0
+  const contents = reports
+    .map(
+      (report, index) => `
+        <tr>
+          <td>${index + 1}. ${escapeHtml(formatScenarioTitle(report.evaluation.scenario_title))}</td>
+          <td>${escapeHtml(formatDateTime(report.startedAt))}</td>
+          <td>${escapeHtml(report.evaluation.percentage.toFixed(1))}% · ${escapeHtml(report.evaluation.result)}</td>
+        </tr>`
+    )
+    .join('')
+
+  const cover = `
+    <div class="cover">
+      <h1>Communication Skills Portfolio</h1>
+      ${studentName ? `<p><strong>${escapeHtml(studentName)}</strong></p>` : ''}
+      <p>${reports.length} evaluated OSCE practice session${reports.length === 1 ? '' : 's'} · ${passed} passed · average ${average.toFixed(1)}%</p>
+      <p class="muted">Generated ${escapeHtml(formatDateTime(new Date().toISOString()))} with CuraVoice</p>
+      <table class="contents">
+        <thead><tr><th>Session</th><th>Date</th><th>Result</th></tr></thead>
+        <tbody>${contents}</tbody>
+      </table>
+    </div>`
+
+  const body = reports
+    .map((report, index) => renderReport(report, `${index + 1}. ${formatScenarioTitle(report.evaluation.scenario_title)}`))
+    .join('')
+  return wrapDocument(`CuraVoice portfolio${studentName ? ` - ${studentName}` : ''}`, cover + body)
+}
+
+/**
+ * Print a standalone document from a hidden frame. Browsers offer "Save as
+ * PDF" in the print dialog, which is how the PDF export works without a PDF
+ * library.
+ */
+export function printHtmlDocument(html: string): void {
+  const frame = document.createElement('iframe')
+  frame.setAttribute('aria-hidden', 'true')
+  frame.style.position = 'fixed'
+  frame.style.width = '0'
+  frame.style.height = '0'
+  frame.style.border = '0'
+  frame.style.right = '0'
+  frame.style.bottom = '0'
+
+  const cleanup = () => {
+    // Give the print dialog time to take its snapshot before the frame goes away
+    setTimeout(() => frame.remove(), 1000)
+  }
+
+  frame.onload = () => {
+    const frameWindow = frame.contentWindow
+    if (!frameWindow) {
+      cleanup()
+      return
+    }
+    frameWindow.addEventListener('afterprint', cleanup, { once: true })
+    frameWindow.focus()
+    frameWindow.print()
+  }
+  frame.srcdoc = html
+  document.body.appendChild(frame)
+}
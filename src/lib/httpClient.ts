@@ -0,0 +1,350 @@
+/**
+ * Shared HTTP Client
+ * Single source of truth for the backend base URL, auth headers and
+ * FastAPI error parsing. Used by api.ts, naplexApi.ts, trainingApi.ts and
+ * any page that needs to talk to /api/v1 directly.
+ */
+
+import { clearSessionCookie } from './authGuard'
+
+const PRODUCTION_API_URL = 'https://curavoice-backend-production-3ea1.up.railway.app'
+const DEVELOPMENT_API_URL = 'http://localhost:8000'
+
+/**
+ * Resolve the backend origin from NEXT_PUBLIC_API_URL, falling back to the
+ * environment default. Strips trailing slashes and any /api/v1 suffix so the
+ * prefix is only ever appended once.
+ */
+export function resolveApiBaseUrl(): string {
+  const defaultUrl =
+    process.env.NODE_ENV === 'development' ? DEVELOPMENT_API_URL : PRODUCTION_API_URL
+
+  const url = process.env.NEXT_PUBLIC_API_URL || defaultUrl
+  return url.replace(/\/$/, '').replace(/\/api\/v1\/?$/, '').replace(/\/$/, '')
+}
+
+export const API_BASE_URL = resolveApiBaseUrl()
+export const API_V1_BASE = `${API_BASE_URL}/api/v1`
+
+/**
+ * Build a ws:// or wss:// URL for an /api/v1 path
+ */
+export function toWebSocketUrl(path: string): string {
+  return `${API_V1_BASE.replace(/^http:\/\//, 'ws://').replace(/^https:\/\//, 'wss://')}${path}`
+}
+
+// ─── Token storage ──────────────────────────────────────────────────────────
+
+/** Fired on window when the refresh token is rejected and the user must sign in again */
+export const SESSION_EXPIRED_EVENT = 'curavoice:session-expired'
+
+export function getAccessToken(): string | null {
+  if (typeof window === 'undefined') return null
+  return localStorage.getItem('access_token')
+}
+
+export function setAccessToken(token: string): void {
+  if (typeof window !== 'undefined') {
+    localStorage.setItem('access_token', token)
+  }
+}
+
+export function getRefreshToken(): string | null {
+  if (typeof window === 'undefined') return null
+  return localStorage.getItem('refresh_token')
+}
+
+export function setRefreshToken(token: string): void {
+  if (typeof window !== 'undefined') {
+    localStorage.setItem('refresh_token', token)
+  }
+}
+
+export function clearStoredSession(): void {
+  if (typeof window !== 'undefined') {
+    localStorage.removeItem('access_token')
+    localStorage.removeItem('refresh_token')
+    localStorage.removeItem('user')
+  }
+  clearSessionCookie()
+}
+
+/**
+ * Read the `exp` claim (ms since epoch) from a JWT without verifying it.
+ * Returns null for opaque or malformed tokens.
+ */
+export function getTokenExpiry(token: string): number | null {
+  try {
+    const payload = token.split('.')[1]
+    if (!payload) return null
+    const json = atob(payload.replace(/-/g, '+').replace(/_/g, '/'))
+    const exp = JSON.parse(json)?.exp
+    return typeof exp === 'number' ? exp * 1000 : null
+  } catch {
+    return null
+  }
+}
+
+export interface ApiFieldError {
+  field: string
+  message: string
+  type?: string
+}
+
+/**
+ * Error thrown for any non-2xx response (or a network failure, status 0).
+ * `message` is always human readable; `fieldErrors` is populated from
+ * FastAPI/Pydantic 422 validation details.
+ */
+export class ApiError extends Error {
+  readonly status: number
+  readonly detail: unknown
+  readonly fieldErrors: ApiFieldError[]
+
+  constructor(message: string, status: number, detail: unknown = null, fieldErrors: ApiFieldError[] = []) {
+    super(message)
+    this.name = 'ApiError'
+    this.status = status
+    this.detail = detail
+    this.fieldErrors = fieldErrors
+  }
+
+  get isNetworkError(): boolean {
+    return this.status === 0
+  }
+
+  get isUnauthorized(): boolean {
+    return this.status === 401 || this.status === 403
+  }
+}
+
+interface ValidationIssue {
+  loc?: Array<string | number>
+  msg?: string
+  message?: string
+  type?: string
+}
+
+/**
+ * Turn a FastAPI error body into a message and field errors.
+ * Handles `{detail: string}`, `{detail: ValidationIssue[]}` (422),
+ * `{message: string}` and arbitrary JSON.
+ */
+export function parseErrorBody(
+  body: unknown,
+  fallback: string
+): { message: string; fieldErrors: ApiFieldError[] } {
+  if (body == null || body === '') return { message: fallback, fieldErrors: [] }
+  if (typeof body === 'string') return { message: body, fieldErrors: [] }
+
+  const record = body as Record<string, unknown>
+  const detail = record.detail ?? record.message
+
+  if (typeof detail === 'string') {
+    return { message: detail, fieldErrors: [] }
+  }
+
+  if (Array.isArray(detail)) {
+    const fieldErrors = (detail as ValidationIssue[])
+      .map((issue) => ({
+        field: (issue?.loc || []).filter((part) => part !== 'body').join('.'),
+        message: issue?.msg || issue?.message || '',
+        type: issue?.type,
+      }))
+      .filter((issue) => issue.message)
+    const message = fieldErrors.length
+      ? fieldErrors.map((issue) => issue.message).join(' ')
+      : 'Invalid request. Please check your inputs and try again.'
+    return { message, fieldErrors }
+  }
+
+  return { message: JSON.stringify(detail ?? body), fieldErrors: [] }
+}
+
+// ─── Token refresh ──────────────────────────────────────────────────────────
+
+interface RefreshResponse {
+  access_token: string
+  refresh_token?: string
+}
+
+let refreshInFlight: Promise<string | null> | null = null
+
+function expireSession(): void {
+  clearStoredSession()
+  if (typeof window !== 'undefined') {
+    window.dispatchEvent(new Event(SESSION_EXPIRED_EVENT))
+  }
+}
+
+async function performRefresh(): Promise<string | null> {
+  const refreshToken = getRefreshToken()
+  if (!refreshToken) {
+    expireSession()
+    return null
+  }
+
+  let response: Response
+  try {
+    response = await fetch(`${API_V1_BASE}/auth/refresh`, {
+      method: 'POST',
+      headers: { Accept: 'application/json', 'Content-Type': 'application/json' },
+      body: JSON.stringify({ refresh_token: refreshToken }),
+    })
+  } catch (error) {
+    // Offline is not the same as logged out - keep the tokens and let the caller retry later
+    throw new ApiError('Cannot connect to server. Please check your connection and try again.', 0, error)
+  }
+
+  if (!response.ok) {
+    console.warn('[HTTP] Token refresh rejected:', response.status)
+    expireSession()
+    return null
+  }
+
+  // An empty or non-JSON body (e.g. a proxy error page) counts as a failed refresh
+  const data = (await response.json().catch(() => null)) as RefreshResponse | null
+  if (!data || typeof data.access_token !== 'string') {
+    console.warn('[HTTP] Token refresh returned an unusable body')
+    expireSession()
+    return null
+  }
+
+  setAccessToken(data.access_token)
+  if (data.refresh_token) setRefreshToken(data.refresh_token)
+  return data.access_token
+}
+
+/**
+ * Exchange the stored refresh token for a new access token.
+ * Concurrent callers share a single in-flight request. Resolves to null (and
+ * fires SESSION_EXPIRED_EVENT) when the server rejects the refresh token.
+ */
+export function refreshAccessToken(): Promise<string | null> {
+  if (!refreshInFlight) {
+    refreshInFlight = performRefresh().finally(() => {
+      refreshInFlight = null
+    })
+  }
+  return refreshInFlight
+}
+
+/**
+ * Return an access token that stays valid for at least `minValiditySeconds`,
+ * refreshing first if it is about to expire. Used before opening long-lived
+ * connections (e.g. the training WebSocket) that cannot replay on 401.
+ */
+export async function ensureFreshAccessToken(minValiditySeconds: number = 60): Promise<string | null> {
+  const token = getAccessToken()
+  if (!token) return getRefreshToken() ? refreshAccessToken() : null
+
+  const expiresAt = getTokenExpiry(token)
+  if (expiresAt !== null && expiresAt - Date.now() < minValiditySeconds * 1000) {
+    return refreshAccessToken()
+  }
+  return token
+}
+
+// ─── Requests ───────────────────────────────────────────────────────────────
+
+type QueryValue = string | number | boolean | null | undefined
+
+export interface RequestOptions extends Omit<RequestInit, 'body'> {
+  /** Serialized as JSON with a matching Content-Type */
+  json?: unknown
+  /** Raw body (FormData, Blob...). Content-Type is left to the browser. */
+  body?: BodyInit | null
+  /** Appended as a query string; null/undefined values are skipped */
+  query?: Record<string, QueryValue>
+  /** Attach the stored bearer token (default: true) */
+  auth?: boolean
+  /** Message used when the server gives no usable detail */
+  errorMessage?: string
+}
+
+function buildUrl(path: string, query?: Record<string, QueryValue>): string {
+  const url = /^https?:\/\//.test(path) ? path : `${API_V1_BASE}${path}`
+  if (!query) return url
+
+  const params = new URLSearchParams()
+  Object.entries(query).forEach(([key, value]) => {
+    if (value !== null && value !== undefined) params.append(key, String(value))
+  })
+  const qs = params.toString()
+  return qs ? `${url}${url.includes('?') ? '&' : '?'}${qs}` : url
+}
+
+async function readBody(response: Response): Promise<unknown> {
+  const raw = await response.text().catch(() => '')
+  if (!raw) return null
+  try {
+    return JSON.parse(raw)
+  } catch {
+    return raw
+  }
+}
+
+/**
+ * Perform a request against /api/v1 and return the parsed JSON body.
+ * Authenticated requests that get a 401 are replayed once after a token
+ * refresh. Throws ApiError on HTTP or network failure.
+ */
+export async function request<T = unknown>(path: string, options: RequestOptions = {}): Promise<T> {
+  const { json, body, query, auth = true, errorMessage, headers, ...init } = options
+  const url = buildUrl(path, query)
+
+  const send = async (token: string | null): Promise<Response> => {
+    const finalHeaders: HeadersInit = {
+      Accept: 'application/json',
+      ...(json !== undefined ? { 'Content-Type': 'application/json' } : {}),
+      ...(token ? { Authorization: `Bearer ${token}` } : {}),
+      ...(headers as Record<string, string> | undefined),
+    }
+
+    try {
+      return await fetch(url, {
+        ...init,
+        headers: finalHeaders,
+        body: json !== undefined ? JSON.stringify(json) : body,
+      })
+    } catch (error) {
+      console.error('[HTTP] Network error:', path, error)
+      throw new ApiError('Cannot connect to server. Please check your connection and try again.', 0, error)
+    }
+  }
+
+  const token = auth ? getAccessToken() : null
+  let response = await send(token)
+
+  if (response.status === 401 && auth && (token || getRefreshToken())) {
+    const refreshed = await refreshAccessToken()
+    if (refreshed) {
+      response = await send(refreshed)
+    }
+  }
+
+  const data = await readBody(response)
+
+  if (!response.ok) {
+    const { message, fieldErrors } = parseErrorBody(
+      data,
+      errorMessage || `HTTP ${response.status}: ${response.statusText}`
+    )
+    throw new ApiError(message, response.status, data, fieldErrors)
+  }
+
+  return data as T
+}
+
+export const http = {
+  get: <T = unknown>(path: string, options?: RequestOptions) =>
+    request<T>(path, { ...options, method: 'GET' }),
+  post: <T = unknown>(path: string, json?: unknown, options?: RequestOptions) =>
+    request<T>(path, { ...options, method: 'POST', json }),
+  put: <T = unknown>(path: string, json?: unknown, options?: RequestOptions) =>
+    request<T>(path, { ...options, method: 'PUT', json }),
+  patch: <T = unknown>(path: string, json?: unknown, options?: RequestOptions) =>
+    request<T>(path, { ...options, method: 'PATCH', json }),
+  delete: <T = unknown>(path: string, options?: RequestOptions) =>
+    request<T>(path, { ...options, method: 'DELETE' }),
+}
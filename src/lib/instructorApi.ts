@@ -0,0 +1,62 @@
+/**
+ * Instructor API Service
+ * Scenario authoring and evaluation dispute endpoints under
+ * /api/v1/instructor. The backend accepts instructor and admin accounts and
+ * rejects everyone else with 403.
+ */
+
+import { http } from './httpClient'
+import type { EvaluationDispute, ResolveDisputeRequest } from './evaluationDisputes'
+import type { AuthoredScenario, ScenarioDraft } from './scenarioAuthoring'
+
+export async function listAuthoredScenarios(): Promise<AuthoredScenario[]> {
+  return http.get<AuthoredScenario[]>('/instructor/scenarios', { errorMessage: 'Failed to load scenarios' })
+}
+
+export async function getAuthoredScenario(scenarioId: string): Promise<AuthoredScenario> {
+  return http.get<AuthoredScenario>(`/instructor/scenarios/${encodeURIComponent(scenarioId)}`, {
+    errorMessage: 'Failed to load scenario',
+  })
+}
+
+/** New scenarios always start as drafts */
+export async function createAuthoredScenario(draft: ScenarioDraft): Promise<AuthoredScenario> {
+  return http.post<AuthoredScenario>('/instructor/scenarios', draft, { errorMessage: 'Failed to create scenario' })
+}
+
+export async function updateAuthoredScenario(scenarioId: string, draft: ScenarioDraft): Promise<AuthoredScenario> {
+  return http.put<AuthoredScenario>(`/instructor/scenarios/${encodeURIComponent(scenarioId)}`, draft, {
+    errorMessage: 'Failed to save scenario',
+  })
+}
+
+export async function publishAuthoredScenario(scenarioId: string): Promise<AuthoredScenario> {
+  return http.post<AuthoredScenario>(`/instructor/scenarios/${encodeURIComponent(scenarioId)}/publish`, undefined, {
+    errorMessage: 'Failed to publish scenario',
+  })
+}
+
+/** Take a scenario out of the student library and back to draft */
+export async function unpublishAuthoredScenario(scenarioId: string): Promise<AuthoredScenario> {
+  return http.post<AuthoredScenario>(`/instructor/scenarios/${encodeURIComponent(scenarioId)}/unpublish`, undefined, {
+    errorMessage: 'Failed to unpublish scenario',
+  })
+}
+
+export async function deleteAuthoredScenario(scenarioId: string): Promise<void> {
+  await http.delete(`/instructor/scenarios/${encodeURIComponent(scenarioId)}`, {
+    errorMessage: 'Failed to delete scenario',
+  })
+}
+
+/** Open disputes first (oldest first, so nobody waits longest), then recently resolved ones */
+export async function listEvaluationDisputes(): Promise<EvaluationDispute[]> {
+  return http.get<EvaluationDispute[]>('/instructor/disputes', { errorMessage: 'Failed to load disputes' })
+}
+
+/** Upholding with an adjusted score updates the evaluation and notifies the student */
+export async function resolveEvaluationDispute(disputeId: string, resolution: ResolveDisputeRequest): Promise<EvaluationDispute> {
+  return http.post<EvaluationDispute>(`/instructor/disputes/${encodeURIComponent(disputeId)}/resolve`, resolution, {
+    errorMessage: 'Failed to resolve dispute',
+  })
+}
@@ -3,37 +3,7 @@
  * Thin client for /api/v1/naplex endpoints.
  */
 
-const API_BASE = (process.env.NEXT_PUBLIC_API_URL || 'http://localhost:8000').replace(/\/$/, '')
-const API_V1_BASE = `${API_BASE}/api/v1`
-
-async function getAuthToken(): Promise<string | null> {
-  if (typeof window === 'undefined') return null
-  return localStorage.getItem('access_token')
-}
-
-async function requestJson<T>(path: string, init: RequestInit = {}): Promise<T> {
-  const token = await getAuthToken()
-  const url = `${API_V1_BASE}${path}`
-  const headers: HeadersInit = {
-    Accept: 'application/json',
-    ...(init.body ? { 'Content-Type': 'application/json' } : {}),
-    ...(token ? { Authorization: `Bearer ${token}` } : {}),
-    ...(init.headers || {}),
-  }
-
-  const res = await fetch(url, { ...init, headers })
-  if (!res.ok) {
-    let detail = `${res.status} ${res.statusText}`
-    try {
-      const data = await res.json()
-      detail = data?.detail || data?.message || detail
-    } catch {
-      // ignore
-    }
-    throw new Error(detail)
-  }
-  return res.json()
-}
+import { http } from './httpClient'
 
 export interface NaplexOnboardingRequest {
   exam_date?: string | null
@@ -190,21 +160,18 @@ export interface NaplexAnalyticsResponse {
 }
 
 export async function naplexOnboarding(request: NaplexOnboardingRequest): Promise<NaplexOnboardingResponse> {
-  return requestJson<NaplexOnboardingResponse>('/naplex/onboarding', {
-    method: 'POST',
-    body: JSON.stringify({
-      exam_date: request.exam_date ?? null,
-      daily_minutes: request.daily_minutes ?? 20,
-    }),
+  return http.post<NaplexOnboardingResponse>('/naplex/onboarding', {
+    exam_date: request.exam_date ?? null,
+    daily_minutes: request.daily_minutes ?? 20,
   })
 }
 
 export async function listNaplexDecks(): Promise<NaplexDeckListResponse> {
-  return requestJson<NaplexDeckListResponse>('/naplex/decks')
+  return http.get<NaplexDeckListResponse>('/naplex/decks')
 }
 
 export async function getNextNaplexCard(deckId: string): Promise<NaplexNextCardResponse> {
-  return requestJson<NaplexNextCardResponse>(`/naplex/decks/${encodeURIComponent(deckId)}/next`)
+  return http.get<NaplexNextCardResponse>(`/naplex/decks/${encodeURIComponent(deckId)}/next`)
 }
 
 export async function reviewNaplexCard(
@@ -212,48 +179,43 @@ export async function reviewNaplexCard(
   cardId: string,
   request: NaplexReviewRequest
 ): Promise<NaplexReviewResponse> {
-  return requestJson<NaplexReviewResponse>(
+  return http.post<NaplexReviewResponse>(
     `/naplex/decks/${encodeURIComponent(deckId)}/cards/${encodeURIComponent(cardId)}/review`,
-    { method: 'POST', body: JSON.stringify(request) }
+    request
   )
 }
 
 export async function createNaplexSession(request: NaplexSessionCreateRequest): Promise<NaplexSessionResponse> {
-  return requestJson<NaplexSessionResponse>('/naplex/sessions', {
-    method: 'POST',
-    body: JSON.stringify({
-      session_type: request.session_type ?? 'quiz',
-      num_questions: request.num_questions ?? 10,
-      topics: request.topics ?? [],
-      timed: request.timed ?? false,
-      duration_seconds: request.duration_seconds ?? null,
-      generation_mode: request.generation_mode ?? 'template',
-      source_lecture_id: request.source_lecture_id ?? null,
-      deck_id: request.deck_id ?? 'top200',
-    }),
+  return http.post<NaplexSessionResponse>('/naplex/sessions', {
+    session_type: request.session_type ?? 'quiz',
+    num_questions: request.num_questions ?? 10,
+    topics: request.topics ?? [],
+    timed: request.timed ?? false,
+    duration_seconds: request.duration_seconds ?? null,
+    generation_mode: request.generation_mode ?? 'template',
+    source_lecture_id: request.source_lecture_id ?? null,
+    deck_id: request.deck_id ?? 'top200',
   })
 }
 
 export async function getNaplexSession(sessionId: string): Promise<NaplexSessionResponse> {
-  return requestJson<NaplexSessionResponse>(`/naplex/sessions/${encodeURIComponent(sessionId)}`)
+  return http.get<NaplexSessionResponse>(`/naplex/sessions/${encodeURIComponent(sessionId)}`)
 }
 
 export async function answerNaplexQuestion(
   sessionId: string,
   request: NaplexAnswerRequest
 ): Promise<NaplexAnswerResponse> {
-  return requestJson<NaplexAnswerResponse>(`/naplex/sessions/${encodeURIComponent(sessionId)}/answer`, {
-    method: 'POST',
-    body: JSON.stringify(request),
-  })
+  return http.post<NaplexAnswerResponse>(
+    `/naplex/sessions/${encodeURIComponent(sessionId)}/answer`,
+    request
+  )
 }
 
 export async function submitNaplexSession(sessionId: string): Promise<NaplexSubmitResponse> {
-  return requestJson<NaplexSubmitResponse>(`/naplex/sessions/${encodeURIComponent(sessionId)}/submit`, {
-    method: 'POST',
-  })
+  return http.post<NaplexSubmitResponse>(`/naplex/sessions/${encodeURIComponent(sessionId)}/submit`)
 }
 
 export async function getNaplexAnalytics(): Promise<NaplexAnalyticsResponse> {
-  return requestJson<NaplexAnalyticsResponse>('/naplex/analytics')
+  return http.get<NaplexAnalyticsResponse>('/naplex/analytics')
 }
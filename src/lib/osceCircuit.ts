@@ -0,0 +1,137 @@
+/**
+ * OSCE circuit mode
+ * A circuit chains several library scenarios as timed stations: reading time
+ * with the station brief, then a fixed encounter time that ends on the buzzer.
+ * Each station is its own training session; the circuit report combines their
+ * evaluations.
+ */
+
+import type { OSCEEvaluation } from './osceEvaluation'
+import type { TrainingScenario } from './trainingApi'
+
+export const READING_TIME_OPTIONS = [60, 120] // seconds
+export const STATION_TIME_OPTIONS = [300, 480, 600] // seconds
+export const DEFAULT_READING_SECONDS = 60
+export const DEFAULT_STATION_SECONDS = 480
+export const MIN_CIRCUIT_STATIONS = 2
+export const MAX_CIRCUIT_STATIONS = 8
+
+/** Remaining-time warnings shown (and sounded) during a station, in seconds */
+export const STATION_WARNING_SECONDS = [120, 30]
+
+// Pass rule: overall mark and a minimum share of stations passed, like most OSCE blueprints
+export const CIRCUIT_PASS_PERCENTAGE = 60
+const CIRCUIT_MIN_STATIONS_PASSED_RATIO = 0.5
+
+export interface CircuitConfig {
+  id: string
+  stations: TrainingScenario[]
+  readingSeconds: number
+  stationSeconds: number
+}
+
+export type StationEndReason = 'time' | 'student'
+
+export interface CircuitStationResult {
+  scenario: TrainingScenario
+  sessionId: string | null
+  endedBy: StationEndReason
+  /** Encounter time used, in seconds */
+  elapsedSeconds: number
+}
+
+/** What TrainingBotEnhanced needs to run a session as a timed station */
+export interface CircuitStationControl {
+  circuitId: string
+  stationNumber: number
+  totalStations: number
+  stationSeconds: number
+  onComplete: (sessionId: string | null, endedBy: StationEndReason, elapsedSeconds: number) => void
+  /** The station registers how to end its live session so leaving the circuit can stop it */
+  registerStop: (stop: (() => Promise<void>) | null) => void
+}
+
+/** The parts of an OSCE evaluation the circuit report aggregates */
+export type CircuitStationEvaluation = Pick<OSCEEvaluation, 'overall_score' | 'max_score' | 'percentage' | 'result' | 'feedback'>
+
+export interface CircuitSummary {
+  stationsEvaluated: number
+  stationsPassed: number
+  averagePercentage: number | null
+  totalScore: number
+  totalMaxScore: number
+  result: 'PASS' | 'FAIL' | null
+}
+
+export function createCircuitConfig(stations: TrainingScenario[], readingSeconds: number, stationSeconds: number): CircuitConfig {
+  const id = typeof crypto !== 'undefined' && 'randomUUID' in crypto ? crypto.randomUUID() : `circuit-${Date.now()}`
+  return { id, stations, readingSeconds, stationSeconds }
+}
+
+/** Pick `count` random scenarios, preferring a spread of categories */
+export function pickRandomStations(scenarios: TrainingScenario[], count: number): TrainingScenario[] {
+  const shuffled = [...scenarios].sort(() => Math.random() - 0.5)
+  const picked: TrainingScenario[] = []
+  const usedCategories = new Set<string>()
+  shuffled.forEach((scenario) => {
+    if (picked.length < count && !usedCategories.has(scenario.category)) {
+      picked.push(scenario)
+      usedCategories.add(scenario.category)
+    }
+  })
+  shuffled.forEach((scenario) => {
+    if (picked.length < count && !picked.includes(scenario)) picked.push(scenario)
+  })
+  return picked
+}
+
+export function summarizeCircuit(evaluations: (CircuitStationEvaluation | null)[]): CircuitSummary {
+  const evaluated = evaluations.filter((evaluation): evaluation is CircuitStationEvaluation => evaluation !== null)
+  if (evaluated.length === 0) {
+    return { stationsEvaluated: 0, stationsPassed: 0, averagePercentage: null, totalScore: 0, totalMaxScore: 0, result: null }
+  }
+
+  const stationsPassed = evaluated.filter((evaluation) => evaluation.result === 'PASS').length
+  // Stations that could not be evaluated (too short, failed) count as zero
+  const averagePercentage =
+    evaluated.reduce((sum, evaluation) => sum + evaluation.percentage, 0) / evaluations.length
+  const passed =
+    averagePercentage >= CIRCUIT_PASS_PERCENTAGE &&
+    stationsPassed >= Math.ceil(evaluations.length * CIRCUIT_MIN_STATIONS_PASSED_RATIO)
+
+  return {
+    stationsEvaluated: evaluated.length,
+    stationsPassed,
+    averagePercentage: Math.round(averagePercentage * 10) / 10,
+    totalScore: evaluated.reduce((sum, evaluation) => sum + evaluation.overall_score, 0),
+    totalMaxScore: evaluated.reduce((sum, evaluation) => sum + evaluation.max_score, 0),
+    result: passed ? 'PASS' : 'FAIL',
+  }
+}
+
+/**
+ * Short tone for station start, warnings and the end-of-station buzzer.
+ * Best effort: browsers without Web Audio just stay silent.
+ */
+export function playStationTone(kind: 'start' | 'warning' | 'end'): void {
+  try {
+    const AudioContextClass = window.AudioContext || (window as unknown as { webkitAudioContext?: typeof AudioContext }).webkitAudioContext
+    if (!AudioContextClass) return
+    const context = new AudioContextClass()
+    const oscillator = context.createOscillator()
+    const gain = context.createGain()
+    oscillator.type = kind === 'end' ? 'square' : 'sine'
+    oscillator.frequency.value = kind === 'warning' ? 660 : kind === 'start' ? 880 : 440
+    gain.gain.value = 0.15
+    oscillator.connect(gain)
+    gain.connect(context.destination)
+    const duration = kind === 'end' ? 1.2 : 0.3
+    oscillator.start()
+    oscillator.stop(context.currentTime + duration)
+    oscillator.onended = () => {
+      context.close().catch(() => {})
+    }
+  } catch (error) {
+    console.warn('[Circuit] Could not play station tone:', error)
+  }
+}
@@ -0,0 +1,247 @@
+/**
+ * OSCE evaluation model
+ * The evaluation returned for a training session, faculty review on top of
+ * the AI scoring, and helpers for comparing several attempts at the same
+ * scenario.
+ */
+
+import { extractKeywords } from './coachChecklist'
+
+export interface OSCEKeyMoment {
+  timestamp: string
+  speaker: string
+  text: string
+  note: string
+}
+
+export type OSCECategoryScores = {
+  [key: string]: {
+    score: number
+    max: number
+    breakdown: {
+      [key: string]: {
+        score: number
+        evidence: string
+      }
+    }
+  }
+}
+
+/** An instructor's note on one turn of the conversation */
+export interface FacultyComment {
+  id: string
+  /** Position in the session transcript; null for a general comment */
+  turn_index: number | null
+  /** Start of the commented turn, so the comment can be re-anchored if indices shift */
+  turn_excerpt: string | null
+  text: string
+  author_name: string
+  created_at: string
+}
+
+/**
+ * Present once an instructor has touched the evaluation. The evaluation's own
+ * scores are then the reviewed ones; `original` keeps the AI scoring for audit.
+ */
+export interface FacultyReview {
+  reviewed: boolean
+  reviewer_name: string | null
+  reviewed_at: string | null
+  updated_at: string
+  original: Pick<OSCEEvaluation, 'overall_score' | 'max_score' | 'percentage' | 'result' | 'categories'>
+  comments: FacultyComment[]
+}
+
+export interface OSCEEvaluation {
+  overall_score: number
+  max_score: number
+  percentage: number
+  result: string
+  scenario_title: string
+  scenario_type: string
+  patient_mood: string
+  transcript_length: number
+  evaluation_time?: number
+  partial_evaluation?: boolean
+  note?: string
+  categories: OSCECategoryScores
+  feedback: {
+    strengths: string[]
+    weaknesses: string[]
+    improvements: string[]
+  }
+  empathy_analysis?: {
+    score: number
+    indicators: string[]
+    positive_examples: string[]
+    gaps: string[]
+  }
+  key_moments?: OSCEKeyMoment[]
+  ideal_clinical_response?: {
+    recommended_treatment: string
+    key_counseling_points: string[]
+    monitoring_plan: string
+  }
+  faculty_review?: FacultyReview | null
+  error?: string
+}
+
+export interface CategoryComparisonRow {
+  key: string
+  /** Percentage of the category's max per attempt, null where the attempt lacks the category */
+  percentages: (number | null)[]
+  /** Change from the first to the last attempt that has the category */
+  delta: number | null
+}
+
+export interface FeedbackChanges {
+  newStrengths: string[]
+  resolvedWeaknesses: string[]
+  persistingWeaknesses: string[]
+}
+
+export type KeyMomentMatch =
+  | { status: 'repeated'; earlier: OSCEKeyMoment; later: OSCEKeyMoment }
+  | { status: 'new'; later: OSCEKeyMoment }
+  | { status: 'gone'; earlier: OSCEKeyMoment }
+
+export interface WordDiffSegment {
+  type: 'same' | 'added' | 'removed'
+  text: string
+}
+
+/**
+ * The evaluation as the student should see it. Faculty edits are saved over
+ * the AI scoring before the review is signed off, so until then the scores
+ * come from `faculty_review.original`.
+ */
+export function getStudentFacingEvaluation(evaluation: OSCEEvaluation): OSCEEvaluation {
+  const review = evaluation.faculty_review
+  if (!review || review.reviewed) return evaluation
+  return { ...evaluation, ...review.original }
+}
+
+// A criterion scoring at least this share of its even split of the category counts as met
+const CRITERION_MET_RATIO = 0.6
+
+/**
+ * Breakdown items carry no max of their own, so a criterion is judged against
+ * an even split of its category's max.
+ */
+export function isCriterionMet(category: OSCECategoryScores[string], score: number): boolean {
+  const criteria = Object.keys(category.breakdown ?? {}).length
+  if (criteria === 0 || category.max <= 0) return false
+  return score >= (category.max / criteria) * CRITERION_MET_RATIO
+}
+
+/** Category and overall totals after breakdown scores were edited; the server recomputes the result */
+export function summarizeCategoryScores(categories: OSCECategoryScores) {
+  const totals = Object.values(categories).reduce(
+    (sum, category) => {
+      const items = Object.values(category.breakdown ?? {})
+      const score = items.length > 0 ? items.reduce((total, item) => total + item.score, 0) : category.score
+      return { score: sum.score + score, max: sum.max + category.max }
+    },
+    { score: 0, max: 0 }
+  )
+  return {
+    overall_score: totals.score,
+    max_score: totals.max,
+    percentage: totals.max > 0 ? Math.round((totals.score / totals.max) * 1000) / 10 : 0,
+  }
+}
+
+// Share of keywords two feedback lines need in common to count as the same point
+const SIMILARITY_THRESHOLD = 0.5
+
+export function textSimilarity(a: string, b: string): number {
+  const wordsA = new Set(extractKeywords(a))
+  const wordsB = new Set(extractKeywords(b))
+  if (wordsA.size === 0 || wordsB.size === 0) return a.trim().toLowerCase() === b.trim().toLowerCase() ? 1 : 0
+  const shared = Array.from(wordsA).filter((word) => wordsB.has(word)).length
+  return shared / (wordsA.size + wordsB.size - shared)
+}
+
+const hasSimilar = (text: string, others: string[]) =>
+  others.some((other) => textSimilarity(text, other) >= SIMILARITY_THRESHOLD)
+
+export function compareCategories(evaluations: OSCEEvaluation[]): CategoryComparisonRow[] {
+  const keys = Array.from(new Set(evaluations.flatMap((evaluation) => Object.keys(evaluation.categories ?? {}))))
+  return keys.map((key) => {
+    const percentages = evaluations.map((evaluation) => {
+      const category = evaluation.categories?.[key]
+      return category && category.max > 0 ? Math.round((category.score / category.max) * 1000) / 10 : null
+    })
+    const present = percentages.filter((value): value is number => value !== null)
+    const delta = present.length >= 2 ? Math.round((present[present.length - 1] - present[0]) * 10) / 10 : null
+    return { key, percentages, delta }
+  })
+}
+
+/** What changed in the written feedback between an earlier and a later attempt */
+export function compareFeedback(earlier: OSCEEvaluation, later: OSCEEvaluation): FeedbackChanges {
+  const earlierStrengths = earlier.feedback?.strengths ?? []
+  const earlierWeaknesses = earlier.feedback?.weaknesses ?? []
+  const laterStrengths = later.feedback?.strengths ?? []
+  const laterWeaknesses = later.feedback?.weaknesses ?? []
+  return {
+    newStrengths: laterStrengths.filter((strength) => !hasSimilar(strength, earlierStrengths)),
+    resolvedWeaknesses: earlierWeaknesses.filter((weakness) => !hasSimilar(weakness, laterWeaknesses)),
+    persistingWeaknesses: laterWeaknesses.filter((weakness) => hasSimilar(weakness, earlierWeaknesses)),
+  }
+}
+
+/** Pair up key moments flagged in both attempts by how similar their notes are */
+export function matchKeyMoments(earlier: OSCEKeyMoment[], later: OSCEKeyMoment[]): KeyMomentMatch[] {
+  const unmatched = [...earlier]
+  const matches: KeyMomentMatch[] = later.map((moment) => {
+    let bestIndex = -1
+    let bestScore = SIMILARITY_THRESHOLD
+    unmatched.forEach((candidate, index) => {
+      const score = textSimilarity(`${candidate.note} ${candidate.text}`, `${moment.note} ${moment.text}`)
+      if (score >= bestScore) {
+        bestScore = score
+        bestIndex = index
+      }
+    })
+    if (bestIndex === -1) return { status: 'new', later: moment }
+    const [match] = unmatched.splice(bestIndex, 1)
+    return { status: 'repeated', earlier: match, later: moment }
+  })
+  return [...matches, ...unmatched.map((moment): KeyMomentMatch => ({ status: 'gone', earlier: moment }))]
+}
+
+/** Word-level diff (longest common subsequence); key moments are short so O(n·m) is fine */
+export function diffWords(before: string, after: string): WordDiffSegment[] {
+  const a = before.split(/\s+/).filter(Boolean)
+  const b = after.split(/\s+/).filter(Boolean)
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0))
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i].toLowerCase() === b[j].toLowerCase() ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1])
+    }
+  }
+
+  const segments: WordDiffSegment[] = []
+  const push = (type: WordDiffSegment['type'], word: string) => {
+    const last = segments[segments.length - 1]
+    if (last && last.type === type) last.text += ` ${word}`
+    else segments.push({ type, text: word })
+  }
+  let i = 0
+  let j = 0
+  while (i < a.length && j < b.length) {
+    if (a[i].toLowerCase() === b[j].toLowerCase()) {
+      push('same', b[j])
+      i++
+      j++
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      push('removed', a[i++])
+    } else {
+      push('added', b[j++])
+    }
+  }
+  while (i < a.length) push('removed', a[i++])
+  while (j < b.length) push('added', b[j++])
+  return segments
+}
@@ -0,0 +1,255 @@
+/**
+ * Structured scenario authoring
+ * The instructor-facing model of a patient case, its JSON exchange format
+ * (validated on import so a hand-edited file can't produce a broken case) and
+ * checks that must pass before a scenario is published to students.
+ */
+
+import { z } from 'zod'
+
+export const RUBRIC_CATEGORIES: { key: string; label: string }[] = [
+  { key: 'communication', label: 'Communication' },
+  { key: 'information_gathering', label: 'Information Gathering' },
+  { key: 'clinical_knowledge', label: 'Clinical Knowledge' },
+  { key: 'patient_education', label: 'Patient Education' },
+  { key: 'empathy', label: 'Empathy & Rapport' },
+  { key: 'professionalism', label: 'Professionalism' },
+]
+
+export const PATIENT_MOODS = ['calm', 'anxious', 'frustrated', 'confused', 'angry', 'sad', 'talkative']
+
+const SCENARIO_EXPORT_FORMAT = 'curavoice.scenario'
+const SCENARIO_EXPORT_VERSION = 1
+
+const medicationSchema = z.object({
+  name: z.string().trim().min(1, 'Medication name is required'),
+  dose: z.string().default(''),
+  frequency: z.string().default(''),
+})
+
+const hiddenFactSchema = z.object({
+  fact: z.string().trim().min(1, 'Hidden fact text is required'),
+  /** What the student has to ask about before the patient volunteers it */
+  reveal_when: z.string().default(''),
+})
+
+export const patientCaseSchema = z.object({
+  demographics: z.object({
+    name: z.string().default(''),
+    age: z.number().int().min(0).max(120).nullable().default(null),
+    sex: z.enum(['female', 'male', 'other', 'unspecified']).default('unspecified'),
+    occupation: z.string().default(''),
+  }),
+  background: z.string().default(''),
+  medications: z.array(medicationSchema).default([]),
+  allergies: z.array(z.string().trim().min(1)).default([]),
+  hidden_facts: z.array(hiddenFactSchema).default([]),
+  opening_line: z.string().default(''),
+  mood: z.string().default('calm'),
+  expected_actions: z.array(z.string().trim().min(1)).default([]),
+  /** Percentage weight per rubric category; should total 100 */
+  rubric_weights: z.record(z.string(), z.number().min(0).max(100)).default({}),
+})
+
+const scenarioContentSchema = z.object({
+  title: z.string().trim().min(1, 'Title is required'),
+  description: z.string().default(''),
+  mode: z.enum(['clinical', 'nonclinical']).default('clinical'),
+  category: z.string().default('otc'),
+  difficulty: z.enum(['beginner', 'intermediate', 'advanced']).default('intermediate'),
+  estimated_minutes: z.number().int().positive().default(8),
+  tags: z.array(z.string()).default([]),
+  patient: patientCaseSchema,
+})
+
+const scenarioExportSchema = z.object({
+  format: z.literal(SCENARIO_EXPORT_FORMAT),
+  version: z.number().int().positive(),
+  scenario: scenarioContentSchema,
+})
+
+export type PatientCase = z.infer<typeof patientCaseSchema>
+export type PatientMedication = PatientCase['medications'][number]
+export type HiddenFact = PatientCase['hidden_facts'][number]
+/** Everything an instructor edits; what gets exported and imported */
+export type ScenarioDraft = z.infer<typeof scenarioContentSchema>
+
+export type ScenarioStatus = 'draft' | 'published'
+
+export interface AuthoredScenario extends ScenarioDraft {
+  id: string
+  status: ScenarioStatus
+  updated_at: string
+  published_at: string | null
+  author_name?: string
+}
+
+export function getDefaultRubricWeights(): Record<string, number> {
+  const base = Math.floor(100 / RUBRIC_CATEGORIES.length)
+  const weights: Record<string, number> = {}
+  RUBRIC_CATEGORIES.forEach((category, index) => {
+    // Give the rounding remainder to the first category so the total is exactly 100
+    weights[category.key] = index === 0 ? 100 - base * (RUBRIC_CATEGORIES.length - 1) : base
+  })
+  return weights
+}
+
+export function createEmptyScenarioDraft(): ScenarioDraft {
+  return {
+    title: '',
+    description: '',
+    mode: 'clinical',
+    category: 'otc',
+    difficulty: 'intermediate',
+    estimated_minutes: 8,
+    tags: [],
+    patient: {
+      demographics: { name: '', age: null, sex: 'unspecified', occupation: '' },
+      background: '',
+      medications: [],
+      allergies: [],
+      hidden_facts: [],
+      opening_line: '',
+      mood: 'calm',
+      expected_actions: [],
+      rubric_weights: getDefaultRubricWeights(),
+    },
+  }
+}
+
+export function toScenarioDraft(scenario: AuthoredScenario): ScenarioDraft {
+  const { title, description, mode, category, difficulty, estimated_minutes, tags, patient } = scenario
+  return { title, description, mode, category, difficulty, estimated_minutes, tags, patient }
+}
+
+export function getRubricWeightTotal(weights: Record<string, number>): number {
+  return Object.values(weights).reduce((sum, weight) => sum + (Number.isFinite(weight) ? weight : 0), 0)
+}
+
+/**
+ * Problems that block publishing. Drafts can be saved with any of these.
+ */
+export function getPublishProblems(draft: ScenarioDraft): string[] {
+  const problems: string[] = []
+  if (!draft.title.trim()) problems.push('Add a title.')
+  if (!draft.description.trim()) problems.push('Add a short description students see in the library.')
+  if (!draft.patient.background.trim()) problems.push('Describe the patient background.')
+  if (!draft.patient.opening_line.trim()) problems.push("Write the patient's opening line.")
+  if (draft.patient.expected_actions.length === 0) problems.push('List at least one expected action.')
+  const total = getRubricWeightTotal(draft.patient.rubric_weights)
+  if (total !== 100) problems.push(`Rubric weights add up to ${total}%, not 100%.`)
+  return problems
+}
+
+export function exportScenarioJson(draft: ScenarioDraft): string {
+  return JSON.stringify(
+    { format: SCENARIO_EXPORT_FORMAT, version: SCENARIO_EXPORT_VERSION, scenario: draft },
+    null,
+    2
+  )
+}
+
+export function getScenarioExportFilename(draft: ScenarioDraft): string {
+  const slug = draft.title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'scenario'
+  return `${slug}.scenario.json`
+}
+
+/** Save the scenario as a shareable JSON file via a temporary download link */
+export function downloadScenarioFile(draft: ScenarioDraft): void {
+  const blob = new Blob([exportScenarioJson(draft)], { type: 'application/json' })
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement('a')
+  link.href = url
+  link.download = getScenarioExportFilename(draft)
+  link.click()
+  URL.revokeObjectURL(url)
+}
+
+/**
+ * Parse a shared scenario file. Throws an Error whose message lists what is
+ * wrong, suitable for showing to the instructor.
+ */
+export function parseScenarioImport(text: string): ScenarioDraft {
+  let data: unknown
+  try {
+    data = JSON.parse(text)
+  } catch {
+    throw new Error('That file is not valid JSON.')
+  }
+
+  const result = scenarioExportSchema.safeParse(data)
+  if (!result.success) {
+    const details = result.error.issues
+      .slice(0, 5)
+      .map((issue) => `${issue.path.join('.') || 'file'}: ${issue.message}`)
+      .join('; ')
+    throw new Error(`This is not a valid scenario file (${details}).`)
+  }
+  if (result.data.version > SCENARIO_EXPORT_VERSION) {
+    throw new Error('This scenario was exported by a newer version of CuraVoice. Please update and try again.')
+  }
+  return result.data.scenario
+}
+
+const authoredScenarioSchema = scenarioContentSchema.extend({
+  id: z.string().min(1),
+  status: z.enum(['draft', 'published']),
+  updated_at: z.string(),
+  published_at: z.string().nullable(),
+  author_name: z.string().optional(),
+})
+
+/**
+ * Read back a scenario the editor handed to the training page for a test run.
+ * Returns null for anything that is not valid JSON or not a saved scenario
+ * (e.g. written by an older version of the editor).
+ */
+export function parseTestRunScenario(raw: string): AuthoredScenario | null {
+  try {
+    const result = authoredScenarioSchema.safeParse(JSON.parse(raw))
+    return result.success ? result.data : null
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Plain-text brief of the case, sent alongside the structured case so servers
+ * that only understand `custom_scenario` can still run it. Also shown in the
+ * editor preview.
+ */
+export function patientCaseToPrompt(draft: ScenarioDraft): string {
+  const { patient } = draft
+  const { demographics } = patient
+  const who = [
+    demographics.name,
+    demographics.age !== null ? `${demographics.age} years old` : '',
+    demographics.sex !== 'unspecified' ? demographics.sex : '',
+    demographics.occupation,
+  ].filter(Boolean).join(', ')
+  const list = (items: string[]) => (items.length > 0 ? items.map((item) => `- ${item}`).join('\n') : 'None')
+
+  return `
+STRUCTURED PATIENT CASE: ${draft.title}
+
+Patient: ${who || 'Not specified'}
+Mood: ${patient.mood}
+
+Background:
+${patient.background || 'Not specified'}
+
+Medications:
+${list(patient.medications.map((med) => [med.name, med.dose, med.frequency].filter(Boolean).join(' ')))}
+
+Allergies:
+${list(patient.allergies)}
+
+Hidden facts (only reveal when the student asks about the trigger):
+${list(patient.hidden_facts.map((item) => `${item.fact}${item.reveal_when ? ` [reveal when asked about: ${item.reveal_when}]` : ''}`))}
+
+Patient's opening statement:
+"${patient.opening_line}"
+
+INSTRUCTIONS: Role-play as this patient. Stay in character. Do not volunteer hidden facts unless asked.
+`.trim()
+}
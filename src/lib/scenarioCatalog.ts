@@ -0,0 +1,111 @@
+/**
+ * Scenario library helpers
+ * Category and filter definitions shared by the scenario browser and the
+ * training setup form, plus the per-scenario practice history shown as
+ * "practised before" badges.
+ */
+
+import type { ScenarioDifficulty, TrainingScenario } from './trainingApi'
+
+export const SCENARIO_CATEGORIES: { value: string; label: string }[] = [
+  { value: 'cardiovascular', label: 'Cardiovascular' },
+  { value: 'otc', label: 'OTC' },
+  { value: 'respiratory', label: 'Respiratory' },
+  { value: 'diabetes', label: 'Diabetes' },
+  { value: 'pain_management', label: 'Pain Management' },
+  { value: 'mental_health', label: 'Mental Health' },
+  { value: 'pediatric', label: 'Pediatric' },
+  { value: 'geriatric', label: 'Geriatric' },
+  { value: 'womens_health', label: "Women's Health" },
+]
+
+export const SCENARIO_DIFFICULTIES: { value: ScenarioDifficulty; label: string }[] = [
+  { value: 'beginner', label: 'Beginner' },
+  { value: 'intermediate', label: 'Intermediate' },
+  { value: 'advanced', label: 'Advanced' },
+]
+
+export type DurationBucket = 'short' | 'medium' | 'long'
+
+export const DURATION_BUCKETS: { value: DurationBucket; label: string; min: number; max: number }[] = [
+  { value: 'short', label: 'Under 5 min', min: 0, max: 5 },
+  { value: 'medium', label: '5–10 min', min: 5, max: 10 },
+  { value: 'long', label: 'Over 10 min', min: 10, max: Infinity },
+]
+
+export interface ScenarioFilters {
+  search: string
+  category: string | null
+  mood: string | null
+  difficulty: ScenarioDifficulty | null
+  duration: DurationBucket | null
+}
+
+export const EMPTY_SCENARIO_FILTERS: ScenarioFilters = {
+  search: '',
+  category: null,
+  mood: null,
+  difficulty: null,
+  duration: null,
+}
+
+export interface ScenarioPracticeHistory {
+  attempts: number
+  bestScore: number | null
+  lastPractisedAt: string
+}
+
+export function getCategoryLabel(category: string): string {
+  return SCENARIO_CATEGORIES.find((option) => option.value === category)?.label ?? category
+}
+
+export function filterScenarios(scenarios: TrainingScenario[], filters: ScenarioFilters): TrainingScenario[] {
+  const terms = filters.search.toLowerCase().split(/\s+/).filter(Boolean)
+  const bucket = DURATION_BUCKETS.find((option) => option.value === filters.duration)
+
+  return scenarios.filter((scenario) => {
+    if (filters.category && scenario.category !== filters.category) return false
+    if (filters.mood && scenario.patient_mood !== filters.mood) return false
+    if (filters.difficulty && scenario.difficulty !== filters.difficulty) return false
+    if (bucket && (scenario.estimated_minutes < bucket.min || scenario.estimated_minutes >= bucket.max)) return false
+    if (terms.length === 0) return true
+
+    const haystack = [
+      scenario.title,
+      scenario.description,
+      getCategoryLabel(scenario.category),
+      scenario.patient_mood,
+      ...(scenario.tags ?? []),
+    ]
+      .join(' ')
+      .toLowerCase()
+    return terms.every((term) => haystack.includes(term))
+  })
+}
+
+/**
+ * Group the student's past sessions by scenario. Only sessions started from the
+ * library carry a scenario_id that matches a catalogue entry.
+ */
+export function buildPracticeHistory(
+  sessions: { scenario_id?: string | null; started_at: string; evaluation_score?: number | null }[]
+): Map<string, ScenarioPracticeHistory> {
+  const history = new Map<string, ScenarioPracticeHistory>()
+  sessions.forEach((session) => {
+    if (!session.scenario_id) return
+    const score = session.evaluation_score ?? null
+    const existing = history.get(session.scenario_id)
+    if (!existing) {
+      history.set(session.scenario_id, { attempts: 1, bestScore: score, lastPractisedAt: session.started_at })
+      return
+    }
+    existing.attempts += 1
+    if (score !== null && (existing.bestScore === null || score > existing.bestScore)) {
+      existing.bestScore = score
+    }
+    if (session.started_at > existing.lastPractisedAt) {
+      existing.lastPractisedAt = session.started_at
+    }
+  })
+  return history
+}
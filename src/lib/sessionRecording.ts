@@ -0,0 +1,162 @@
+/**
+ * Local session recordings
+ * Keeps both sides of a training encounter (the student's microphone clips and
+ * the patient audio that was played) plus the transcript, timed against the
+ * start of the session so it can be replayed later. Recordings never leave the
+ * device: they live in IndexedDB and only the most recent few are kept.
+ */
+
+const DB_NAME = 'curavoice_recordings'
+const DB_VERSION = 1
+const STORE_NAME = 'recordings'
+/** Audio adds up quickly; older recordings are pruned past this */
+export const MAX_STORED_RECORDINGS = 10
+
+export type RecordingSpeaker = 'student' | 'patient'
+
+export interface RecordedClip {
+  speaker: RecordingSpeaker
+  /** Offset from the start of the recording */
+  offsetMs: number
+  durationMs: number
+  blob: Blob
+}
+
+export interface RecordedTurn {
+  speaker: RecordingSpeaker
+  text: string
+  offsetMs: number
+  interrupted: boolean
+}
+
+export interface SessionRecording {
+  sessionId: string
+  scenarioTitle?: string
+  /** Wall-clock start, ms since epoch */
+  startedAt: number
+  durationMs: number
+  clips: RecordedClip[]
+  transcript: RecordedTurn[]
+}
+
+export interface SessionRecorder {
+  /** `startedAt` is wall-clock ms; converted to an offset from the session start */
+  addClip: (speaker: RecordingSpeaker, blob: Blob, startedAt: number, durationMs: number) => void
+  /** Shorten the speaker's latest clip, e.g. when the patient was interrupted */
+  truncateLastClip: (speaker: RecordingSpeaker, durationMs: number) => void
+  /** Persist the recording with its transcript; failures are logged, not thrown */
+  save: (transcript: { speaker: RecordingSpeaker; text: string; timestamp: number; interrupted: boolean }[]) => Promise<void>
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB is not available'))
+      return
+    }
+    const request = indexedDB.open(DB_NAME, DB_VERSION)
+    request.onupgradeneeded = () => {
+      const db = request.result
+      if (!db.objectStoreNames.contains(STORE_NAME)) {
+        db.createObjectStore(STORE_NAME, { keyPath: 'sessionId' })
+      }
+    }
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+async function withStore<T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDatabase()
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const request = run(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME))
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => reject(request.error)
+    })
+  } finally {
+    db.close()
+  }
+}
+
+export async function getSessionRecording(sessionId: string): Promise<SessionRecording | null> {
+  const recording = await withStore<SessionRecording | undefined>('readonly', (store) => store.get(sessionId))
+  return recording ?? null
+}
+
+export async function listRecordedSessionIds(): Promise<string[]> {
+  const keys = await withStore('readonly', (store) => store.getAllKeys())
+  return keys.map(String)
+}
+
+export async function deleteSessionRecording(sessionId: string): Promise<void> {
+  await withStore('readwrite', (store) => store.delete(sessionId))
+}
+
+async function pruneRecordings(): Promise<void> {
+  const recordings = await withStore<SessionRecording[]>('readonly', (store) => store.getAll())
+  const stale = recordings
+    .sort((a, b) => b.startedAt - a.startedAt)
+    .slice(MAX_STORED_RECORDINGS)
+  for (const recording of stale) {
+    await deleteSessionRecording(recording.sessionId)
+  }
+}
+
+export async function saveSessionRecording(recording: SessionRecording): Promise<void> {
+  await withStore('readwrite', (store) => store.put(recording))
+  await pruneRecordings()
+}
+
+export function createSessionRecorder(sessionId: string, scenarioTitle?: string): SessionRecorder {
+  const startedAt = Date.now()
+  const clips: RecordedClip[] = []
+
+  return {
+    addClip: (speaker, blob, clipStartedAt, durationMs) => {
+      if (blob.size === 0) return
+      clips.push({
+        speaker,
+        offsetMs: Math.max(0, clipStartedAt - startedAt),
+        durationMs: Math.max(0, Math.round(durationMs)),
+        blob,
+      })
+    },
+    truncateLastClip: (speaker, durationMs) => {
+      for (let i = clips.length - 1; i >= 0; i--) {
+        if (clips[i].speaker === speaker) {
+          clips[i] = { ...clips[i], durationMs: Math.min(clips[i].durationMs, Math.round(durationMs)) }
+          return
+        }
+      }
+    },
+    save: async (transcript) => {
+      const turns: RecordedTurn[] = transcript
+        .filter((turn) => turn.text.trim())
+        .map((turn) => ({
+          speaker: turn.speaker,
+          text: turn.text,
+          offsetMs: Math.max(0, turn.timestamp - startedAt),
+          interrupted: turn.interrupted,
+        }))
+      if (clips.length === 0 && turns.length === 0) return
+
+      try {
+        await saveSessionRecording({
+          sessionId,
+          scenarioTitle,
+          startedAt,
+          durationMs: Date.now() - startedAt,
+          clips: [...clips].sort((a, b) => a.offsetMs - b.offsetMs),
+          transcript: turns,
+        })
+        console.log('[SessionRecording] Saved', clips.length, 'clips and', turns.length, 'turns for session', sessionId)
+      } catch (err) {
+        console.error('[SessionRecording] Failed to save recording:', err)
+      }
+    },
+  }
+}
@@ -0,0 +1,214 @@
+/**
+ * Session search
+ * Filters, sorting and paging for the Reports session list. Search, filters
+ * and sorting are applied by the server so they cover the whole history, not
+ * just the pages loaded so far; this module only translates the UI state into
+ * query parameters and builds the spreadsheet export.
+ */
+
+import { getCategoryLabel as getRubricCategoryLabel } from './competency'
+import { RUBRIC_CATEGORIES } from './scenarioAuthoring'
+import { DURATION_BUCKETS, getCategoryLabel, type DurationBucket } from './scenarioCatalog'
+import type { TableRow } from './tableExport'
+import { formatScenarioTitle, mapWithConcurrency } from './utils'
+
+export const SESSIONS_PAGE_SIZE = 25
+const EXPORT_PAGE_SIZE = 100
+// 5,000 sessions; a runaway server response can't keep the loop going forever
+const MAX_EXPORT_PAGES = 50
+const EXPORT_CONCURRENCY = 4
+/** Matches the 80% pass mark used across Reports */
+const PASS_SCORE = 80
+
+export interface SessionSummary {
+  id: string
+  scenario_id?: string | null
+  scenario_title: string
+  category: string
+  scenario_type: string
+  patient_mood: string
+  started_at: string
+  ended_at: string | null
+  duration_seconds: number | null
+  total_turns: number
+  has_evaluation: boolean
+  evaluation_score: number | null
+  evaluation_completed_at: string | null
+}
+
+export type SessionDateRange = 'all' | '7days' | '30days' | '90days'
+export type SessionStatusFilter = 'all' | 'evaluated' | 'not_evaluated'
+
+export interface SessionFilters {
+  search: string
+  dateRange: SessionDateRange
+  status: SessionStatusFilter
+  category: string | null
+  mood: string | null
+  minScore: number | null
+  maxScore: number | null
+  duration: DurationBucket | null
+}
+
+export const EMPTY_SESSION_FILTERS: SessionFilters = {
+  search: '',
+  dateRange: 'all',
+  status: 'all',
+  category: null,
+  mood: null,
+  minScore: null,
+  maxScore: null,
+  duration: null,
+}
+
+export type SessionSortField = 'started_at' | 'scenario_title' | 'duration_seconds' | 'total_turns' | 'evaluation_score'
+
+export interface SessionSort {
+  field: SessionSortField
+  direction: 'asc' | 'desc'
+}
+
+export const DEFAULT_SESSION_SORT: SessionSort = { field: 'started_at', direction: 'desc' }
+
+export const SESSION_SORT_FIELDS: { value: SessionSortField; label: string }[] = [
+  { value: 'scenario_title', label: 'Scenario' },
+  { value: 'started_at', label: 'Date' },
+  { value: 'duration_seconds', label: 'Duration' },
+  { value: 'total_turns', label: 'Turns' },
+  { value: 'evaluation_score', label: 'Score' },
+]
+
+/** Query parameters understood by GET /training/sessions */
+export interface SessionSearchQuery {
+  /** Matches scenario titles and transcript text */
+  q?: string
+  scenario_id?: string
+  evaluated?: boolean
+  started_after?: string
+  category?: string
+  patient_mood?: string
+  min_score?: number
+  max_score?: number
+  min_duration?: number
+  max_duration?: number
+  sort_by?: SessionSortField
+  sort_order?: 'asc' | 'desc'
+}
+
+const DATE_RANGE_DAYS: Record<Exclude<SessionDateRange, 'all'>, number> = {
+  '7days': 7,
+  '30days': 30,
+  '90days': 90,
+}
+
+export function hasActiveSessionFilters(filters: SessionFilters): boolean {
+  return (Object.keys(EMPTY_SESSION_FILTERS) as (keyof SessionFilters)[]).some(
+    (key) => filters[key] !== EMPTY_SESSION_FILTERS[key]
+  )
+}
+
+/** New sort when a column header is clicked: same column flips, a new one starts descending */
+export function toggleSessionSort(current: SessionSort, field: SessionSortField): SessionSort {
+  if (current.field === field) return { field, direction: current.direction === 'asc' ? 'desc' : 'asc' }
+  return { field, direction: field === 'scenario_title' ? 'asc' : 'desc' }
+}
+
+export function buildSessionSearchQuery(filters: SessionFilters, sort: SessionSort): SessionSearchQuery {
+  const bucket = DURATION_BUCKETS.find((option) => option.value === filters.duration)
+  let startedAfter: string | undefined
+  if (filters.dateRange !== 'all') {
+    const cutoff = new Date()
+    cutoff.setDate(cutoff.getDate() - DATE_RANGE_DAYS[filters.dateRange])
+    startedAfter = cutoff.toISOString()
+  }
+
+  return {
+    q: filters.search.trim() || undefined,
+    evaluated: filters.status === 'all' ? undefined : filters.status === 'evaluated',
+    started_after: startedAfter,
+    category: filters.category ?? undefined,
+    patient_mood: filters.mood ?? undefined,
+    min_score: filters.minScore ?? undefined,
+    max_score: filters.maxScore ?? undefined,
+    // Buckets are in minutes, the API filters on seconds
+    min_duration: bucket && bucket.min > 0 ? bucket.min * 60 : undefined,
+    max_duration: bucket && Number.isFinite(bucket.max) ? bucket.max * 60 : undefined,
+    sort_by: sort.field,
+    sort_order: sort.direction,
+  }
+}
+
+/**
+ * Every session matching the query, fetched a page at a time. Stops at a short
+ * page, a page with nothing new (a server ignoring `skip`) or the page cap.
+ */
+export async function fetchAllMatchingSessions(query: SessionSearchQuery): Promise<SessionSummary[]> {
+  const { apiClient } = await import('./api')
+  const sessions: SessionSummary[] = []
+  const seenIds = new Set<string>()
+  for (let pageIndex = 0; pageIndex < MAX_EXPORT_PAGES; pageIndex++) {
+    const page = await apiClient.searchSessions(query, EXPORT_PAGE_SIZE, pageIndex * EXPORT_PAGE_SIZE)
+    const fresh = page.filter((session) => !seenIds.has(session.id))
+    fresh.forEach((session) => {
+      seenIds.add(session.id)
+      sessions.push(session)
+    })
+    if (page.length < EXPORT_PAGE_SIZE || fresh.length === 0) return sessions
+  }
+  console.warn(`[SessionSearch] Stopped after ${MAX_EXPORT_PAGES} pages; later sessions were left out`)
+  return sessions
+}
+
+/**
+ * Header plus one row per session, in the given order, with each OSCE
+ * category score as a percentage. Evaluations that fail to load leave their
+ * category columns empty rather than failing the export.
+ */
+export async function buildSessionExportRows(sessions: SessionSummary[]): Promise<TableRow[]> {
+  const { apiClient } = await import('./api')
+  const evaluations = await mapWithConcurrency(sessions, EXPORT_CONCURRENCY, (session) =>
+    session.has_evaluation ? apiClient.getSessionEvaluation(session.id) : Promise.resolve(null)
+  )
+
+  const rubricKeys = RUBRIC_CATEGORIES.map((category) => category.key)
+  const extraKeys = new Set<string>()
+  evaluations.forEach((evaluation) =>
+    Object.keys(evaluation?.categories ?? {}).forEach((key) => {
+      if (!rubricKeys.includes(key)) extraKeys.add(key)
+    })
+  )
+  const categoryKeys = [...rubricKeys, ...Array.from(extraKeys).sort()]
+
+  const header: TableRow = [
+    'Date',
+    'Scenario',
+    'Category',
+    'Patient mood',
+    'Duration (min)',
+    'Turns',
+    'Score',
+    'Result',
+    ...categoryKeys.map((key) => `${getRubricCategoryLabel(key)} (%)`),
+  ]
+
+  const rows = sessions.map((session, index): TableRow => {
+    const categories = evaluations[index]?.categories ?? {}
+    const score = session.evaluation_score
+    return [
+      new Date(session.started_at).toISOString().slice(0, 16).replace('T', ' '),
+      formatScenarioTitle(session.scenario_title),
+      getCategoryLabel(session.category),
+      formatScenarioTitle(session.patient_mood),
+      session.duration_seconds === null ? null : Math.round((session.duration_seconds / 60) * 10) / 10,
+      session.total_turns,
+      score,
+      score === null ? null : score >= PASS_SCORE ? 'Pass' : 'Fail',
+      ...categoryKeys.map((key) => {
+        const category = categories[key]
+        return category && category.max > 0 ? Math.round((category.score / category.max) * 1000) / 10 : null
+      }),
+    ]
+  })
+
+  return [header, ...rows]
+}
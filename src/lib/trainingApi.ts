@@ -3,8 +3,16 @@
  * Handles communication with the backend training API
  */
 
-const API_BASE = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:8000';
-const API_V1_BASE = `${API_BASE}/api/v1`;
+import { ensureFreshAccessToken, getAccessToken, http, toWebSocketUrl } from './httpClient';
+import {
+  buildHelloMessage,
+  ClientMessage,
+  parseServerFrame,
+  serializeClientMessage,
+  ServerMessage,
+} from './trainingProtocol';
+import type { TelemetrySummary } from './turnTelemetry';
+import type { PatientCase } from './scenarioAuthoring';
 
 export interface TrainingSession {
   id: string;
@@ -32,18 +40,50 @@ export interface CreateSessionRequest {
   mode?: string; // "clinical" or "nonclinical"
   medical_category?: string; // "cardiovascular", "otc", "random", etc.
   custom_scenario?: string; // Custom scenario description
+  input_mode?: 'voice' | 'text'; // How the student responds; text turns are evaluated like spoken ones
+  scenario_id?: string; // A specific scenario from the library; overrides medical_category
+  patient_case?: PatientCase; // Structured case from the authoring tool; custom_scenario carries a text fallback
+  test_run?: boolean; // Instructor trying out a scenario; not counted in the instructor's reports
+  circuit_id?: string; // Groups the stations of one OSCE circuit
+  circuit_station?: number; // 1-based station number within the circuit
 }
 
+export type ScenarioDifficulty = 'beginner' | 'intermediate' | 'advanced';
+
 /**
- * Get authentication token from localStorage
+ * Scenario library entry
  */
-async function getAuthToken(): Promise<string | null> {
-  if (typeof window === 'undefined') return null;
-  
-  // Get token from localStorage (set by apiClient.login/register)
-  return localStorage.getItem('access_token') || null;
+export interface TrainingScenario {
+  id: string;
+  title: string;
+  description: string;
+  mode: 'clinical' | 'nonclinical';
+  category: string; // medical_category, e.g. "cardiovascular", "otc"
+  patient_mood: string;
+  difficulty: ScenarioDifficulty;
+  estimated_minutes: number;
+  tags?: string[];
+}
+
+export type TrainingMessageHandler = (message: ServerMessage) => void;
+
+/**
+ * Minimal socket surface the send helpers need. Satisfied by a raw WebSocket
+ * and by the reconnecting TrainingConnection, which buffers while offline.
+ */
+export type TrainingSocket = Pick<WebSocket, 'readyState' | 'send'>;
+
+export interface ConnectOptions {
+  onOpen?: () => void;
+  /** Called after the built-in close handling, with the raw close event */
+  onClose?: (event: CloseEvent) => void;
+  /** A well-formed frame of a type this client doesn't understand */
+  onUnknownMessage?: (type: string) => void;
 }
 
+// Unknown types are logged once each so a newer server doesn't flood the console
+const reportedUnknownTypes = new Set<string>();
+
 /**
  * Create a new training session
  */
@@ -51,51 +91,39 @@ export async function createTrainingSession(
   request: CreateSessionRequest = {}
 ): Promise<TrainingSession> {
   console.log('[TrainingAPI] Creating training session with request:', request);
-  const token = await getAuthToken();
-  console.log('[TrainingAPI] Auth token:', token ? `${token.substring(0, 20)}...` : 'None');
-  
-  const url = `${API_V1_BASE}/training/sessions`;
-  console.log('[TrainingAPI] POST to:', url);
-  
-  const response = await fetch(url, {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      ...(token && { 'Authorization': `Bearer ${token}` }),
-    },
-    body: JSON.stringify(request),
-  });
 
-  console.log('[TrainingAPI] Response status:', response.status, response.statusText);
-
-  if (!response.ok) {
-    const errorText = await response.text();
-    console.error('[TrainingAPI] Error response:', errorText);
-    throw new Error(`Failed to create training session: ${response.statusText}`);
-  }
-
-  const data = await response.json();
+  const data = await http.post<TrainingSession>('/training/sessions', request, {
+    errorMessage: 'Failed to create training session',
+  });
   console.log('[TrainingAPI] Session created:', data);
   return data;
 }
 
 /**
- * Get training session details
+ * List the scenario library
  */
-export async function getTrainingSession(sessionId: string): Promise<TrainingSessionDetail> {
-  const token = await getAuthToken();
-  
-  const response = await fetch(`${API_V1_BASE}/training/sessions/${sessionId}`, {
-    headers: {
-      ...(token && { 'Authorization': `Bearer ${token}` }),
-    },
+export async function listTrainingScenarios(): Promise<TrainingScenario[]> {
+  return http.get<TrainingScenario[]>('/training/scenarios', {
+    errorMessage: 'Failed to load scenario library',
   });
+}
 
-  if (!response.ok) {
-    throw new Error(`Failed to get training session: ${response.statusText}`);
-  }
+/**
+ * Get a single library scenario
+ */
+export async function getTrainingScenario(scenarioId: string): Promise<TrainingScenario> {
+  return http.get<TrainingScenario>(`/training/scenarios/${encodeURIComponent(scenarioId)}`, {
+    errorMessage: 'Failed to load scenario',
+  });
+}
 
-  return response.json();
+/**
+ * Get training session details
+ */
+export async function getTrainingSession(sessionId: string): Promise<TrainingSessionDetail> {
+  return http.get<TrainingSessionDetail>(`/training/sessions/${sessionId}`, {
+    errorMessage: 'Failed to get training session',
+  });
 }
 
 /**
@@ -105,92 +133,65 @@ export async function listTrainingSessions(
   skip: number = 0,
   limit: number = 20
 ): Promise<TrainingSession[]> {
-  const token = await getAuthToken();
-  
-  const response = await fetch(
-    `${API_V1_BASE}/training/sessions?skip=${skip}&limit=${limit}`,
-    {
-      headers: {
-        ...(token && { 'Authorization': `Bearer ${token}` }),
-      },
-    }
-  );
-
-  if (!response.ok) {
-    throw new Error(`Failed to list training sessions: ${response.statusText}`);
-  }
-
-  return response.json();
+  return http.get<TrainingSession[]>('/training/sessions', {
+    query: { skip, limit },
+    errorMessage: 'Failed to list training sessions',
+  });
 }
 
 /**
  * End a training session
+ * `telemetry` is the client's latency/quality summary for the session, if collected.
  */
 export async function endTrainingSession(
   sessionId: string,
-  conversationData?: any
+  conversationData?: any,
+  telemetry?: TelemetrySummary
 ): Promise<TrainingSession> {
-  const token = await getAuthToken();
-  
-  if (!token) {
+  if (!getAccessToken()) {
     console.warn('[TrainingAPI] No auth token available for ending session');
     // Don't throw error - session will be saved via WebSocket disconnect
     return { id: sessionId } as TrainingSession;
   }
-  
-  const response = await fetch(`${API_V1_BASE}/training/sessions/${sessionId}/end`, {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      'Authorization': `Bearer ${token}`,
-    },
-    body: JSON.stringify({ conversation_data: conversationData }),
-  });
 
-  if (!response.ok) {
-    const errorText = await response.text();
-    console.error('[TrainingAPI] Failed to end session:', response.status, errorText);
+  try {
+    return await http.post<TrainingSession>(`/training/sessions/${sessionId}/end`, {
+      conversation_data: conversationData,
+      telemetry,
+    });
+  } catch (error) {
+    console.error('[TrainingAPI] Failed to end session:', error);
     // Don't throw - session is already saved via WebSocket disconnect
     return { id: sessionId } as TrainingSession;
   }
-
-  return response.json();
 }
 
 /**
  * Delete a training session
  */
 export async function deleteTrainingSession(sessionId: string): Promise<void> {
-  const token = await getAuthToken();
-  
-  const response = await fetch(`${API_V1_BASE}/training/sessions/${sessionId}`, {
-    method: 'DELETE',
-    headers: {
-      ...(token && { 'Authorization': `Bearer ${token}` }),
-    },
+  await http.delete(`/training/sessions/${sessionId}`, {
+    errorMessage: 'Failed to delete training session',
   });
-
-  if (!response.ok) {
-    throw new Error(`Failed to delete training session: ${response.statusText}`);
-  }
 }
 
 /**
  * Connect to training conversation WebSocket
+ * Refreshes the access token first if it is close to expiry, since the socket
+ * authenticates once on connect and cannot be replayed like a REST call.
  */
-export function connectToTrainingConversation(
+export async function connectToTrainingConversation(
   sessionId: string,
-  onMessage: (data: any) => void,
+  onMessage: TrainingMessageHandler,
   onAudio: (audioBlob: Blob) => void,
-  onError: (error: Error) => void
-): WebSocket {
-  const wsBase = API_V1_BASE.replace('http://', 'ws://').replace('https://', 'wss://');
-  
-  // Get auth token and add it as query parameter
-  const token = typeof window !== 'undefined' ? localStorage.getItem('access_token') : null;
-  const wsUrl = token 
-    ? `${wsBase}/training/sessions/${sessionId}/conversation?token=${encodeURIComponent(token)}`
-    : `${wsBase}/training/sessions/${sessionId}/conversation`;
+  onError: (error: Error) => void,
+  options: ConnectOptions = {}
+): Promise<WebSocket> {
+  const wsBase = toWebSocketUrl(`/training/sessions/${sessionId}/conversation`);
+
+  // Get a fresh auth token and add it as query parameter
+  const token = await ensureFreshAccessToken(5 * 60);
+  const wsUrl = token ? `${wsBase}?token=${encodeURIComponent(token)}` : wsBase;
   
   console.log('[TrainingAPI] Connecting to WebSocket:', wsUrl.split('?')[0] + (token ? '?token=***' : ''));
   const ws = new WebSocket(wsUrl);
@@ -198,6 +199,9 @@ export function connectToTrainingConversation(
   ws.onopen = () => {
     console.log('[TrainingAPI] WebSocket OPENED - Connected to training session:', sessionId);
     console.log('[TrainingAPI] WebSocket readyState:', ws.readyState);
+    // Version negotiation: must be the first frame on every socket
+    sendClientMessage(ws, buildHelloMessage());
+    options.onOpen?.();
   };
 
   ws.onmessage = (event) => {
@@ -213,12 +217,17 @@ export function connectToTrainingConversation(
     } else {
       // JSON message
       console.log('[TrainingAPI] Received text message:', event.data);
-      try {
-        const data = JSON.parse(event.data);
-        console.log('[TrainingAPI] Parsed message:', data);
-        onMessage(data);
-      } catch (error) {
-        console.error('[TrainingAPI] Failed to parse message:', error, 'Raw data:', event.data);
+      const frame = parseServerFrame(event.data);
+      if (frame.kind === 'message') {
+        onMessage(frame.message);
+      } else if (frame.kind === 'unknown') {
+        if (!reportedUnknownTypes.has(frame.type)) {
+          reportedUnknownTypes.add(frame.type);
+          console.warn('[TrainingAPI] Ignoring unknown message type:', frame.type);
+        }
+        options.onUnknownMessage?.(frame.type);
+      } else {
+        console.error('[TrainingAPI] Dropping invalid message:', frame.reason, 'Raw data:', event.data);
       }
     }
   };
@@ -263,15 +272,28 @@ export function connectToTrainingConversation(
         onError(new Error(`WebSocket closed: ${event.reason || `Code ${event.code}`}`));
       }
     }
+
+    options.onClose?.(event);
   };
 
   return ws;
 }
 
+/**
+ * Validate and send a protocol frame
+ */
+export function sendClientMessage(ws: TrainingSocket, message: ClientMessage) {
+  if (ws.readyState !== WebSocket.OPEN) return;
+  const frame = serializeClientMessage(message);
+  if (frame) {
+    ws.send(frame);
+  }
+}
+
 /**
  * Send audio data to training conversation
  */
-export function sendAudioToTraining(ws: WebSocket, audioData: Blob | ArrayBuffer) {
+export function sendAudioToTraining(ws: TrainingSocket, audioData: Blob | ArrayBuffer) {
   if (ws.readyState === WebSocket.OPEN) {
     ws.send(audioData);
   }
@@ -280,12 +302,40 @@ export function sendAudioToTraining(ws: WebSocket, audioData: Blob | ArrayBuffer
 /**
  * Send text message to training conversation
  */
-export function sendTextToTraining(ws: WebSocket, text: string) {
-  if (ws.readyState === WebSocket.OPEN) {
-    ws.send(JSON.stringify({
-      type: 'text',
-      text: text
-    }));
-  }
+export function sendTextToTraining(ws: TrainingSocket, text: string) {
+  sendClientMessage(ws, { type: 'text', text });
 }
 
+
+/**
+ * Open a streamed utterance (hands-free mode).
+ * Binary frames sent after this are appended to the same utterance until
+ * endAudioStream, so the server can start transcribing before the student
+ * has finished speaking.
+ */
+export function startAudioStream(ws: TrainingSocket, mimeType: string) {
+  sendClientMessage(ws, { type: 'audio_stream_start', mime_type: mimeType });
+}
+
+/**
+ * Close the current streamed utterance so the server responds to it
+ */
+export function endAudioStream(ws: TrainingSocket, reason: string = 'silence') {
+  sendClientMessage(ws, { type: 'audio_stream_end', reason });
+}
+
+export interface PatientInterruptedMessage {
+  /** Seconds of the current patient clip that had played when the student cut in */
+  played_seconds: number;
+  /** Patient response text that was cut off, if known */
+  interrupted_text?: string | null;
+}
+
+/**
+ * Tell the server the student talked over the patient (barge-in), so it can
+ * stop generating the rest of the reply and note the interruption in the
+ * transcript used for evaluation.
+ */
+export function sendInterruptToTraining(ws: TrainingSocket, details: PatientInterruptedMessage) {
+  sendClientMessage(ws, { type: 'patient_interrupted', ...details });
+}
@@ -0,0 +1,353 @@
+/**
+ * Reconnecting training conversation socket
+ * Wraps connectToTrainingConversation with exponential-backoff reconnects, a
+ * resume handshake that re-attaches to the same session, an outbox for frames
+ * sent while offline, and heartbeat pings to catch half-open sockets.
+ * Also tracks the protocol version the server agreed to on each connect.
+ */
+
+import {
+  connectToTrainingConversation,
+  sendClientMessage,
+  TrainingMessageHandler,
+  TrainingSocket,
+} from './trainingApi'
+import { isSupportedProtocolVersion, LEGACY_PROTOCOL_VERSION } from './trainingProtocol'
+
+export type TrainingConnectionState = 'connecting' | 'open' | 'reconnecting' | 'closed'
+
+export interface TrainingConnectionHandlers {
+  onMessage: TrainingMessageHandler
+  onAudio: (audioBlob: Blob) => void
+  /** `attempt` is the reconnect attempt number, 0 once connected */
+  onStateChange?: (state: TrainingConnectionState, attempt: number) => void
+  /** Reconnecting failed for good, or the server refused the connection */
+  onGiveUp?: (error: Error) => void
+  /** An outgoing frame was discarded because the offline buffer was full */
+  onFrameDropped?: (bytes: number) => void
+}
+
+export interface TrainingConnectionOptions {
+  initialDelayMs: number
+  maxDelayMs: number
+  maxAttempts: number
+  heartbeatIntervalMs: number
+  /** Cap on audio/text buffered while offline; newer frames are dropped past it */
+  maxBufferedBytes: number
+}
+
+export const DEFAULT_CONNECTION_OPTIONS: TrainingConnectionOptions = {
+  initialDelayMs: 500,
+  maxDelayMs: 10000,
+  maxAttempts: 8,
+  heartbeatIntervalMs: 15000,
+  maxBufferedBytes: 5 * 1024 * 1024,
+}
+
+// The server ended the session normally - nothing to resume
+const NORMAL_CLOSURE = 1000
+// Auth rejected - retrying with the same credentials won't help
+const POLICY_VIOLATION = 1008
+
+type OutgoingFrame = string | Blob | ArrayBuffer
+
+export interface TrainingConnection extends TrainingSocket {
+  readonly state: TrainingConnectionState
+  /** Version the server confirmed, or the legacy version if it didn't say */
+  readonly protocolVersion: number
+  /** Stop reconnecting and close the socket */
+  close: () => void
+}
+
+function frameSize(frame: OutgoingFrame): number {
+  if (typeof frame === 'string') return frame.length
+  if (frame instanceof Blob) return frame.size
+  return frame.byteLength
+}
+
+export async function openTrainingConnection(
+  sessionId: string,
+  handlers: TrainingConnectionHandlers,
+  options: Partial<TrainingConnectionOptions> = {}
+): Promise<TrainingConnection> {
+  const config = { ...DEFAULT_CONNECTION_OPTIONS, ...options }
+
+  let socket: WebSocket | null = null
+  // Bumped whenever a socket is abandoned so its late events are ignored
+  let generation = 0
+  let state: TrainingConnectionState = 'connecting'
+  let closedByClient = false
+  let attempt = 0
+  let reconnectTimer: ReturnType<typeof setTimeout> | null = null
+  let heartbeatTimer: ReturnType<typeof setInterval> | null = null
+  let lastInboundAt = Date.now()
+  // Servers that never answer a ping are not held to the heartbeat timeout
+  let serverAnswersPings = false
+  let protocolVersion = LEGACY_PROTOCOL_VERSION
+  const outbox: OutgoingFrame[] = []
+  let outboxBytes = 0
+
+  const setState = (next: TrainingConnectionState) => {
+    state = next
+    handlers.onStateChange?.(next, attempt)
+  }
+
+  const flushOutbox = () => {
+    if (outbox.length > 0) {
+      console.log('[TrainingConnection] Flushing', outbox.length, 'buffered frames')
+    }
+    while (socket && socket.readyState === WebSocket.OPEN && outbox.length > 0) {
+      const frame = outbox.shift()!
+      outboxBytes -= frameSize(frame)
+      socket.send(frame)
+    }
+  }
+
+  const stopHeartbeat = () => {
+    if (heartbeatTimer) {
+      clearInterval(heartbeatTimer)
+      heartbeatTimer = null
+    }
+  }
+
+  const startHeartbeat = () => {
+    stopHeartbeat()
+    heartbeatTimer = setInterval(() => {
+      if (!socket || socket.readyState !== WebSocket.OPEN) return
+      if (serverAnswersPings && Date.now() - lastInboundAt > config.heartbeatIntervalMs * 2) {
+        console.warn('[TrainingConnection] No traffic since', new Date(lastInboundAt).toISOString(), '- socket looks half-open')
+        dropSocket('Heartbeat timeout')
+        return
+      }
+      sendClientMessage(socket, { type: 'ping', ts: Date.now() })
+    }, config.heartbeatIntervalMs)
+  }
+
+  // Once closed for good, a later `online` event must not revive the connection
+  // and buffered frames belong to a session that is over
+  const releaseResources = () => {
+    closedByClient = true
+    window.removeEventListener('online', handleOnline)
+    window.removeEventListener('offline', handleOffline)
+    if (reconnectTimer) {
+      clearTimeout(reconnectTimer)
+      reconnectTimer = null
+    }
+    stopHeartbeat()
+    outbox.length = 0
+    outboxBytes = 0
+  }
+
+  const giveUp = (error: Error) => {
+    releaseResources()
+    setState('closed')
+    handlers.onGiveUp?.(error)
+  }
+
+  // A version mismatch won't fix itself on reconnect, so stop for good
+  const rejectProtocol = (message: string) => {
+    console.error('[TrainingConnection] Protocol negotiation failed:', message)
+    closedByClient = true
+    const stale = socket
+    socket = null
+    generation += 1
+    stale?.close(NORMAL_CLOSURE, 'Unsupported protocol version')
+    giveUp(new Error('This version of the app can no longer talk to the training server. Please refresh the page.'))
+  }
+
+  const scheduleReconnect = () => {
+    if (closedByClient || reconnectTimer) return
+
+    // No point burning attempts while the browser knows it is offline
+    if (typeof navigator !== 'undefined' && navigator.onLine === false) {
+      console.log('[TrainingConnection] Offline - waiting for the network to come back')
+      setState('reconnecting')
+      return
+    }
+
+    if (attempt >= config.maxAttempts) {
+      giveUp(new Error('Connection lost. Please check your network and start a new session.'))
+      return
+    }
+
+    attempt += 1
+    const backoff = Math.min(config.maxDelayMs, config.initialDelayMs * 2 ** (attempt - 1))
+    const delay = Math.round(backoff * (0.8 + Math.random() * 0.4))
+    console.log(`[TrainingConnection] Reconnect attempt ${attempt}/${config.maxAttempts} in ${delay}ms`)
+    setState('reconnecting')
+
+    reconnectTimer = setTimeout(() => {
+      reconnectTimer = null
+      connect(true).catch((err) => {
+        console.error('[TrainingConnection] Reconnect failed:', err)
+        scheduleReconnect()
+      })
+    }, delay)
+  }
+
+  // Abandon the current socket without waiting for a close handshake that may never come
+  function dropSocket(reason: string) {
+    const stale = socket
+    generation += 1
+    socket = null
+    stopHeartbeat()
+    try {
+      stale?.close(4000, reason)
+    } catch (err) {
+      console.warn('[TrainingConnection] Failed to close stale socket:', err)
+    }
+    scheduleReconnect()
+  }
+
+  async function connect(resume: boolean) {
+    const socketGeneration = ++generation
+    const isCurrent = () => socketGeneration === generation && !closedByClient
+
+    const ws = await connectToTrainingConversation(
+      sessionId,
+      (data) => {
+        if (!isCurrent()) return
+        lastInboundAt = Date.now()
+        if (data.type === 'pong') {
+          serverAnswersPings = true
+          return
+        }
+        if (data.type === 'status' && data.protocol_version !== undefined) {
+          if (!isSupportedProtocolVersion(data.protocol_version)) {
+            rejectProtocol(`server chose unsupported version ${data.protocol_version}`)
+            return
+          }
+          protocolVersion = data.protocol_version
+        }
+        if (data.type === 'error' && data.code === 'unsupported_protocol') {
+          rejectProtocol(data.message)
+          return
+        }
+        handlers.onMessage(data)
+      },
+      (audioBlob) => {
+        if (!isCurrent()) return
+        lastInboundAt = Date.now()
+        handlers.onAudio(audioBlob)
+      },
+      (error) => {
+        // A close event always follows; reconnect decisions are made there
+        if (isCurrent()) {
+          console.warn('[TrainingConnection] Socket error:', error.message)
+        }
+      },
+      {
+        onOpen: () => {
+          if (!isCurrent()) return
+          attempt = 0
+          lastInboundAt = Date.now()
+          // Re-negotiated on every socket; the hello frame has already gone out
+          protocolVersion = LEGACY_PROTOCOL_VERSION
+          if (resume) {
+            console.log('[TrainingConnection] Resuming session:', sessionId)
+            sendClientMessage(ws, { type: 'resume', session_id: sessionId })
+          }
+          flushOutbox()
+          startHeartbeat()
+          setState('open')
+        },
+        onClose: (event) => {
+          if (!isCurrent()) {
+            if (closedByClient) setState('closed')
+            return
+          }
+          socket = null
+          stopHeartbeat()
+          if (event.code === NORMAL_CLOSURE) {
+            setState('closed')
+            return
+          }
+          if (event.code === POLICY_VIOLATION) {
+            giveUp(new Error(event.reason || 'The server rejected the connection. Please sign in again.'))
+            return
+          }
+          scheduleReconnect()
+        },
+      }
+    )
+
+    if (isCurrent()) {
+      socket = ws
+    } else {
+      ws.close()
+    }
+  }
+
+  const handleOnline = () => {
+    if (closedByClient || state !== 'reconnecting' || socket) return
+    console.log('[TrainingConnection] Network is back, reconnecting now')
+    if (reconnectTimer) {
+      clearTimeout(reconnectTimer)
+      reconnectTimer = null
+    }
+    // A flapping network spends the same attempt budget as timed retries
+    if (attempt >= config.maxAttempts) {
+      giveUp(new Error('Connection lost. Please check your network and start a new session.'))
+      return
+    }
+    attempt += 1
+    connect(true).catch((err) => {
+      console.error('[TrainingConnection] Reconnect failed:', err)
+      scheduleReconnect()
+    })
+  }
+
+  const handleOffline = () => {
+    if (closedByClient || !socket) return
+    console.warn('[TrainingConnection] Browser went offline')
+    dropSocket('Browser offline')
+  }
+
+  window.addEventListener('online', handleOnline)
+  window.addEventListener('offline', handleOffline)
+
+  try {
+    await connect(false)
+  } catch (err) {
+    window.removeEventListener('online', handleOnline)
+    window.removeEventListener('offline', handleOffline)
+    throw err
+  }
+
+  return {
+    get state() {
+      return state
+    },
+    get protocolVersion() {
+      return protocolVersion
+    },
+    // Reports OPEN while frames can still be accepted (sent now or buffered for the resume)
+    get readyState() {
+      return state === 'closed' ? WebSocket.CLOSED : WebSocket.OPEN
+    },
+    send: (frame: OutgoingFrame) => {
+      if (state === 'closed') return
+      if (socket && socket.readyState === WebSocket.OPEN && outbox.length === 0) {
+        socket.send(frame)
+        return
+      }
+      const size = frameSize(frame)
+      if (outboxBytes + size > config.maxBufferedBytes) {
+        console.warn('[TrainingConnection] Offline buffer full, dropping frame of', size, 'bytes')
+        handlers.onFrameDropped?.(size)
+        return
+      }
+      outbox.push(frame)
+      outboxBytes += size
+    },
+    close: () => {
+      releaseResources()
+      if (socket) {
+        socket.close()
+        socket = null
+      } else {
+        setState('closed')
+      }
+    },
+  }
+}
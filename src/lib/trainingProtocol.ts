@@ -0,0 +1,166 @@
+/**
+ * Training conversation WebSocket protocol
+ * Schemas for every JSON frame exchanged on the training socket, validated at
+ * runtime in both directions. The client announces the versions it speaks in
+ * a `hello` frame; the server answers with the version it picked in its
+ * `status` frame. Servers that predate negotiation omit it and are treated as
+ * version 1, which carries the same messages.
+ */
+
+import { z } from 'zod'
+
+export const PROTOCOL_VERSION = 2
+export const SUPPORTED_PROTOCOL_VERSIONS = [1, 2]
+/** Assumed when the server doesn't report a version */
+export const LEGACY_PROTOCOL_VERSION = 1
+
+const encounterStateSchema = z.object({
+  type: z.literal('encounter_state'),
+  // Kept as a string: the hook normalises spellings and ignores phases it doesn't know
+  state: z.string(),
+})
+
+export const serverMessageSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('status'),
+    message: z.string(),
+    protocol_version: z.number().int().positive().optional(),
+  }),
+  z.object({
+    type: z.literal('error'),
+    message: z.string(),
+    /** Machine-readable reason, e.g. `session_not_found`, `unsupported_protocol` */
+    code: z.string().optional(),
+    /** False when the session cannot continue */
+    recoverable: z.boolean().optional(),
+  }),
+  z.object({
+    type: z.literal('pong'),
+    ts: z.number().optional(),
+  }),
+  encounterStateSchema,
+  // Coverage of a lecture simulation's expected actions / key concerns, by list position
+  z.object({
+    type: z.literal('checklist_progress'),
+    kind: z.enum(['expected_action', 'key_concern']),
+    index: z.number().int().nonnegative(),
+    covered: z.boolean(),
+    evidence: z.string().optional(),
+  }),
+  z.object({
+    type: z.literal('student_transcript'),
+    text: z.string(),
+    is_final: z.boolean().optional(),
+  }),
+  z.object({
+    type: z.literal('ai_response_partial'),
+    text: z.string(),
+  }),
+  z.object({
+    type: z.literal('ai_response_text'),
+    text: z.string(),
+  }),
+  // Describes the binary audio frame that follows it
+  z.object({
+    type: z.literal('audio_metadata'),
+    mime_type: z.string(),
+    duration_ms: z.number().nonnegative().optional(),
+    sequence: z.number().int().nonnegative().optional(),
+  }),
+])
+
+export const clientMessageSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('hello'),
+    protocol_version: z.number().int().positive(),
+    supported_versions: z.array(z.number().int().positive()),
+  }),
+  z.object({
+    type: z.literal('text'),
+    text: z.string().min(1),
+  }),
+  z.object({
+    type: z.literal('audio_stream_start'),
+    mime_type: z.string(),
+  }),
+  z.object({
+    type: z.literal('audio_stream_end'),
+    reason: z.string(),
+  }),
+  z.object({
+    type: z.literal('patient_interrupted'),
+    played_seconds: z.number().nonnegative(),
+    interrupted_text: z.string().nullable().optional(),
+  }),
+  z.object({
+    type: z.literal('resume'),
+    session_id: z.string(),
+  }),
+  z.object({
+    type: z.literal('ping'),
+    ts: z.number(),
+  }),
+])
+
+export type ServerMessage = z.infer<typeof serverMessageSchema>
+export type ClientMessage = z.infer<typeof clientMessageSchema>
+export type ServerMessageType = ServerMessage['type']
+
+const SERVER_MESSAGE_TYPES = new Set<string>(
+  serverMessageSchema.options.map((option) => option.shape.type.value)
+)
+
+export type ParsedServerFrame =
+  | { kind: 'message'; message: ServerMessage }
+  /** Well-formed, but a type this client doesn't know (newer server) */
+  | { kind: 'unknown'; type: string }
+  | { kind: 'invalid'; reason: string }
+
+export function parseServerFrame(raw: string): ParsedServerFrame {
+  let data: unknown
+  try {
+    data = JSON.parse(raw)
+  } catch {
+    return { kind: 'invalid', reason: 'Frame is not valid JSON' }
+  }
+
+  const type = typeof data === 'object' && data !== null ? (data as { type?: unknown }).type : undefined
+  if (typeof type !== 'string') {
+    return { kind: 'invalid', reason: 'Frame has no message type' }
+  }
+  if (!SERVER_MESSAGE_TYPES.has(type)) {
+    return { kind: 'unknown', type }
+  }
+
+  const result = serverMessageSchema.safeParse(data)
+  if (!result.success) {
+    const issue = result.error.issues[0]
+    return { kind: 'invalid', reason: `${type}: ${issue.path.join('.') || 'frame'} ${issue.message}` }
+  }
+  return { kind: 'message', message: result.data }
+}
+
+/**
+ * Validate and serialise an outgoing frame. Returns null (and logs) if the
+ * frame doesn't match the protocol, so a bug never reaches the server.
+ */
+export function serializeClientMessage(message: ClientMessage): string | null {
+  const result = clientMessageSchema.safeParse(message)
+  if (!result.success) {
+    console.error('[TrainingProtocol] Refusing to send invalid frame:', message.type, result.error.issues)
+    return null
+  }
+  return JSON.stringify(result.data)
+}
+
+export function buildHelloMessage(): ClientMessage {
+  return {
+    type: 'hello',
+    protocol_version: PROTOCOL_VERSION,
+    supported_versions: SUPPORTED_PROTOCOL_VERSIONS,
+  }
+}
+
+export function isSupportedProtocolVersion(version: number): boolean {
+  return SUPPORTED_PROTOCOL_VERSIONS.includes(version)
+}
@@ -0,0 +1,225 @@
+/**
+ * Annotated transcript
+ * Places an evaluation's rubric evidence and key moments on the turns of the
+ * conversation they refer to, so feedback can point at where a mark was
+ * earned or lost. The evaluator quotes the student loosely, so matching is
+ * best effort: exact quotes first, then the most similar turn.
+ */
+
+import type { FacultyComment, OSCEEvaluation, OSCEKeyMoment } from './osceEvaluation'
+import { isCriterionMet, textSimilarity } from './osceEvaluation'
+
+export type TranscriptSpeaker = 'student' | 'patient'
+
+export interface TranscriptTurn {
+  speaker: TranscriptSpeaker
+  text: string
+  /** From the start of the session, when known */
+  offsetMs: number | null
+}
+
+export type AnnotationTone = 'strength' | 'weakness' | 'neutral'
+
+export interface TranscriptAnnotation {
+  id: string
+  source: 'rubric' | 'key_moment'
+  /** Rubric: "Category · Criterion"; key moment: the evaluator's note */
+  label: string
+  detail: string
+  tone: AnnotationTone
+  turnIndex: number | null
+  /** Character range within the turn's text; null highlights the whole turn */
+  range: { start: number; end: number } | null
+}
+
+export interface HighlightSegment {
+  text: string
+  annotationIds: string[]
+  tone: AnnotationTone | null
+}
+
+// Loose quotes and paraphrases: how similar a turn must be to count as the evidence
+const MIN_TURN_SIMILARITY = 0.25
+const MIN_QUOTE_LENGTH = 8
+// Enough of a turn to recognise it in a list and to re-anchor a reference to it
+const EXCERPT_LENGTH = 80
+
+export const turnExcerpt = (text: string) => (text.length > EXCERPT_LENGTH ? `${text.slice(0, EXCERPT_LENGTH)}…` : text)
+
+export const humanizeKey = (key: string) => key.replace(/_/g, ' ').replace(/\b\w/g, (letter) => letter.toUpperCase())
+
+function toSpeaker(value: unknown): TranscriptSpeaker {
+  const speaker = String(value ?? '').toLowerCase()
+  return speaker === 'student' || speaker === 'user' || speaker === 'pharmacist' ? 'student' : 'patient'
+}
+
+/**
+ * The stored conversation comes either as a bare list of turns or wrapped in
+ * `{ transcript }`, with server timestamps in seconds from the session start.
+ */
+export function normalizeTranscript(conversationData: unknown): TranscriptTurn[] {
+  const raw = Array.isArray(conversationData)
+    ? conversationData
+    : (conversationData as { transcript?: unknown } | null)?.transcript
+  if (!Array.isArray(raw)) return []
+
+  return raw
+    .map((entry): TranscriptTurn | null => {
+      if (!entry || typeof entry !== 'object') return null
+      const turn = entry as Record<string, unknown>
+      const text = turn.text ?? turn.content ?? turn.message
+      if (typeof text !== 'string' || !text.trim()) return null
+      return {
+        speaker: toSpeaker(turn.speaker ?? turn.role),
+        text,
+        offsetMs: typeof turn.timestamp === 'number' ? turn.timestamp * 1000 : null,
+      }
+    })
+    .filter((turn): turn is TranscriptTurn => turn !== null)
+}
+
+/**
+ * Full transcript for a finished session: the server's copy, falling back to
+ * a recording kept on this device. Empty when neither is available.
+ */
+export async function loadSessionTranscript(sessionId: string): Promise<TranscriptTurn[]> {
+  const [{ getTrainingSession }, { getSessionRecording }] = await Promise.all([
+    import('./trainingApi'),
+    import('./sessionRecording'),
+  ])
+
+  try {
+    const session = await getTrainingSession(sessionId)
+    const turns = normalizeTranscript(session.conversation_data)
+    if (turns.length > 0) return turns
+  } catch (error) {
+    console.warn('[Transcript] Session transcript unavailable:', error)
+  }
+
+  const recording = await getSessionRecording(sessionId).catch(() => null)
+  return (recording?.transcript ?? [])
+    .filter((turn) => turn.text.trim())
+    .map((turn) => ({ speaker: turn.speaker, text: turn.text, offsetMs: turn.offsetMs }))
+}
+
+/** Quoted fragments in an evidence string, e.g. `Asked "any other medicines?"` */
+function extractQuotes(text: string): string[] {
+  const quotes: string[] = []
+  const pattern = /["“]([^"“”]{3,}?)["”]/g
+  let match: RegExpExecArray | null
+  while ((match = pattern.exec(text)) !== null) {
+    if (match[1].trim().length >= MIN_QUOTE_LENGTH) quotes.push(match[1].trim())
+  }
+  return quotes
+}
+
+function locate(
+  texts: string[],
+  turns: TranscriptTurn[],
+  speaker?: TranscriptSpeaker
+): Pick<TranscriptAnnotation, 'turnIndex' | 'range'> {
+  const candidates = turns
+    .map((turn, index) => ({ turn, index }))
+    .filter(({ turn }) => !speaker || turn.speaker === speaker)
+
+  for (const text of texts) {
+    const needle = text.toLowerCase().replace(/[.…]+$/, '').trim()
+    if (needle.length < MIN_QUOTE_LENGTH) continue
+    for (const { turn, index } of candidates) {
+      const start = turn.text.toLowerCase().indexOf(needle)
+      if (start !== -1) return { turnIndex: index, range: { start, end: start + needle.length } }
+    }
+  }
+
+  let best: { index: number; score: number } | null = null
+  for (const text of texts) {
+    for (const { turn, index } of candidates) {
+      const score = textSimilarity(text, turn.text)
+      if (score >= MIN_TURN_SIMILARITY && (!best || score > best.score)) best = { index, score }
+    }
+  }
+  return best ? { turnIndex: best.index, range: null } : { turnIndex: null, range: null }
+}
+
+/** Key moments carry no verdict; borrow it from the written feedback they resemble */
+function keyMomentTone(moment: OSCEKeyMoment, evaluation: OSCEEvaluation): AnnotationTone {
+  const closest = (lines: string[]) => Math.max(0, ...lines.map((line) => textSimilarity(moment.note, line)))
+  const strength = closest(evaluation.feedback?.strengths ?? [])
+  const weakness = closest([...(evaluation.feedback?.weaknesses ?? []), ...(evaluation.feedback?.improvements ?? [])])
+  if (strength === weakness) return 'neutral'
+  return strength > weakness ? 'strength' : 'weakness'
+}
+
+export const rubricAnnotationId = (category: string, criterion: string) => `rubric-${category}-${criterion}`
+
+export function annotateTranscript(evaluation: OSCEEvaluation, turns: TranscriptTurn[]): TranscriptAnnotation[] {
+  const rubric = Object.entries(evaluation.categories ?? {}).flatMap(([category, detail]) => {
+    return Object.entries(detail.breakdown ?? {}).map(([criterion, item]): TranscriptAnnotation => {
+      const evidence = item.evidence ?? ''
+      const quotes = extractQuotes(evidence)
+      return {
+        id: rubricAnnotationId(category, criterion),
+        source: 'rubric',
+        label: `${humanizeKey(category)} · ${humanizeKey(criterion)}`,
+        detail: evidence,
+        tone: isCriterionMet(detail, item.score) ? 'strength' : 'weakness',
+        ...(evidence ? locate(quotes.length > 0 ? quotes : [evidence], turns, 'student') : { turnIndex: null, range: null }),
+      }
+    })
+  })
+
+  const moments = (evaluation.key_moments ?? []).map((moment, index): TranscriptAnnotation => ({
+    id: `moment-${index}`,
+    source: 'key_moment',
+    label: moment.note || 'Key moment',
+    detail: moment.text,
+    tone: keyMomentTone(moment, evaluation),
+    ...locate([moment.text.replace(/["“”]/g, '')], turns, moment.speaker ? toSpeaker(moment.speaker) : undefined),
+  }))
+
+  return [...rubric, ...moments]
+}
+
+/**
+ * The turn a faculty comment belongs to. The stored index is trusted when the
+ * turn still starts with the saved excerpt; otherwise the excerpt is searched for.
+ */
+export function resolveCommentTurn(comment: FacultyComment, turns: TranscriptTurn[]): number | null {
+  if (comment.turn_index === null) return null
+  const excerpt = comment.turn_excerpt?.replace(/…$/, '').trim().toLowerCase()
+  if (!excerpt) return comment.turn_index < turns.length ? comment.turn_index : null
+  const matches = (index: number) => turns[index]?.text.trim().toLowerCase().startsWith(excerpt) ?? false
+  if (matches(comment.turn_index)) return comment.turn_index
+  const index = turns.findIndex((_, i) => matches(i))
+  return index === -1 ? null : index
+}
+
+/**
+ * Split a turn into plain and highlighted runs. Overlapping highlights share
+ * a run; a weakness wins the colour so problems are never hidden.
+ */
+export function segmentTurn(text: string, annotations: TranscriptAnnotation[]): HighlightSegment[] {
+  const ranged = annotations.map((annotation) => ({
+    annotation,
+    start: annotation.range?.start ?? 0,
+    end: annotation.range?.end ?? text.length,
+  }))
+  const bounds = Array.from(new Set([0, text.length, ...ranged.flatMap(({ start, end }) => [start, end])])).sort(
+    (a, b) => a - b
+  )
+
+  const segments: HighlightSegment[] = []
+  for (let i = 0; i < bounds.length - 1; i++) {
+    const [start, end] = [bounds[i], bounds[i + 1]]
+    const covering = ranged.filter((item) => item.start <= start && end <= item.end).map((item) => item.annotation)
+    const tone = covering.length === 0
+      ? null
+      : covering.some((annotation) => annotation.tone === 'weakness')
+        ? 'weakness'
+        : covering.some((annotation) => annotation.tone === 'strength')
+          ? 'strength'
+          : 'neutral'
+    segments.push({ text: text.slice(start, end), annotationIds: covering.map((annotation) => annotation.id), tone })
+  }
+  return segments
+}
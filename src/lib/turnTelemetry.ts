@@ -0,0 +1,165 @@
+/**
+ * Per-turn training telemetry
+ * Measures what the student experiences on each exchange: how much audio was
+ * uploaded, how long until the patient's first audio arrived after the student
+ * finished, how long decoding took, gaps during playback and anything lost on
+ * the way. A summary goes to the server when the session ends so slow
+ * sessions can be investigated.
+ */
+
+export type TurnInput = 'voice' | 'text'
+
+export interface TurnMetrics {
+  turn: number
+  input: TurnInput
+  /** Wall-clock time the student finished speaking or sent their message */
+  studentEndedAt: number
+  uploadBytes: number
+  timeToFirstTextMs: number | null
+  timeToFirstAudioMs: number | null
+  audioChunks: number
+  /** Chunks that were actually decoded; muted or skipped ones have no decode time */
+  decodedChunks: number
+  decodeMs: number
+  playbackGaps: number
+  playbackGapMs: number
+  droppedChunks: number
+}
+
+export interface TelemetrySummary {
+  turns: number
+  median_time_to_first_audio_ms: number | null
+  p90_time_to_first_audio_ms: number | null
+  max_time_to_first_audio_ms: number | null
+  median_time_to_first_text_ms: number | null
+  avg_decode_ms: number | null
+  total_upload_bytes: number
+  playback_gaps: number
+  playback_gap_ms: number
+  dropped_chunks: number
+  reconnects: number
+  per_turn: TurnMetrics[]
+}
+
+export interface TurnTelemetry {
+  /** Student finished a turn; patient output from now on belongs to it */
+  startTurn: (input: TurnInput, uploadBytes: number) => void
+  /** Streamed audio is uploaded before the turn ends, so it is added as it goes */
+  addUploadBytes: (bytes: number) => void
+  markFirstText: () => void
+  markAudioReceived: () => void
+  recordDecode: (ms: number) => void
+  /** A patient clip started playing; a gap is counted if the previous one ended earlier in the same reply */
+  markPlaybackStarted: () => void
+  markPlaybackEnded: () => void
+  recordDroppedChunk: () => void
+  recordReconnect: () => void
+  getTurns: () => TurnMetrics[]
+  getReconnects: () => number
+  summarize: () => TelemetrySummary
+}
+
+// Under this the listener doesn't notice a gap between clips
+const GAP_THRESHOLD_MS = 150
+
+function percentile(values: number[], fraction: number): number | null {
+  if (values.length === 0) return null
+  const sorted = [...values].sort((a, b) => a - b)
+  const index = Math.min(sorted.length - 1, Math.ceil(fraction * sorted.length) - 1)
+  return Math.round(sorted[Math.max(0, index)])
+}
+
+export function createTurnTelemetry(): TurnTelemetry {
+  const turns: TurnMetrics[] = []
+  let current: TurnMetrics | null = null
+  let pendingUploadBytes = 0
+  let lastPlaybackEndedAt: number | null = null
+  let reconnects = 0
+  // Dropped before the first turn (e.g. the patient's greeting) still count
+  let orphanDroppedChunks = 0
+
+  return {
+    startTurn: (input, uploadBytes) => {
+      current = {
+        turn: turns.length + 1,
+        input,
+        studentEndedAt: Date.now(),
+        uploadBytes: pendingUploadBytes + uploadBytes,
+        timeToFirstTextMs: null,
+        timeToFirstAudioMs: null,
+        audioChunks: 0,
+        decodedChunks: 0,
+        decodeMs: 0,
+        playbackGaps: 0,
+        playbackGapMs: 0,
+        droppedChunks: 0,
+      }
+      turns.push(current)
+      pendingUploadBytes = 0
+      lastPlaybackEndedAt = null
+    },
+    addUploadBytes: (bytes) => {
+      pendingUploadBytes += bytes
+    },
+    markFirstText: () => {
+      if (current && current.timeToFirstTextMs === null) {
+        current.timeToFirstTextMs = Date.now() - current.studentEndedAt
+      }
+    },
+    markAudioReceived: () => {
+      if (!current) return
+      current.audioChunks += 1
+      if (current.timeToFirstAudioMs === null) {
+        current.timeToFirstAudioMs = Date.now() - current.studentEndedAt
+      }
+    },
+    recordDecode: (ms) => {
+      if (!current) return
+      current.decodedChunks += 1
+      current.decodeMs += Math.round(ms)
+    },
+    markPlaybackStarted: () => {
+      if (current && lastPlaybackEndedAt !== null) {
+        const gap = Date.now() - lastPlaybackEndedAt
+        if (gap >= GAP_THRESHOLD_MS) {
+          current.playbackGaps += 1
+          current.playbackGapMs += gap
+        }
+      }
+      lastPlaybackEndedAt = null
+    },
+    markPlaybackEnded: () => {
+      lastPlaybackEndedAt = Date.now()
+    },
+    recordDroppedChunk: () => {
+      if (current) current.droppedChunks += 1
+      else orphanDroppedChunks += 1
+    },
+    recordReconnect: () => {
+      reconnects += 1
+    },
+    getTurns: () => turns.map((turn) => ({ ...turn })),
+    getReconnects: () => reconnects,
+    summarize: () => {
+      const firstAudio = turns.flatMap((turn) => (turn.timeToFirstAudioMs === null ? [] : [turn.timeToFirstAudioMs]))
+      const firstText = turns.flatMap((turn) => (turn.timeToFirstTextMs === null ? [] : [turn.timeToFirstTextMs]))
+      const decodedChunks = turns.reduce((sum, turn) => sum + turn.decodedChunks, 0)
+      return {
+        turns: turns.length,
+        median_time_to_first_audio_ms: percentile(firstAudio, 0.5),
+        p90_time_to_first_audio_ms: percentile(firstAudio, 0.9),
+        max_time_to_first_audio_ms: firstAudio.length > 0 ? Math.max(...firstAudio) : null,
+        median_time_to_first_text_ms: percentile(firstText, 0.5),
+        avg_decode_ms: decodedChunks > 0
+          ? Math.round(turns.reduce((sum, turn) => sum + turn.decodeMs, 0) / decodedChunks)
+          : null,
+        total_upload_bytes: turns.reduce((sum, turn) => sum + turn.uploadBytes, 0) + pendingUploadBytes,
+        playback_gaps: turns.reduce((sum, turn) => sum + turn.playbackGaps, 0),
+        playback_gap_ms: turns.reduce((sum, turn) => sum + turn.playbackGapMs, 0),
+        dropped_chunks: turns.reduce((sum, turn) => sum + turn.droppedChunks, 0) + orphanDroppedChunks,
+        reconnects,
+        per_turn: turns.map((turn) => ({ ...turn })),
+      }
+    },
+  }
+}
@@ -53,4 +53,27 @@ export function formatScenarioTitle(title: string | null | undefined): string {
   return formattedWords.join(' ')
 }
 
-
+/**
+ * Map over items with at most `limit` calls in flight, keeping results in input order.
+ * Items whose call throws resolve to null so one failure doesn't lose the rest.
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T) => Promise<R>
+): Promise<(R | null)[]> {
+  const results: (R | null)[] = new Array(items.length).fill(null)
+  let next = 0
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++
+      try {
+        results[index] = await fn(items[index])
+      } catch (error) {
+        console.warn('[mapWithConcurrency] Item failed:', error)
+      }
+    }
+  }
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker))
+  return results
+}
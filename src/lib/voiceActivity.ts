@@ -0,0 +1,141 @@
+/**
+ * Client-side voice activity detection
+ * Energy-based detector that watches a microphone stream and reports when the
+ * speaker starts and finishes an utterance. Used by hands-free training to
+ * decide when to open and close an audio stream to the server.
+ */
+
+export interface VoiceActivityOptions {
+  /** RMS level (0-1) above which a frame counts as speech */
+  speechThreshold: number
+  /** Continuous silence after speech before the utterance is considered finished */
+  silenceDurationMs: number
+  /** Continuous speech required before an utterance starts (filters clicks and coughs) */
+  minSpeechDurationMs: number
+  /** Hard cap so background noise cannot hold an utterance open forever */
+  maxUtteranceMs: number
+  /** How often the level is sampled */
+  frameIntervalMs: number
+}
+
+export const DEFAULT_VAD_OPTIONS: VoiceActivityOptions = {
+  speechThreshold: 0.02,
+  silenceDurationMs: 900,
+  minSpeechDurationMs: 120,
+  maxUtteranceMs: 30000,
+  frameIntervalMs: 50,
+}
+
+export type SpeechEndReason = 'silence' | 'max_duration'
+
+export interface VoiceActivityCallbacks {
+  onSpeechStart: () => void
+  onSpeechEnd: (reason: SpeechEndReason) => void
+  /** Current RMS level, reported every frame */
+  onLevel?: (level: number) => void
+}
+
+export interface VoiceActivityDetector {
+  /** Ignore input entirely; ends any utterance in progress */
+  setPaused: (paused: boolean) => void
+  /**
+   * Multiply the speech threshold, e.g. while the patient is talking so that
+   * speaker bleed is ignored but a deliberate interruption still registers
+   */
+  setThresholdScale: (scale: number) => void
+  isSpeaking: () => boolean
+  /** Stop sampling and disconnect from the audio graph. Does not stop the stream's tracks. */
+  stop: () => void
+}
+
+/**
+ * Root-mean-square level of a time-domain frame, in the 0-1 range
+ */
+function computeRms(samples: Float32Array): number {
+  let sum = 0
+  for (let i = 0; i < samples.length; i++) {
+    sum += samples[i] * samples[i]
+  }
+  return Math.sqrt(sum / samples.length)
+}
+
+export function createVoiceActivityDetector(
+  audioContext: AudioContext,
+  stream: MediaStream,
+  callbacks: VoiceActivityCallbacks,
+  options: Partial<VoiceActivityOptions> = {}
+): VoiceActivityDetector {
+  const config = { ...DEFAULT_VAD_OPTIONS, ...options }
+
+  const source = audioContext.createMediaStreamSource(stream)
+  const analyser = audioContext.createAnalyser()
+  analyser.fftSize = 1024
+  source.connect(analyser)
+  const frame = new Float32Array(analyser.fftSize)
+
+  let speaking = false
+  let paused = false
+  let thresholdScale = 1
+  let speechMs = 0
+  let silenceMs = 0
+  let utteranceMs = 0
+
+  const endUtterance = (reason: SpeechEndReason) => {
+    speaking = false
+    speechMs = 0
+    silenceMs = 0
+    utteranceMs = 0
+    callbacks.onSpeechEnd(reason)
+  }
+
+  const tick = () => {
+    if (paused) return
+
+    analyser.getFloatTimeDomainData(frame)
+    const level = computeRms(frame)
+    callbacks.onLevel?.(level)
+    const isSpeechFrame = level >= config.speechThreshold * thresholdScale
+
+    if (!speaking) {
+      speechMs = isSpeechFrame ? speechMs + config.frameIntervalMs : 0
+      if (speechMs >= config.minSpeechDurationMs) {
+        speaking = true
+        silenceMs = 0
+        utteranceMs = speechMs
+        callbacks.onSpeechStart()
+      }
+      return
+    }
+
+    utteranceMs += config.frameIntervalMs
+    silenceMs = isSpeechFrame ? 0 : silenceMs + config.frameIntervalMs
+
+    if (silenceMs >= config.silenceDurationMs) {
+      endUtterance('silence')
+    } else if (utteranceMs >= config.maxUtteranceMs) {
+      endUtterance('max_duration')
+    }
+  }
+
+  const interval = setInterval(tick, config.frameIntervalMs)
+
+  return {
+    setPaused: (nextPaused: boolean) => {
+      if (nextPaused === paused) return
+      paused = nextPaused
+      if (paused && speaking) {
+        endUtterance('silence')
+      }
+      speechMs = 0
+    },
+    setThresholdScale: (scale: number) => {
+      thresholdScale = scale
+    },
+    isSpeaking: () => speaking,
+    stop: () => {
+      clearInterval(interval)
+      source.disconnect()
+      analyser.disconnect()
+    },
+  }
+}
@@ -0,0 +1,38 @@
+import { NextResponse, type NextRequest } from 'next/server'
+import {
+  buildLoginUrl,
+  buildVerifyEmailUrl,
+  matchProtectedRoute,
+  parseSessionCookie,
+  SESSION_COOKIE,
+} from '@/lib/authGuard'
+
+/**
+ * Redirect signed-out visitors away from protected routes before the page
+ * renders, preserving where they were going, and unverified accounts away
+ * from routes that need a verified email. Role checks happen client-side in
+ * <RequireAuth>, which has the full user record and repeats the email check.
+ */
+export function middleware(request: NextRequest) {
+  const { pathname, search } = request.nextUrl
+
+  const route = matchProtectedRoute(pathname)
+  if (!route) {
+    return NextResponse.next()
+  }
+
+  const cookie = request.cookies.get(SESSION_COOKIE)?.value
+  if (!cookie) {
+    return NextResponse.redirect(new URL(buildLoginUrl(`${pathname}${search}`), request.url))
+  }
+
+  if (route.requireVerified && parseSessionCookie(cookie).verified === false) {
+    return NextResponse.redirect(new URL(buildVerifyEmailUrl(`${pathname}${search}`), request.url))
+  }
+
+  return NextResponse.next()
+}
+
+export const config = {
+  matcher: ['/((?!_next/static|_next/image|favicon.ico|assets/|images/|api/).*)'],
+}